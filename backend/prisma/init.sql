@@ -34,11 +34,12 @@ CREATE TABLE IF NOT EXISTS "Item" (
   "hsnCode" TEXT,
   "brand" TEXT,
   "unit" TEXT NOT NULL DEFAULT 'pcs',
-  "mrp" REAL NOT NULL,
-  "cost" REAL NOT NULL,
+  "mrp" INTEGER NOT NULL,
+  "cost" INTEGER NOT NULL,
   "reorderLevel" REAL,
   "imageUrl" TEXT,
   "isWeighable" INTEGER NOT NULL DEFAULT 0,
+  "plu" TEXT UNIQUE,
   "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL,
@@ -93,7 +94,8 @@ CREATE TABLE IF NOT EXISTS "PurchaseOrderLine" (
   "purchaseOrderId" INTEGER NOT NULL,
   "itemId" INTEGER NOT NULL,
   "quantity" REAL NOT NULL,
-  "unitCost" REAL NOT NULL,
+  "receivedQuantity" REAL NOT NULL DEFAULT 0,
+  "unitCost" INTEGER NOT NULL,
   "taxId" INTEGER,
   "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
@@ -108,7 +110,8 @@ CREATE TABLE IF NOT EXISTS "GoodsReceipt" (
   "receiptNumber" TEXT NOT NULL UNIQUE,
   "receiptDate" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   "vendorInvoiceNo" TEXT,
-  "totalAmount" REAL NOT NULL,
+  "freight" INTEGER NOT NULL DEFAULT 0,
+  "totalAmount" INTEGER NOT NULL,
   "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY ("purchaseOrderId") REFERENCES "PurchaseOrder" ("id") ON DELETE SET NULL
@@ -118,15 +121,17 @@ CREATE TABLE IF NOT EXISTS "Batch" (
   "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
   "itemId" INTEGER NOT NULL,
   "goodsReceiptId" INTEGER,
+  "purchaseOrderLineId" INTEGER,
   "batchNo" TEXT,
   "expiryDate" DATETIME,
   "manufactureDate" DATETIME,
   "quantity" REAL NOT NULL,
-  "cost" REAL NOT NULL,
+  "cost" INTEGER NOT NULL,
   "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY ("itemId") REFERENCES "Item" ("id") ON DELETE CASCADE,
-  FOREIGN KEY ("goodsReceiptId") REFERENCES "GoodsReceipt" ("id") ON DELETE SET NULL
+  FOREIGN KEY ("goodsReceiptId") REFERENCES "GoodsReceipt" ("id") ON DELETE SET NULL,
+  FOREIGN KEY ("purchaseOrderLineId") REFERENCES "PurchaseOrderLine" ("id") ON DELETE SET NULL
 );
 
 CREATE TABLE IF NOT EXISTS "StockLedger" (
@@ -137,7 +142,7 @@ CREATE TABLE IF NOT EXISTS "StockLedger" (
   "type" TEXT NOT NULL,
   "reference" TEXT,
   "quantity" REAL NOT NULL,
-  "unitCost" REAL,
+  "unitCost" INTEGER,
   "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY ("itemId") REFERENCES "Item" ("id") ON DELETE CASCADE,
@@ -149,41 +154,72 @@ CREATE TABLE IF NOT EXISTS "Promotion" (
   "name" TEXT NOT NULL,
   "promoType" TEXT NOT NULL,
   "value" REAL NOT NULL,
+  "valueType" TEXT NOT NULL DEFAULT 'PERCENT',
   "description" TEXT,
-  "startDate" DATETIME NOT NULL,
-  "endDate" DATETIME NOT NULL,
+  "buyQty" INTEGER,
+  "getQty" INTEGER,
+  "minAmount" INTEGER,
+  "maxDiscount" INTEGER,
+  "categoryId" INTEGER,
+  "startDate" DATETIME,
+  "endDate" DATETIME,
+  "startTime" TEXT,
+  "endTime" TEXT,
+  "days" TEXT,
   "priority" INTEGER NOT NULL DEFAULT 0,
+  "stackable" INTEGER NOT NULL DEFAULT 0,
+  "active" INTEGER NOT NULL DEFAULT 1,
   "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+  "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL
 );
 
 CREATE TABLE IF NOT EXISTS "PromotionItem" (
   "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
   "promotionId" INTEGER NOT NULL,
   "itemId" INTEGER NOT NULL,
-  "quantity" REAL,
   FOREIGN KEY ("promotionId") REFERENCES "Promotion" ("id") ON DELETE CASCADE,
   FOREIGN KEY ("itemId") REFERENCES "Item" ("id") ON DELETE CASCADE
 );
 
+CREATE TABLE IF NOT EXISTS "PromotionTier" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "promotionId" INTEGER NOT NULL,
+  "minQty" REAL NOT NULL,
+  "value" REAL NOT NULL,
+  FOREIGN KEY ("promotionId") REFERENCES "Promotion" ("id") ON DELETE CASCADE
+);
+
 CREATE TABLE IF NOT EXISTS "Receipt" (
   "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
   "receiptNumber" TEXT NOT NULL UNIQUE,
   "date" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   "customerId" INTEGER,
-  "totalBeforeDiscount" REAL NOT NULL,
-  "totalDiscount" REAL NOT NULL,
-  "totalTax" REAL NOT NULL,
-  "totalAmount" REAL NOT NULL,
-  "cgst" REAL NOT NULL,
-  "sgst" REAL NOT NULL,
-  "igst" REAL NOT NULL,
-  "cess" REAL NOT NULL,
+  "totalBeforeDiscount" INTEGER NOT NULL,
+  "totalDiscount" INTEGER NOT NULL,
+  "totalTax" INTEGER NOT NULL,
+  "totalAmount" INTEGER NOT NULL,
+  "roundOff" INTEGER NOT NULL DEFAULT 0,
+  "changeDue" INTEGER NOT NULL DEFAULT 0,
+  "cgst" INTEGER NOT NULL,
+  "sgst" INTEGER NOT NULL,
+  "igst" INTEGER NOT NULL,
+  "cess" INTEGER NOT NULL,
   "status" TEXT NOT NULL DEFAULT 'COMPLETED',
   "holdRef" TEXT,
+  "originalReceiptId" INTEGER,
+  "returnReason" TEXT,
+  "placeOfSupply" TEXT,
+  "customerGstin" TEXT,
+  "terminal" TEXT,
+  "shiftId" INTEGER,
+  "printCount" INTEGER NOT NULL DEFAULT 0,
+  "idempotencyKey" TEXT UNIQUE,
   "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  FOREIGN KEY ("customerId") REFERENCES "Customer" ("id") ON DELETE SET NULL
+  FOREIGN KEY ("customerId") REFERENCES "Customer" ("id") ON DELETE SET NULL,
+  FOREIGN KEY ("originalReceiptId") REFERENCES "Receipt" ("id") ON DELETE SET NULL,
+  FOREIGN KEY ("shiftId") REFERENCES "Shift" ("id") ON DELETE SET NULL
 );
 
 CREATE TABLE IF NOT EXISTS "ReceiptLine" (
@@ -192,15 +228,116 @@ CREATE TABLE IF NOT EXISTS "ReceiptLine" (
   "itemId" INTEGER NOT NULL,
   "batchId" INTEGER,
   "quantity" REAL NOT NULL,
-  "unitPrice" REAL NOT NULL,
-  "discount" REAL NOT NULL DEFAULT 0,
-  "taxAmount" REAL NOT NULL,
-  "lineTotal" REAL NOT NULL,
+  "unitPrice" INTEGER NOT NULL,
+  "discount" INTEGER NOT NULL DEFAULT 0,
+  "taxAmount" INTEGER NOT NULL,
+  "lineTotal" INTEGER NOT NULL,
   "taxRateId" INTEGER,
+  "hsnCode" TEXT,
+  "gstRate" REAL NOT NULL DEFAULT 0,
+  "cessRate" REAL NOT NULL DEFAULT 0,
+  "cessAmount" INTEGER NOT NULL DEFAULT 0,
+  "originalLineId" INTEGER,
   FOREIGN KEY ("receiptId") REFERENCES "Receipt" ("id") ON DELETE CASCADE,
   FOREIGN KEY ("itemId") REFERENCES "Item" ("id") ON DELETE CASCADE,
   FOREIGN KEY ("batchId") REFERENCES "Batch" ("id") ON DELETE SET NULL,
-  FOREIGN KEY ("taxRateId") REFERENCES "Tax" ("id") ON DELETE SET NULL
+  FOREIGN KEY ("taxRateId") REFERENCES "Tax" ("id") ON DELETE SET NULL,
+  FOREIGN KEY ("originalLineId") REFERENCES "ReceiptLine" ("id") ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS "ReceiptTax" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "receiptId" INTEGER NOT NULL,
+  "gstRate" REAL NOT NULL,
+  "cessRate" REAL NOT NULL DEFAULT 0,
+  "taxableValue" INTEGER NOT NULL,
+  "cgst" INTEGER NOT NULL,
+  "sgst" INTEGER NOT NULL,
+  "igst" INTEGER NOT NULL,
+  "cess" INTEGER NOT NULL,
+  FOREIGN KEY ("receiptId") REFERENCES "Receipt" ("id") ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS "ReceiptPromotion" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "receiptId" INTEGER NOT NULL,
+  "promotionId" INTEGER,
+  "name" TEXT NOT NULL,
+  "amount" INTEGER NOT NULL,
+  FOREIGN KEY ("receiptId") REFERENCES "Receipt" ("id") ON DELETE CASCADE,
+  FOREIGN KEY ("promotionId") REFERENCES "Promotion" ("id") ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS "PointsLedger" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "customerId" INTEGER NOT NULL,
+  "receiptId" INTEGER,
+  "type" TEXT NOT NULL,
+  "points" INTEGER NOT NULL,
+  "balance" INTEGER NOT NULL,
+  "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY ("customerId") REFERENCES "Customer" ("id") ON DELETE CASCADE,
+  FOREIGN KEY ("receiptId") REFERENCES "Receipt" ("id") ON DELETE SET NULL
+);
+CREATE INDEX IF NOT EXISTS "idx_pointsledger_customer" ON "PointsLedger" ("customerId");
+
+CREATE TABLE IF NOT EXISTS "ReceiptSequence" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "terminal" TEXT NOT NULL,
+  "series" TEXT NOT NULL,
+  "financialYear" TEXT NOT NULL,
+  "lastNumber" INTEGER NOT NULL DEFAULT 0,
+  "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE ("terminal", "series", "financialYear")
+);
+
+CREATE TABLE IF NOT EXISTS "Cart" (
+  "id" TEXT NOT NULL PRIMARY KEY,
+  "status" TEXT NOT NULL DEFAULT 'OPEN',
+  "holdRef" TEXT UNIQUE,
+  "customerLabel" TEXT,
+  "heldAt" DATETIME,
+  "placeOfSupply" TEXT,
+  "customerGstin" TEXT,
+  "customerId" INTEGER,
+  "paymentAt" DATETIME,
+  "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY ("customerId") REFERENCES "Customer" ("id") ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS "CartLine" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "cartId" TEXT NOT NULL,
+  "itemId" INTEGER NOT NULL,
+  "name" TEXT,
+  "unit" TEXT,
+  "quantity" REAL NOT NULL,
+  "unitPrice" INTEGER NOT NULL,
+  "discount" INTEGER NOT NULL DEFAULT 0,
+  "promoDiscount" INTEGER NOT NULL DEFAULT 0,
+  "taxRateId" INTEGER,
+  "hsnCode" TEXT,
+  "gstRate" REAL NOT NULL DEFAULT 0,
+  "cessRate" REAL NOT NULL DEFAULT 0,
+  "taxAmount" INTEGER NOT NULL,
+  "cessAmount" INTEGER NOT NULL DEFAULT 0,
+  "lineTotal" INTEGER NOT NULL,
+  "taxInclusive" INTEGER NOT NULL DEFAULT 0,
+  "labelPrice" INTEGER,
+  "expiryOverrideBy" INTEGER,
+  FOREIGN KEY ("cartId") REFERENCES "Cart" ("id") ON DELETE CASCADE,
+  FOREIGN KEY ("itemId") REFERENCES "Item" ("id") ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS "idx_cartline_cart" ON "CartLine" ("cartId");
+
+CREATE TABLE IF NOT EXISTS "CartPromotion" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "cartId" TEXT NOT NULL,
+  "promotionId" INTEGER NOT NULL,
+  "name" TEXT NOT NULL,
+  "amount" INTEGER NOT NULL,
+  FOREIGN KEY ("cartId") REFERENCES "Cart" ("id") ON DELETE CASCADE
 );
 
 CREATE TABLE IF NOT EXISTS "PaymentMethod" (
@@ -214,7 +351,7 @@ CREATE TABLE IF NOT EXISTS "Payment" (
   "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
   "receiptId" INTEGER NOT NULL,
   "paymentMethodId" INTEGER NOT NULL,
-  "amount" REAL NOT NULL,
+  "amount" INTEGER NOT NULL,
   "reference" TEXT,
   "status" TEXT NOT NULL DEFAULT 'SUCCESS',
   "parentPaymentId" INTEGER,
@@ -225,6 +362,17 @@ CREATE TABLE IF NOT EXISTS "Payment" (
   FOREIGN KEY ("parentPaymentId") REFERENCES "Payment" ("id") ON DELETE SET NULL
 );
 
+CREATE TABLE IF NOT EXISTS "CreditNote" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "number" TEXT NOT NULL UNIQUE,
+  "receiptId" INTEGER NOT NULL UNIQUE,
+  "amount" INTEGER NOT NULL,
+  "balance" INTEGER NOT NULL,
+  "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY ("receiptId") REFERENCES "Receipt" ("id") ON DELETE RESTRICT
+);
+
 CREATE TABLE IF NOT EXISTS "Role" (
   "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
   "name" TEXT NOT NULL UNIQUE,
@@ -246,10 +394,70 @@ CREATE TABLE IF NOT EXISTS "User" (
   FOREIGN KEY ("roleId") REFERENCES "Role" ("id") ON DELETE RESTRICT
 );
 
+CREATE TABLE IF NOT EXISTS "Session" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "tokenHash" TEXT NOT NULL UNIQUE,
+  "userId" INTEGER NOT NULL,
+  "terminal" TEXT,
+  "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "expiresAt" DATETIME NOT NULL,
+  FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS "Override" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "token" TEXT NOT NULL UNIQUE,
+  "actions" TEXT NOT NULL,
+  "cartId" TEXT,
+  "approvedBy" INTEGER NOT NULL,
+  "requestedBy" INTEGER,
+  "detail" TEXT,
+  "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "expiresAt" DATETIME NOT NULL,
+  "usedAt" DATETIME,
+  FOREIGN KEY ("approvedBy") REFERENCES "User" ("id") ON DELETE RESTRICT,
+  FOREIGN KEY ("requestedBy") REFERENCES "User" ("id") ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS "Shift" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "terminal" TEXT NOT NULL,
+  "status" TEXT NOT NULL DEFAULT 'OPEN',
+  "openedBy" INTEGER NOT NULL,
+  "openedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "openingFloat" INTEGER NOT NULL,
+  "closedBy" INTEGER,
+  "closedAt" DATETIME,
+  "counted" TEXT,
+  "expected" TEXT,
+  "variance" INTEGER,
+  "notes" TEXT,
+  FOREIGN KEY ("openedBy") REFERENCES "User" ("id"),
+  FOREIGN KEY ("closedBy") REFERENCES "User" ("id")
+);
+-- one open shift per drawer
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_shift_open" ON "Shift" ("terminal") WHERE "status" = 'OPEN';
+
+CREATE TABLE IF NOT EXISTS "CashMovement" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "shiftId" INTEGER NOT NULL,
+  "type" TEXT NOT NULL,
+  "amount" INTEGER NOT NULL,
+  "reason" TEXT,
+  "userId" INTEGER NOT NULL,
+  "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY ("shiftId") REFERENCES "Shift" ("id"),
+  FOREIGN KEY ("userId") REFERENCES "User" ("id")
+);
+
 CREATE TABLE IF NOT EXISTS "AuditLog" (
   "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
   "userId" INTEGER,
+  "terminal" TEXT,
   "action" TEXT NOT NULL,
+  "reference" TEXT,
+  "before" TEXT,
+  "after" TEXT,
   "description" TEXT,
   "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL
@@ -266,6 +474,9 @@ CREATE INDEX IF NOT EXISTS "idx_item_name" ON "Item" ("name");
 CREATE INDEX IF NOT EXISTS "idx_item_sku" ON "Item" ("sku");
 CREATE INDEX IF NOT EXISTS "idx_customer_phone" ON "Customer" ("phone");
 CREATE INDEX IF NOT EXISTS "idx_receipt_date" ON "Receipt" ("date");
+CREATE INDEX IF NOT EXISTS "idx_receipt_shift" ON "Receipt" ("shiftId");
+CREATE INDEX IF NOT EXISTS "idx_auditlog_created" ON "AuditLog" ("createdAt");
+CREATE INDEX IF NOT EXISTS "idx_auditlog_action" ON "AuditLog" ("action");
 
 COMMIT;
 PRAGMA foreign_keys=ON;
\ No newline at end of file
@@ -1,36 +1,34 @@
 import { PrismaClient } from '@prisma/client';
+import { hashPassword, ROLE_PERMISSIONS } from '../src/users';
 
 const prisma = new PrismaClient();
 
 async function main() {
-  // Seed roles
-  const adminRole = await prisma.role.upsert({
-    where: { name: 'Admin' },
-    update: {},
-    // permissions stored as JSON string; empty object serialised
-    create: { name: 'Admin', permissions: '{}' },
-  });
-  const supervisorRole = await prisma.role.upsert({
-    where: { name: 'Supervisor' },
-    update: {},
-    create: { name: 'Supervisor', permissions: '{}' },
-  });
-  const cashierRole = await prisma.role.upsert({
-    where: { name: 'Cashier' },
-    update: {},
-    create: { name: 'Cashier', permissions: '{}' },
-  });
-  // Seed users with hashed password 'password' (in real world use bcrypt)
-  await prisma.user.upsert({
-    where: { username: 'admin' },
-    update: {},
-    create: {
-      username: 'admin',
-      password: 'password',
-      fullName: 'Administrator',
-      role: { connect: { id: adminRole.id } },
-    },
-  });
+  // Seed roles with their default permissions (JSON arrays, see src/users.ts)
+  const roles: Record<string, number> = {};
+  for (const [name, permissions] of Object.entries(ROLE_PERMISSIONS)) {
+    const role = await prisma.role.upsert({
+      where: { name },
+      update: { permissions: JSON.stringify(permissions) },
+      create: { name, permissions: JSON.stringify(permissions) },
+    });
+    roles[name] = role.id;
+  }
+  // Seed users; every password is 'password' until changed (stored as a scrypt hash, as is the PIN)
+  const password = await hashPassword('password');
+  const users = [
+    { username: 'admin', fullName: 'Administrator', role: 'Admin' },
+    // a supervisor whose PIN approves overrides at the till (e.g. selling expired stock)
+    { username: 'supervisor', fullName: 'Shift Supervisor', role: 'Supervisor', pin: await hashPassword('1234') },
+    { username: 'cashier', fullName: 'Cashier', role: 'Cashier' },
+  ];
+  for (const { role, ...u } of users) {
+    await prisma.user.upsert({
+      where: { username: u.username },
+      update: {},
+      create: { ...u, password, role: { connect: { id: roles[role] } } },
+    });
+  }
   // Seed tax rates
   const taxRates = [
     { name: 'GST 0%', rate: 0, cess: 0 },
@@ -50,6 +48,7 @@ async function main() {
     { code: 'WALLET', name: 'Wallet', meta: JSON.stringify({ providers: ['Paytm', 'PhonePe', 'Amazon Pay'] }) },
     { code: 'GIFT_CARD', name: 'Gift Card' },
     { code: 'STORE_CREDIT', name: 'Store Credit' },
+    { code: 'LOYALTY', name: 'Loyalty Points' },
   ];
   for (const pm of paymentMethods) {
     await prisma.paymentMethod.upsert({ where: { code: pm.code }, update: {}, create: pm });
@@ -58,6 +57,7 @@ async function main() {
   const groceryCat = await prisma.category.upsert({ where: { name: 'Grocery' }, update: {}, create: { name: 'Grocery' } });
   const snacksCat = await prisma.category.upsert({ where: { name: 'Snacks' }, update: {}, create: { name: 'Snacks' } });
   // Seed items (SKU, name, MRP, cost, category, tax)
+  const gst0 = await prisma.tax.findFirst({ where: { rate: 0 } });
   const gst5 = await prisma.tax.findFirst({ where: { rate: 5 } });
   const gst12 = await prisma.tax.findFirst({ where: { rate: 12 } });
   const gst18 = await prisma.tax.findFirst({ where: { rate: 18 } });
@@ -71,8 +71,8 @@ async function main() {
       category: { connect: { id: groceryCat.id } },
       tax: { connect: { id: gst5?.id ?? 1 } },
       unit: 'kg',
-      mrp: 120,
-      cost: 90,
+      mrp: 12000, // paise
+      cost: 9000,
       barcodes: { create: [{ code: '8900000000011', isPrimary: true }] },
     },
   });
@@ -85,8 +85,8 @@ async function main() {
       category: { connect: { id: snacksCat.id } },
       tax: { connect: { id: gst12?.id ?? 1 } },
       unit: 'pkt',
-      mrp: 30,
-      cost: 20,
+      mrp: 3000,
+      cost: 2000,
       barcodes: { create: [{ code: '8900000000028', isPrimary: true }] },
     },
   });
@@ -99,11 +99,53 @@ async function main() {
       category: { connect: { id: snacksCat.id } },
       tax: { connect: { id: gst18?.id ?? 1 } },
       unit: 'tube',
-      mrp: 45,
-      cost: 30,
+      mrp: 4500,
+      cost: 3000,
       barcodes: { create: [{ code: '8900000000035', isPrimary: true }] },
     },
   });
+  // Loose produce sold by weight; scale labels carry its PLU (see src/scale.ts)
+  await prisma.item.upsert({
+    where: { sku: 'SKU0004' },
+    update: {},
+    create: {
+      sku: 'SKU0004',
+      name: 'Tomato (loose)',
+      category: { connect: { id: groceryCat.id } },
+      tax: { connect: { id: gst0?.id ?? 1 } },
+      unit: 'kg',
+      isWeighable: true,
+      plu: '00123',
+      mrp: 4000, // paise per kg
+      cost: 2800,
+    },
+  });
+  // Seed promotions (only into an empty table, names are not unique)
+  if (!(await prisma.promotion.count())) {
+    await prisma.promotion.create({
+      data: {
+        name: 'Snacks: any 3 for Rs 80',
+        promoType: 'MIX_MATCH',
+        buyQty: 3,
+        value: 8000, // paise
+        valueType: 'PRICE',
+        category: { connect: { id: snacksCat.id } },
+        priority: 10,
+      },
+    });
+    await prisma.promotion.create({
+      data: {
+        name: 'Happy hour 5% off above Rs 500',
+        promoType: 'BILL_THRESHOLD',
+        value: 5,
+        minAmount: 50000,
+        maxDiscount: 10000,
+        startTime: '17:00',
+        endTime: '19:00',
+        stackable: true,
+      },
+    });
+  }
   console.log('Seed data inserted successfully');
 }
 
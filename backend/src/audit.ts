@@ -0,0 +1,135 @@
+import { Prisma } from '@prisma/client';
+import { CartLine } from './carts';
+
+/**
+ * Audit trail for loss-prevention reviews.  Sensitive till and back-office
+ * actions write an AuditLog row with who did it, on which terminal, the
+ * reference it concerns (cart id, receipt number, item SKU, setting) and
+ * the values before and after, stored as JSON.  GET /api/audit reads it
+ * back with the filters `parseAuditQuery` accepts.
+ */
+
+export const AUDIT_ACTIONS = [
+  'PRICE_OVERRIDE', // unit price edited at the till
+  'DISCOUNT', // manual line or bill discount
+  'LINE_REMOVED',
+  'CART_VOIDED',
+  'RETURN',
+  'REPRINT', // any print of a receipt after its first
+  'NO_SALE',
+  'CASH_MOVEMENT', // drop, pay-out or pay-in during a shift (src/shifts.ts)
+  'SHIFT_CLOSE',
+  'OVERRIDE', // a supervisor's PIN approval (src/overrides.ts)
+  'PIN_FAILED', // a wrong supervisor PIN (src/users.ts)
+  'EXPIRED_OVERRIDE', // expired stock sold with approval (src/batches.ts)
+  'SETTINGS_CHANGE',
+  'ITEM_PRICE_CHANGE',
+  'STOCK_ADJUST', // stock corrected with a reason code (src/inventory.ts)
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+/** The signed-in user an entry is recorded against */
+export interface Actor {
+  id: number;
+  terminal: string | null;
+}
+
+export interface AuditEntry {
+  action: AuditAction;
+  reference?: string | null;
+  before?: unknown;
+  after?: unknown;
+  description?: string;
+}
+
+const json = (v: unknown) => (v === undefined ? null : JSON.stringify(v));
+
+export async function audit(db: Prisma.TransactionClient, actor: Actor | null, entry: AuditEntry) {
+  await db.auditLog.create({
+    data: {
+      userId: actor?.id ?? null,
+      terminal: actor?.terminal ?? null,
+      action: entry.action,
+      reference: entry.reference ?? null,
+      before: json(entry.before),
+      after: json(entry.after),
+      description: entry.description ?? null,
+    },
+  });
+}
+
+/** The fields of `before` and `after` that differ, as { before, after } with just those keys */
+export function changes<T extends Record<string, unknown>>(before: T, after: Partial<T>) {
+  const keys = Object.keys(after).filter((k) => after[k] !== undefined && after[k] !== before[k]);
+  return {
+    before: Object.fromEntries(keys.map((k) => [k, before[k]])) as Partial<T>,
+    after: Object.fromEntries(keys.map((k) => [k, after[k]])) as Partial<T>,
+    changed: keys.length > 0,
+  };
+}
+
+/** What the audit log keeps of a cart line; `discount` is the manual part */
+export const lineSnapshot = (l: CartLine) => ({
+  itemId: l.itemId,
+  name: l.name ?? null,
+  quantity: l.quantity,
+  unitPrice: l.unitPrice,
+  discount: l.discount - l.promoDiscount,
+  lineTotal: l.lineTotal,
+});
+
+/** Counts a print of a receipt and logs it when it is not the first */
+export async function auditPrint(db: Prisma.TransactionClient, actor: Actor | null, receiptNumber: string, via: string) {
+  const r = await db.receipt.update({ where: { receiptNumber }, data: { printCount: { increment: 1 } } });
+  if (r.printCount > 1) {
+    await audit(db, actor, { action: 'REPRINT', reference: receiptNumber, description: `copy ${r.printCount} (${via})` });
+  }
+}
+
+export interface AuditQuery {
+  where: Prisma.AuditLogWhereInput;
+  take: number;
+  skip: number;
+}
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Filters for GET /api/audit: from/to (YYYY-MM-DD, inclusive), action,
+ * userId, terminal, reference, q (text in the description) and
+ * limit/offset paging (100 by default, at most 500)
+ */
+export function parseAuditQuery(q: Record<string, unknown>): AuditQuery {
+  const where: Prisma.AuditLogWhereInput = {};
+  const str = (k: string) => (typeof q[k] === 'string' && (q[k] as string).trim()) || '';
+  const createdAt: Prisma.DateTimeFilter = {};
+  if (str('from')) {
+    if (!DAY.test(str('from'))) throw new Error('from must be YYYY-MM-DD');
+    createdAt.gte = new Date(`${str('from')}T00:00:00`);
+  }
+  if (str('to')) {
+    if (!DAY.test(str('to'))) throw new Error('to must be YYYY-MM-DD');
+    const end = new Date(`${str('to')}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    createdAt.lt = end;
+  }
+  if (createdAt.gte || createdAt.lt) where.createdAt = createdAt;
+  if (str('action')) {
+    if (!AUDIT_ACTIONS.includes(str('action') as AuditAction)) throw new Error(`Unknown action ${str('action')}`);
+    where.action = str('action');
+  }
+  if (str('userId')) {
+    const id = Number(str('userId'));
+    if (!Number.isInteger(id)) throw new Error('userId must be a number');
+    where.userId = id;
+  }
+  if (str('terminal')) where.terminal = str('terminal');
+  if (str('reference')) where.reference = { contains: str('reference') };
+  if (str('q')) where.description = { contains: str('q') };
+  const limit = Number(str('limit') || 100);
+  const offset = Number(str('offset') || 0);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 500) throw new Error('limit must be 1 to 500');
+  if (!Number.isInteger(offset) || offset < 0) throw new Error('offset must be 0 or more');
+  return { where, take: limit, skip: offset };
+}
@@ -0,0 +1,120 @@
+import { Prisma } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { checkTerminal, terminalId } from './numbering';
+import { hashPassword, isLegacyPassword, Permission, rolePermissions, verifyPassword } from './users';
+
+/**
+ * Sessions and route permissions.  POST /api/auth/login trades a
+ * username and password for a bearer token; every other API route wants
+ * `Authorization: Bearer <token>` (or `?token=` on pages opened in a new
+ * window, such as printable receipts) and, through `allow`, a permission
+ * of the user's role.  Sessions last SESSION_HOURS (12 by default).
+ */
+
+export interface SessionUser {
+  id: number;
+  username: string;
+  fullName: string;
+  role: string;
+  permissions: Permission[];
+  /** till the session was opened on */
+  terminal: string | null;
+  sessionId: number;
+}
+
+const sessionHours = () => Number(process.env.SESSION_HOURS) || 12;
+
+const tokenHash = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const USER_INCLUDE = { role: true } satisfies Prisma.UserInclude;
+
+function sessionUser(
+  user: Prisma.UserGetPayload<{ include: typeof USER_INCLUDE }>,
+  session: { id: number; terminal: string | null },
+): SessionUser {
+  return {
+    id: user.id,
+    username: user.username,
+    fullName: user.fullName,
+    role: user.role.name,
+    permissions: rolePermissions(user.role),
+    terminal: session.terminal,
+    sessionId: session.id,
+  };
+}
+
+/**
+ * A new session for a username and password, or null when they do not
+ * match an active user.  Throws for a terminal the store does not know.
+ */
+export async function login(db: Prisma.TransactionClient, username: string, password: string, terminal?: string) {
+  const till = terminal?.trim() || terminalId();
+  await checkTerminal(db, till);
+  const user = await db.user.findUnique({ where: { username: username.trim().toLowerCase() }, include: USER_INCLUDE });
+  if (!user || !user.active || !(await verifyPassword(password, user.password))) return null;
+  if (isLegacyPassword(user.password)) {
+    await db.user.update({ where: { id: user.id }, data: { password: await hashPassword(password) } });
+  }
+  const token = randomBytes(32).toString('base64url');
+  const session = await db.session.create({
+    data: {
+      tokenHash: tokenHash(token),
+      userId: user.id,
+      terminal: till,
+      expiresAt: new Date(Date.now() + sessionHours() * 3600_000),
+    },
+  });
+  return { token, expiresAt: session.expiresAt, user: sessionUser(user, session) };
+}
+
+/** The user a token belongs to; expired sessions and deactivated users give null */
+export async function userForToken(db: Prisma.TransactionClient, token: string): Promise<SessionUser | null> {
+  const session = await db.session.findUnique({ where: { tokenHash: tokenHash(token) }, include: { user: { include: USER_INCLUDE } } });
+  if (!session) return null;
+  if (session.expiresAt < new Date() || !session.user.active) {
+    await db.session.delete({ where: { id: session.id } });
+    return null;
+  }
+  return sessionUser(session.user, session);
+}
+
+export async function logout(db: Prisma.TransactionClient, sessionId: number) {
+  await db.session.deleteMany({ where: { id: sessionId } });
+}
+
+const bearer = (req: Request) => {
+  const m = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+  return m ? m[1] : typeof req.query.token === 'string' ? req.query.token : '';
+};
+
+/** Puts the signed-in user, if any, in res.locals.user */
+export const authenticate =
+  (db: Prisma.TransactionClient): RequestHandler =>
+  async (req, res, next) => {
+    try {
+      const token = bearer(req);
+      res.locals.user = token ? await userForToken(db, token) : null;
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+
+/** The signed-in user of a request that passed `allow` */
+export const currentUser = (res: Response) => res.locals.user as SessionUser;
+
+/** The till a request comes from: its session's terminal, else this server's TERMINAL_ID */
+export const currentTerminal = (res: Response) => currentUser(res).terminal ?? terminalId();
+
+/** Lets the request through for a signed-in user with any of `permissions` (or just signed in, with none) */
+export const allow =
+  (...permissions: Permission[]): RequestHandler =>
+  (_req: Request, res: Response, next: NextFunction) => {
+    const user = res.locals.user as SessionUser | null | undefined;
+    if (!user) return res.status(401).json({ error: 'Please log in' });
+    if (permissions.length && !permissions.some((p) => user.permissions.includes(p))) {
+      return res.status(403).json({ error: `The ${user.role} role may not do this` });
+    }
+    next();
+  };
@@ -0,0 +1,146 @@
+import { Prisma } from '@prisma/client';
+import { Actor, audit } from './audit';
+import { Paise } from './money';
+import { setting } from './settings';
+import { localDate } from './time';
+import { supervisorByPin } from './users';
+
+/**
+ * Batches and first-expiry-first-out (FEFO) allocation.  Goods come in
+ * as batches (goods receipts, direct receipts) with a landed cost and an
+ * optional expiry date; `Batch.quantity` is what is left of each.  A sale
+ * takes its quantity from the batches that expire first, batches without
+ * an expiry last, and is costed at those batches' costs.
+ *
+ * A batch is expired from the day after its expiry date, by the store's
+ * calendar (the `timezone` setting; expiry dates are kept as UTC
+ * midnight).  Expired batches are skipped unless a supervisor approved
+ * selling them; stock written off (a negative adjustment) takes expired
+ * batches first.
+ */
+
+export interface BatchStock {
+  id: number;
+  batchNo: string | null;
+  expiryDate: Date | null;
+  quantity: number;
+  cost: Paise;
+}
+
+export interface BatchAllocation {
+  batchId: number;
+  quantity: number;
+  cost: Paise;
+}
+
+const roundQty = (q: number) => Math.round(q * 1000) / 1000 || 0;
+
+/** Whether a batch's expiry date has passed in `timeZone` (it is still good on the day itself) */
+export function isExpired(expiryDate: Date | null, now: Date, timeZone: string): boolean {
+  if (!expiryDate) return false;
+  return expiryDate.toISOString().slice(0, 10) < localDate(now, timeZone);
+}
+
+/** Earliest expiry first, undated batches last, then oldest batch first */
+export const fefoOrder = <T extends { id: number; expiryDate: Date | null }>(batches: T[]): T[] =>
+  [...batches].sort(
+    (a, b) =>
+      (a.expiryDate?.getTime() ?? Infinity) - (b.expiryDate?.getTime() ?? Infinity) || a.id - b.id,
+  );
+
+/**
+ * Split `quantity` over batches in FEFO order.  `unallocated` is what the
+ * batches could not cover (sold with negative stock or never received as
+ * a batch).
+ */
+export function allocateFefo(
+  batches: BatchStock[],
+  quantity: number,
+  now: Date,
+  timeZone: string,
+  allowExpired = false,
+): { allocations: BatchAllocation[]; unallocated: number } {
+  const allocations: BatchAllocation[] = [];
+  let left = quantity;
+  for (const b of fefoOrder(batches)) {
+    if (left <= 0) break;
+    if (b.quantity <= 0 || (!allowExpired && isExpired(b.expiryDate, now, timeZone))) continue;
+    const take = roundQty(Math.min(left, b.quantity));
+    allocations.push({ batchId: b.id, quantity: take, cost: b.cost });
+    left = roundQty(left - take);
+  }
+  return { allocations, unallocated: left };
+}
+
+/**
+ * Whether selling `quantity` of an item would have to dip into expired
+ * stock: true when the unexpired batches cannot cover it but expired ones
+ * still hold some.  Returns the expired batch that would go first.
+ */
+export async function expiredStockFor(db: Prisma.TransactionClient, itemId: number, quantity: number, now = new Date()) {
+  const batches = await db.batch.findMany({ where: { itemId, quantity: { gt: 0 } } });
+  const timeZone = await setting(db, 'timezone');
+  const fresh = batches.filter((b) => !isExpired(b.expiryDate, now, timeZone)).reduce((s, b) => s + b.quantity, 0);
+  const expired = fefoOrder(batches.filter((b) => isExpired(b.expiryDate, now, timeZone)));
+  return quantity > fresh + 1e-9 && expired.length ? expired[0] : null;
+}
+
+/** Take `quantity` from an item's batches (FEFO) and decrement them; inside the sale's transaction */
+export async function consumeBatches(
+  db: Prisma.TransactionClient,
+  itemId: number,
+  quantity: number,
+  now: Date,
+  allowExpired = false,
+) {
+  const batches = await db.batch.findMany({ where: { itemId, quantity: { gt: 0 } } });
+  const result = allocateFefo(batches, quantity, now, await setting(db, 'timezone'), allowExpired);
+  for (const a of result.allocations) {
+    await db.batch.update({ where: { id: a.batchId }, data: { quantity: { decrement: a.quantity } } });
+  }
+  return result;
+}
+
+/** Scanning stock past its expiry without a supervisor's approval */
+export class ExpiredError extends Error {
+  code = 'EXPIRED' as const;
+  constructor(
+    message: string,
+    public details: { batchNo: string | null; expiryDate: Date | null },
+  ) {
+    super(message);
+    this.name = 'ExpiredError';
+  }
+}
+
+/**
+ * Gate a scan that would sell expired stock.  Returns null when fresh
+ * stock covers `quantity`, the approving supervisor's id when
+ * `supervisorPin` is a supervisor's (and audits it on the requester's
+ * till), and throws an ExpiredError otherwise.
+ */
+export async function approveExpired(
+  db: Prisma.TransactionClient,
+  item: { id: number; sku: string; name: string },
+  quantity: number,
+  supervisorPin: unknown,
+  reference: string,
+  requester: Actor,
+): Promise<number | null> {
+  const batch = await expiredStockFor(db, item.id, quantity);
+  if (!batch) return null;
+  const expiry = batch.expiryDate?.toISOString().slice(0, 10);
+  const label = `${item.name}${batch.batchNo ? ` batch ${batch.batchNo}` : ''} expired on ${expiry}`;
+  const details = { batchNo: batch.batchNo, expiryDate: batch.expiryDate };
+  if (supervisorPin == null || supervisorPin === '') {
+    throw new ExpiredError(`${label}; a supervisor PIN is needed to sell it`, details);
+  }
+  const supervisor = await supervisorByPin(db, supervisorPin, requester);
+  if (!supervisor) throw new ExpiredError('Supervisor PIN not recognised', details);
+  await audit(db, { id: supervisor.id, terminal: requester.terminal }, {
+    action: 'EXPIRED_OVERRIDE',
+    reference,
+    description: `${item.sku} ${label}: sale of ${quantity} approved by ${supervisor.username}`,
+  });
+  return supervisor.id;
+}
@@ -0,0 +1,288 @@
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { v4 as uuid } from 'uuid';
+import { invoiceTotals } from './money';
+import { AppliedPromotion, applyPromotions } from './promotions';
+import { roundOffMode, storeStateCode } from './settings';
+import { summariseTax, TaxSummary } from './tax';
+
+/**
+ * Checkout carts.  Every open cart and its lines live in the `Cart` /
+ * `CartLine` tables so that a crash or restart of the backend never loses
+ * an in-progress sale.  Route handlers load a cart, mutate the plain
+ * object and write it back with `saveCart`, which re-runs the promotions.
+ * Amounts are paise.
+ */
+export interface CartLine {
+  itemId: number;
+  quantity: number;
+  unitPrice: number;
+  discount: number; // manual discount + promoDiscount
+  promoDiscount: number; // set by the promotions engine
+  taxRateId: number | null;
+  hsnCode?: string | null;
+  gstRate: number;
+  cessRate: number;
+  taxAmount: number; // GST + cess
+  cessAmount: number;
+  lineTotal: number;
+  taxInclusive?: boolean; // unitPrice includes GST and cess
+  labelPrice?: number | null; // price printed on a scale label, charged instead of unitPrice × quantity
+  name?: string;
+  unit?: string | null; // e.g. kg: weighed lines take decimal quantities
+  expiryOverrideBy?: number | null; // supervisor who let expired stock be sold on this line
+}
+export interface Cart {
+  id: string;
+  status: string; // OPEN, HELD
+  holdRef: string | null;
+  customerLabel: string | null;
+  placeOfSupply: string | null;
+  customerGstin: string | null;
+  customerId: number | null;
+  customer?: CartCustomer | null; // loaded with the cart, never stored
+  paymentAt: Date | null; // payment drawer first opened
+  lines: CartLine[];
+  promotions: AppliedPromotion[]; // named promotion lines, rewritten by saveCart
+  taxes?: TaxSummary; // computed, never stored
+  totals?: CartTotals; // computed, never stored
+}
+
+/** The loyalty customer shown on the Cashier page */
+export interface CartCustomer {
+  id: number;
+  name: string | null;
+  phone: string | null;
+  loyaltyPoints: number;
+}
+
+/** Bill totals shown under the cart, including the round off */
+export type CartTotals = ReturnType<typeof invoiceTotals>;
+
+/** Summary row for the Holds panel */
+export interface HeldCart {
+  cartId: string;
+  holdRef: string;
+  customerLabel: string | null;
+  itemCount: number;
+  total: number;
+  heldAt: Date;
+  ageMinutes: number;
+}
+
+type CartRow = {
+  id: string;
+  status: string;
+  holdRef: string | null;
+  customerLabel: string | null;
+  placeOfSupply: string | null;
+  customerGstin: string | null;
+  customerId: number | null;
+  customer?: CartCustomer | null;
+  paymentAt: Date | null;
+  lines: any[];
+  promotions: any[];
+};
+
+const toCart = (row: CartRow): Cart => ({
+  id: row.id,
+  status: row.status,
+  holdRef: row.holdRef,
+  customerLabel: row.customerLabel,
+  placeOfSupply: row.placeOfSupply,
+  customerGstin: row.customerGstin,
+  customerId: row.customerId,
+  customer: row.customer
+    ? { id: row.customer.id, name: row.customer.name, phone: row.customer.phone, loyaltyPoints: row.customer.loyaltyPoints }
+    : null,
+  paymentAt: row.paymentAt,
+  lines: row.lines.map((l) => ({
+    itemId: l.itemId,
+    quantity: l.quantity,
+    unitPrice: l.unitPrice,
+    discount: l.discount,
+    promoDiscount: l.promoDiscount,
+    taxRateId: l.taxRateId ?? null,
+    hsnCode: l.hsnCode,
+    gstRate: l.gstRate,
+    cessRate: l.cessRate,
+    taxAmount: l.taxAmount,
+    cessAmount: l.cessAmount,
+    lineTotal: l.lineTotal,
+    taxInclusive: l.taxInclusive,
+    labelPrice: l.labelPrice ?? null,
+    name: l.name ?? undefined,
+    unit: l.unit ?? null,
+    expiryOverrideBy: l.expiryOverrideBy ?? null,
+  })),
+  promotions: row.promotions.map((p) => ({ promotionId: p.promotionId, name: p.name, amount: p.amount })),
+});
+
+/** Attach the CGST/SGST/IGST/cess summary and bill totals the Cashier page displays */
+async function withTaxes(cart: Cart, db: Prisma.TransactionClient = prisma): Promise<Cart> {
+  cart.taxes = summariseTax(cart.lines, await storeStateCode(db), cart.placeOfSupply);
+  cart.totals = invoiceTotals(cart.lines, await roundOffMode(db));
+  return cart;
+}
+
+/** Create and persist an empty cart */
+export async function createCart(): Promise<Cart> {
+  const row = await prisma.cart.create({
+    data: { id: uuid() },
+    include: { lines: true, promotions: true, customer: true },
+  });
+  return withTaxes(toCart(row));
+}
+
+/** Load a cart with its lines in scan order, or null if it does not exist */
+export async function getCart(id: string): Promise<Cart | null> {
+  if (!id) return null;
+  const row = await prisma.cart.findUnique({
+    where: { id: String(id) },
+    include: { lines: { orderBy: { id: 'asc' } }, promotions: true, customer: true },
+  });
+  return row ? withTaxes(toCart(row)) : null;
+}
+
+/**
+ * Re-run the promotions and write the cart's lines back.  Lines are
+ * replaced wholesale in a single nested write so the stored order always
+ * matches `cart.lines`, which the Cashier page addresses by index.  Pass
+ * a transaction client to write it along with something else.
+ */
+export async function saveCart(cart: Cart, db: Prisma.TransactionClient = prisma): Promise<Cart> {
+  cart.promotions = await applyPromotions(db, cart.lines);
+  await db.cart.update({
+    where: { id: cart.id },
+    data: {
+      lines: {
+        deleteMany: {},
+        create: cart.lines.map((l) => ({
+          itemId: l.itemId,
+          quantity: l.quantity,
+          unitPrice: l.unitPrice,
+          discount: l.discount,
+          promoDiscount: l.promoDiscount,
+          taxRateId: l.taxRateId ?? null,
+          hsnCode: l.hsnCode ?? null,
+          gstRate: l.gstRate,
+          cessRate: l.cessRate,
+          taxAmount: l.taxAmount,
+          cessAmount: l.cessAmount,
+          lineTotal: l.lineTotal,
+          taxInclusive: l.taxInclusive ?? false,
+          labelPrice: l.labelPrice ?? null,
+          name: l.name ?? null,
+          unit: l.unit ?? null,
+          expiryOverrideBy: l.expiryOverrideBy ?? null,
+        })),
+      },
+      promotions: { deleteMany: {}, create: cart.promotions },
+    },
+  });
+  return withTaxes(cart, db);
+}
+
+/**
+ * Record a B2B buyer's GSTIN (null to clear).  The GSTIN's state becomes
+ * the place of supply.
+ */
+export async function setCustomerGstin(cart: Cart, customerGstin: string | null): Promise<Cart> {
+  const placeOfSupply = customerGstin ? customerGstin.slice(0, 2) : cart.placeOfSupply;
+  await prisma.cart.update({ where: { id: cart.id }, data: { customerGstin, placeOfSupply } });
+  cart.customerGstin = customerGstin;
+  cart.placeOfSupply = placeOfSupply;
+  return withTaxes(cart);
+}
+
+/** Attach a loyalty customer to the cart (null to detach) */
+export async function setCustomer(cart: Cart, customerId: number | null): Promise<Cart> {
+  const row = await prisma.cart.update({
+    where: { id: cart.id },
+    data: { customerId },
+    include: { customer: true },
+  });
+  cart.customerId = row.customerId;
+  cart.customer = toCart({ ...row, lines: [], promotions: [] }).customer;
+  return withTaxes(cart);
+}
+
+/** Set the customer's place of supply (GST state code); null for the store's own state */
+export async function setPlaceOfSupply(cart: Cart, placeOfSupply: string | null): Promise<Cart> {
+  await prisma.cart.update({ where: { id: cart.id }, data: { placeOfSupply } });
+  cart.placeOfSupply = placeOfSupply;
+  return withTaxes(cart);
+}
+
+/** Note when the payment drawer is first opened; line voids after it need an override */
+export async function startPayment(cart: Cart): Promise<Cart> {
+  if (!cart.paymentAt) {
+    cart.paymentAt = new Date();
+    await prisma.cart.update({ where: { id: cart.id }, data: { paymentAt: cart.paymentAt } });
+  }
+  return cart;
+}
+
+/** Remove a cart once it has been turned into a receipt (pass the sale's transaction) */
+export async function deleteCart(id: string, db: Prisma.TransactionClient = prisma): Promise<void> {
+  await db.cart.delete({ where: { id } });
+}
+
+/** Number of carts still open, reported at startup */
+export async function countOpenCarts(): Promise<number> {
+  return prisma.cart.count({ where: { status: 'OPEN' } });
+}
+
+/**
+ * Park a cart.  The hold reference is derived from the cart id so that
+ * holding the same cart twice keeps its reference.
+ */
+export async function holdCart(id: string, customerLabel?: string | null): Promise<Cart> {
+  const holdRef = `H-${id.replace(/-/g, '').slice(0, 8).toUpperCase()}`;
+  const row = await prisma.cart.update({
+    where: { id },
+    data: {
+      status: 'HELD',
+      holdRef,
+      customerLabel: customerLabel ? String(customerLabel).slice(0, 60) : null,
+      heldAt: new Date(),
+    },
+    include: { lines: { orderBy: { id: 'asc' } }, promotions: true, customer: true },
+  });
+  return withTaxes(toCart(row));
+}
+
+/** Bring a held cart back into play by hold reference or cart id */
+export async function resumeCart(ref: string): Promise<Cart | null> {
+  const held = await prisma.cart.findFirst({
+    where: { status: 'HELD', OR: [{ holdRef: String(ref) }, { id: String(ref) }] },
+  });
+  if (!held) return null;
+  const row = await prisma.cart.update({
+    where: { id: held.id },
+    data: { status: 'OPEN' },
+    include: { lines: { orderBy: { id: 'asc' } }, promotions: true, customer: true },
+  });
+  return withTaxes(toCart(row));
+}
+
+/** Held carts, oldest first */
+export async function listHeldCarts(now = new Date()): Promise<HeldCart[]> {
+  const rows = await prisma.cart.findMany({
+    where: { status: 'HELD' },
+    include: { lines: true },
+    orderBy: { heldAt: 'asc' },
+  });
+  return rows.map((r) => {
+    const heldAt = r.heldAt ?? r.updatedAt;
+    return {
+      cartId: r.id,
+      holdRef: r.holdRef ?? r.id,
+      customerLabel: r.customerLabel,
+      itemCount: r.lines.length,
+      total: r.lines.reduce((s, l) => s + l.lineTotal, 0),
+      heldAt,
+      ageMinutes: Math.max(0, Math.floor((now.getTime() - heldAt.getTime()) / 60000)),
+    };
+  });
+}
@@ -0,0 +1,109 @@
+import { Prisma } from '@prisma/client';
+import { Paise } from './money';
+import { setting } from './settings';
+
+/**
+ * Customers and loyalty points.  Customers are found by mobile number at
+ * the till.  A sale to a customer earns points on what was not paid with
+ * points; points are spent as the LOYALTY tender.  Every earn and burn is
+ * a PointsLedger row carrying the balance after it, and
+ * `Customer.loyaltyPoints` always equals the last of those balances.
+ *
+ * Settings (with env fallbacks):
+ * - `loyaltyPointsPerRupee` (LOYALTY_POINTS_PER_RUPEE, default 0.01,
+ *   i.e. one point per ₹100 spent);
+ * - `loyaltyPointValue` in paise (LOYALTY_POINT_VALUE, default 100, i.e.
+ *   a point is worth ₹1 when redeemed).
+ */
+
+/** Payment method code of the points tender */
+export const LOYALTY_TENDER = 'LOYALTY';
+
+export interface LoyaltyConfig {
+  pointsPerRupee: number;
+  pointValue: Paise;
+}
+
+/** Earning and redemption rates */
+export async function loyaltyConfig(db: Prisma.TransactionClient): Promise<LoyaltyConfig> {
+  return {
+    pointsPerRupee: await setting(db, 'loyaltyPointsPerRupee'),
+    pointValue: await setting(db, 'loyaltyPointValue'),
+  };
+}
+
+/** Whole points earned on `amount` paise */
+export const pointsEarned = (amount: Paise, pointsPerRupee: number) =>
+  Math.max(0, Math.floor((amount / 100) * pointsPerRupee + 1e-9));
+
+/**
+ * Indian mobile number as ten digits: spaces, dashes, a leading 0 or the
+ * +91 country code are dropped.  Returns null when it is not a mobile
+ * number.
+ */
+export function normalisePhone(v: unknown): string | null {
+  let digits = String(v ?? '').replace(/\D/g, '');
+  if (digits.length === 12 && digits.startsWith('91')) digits = digits.slice(2);
+  if (digits.length === 11 && digits.startsWith('0')) digits = digits.slice(1);
+  return /^[6-9]\d{9}$/.test(digits) ? digits : null;
+}
+
+/** e.g. "9876543210" -> "******3210" for printing */
+export const maskPhone = (phone?: string | null) => (phone ? `${'*'.repeat(Math.max(0, phone.length - 4))}${phone.slice(-4)}` : '');
+
+export type PointsEntryType = 'EARN' | 'REDEEM' | 'REFUND' | 'REVERSAL';
+
+/** How each ledger entry type reads on a receipt */
+export const POINTS_LABELS: Record<PointsEntryType, string> = {
+  EARN: 'Points earned',
+  REDEEM: 'Points redeemed',
+  REFUND: 'Points returned',
+  REVERSAL: 'Points reversed',
+};
+
+/** Ledger entries one receipt causes, worked out from its total and its LOYALTY tenders */
+export function pointsMovements(totalAmount: Paise, loyaltyPaid: Paise, config: LoyaltyConfig) {
+  const moves: { type: PointsEntryType; points: number }[] = [];
+  // a sale redeems; a return hands redeemed points back (never more than the refund covers)
+  if (loyaltyPaid > 0) moves.push({ type: 'REDEEM', points: -Math.ceil(loyaltyPaid / config.pointValue) });
+  if (loyaltyPaid < 0) moves.push({ type: 'REFUND', points: Math.floor(-loyaltyPaid / config.pointValue) });
+  // points are earned (or taken back) on the part not paid with points
+  const earned = pointsEarned(Math.abs(totalAmount - loyaltyPaid), config.pointsPerRupee);
+  if (earned && totalAmount > 0) moves.push({ type: 'EARN', points: earned });
+  if (earned && totalAmount < 0) moves.push({ type: 'REVERSAL', points: -earned });
+  return moves.filter((m) => m.points !== 0);
+}
+
+/**
+ * Post a receipt's points to its customer's ledger (inside the receipt's
+ * transaction).  A reversal never takes the balance below zero: points
+ * already spent are not clawed back.
+ */
+export async function postPoints(
+  db: Prisma.TransactionClient,
+  receipt: { id: number; customerId: number | null; totalAmount: Paise; payments: { amount: Paise; paymentMethod: { code: string } }[] },
+  config: LoyaltyConfig,
+) {
+  if (!receipt.customerId) return [];
+  const loyaltyPaid = receipt.payments
+    .filter((p) => p.paymentMethod.code === LOYALTY_TENDER)
+    .reduce((s, p) => s + p.amount, 0);
+  const customer = await db.customer.findUniqueOrThrow({ where: { id: receipt.customerId } });
+
+  let balance = customer.loyaltyPoints;
+  const entries = [];
+  for (const m of pointsMovements(receipt.totalAmount, loyaltyPaid, config)) {
+    const points = Math.max(m.points, -balance);
+    if (!points) continue;
+    balance += points;
+    entries.push(
+      await db.pointsLedger.create({
+        data: { customerId: customer.id, receiptId: receipt.id, type: m.type, points, balance },
+      }),
+    );
+  }
+  if (balance !== customer.loyaltyPoints) {
+    await db.customer.update({ where: { id: customer.id }, data: { loyaltyPoints: balance } });
+  }
+  return entries;
+}
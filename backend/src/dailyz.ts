@@ -0,0 +1,137 @@
+import { Prisma } from '@prisma/client';
+import { Paise, roundPaise } from './money';
+import { summariseShift, TenderSummary } from './shifts';
+import { dayRange } from './time';
+
+/**
+ * Daily Z report: everything rung up on one business day of the store,
+ * across terminals.  The day runs midnight to midnight in the store's
+ * time zone (the `timezone` setting), not UTC, so a sale at 01:00 IST
+ * belongs to that date.  Sales and returns come from the receipts,
+ * voided carts and removed lines from the audit log.
+ */
+
+/** The receipt fields the report is built from */
+export interface ZReceipt {
+  receiptNumber: string;
+  terminal: string | null;
+  status: string; // COMPLETED or RETURNED
+  totalBeforeDiscount: Paise;
+  totalDiscount: Paise;
+  totalTax: Paise;
+  totalAmount: Paise;
+  roundOff: Paise;
+  changeDue: Paise;
+  taxes: { gstRate: number; taxableValue: Paise; cgst: Paise; sgst: Paise; igst: Paise; cess: Paise }[];
+  payments: { amount: Paise; paymentMethod: { code: string; name: string } }[];
+}
+
+/** The audit entries counted as voids */
+export interface ZVoid {
+  action: string; // CART_VOIDED or LINE_REMOVED
+  before: string | null;
+}
+
+const sum = <T>(rows: T[], f: (r: T) => number) => rows.reduce((s, r) => s + f(r), 0);
+
+/** A paise amount from an audit entry's JSON; 0 when it has none */
+const amountIn = (json: string | null, key: string): Paise => {
+  try {
+    const v = json ? JSON.parse(json)[key] : 0;
+    return typeof v === 'number' ? v : 0;
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * The Z report of a day from its receipts (in the order they were
+ * taken) and void entries.  Gross sales are line values before
+ * discount; net sales are what was collected after returns; tax by slab
+ * is net of returns.
+ */
+export function buildDailyZ(date: string, timeZone: string, receipts: ZReceipt[], voids: ZVoid[]) {
+  const sales = receipts.filter((r) => r.status === 'COMPLETED');
+  const returns = receipts.filter((r) => r.status === 'RETURNED');
+
+  const slabs = new Map<number, { gstRate: number; taxableValue: Paise; cgst: Paise; sgst: Paise; igst: Paise; cess: Paise }>();
+  for (const t of receipts.flatMap((r) => r.taxes)) {
+    const s = slabs.get(t.gstRate) ?? { gstRate: t.gstRate, taxableValue: 0, cgst: 0, sgst: 0, igst: 0, cess: 0 };
+    s.taxableValue += t.taxableValue;
+    s.cgst += t.cgst;
+    s.sgst += t.sgst;
+    s.igst += t.igst;
+    s.cess += t.cess;
+    slabs.set(t.gstRate, s);
+  }
+  const taxBySlab = [...slabs.values()]
+    .sort((a, b) => a.gstRate - b.gstRate)
+    .map((s) => ({ ...s, tax: s.cgst + s.sgst + s.igst + s.cess }));
+
+  // first and last number of each series, per terminal
+  const numbers = new Map<string, { terminal: string; series: 'SALE' | 'RETURN'; first: string; last: string; count: number }>();
+  for (const r of receipts) {
+    const series = r.status === 'RETURNED' ? 'RETURN' : 'SALE';
+    const terminal = r.terminal ?? '';
+    const key = `${terminal}|${series}`;
+    const n = numbers.get(key);
+    if (n) {
+      n.last = r.receiptNumber;
+      n.count += 1;
+    } else {
+      numbers.set(key, { terminal, series, first: r.receiptNumber, last: r.receiptNumber, count: 1 });
+    }
+  }
+
+  const tenders: TenderSummary[] = summariseShift({ openingFloat: 0, receipts, movements: [] }).tenders.filter(
+    (t) => t.sales || t.refunds,
+  );
+  const salesTotal = sum(sales, (r) => r.totalAmount);
+  const returnsTotal = sum(returns, (r) => r.totalAmount);
+  const carts = voids.filter((v) => v.action === 'CART_VOIDED');
+  const lines = voids.filter((v) => v.action === 'LINE_REMOVED');
+
+  return {
+    date,
+    timeZone,
+    grossSales: sum(sales, (r) => r.totalBeforeDiscount),
+    discounts: sum(sales, (r) => r.totalDiscount),
+    sales: { count: sales.length, total: salesTotal, tax: sum(sales, (r) => r.totalTax) },
+    returns: { count: returns.length, total: returnsTotal, tax: sum(returns, (r) => r.totalTax) },
+    netSales: salesTotal + returnsTotal,
+    netTaxable: sum(taxBySlab, (s) => s.taxableValue),
+    netTax: sum(taxBySlab, (s) => s.tax),
+    roundOff: sum(receipts, (r) => r.roundOff),
+    receiptCount: sales.length,
+    averageBasket: sales.length ? roundPaise(salesTotal / sales.length) : 0,
+    taxBySlab,
+    tenders,
+    numbers: [...numbers.values()].sort((a, b) => a.terminal.localeCompare(b.terminal) || a.series.localeCompare(b.series)),
+    voids: {
+      carts: carts.length,
+      cartsTotal: sum(carts, (v) => amountIn(v.before, 'totalAmount')),
+      lines: lines.length,
+      linesTotal: sum(lines, (v) => amountIn(v.before, 'lineTotal')),
+    },
+    // as the report was first shipped
+    totalSales: salesTotal,
+    paymentSummary: Object.fromEntries(tenders.map((t) => [t.name, t.net])),
+  };
+}
+
+export type DailyZ = ReturnType<typeof buildDailyZ>;
+
+/** The Z report of `date` (YYYY-MM-DD) in `timeZone` */
+export async function loadDailyZ(db: Prisma.TransactionClient, date: string, timeZone: string): Promise<DailyZ> {
+  const { from, to } = dayRange(date, timeZone);
+  const receipts = await db.receipt.findMany({
+    where: { date: { gte: from, lt: to }, status: { in: ['COMPLETED', 'RETURNED'] } },
+    include: { taxes: true, payments: { include: { paymentMethod: { select: { code: true, name: true } } } } },
+    orderBy: [{ date: 'asc' }, { id: 'asc' }],
+  });
+  const voids = await db.auditLog.findMany({
+    where: { createdAt: { gte: from, lt: to }, action: { in: ['CART_VOIDED', 'LINE_REMOVED'] } },
+    select: { action: true, before: true },
+  });
+  return buildDailyZ(date, timeZone, receipts, voids);
+}
@@ -0,0 +1,245 @@
+/**
+ * ESC/POS receipts for 58mm and 80mm thermal printers.
+ *
+ * Templates (escpos_templates/receipt_<paper>.txt) are plain text with a
+ * small Handlebars-like syntax:
+ *
+ *   {{NAME}}                          a value; inside #each the entry's fields come first
+ *   {{padRight name 20}}              helpers: padRight, padLeft, lr (left and right
+ *   {{lr "Subtotal" SUBTOTAL}}        ends of the paper), qr (a native QR code)
+ *   {{#each LINES}}…{{/each}}         once per entry ({{else}} when empty)
+ *   {{#if UPI_QR}}…{{else}}…{{/if}}   empty strings, zero and empty lists are false
+ *   {{#bold}} {{#double}} {{#center}} print styles
+ *
+ * A block tag alone on its line takes the line with it.  Rendering gives
+ * text with style marks; `encode` turns that into printer bytes, fitting
+ * every line to the paper's columns (rules of - or = stretch to the full
+ * width, longer lines are cut).
+ */
+
+export type PaperWidth = '58mm' | '80mm';
+
+/** Characters per line in the printer's default font (font A) */
+export const PAPER_COLUMNS: Record<PaperWidth, number> = { '58mm': 32, '80mm': 48 };
+
+export const isPaperWidth = (v: unknown): v is PaperWidth => v === '58mm' || v === '80mm';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+/** Printer commands */
+export const ESCPOS = {
+  INIT: [ESC, 0x40],
+  BOLD_ON: [ESC, 0x45, 1],
+  BOLD_OFF: [ESC, 0x45, 0],
+  DOUBLE_ON: [GS, 0x21, 0x01], // double height, normal width
+  DOUBLE_OFF: [GS, 0x21, 0x00],
+  ALIGN_LEFT: [ESC, 0x61, 0],
+  ALIGN_CENTER: [ESC, 0x61, 1],
+  CUT: [GS, 0x56, 0x42, 0x00], // feed to the cutter, partial cut
+  DRAWER_KICK: [ESC, 0x70, 0x00, 0x19, 0xfa], // pulse pin 2: 50ms on, 500ms off
+};
+
+/** Native QR code (GS ( k): model 2, error correction M, `moduleSize` dots per module */
+export function qrCode(data: string, moduleSize = 6): number[] {
+  const bytes = [...Buffer.from(printable(data), 'latin1')];
+  const len = bytes.length + 3;
+  return [
+    ...[GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0x00],
+    ...[GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, moduleSize],
+    ...[GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31],
+    ...[GS, 0x28, 0x6b, len & 0xff, len >> 8, 0x31, 0x50, 0x30, ...bytes],
+    ...[GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30],
+  ];
+}
+
+// style marks left in rendered text for `encode` (Unicode private use area)
+const MARK = {
+  BOLD_ON: '\uE000',
+  BOLD_OFF: '\uE001',
+  DOUBLE_ON: '\uE002',
+  DOUBLE_OFF: '\uE003',
+  CENTER_ON: '\uE004',
+  CENTER_OFF: '\uE005',
+  QR_START: '\uE006',
+  QR_END: '\uE007',
+};
+
+const STYLES: Record<string, [string, string]> = {
+  bold: [MARK.BOLD_ON, MARK.BOLD_OFF],
+  double: [MARK.DOUBLE_ON, MARK.DOUBLE_OFF],
+  center: [MARK.CENTER_ON, MARK.CENTER_OFF],
+};
+
+/** Text the printer's code page can show: the rupee sign spelt out, accents dropped, the rest as ? */
+export function printable(s: string): string {
+  return s
+    .replace(/₹\s?/g, 'Rs.')
+    .replace(/[\u00A0\u202F]/g, ' ')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036F]/g, '')
+    .replace(/[^\x20-\x7e\r\n]/g, '?');
+}
+
+type Node =
+  | { type: 'text'; text: string }
+  | { type: 'tag'; expr: string }
+  | { type: 'block'; name: string; arg: string; body: Node[]; inverse: Node[] };
+
+type Block = Extract<Node, { type: 'block' }>;
+
+const STANDALONE = /^[ \t]*(\{\{\s*(?:[#/][^}]*|else)\s*\}\})[ \t]*\r?\n/gm;
+
+/** Words of a tag; "quoted strings" stay whole */
+const words = (expr: string) => expr.match(/"[^"]*"|\S+/g) ?? [];
+
+function parse(template: string): Node[] {
+  const src = template.replace(STANDALONE, '$1');
+  const root: Node[] = [];
+  const stack: { block: Block; inElse: boolean }[] = [];
+  const into = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.block.inverse : top.block.body) : root;
+  };
+  const re = /\{\{\s*([^}]*?)\s*\}\}/g;
+  let last = 0;
+  for (let m = re.exec(src); m; m = re.exec(src)) {
+    if (m.index > last) into().push({ type: 'text', text: src.slice(last, m.index) });
+    last = re.lastIndex;
+    const expr = m[1];
+    if (expr.startsWith('#')) {
+      const [name = '', arg = ''] = words(expr.slice(1));
+      const block: Block = { type: 'block', name, arg, body: [], inverse: [] };
+      into().push(block);
+      stack.push({ block, inElse: false });
+    } else if (expr.startsWith('/')) {
+      const top = stack.pop();
+      if (top?.block.name !== expr.slice(1).trim()) throw new Error(`Template: unexpected {{${expr}}}`);
+    } else if (expr === 'else') {
+      if (!stack.length) throw new Error('Template: {{else}} outside a block');
+      stack[stack.length - 1].inElse = true;
+    } else {
+      into().push({ type: 'tag', expr });
+    }
+  }
+  if (last < src.length) into().push({ type: 'text', text: src.slice(last) });
+  if (stack.length) throw new Error(`Template: {{#${stack[stack.length - 1].block.name}}} is not closed`);
+  return root;
+}
+
+type Scopes = unknown[]; // innermost first
+
+function lookup(scopes: Scopes, path: string): unknown {
+  if (path === 'this') return scopes[0];
+  for (const scope of scopes) {
+    if (scope == null || typeof scope !== 'object') continue;
+    const value = path.split('.').reduce<any>((o, k) => o?.[k], scope);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+function value(word: string, scopes: Scopes): unknown {
+  if (/^"[^"]*"$/.test(word)) return word.slice(1, -1);
+  if (/^-?\d+(\.\d+)?$/.test(word)) return Number(word);
+  return lookup(scopes, word);
+}
+
+const text = (v: unknown) => (v == null ? '' : printable(String(v)));
+
+const truthy = (v: unknown) => (Array.isArray(v) ? v.length > 0 : !!v);
+
+const HELPERS: Record<string, (args: unknown[], columns: number) => string> = {
+  padRight: ([v, n]) => text(v).slice(0, Number(n)).padEnd(Number(n)),
+  padLeft: ([v, n]) => text(v).slice(0, Number(n)).padStart(Number(n)),
+  lr: ([l, r], columns) => {
+    const right = text(r);
+    const left = text(l).slice(0, Math.max(0, columns - right.length - 1));
+    return left + ' '.repeat(Math.max(1, columns - left.length - right.length)) + right;
+  },
+  qr: ([v]) => (truthy(v) ? MARK.QR_START + text(v) + MARK.QR_END : ''),
+};
+
+function renderNodes(nodes: Node[], scopes: Scopes, columns: number): string {
+  let out = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      out += printable(node.text);
+    } else if (node.type === 'tag') {
+      const [name = '', ...args] = words(node.expr);
+      const helper = HELPERS[name];
+      if (helper) out += helper(args.map((a) => value(a, scopes)), columns);
+      else if (args.length) throw new Error(`Template: unknown helper ${name}`);
+      else out += text(lookup(scopes, name));
+    } else if (node.name === 'each') {
+      const list = lookup(scopes, node.arg);
+      const items = Array.isArray(list) ? list : [];
+      out += items.length
+        ? items.map((item) => renderNodes(node.body, [item, ...scopes], columns)).join('')
+        : renderNodes(node.inverse, scopes, columns);
+    } else if (node.name === 'if') {
+      out += renderNodes(truthy(lookup(scopes, node.arg)) ? node.body : node.inverse, scopes, columns);
+    } else if (STYLES[node.name]) {
+      const [on, off] = STYLES[node.name];
+      out += on + renderNodes(node.body, scopes, columns) + off;
+    } else {
+      throw new Error(`Template: unknown block {{#${node.name}}}`);
+    }
+  }
+  return out;
+}
+
+/** Fill a template; `columns` is the paper width the `lr` helper spreads over */
+export function renderTemplate(template: string, data: Record<string, unknown>, columns: number): string {
+  return renderNodes(parse(template), [data], columns);
+}
+
+export interface EncodeOptions {
+  columns: number;
+  /** cut the paper at the end (default true) */
+  cut?: boolean;
+  /** pulse the cash drawer before printing */
+  openDrawer?: boolean;
+}
+
+const PIECES = /(\uE006[^\uE007]*\uE007|[\uE000-\uE005])/;
+const RULE = /^([-=])\1{3,}$/;
+const isMark = (piece: string) => /^[\uE000-\uE005]$/.test(piece) || piece.startsWith(MARK.QR_START);
+
+/** Rendered template text to an ESC/POS byte stream */
+export function encode(rendered: string, { columns, cut = true, openDrawer = false }: EncodeOptions): Buffer {
+  const out: number[] = [...ESCPOS.INIT];
+  if (openDrawer) out.push(...ESCPOS.DRAWER_KICK);
+  let centered = false;
+  for (const line of rendered.replace(/\r/g, '').split('\n')) {
+    const pieces = line.split(PIECES).filter(Boolean);
+    const visible = pieces.filter((p) => !isMark(p)).join('');
+    const rule = RULE.exec(visible.trim());
+    let used = 0;
+    let qrOnly = false;
+    for (const piece of pieces) {
+      if (piece.startsWith(MARK.QR_START)) {
+        if (used) out.push(LF);
+        out.push(...ESCPOS.ALIGN_CENTER, ...qrCode(piece.slice(1, -1)), LF);
+        out.push(...(centered ? ESCPOS.ALIGN_CENTER : ESCPOS.ALIGN_LEFT));
+        qrOnly = !visible.trim();
+        used = 0;
+      } else if (piece === MARK.BOLD_ON) out.push(...ESCPOS.BOLD_ON);
+      else if (piece === MARK.BOLD_OFF) out.push(...ESCPOS.BOLD_OFF);
+      else if (piece === MARK.DOUBLE_ON) out.push(...ESCPOS.DOUBLE_ON);
+      else if (piece === MARK.DOUBLE_OFF) out.push(...ESCPOS.DOUBLE_OFF);
+      else if (piece === MARK.CENTER_ON || piece === MARK.CENTER_OFF) {
+        centered = piece === MARK.CENTER_ON;
+        out.push(...(centered ? ESCPOS.ALIGN_CENTER : ESCPOS.ALIGN_LEFT));
+      } else {
+        const s = rule ? (used ? '' : rule[1].repeat(columns)) : piece.slice(0, Math.max(0, columns - used));
+        out.push(...Buffer.from(centered ? s.trim() : s, 'latin1'));
+        used += s.length;
+      }
+    }
+    if (!qrOnly) out.push(LF);
+  }
+  if (cut) out.push(...ESCPOS.CUT);
+  return Buffer.from(out);
+}
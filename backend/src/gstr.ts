@@ -0,0 +1,314 @@
+import { Prisma } from '@prisma/client';
+import { stateLabel } from './invoice';
+import { toRupees } from './money';
+import { isInterState, splitLineTax, TaxBreakup, TaxedLine } from './tax';
+import { dayRange, localDate } from './time';
+
+/**
+ * GSTR-1 and GSTR-3B data for a filing period, built from completed sale
+ * receipts and their returns.  The JSON follows the GST portal offline
+ * tool schema (section keys b2b, b2cs, cdnr, hsn, nil and 3B table 3.1
+ * `sup_details`); the CSV mirrors the offline tool's per-section sheets.
+ *
+ * - Sales with a buyer GSTIN are B2B invoices; everything else is
+ *   B2C small, grouped by rate and place of supply.
+ * - Returns against a B2B invoice are credit notes (cdnr).  Returns
+ *   against B2C sales are netted into the B2C small rows, as the portal
+ *   expects for unregistered buyers.
+ * - 0% lines are reported as nil-rated supplies, not in b2b/b2cs.
+ *
+ * Sums are kept in paise and converted to rupees only in the output.
+ */
+
+export const GSTR1_SECTIONS = ['b2b', 'b2cs', 'cdnr', 'hsn', 'nil'] as const;
+export type Gstr1Section = (typeof GSTR1_SECTIONS)[number];
+
+/** The receipt fields the returns are built from */
+export interface GstrReceipt {
+  receiptNumber: string;
+  date: Date;
+  status: string; // COMPLETED or RETURNED
+  totalAmount: number;
+  placeOfSupply: string | null;
+  customerGstin: string | null;
+  taxes: TaxBreakup[];
+  lines: (TaxedLine & { hsnCode: string | null; item?: { name: string; unit: string } | null })[];
+}
+
+/** Tax amounts in portal field names */
+interface Amounts {
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+const zero = (): Amounts => ({ txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 });
+
+function addTo(a: Amounts, t: { taxableValue: number; igst: number; cgst: number; sgst: number; cess: number }, sign = 1) {
+  a.txval += sign * t.taxableValue;
+  a.iamt += sign * t.igst;
+  a.camt += sign * t.cgst;
+  a.samt += sign * t.sgst;
+  a.csamt += sign * t.cess;
+}
+
+/** Paise sums to the rupee amounts the portal expects */
+const inRupees = <T extends Amounts>(a: T): T => ({
+  ...a,
+  txval: toRupees(a.txval),
+  iamt: toRupees(a.iamt),
+  camt: toRupees(a.camt),
+  samt: toRupees(a.samt),
+  csamt: toRupees(a.csamt),
+});
+
+/** dd-mm-yyyy in the store's time zone, as the portal wants it */
+const portalDate = (d: Date, timeZone: string) => localDate(d, timeZone).split('-').reverse().join('-');
+
+/** Return period (MMYYYY) of a YYYY-MM-DD date */
+export const filingPeriod = (date: string) => `${date.slice(5, 7)}${date.slice(0, 4)}`;
+
+/**
+ * A return period from `from` and `to` (YYYY-MM-DD, both days included),
+ * by default the month `today` falls in.  The days run midnight to
+ * midnight in the store's time zone, like the daily Z; `to` of the
+ * result is exclusive.
+ */
+export function gstrPeriod(q: { from?: unknown; to?: unknown }, today: string, timeZone: string) {
+  const day = (v: unknown, name: string) => {
+    if (v == null || v === '') return null;
+    if (typeof v !== 'string') throw new Error(`${name} must be YYYY-MM-DD`);
+    return v;
+  };
+  const [y, m] = today.split('-').map(Number);
+  const first = day(q.from, 'from') ?? `${today.slice(0, 7)}-01`;
+  const last = day(q.to, 'to') ?? new Date(Date.UTC(y, m, 0)).toISOString().slice(0, 10);
+  const from = dayRange(first, timeZone).from;
+  const to = dayRange(last, timeZone).to;
+  if (first > last) throw new Error('from must not be after to');
+  return { from, to, fp: filingPeriod(first) };
+}
+
+/** Unit quantity code for the HSN summary */
+function uqc(unit?: string | null): string {
+  switch ((unit || '').toLowerCase()) {
+    case 'kg':
+    case 'kgs':
+      return 'KGS';
+    case 'g':
+    case 'gm':
+      return 'GMS';
+    case 'l':
+    case 'ltr':
+      return 'LTR';
+    case 'ml':
+      return 'MLT';
+    case 'pcs':
+    case 'nos':
+    case 'ea':
+      return 'NOS';
+    default:
+      return 'OTH';
+  }
+}
+
+/** Rate-wise items of an invoice or credit note (always positive) */
+const itemsOf = (r: GstrReceipt) =>
+  r.taxes
+    .filter((t) => t.gstRate > 0)
+    .map((t, i) => {
+      const a = zero();
+      addTo(a, t, r.status === 'RETURNED' ? -1 : 1);
+      return { num: i + 1, itm_det: { rt: t.gstRate, ...inRupees(a) } };
+    });
+
+export function buildGstr1(receipts: GstrReceipt[], gstin: string, storeState: string, fp: string, timeZone: string) {
+  const b2b = new Map<string, any[]>();
+  const cdnr = new Map<string, any[]>();
+  const b2cs = new Map<string, any>();
+  const hsn = new Map<string, any>();
+  const nil = new Map<string, { sply_ty: string; nil_amt: number; expt_amt: number; ngsup_amt: number }>();
+
+  for (const r of receipts) {
+    const pos = r.placeOfSupply || storeState;
+    const interState = isInterState(storeState, pos);
+    const isReturn = r.status === 'RETURNED';
+    const ctin = r.customerGstin;
+    const itms = itemsOf(r);
+
+    if (ctin && itms.length) {
+      if (isReturn) {
+        const notes = cdnr.get(ctin) ?? [];
+        notes.push({
+          ntty: 'C',
+          nt_num: r.receiptNumber,
+          nt_dt: portalDate(r.date, timeZone),
+          val: toRupees(Math.abs(r.totalAmount)),
+          pos,
+          rchrg: 'N',
+          inv_typ: 'R',
+          itms,
+        });
+        cdnr.set(ctin, notes);
+      } else {
+        const invs = b2b.get(ctin) ?? [];
+        invs.push({
+          inum: r.receiptNumber,
+          idt: portalDate(r.date, timeZone),
+          val: toRupees(r.totalAmount),
+          pos,
+          rchrg: 'N',
+          inv_typ: 'R',
+          itms,
+        });
+        b2b.set(ctin, invs);
+      }
+    } else if (!ctin) {
+      for (const t of r.taxes.filter((t) => t.gstRate > 0)) {
+        const sply_ty = interState ? 'INTER' : 'INTRA';
+        const key = `${sply_ty}/${pos}/${t.gstRate}`;
+        const row = b2cs.get(key) ?? { sply_ty, pos, typ: 'OE', rt: t.gstRate, ...zero() };
+        addTo(row, t);
+        b2cs.set(key, row);
+      }
+    }
+
+    // Nil-rated value, by inter/intra and registered/unregistered buyer
+    const nilValue = r.taxes.filter((t) => t.gstRate === 0).reduce((s, t) => s + t.taxableValue, 0);
+    if (nilValue) {
+      const sply_ty = `${interState ? 'INTR' : 'INTRA'}${ctin ? 'B2B' : 'B2C'}`;
+      const row = nil.get(sply_ty) ?? { sply_ty, nil_amt: 0, expt_amt: 0, ngsup_amt: 0 };
+      row.nil_amt += nilValue;
+      nil.set(sply_ty, row);
+    }
+
+    // HSN summary nets sales and returns
+    for (const l of r.lines) {
+      const hsn_sc = l.hsnCode || 'NA';
+      const unit = uqc(l.item?.unit);
+      const key = `${hsn_sc}/${l.gstRate}/${unit}`;
+      const row = hsn.get(key) ?? { hsn_sc, desc: (l.item?.name ?? '').slice(0, 30), uqc: unit, qty: 0, rt: l.gstRate, val: 0, ...zero() };
+      const heads = splitLineTax(l, interState);
+      row.qty = Math.round((row.qty + l.quantity) * 1000) / 1000;
+      row.val += l.lineTotal;
+      addTo(row, { taxableValue: l.lineTotal - l.taxAmount, ...heads });
+      hsn.set(key, row);
+    }
+  }
+
+  return {
+    gstin,
+    fp,
+    b2b: [...b2b].map(([ctin, inv]) => ({ ctin, inv })),
+    b2cs: [...b2cs.values()].sort((a, b) => a.pos.localeCompare(b.pos) || a.rt - b.rt).map(inRupees),
+    cdnr: [...cdnr].map(([ctin, nt]) => ({ ctin, nt })),
+    hsn: {
+      data: [...hsn.values()]
+        .sort((a, b) => a.hsn_sc.localeCompare(b.hsn_sc) || a.rt - b.rt)
+        .map((row, i) => ({ num: i + 1, ...inRupees(row), val: toRupees(row.val) })),
+    },
+    nil: { inv: [...nil.values()].map((n) => ({ ...n, nil_amt: toRupees(n.nil_amt) })) },
+  };
+}
+
+export type Gstr1 = ReturnType<typeof buildGstr1>;
+
+/** GSTR-3B table 3.1: outward supplies, net of credit notes */
+export function buildGstr3b(receipts: GstrReceipt[], gstin: string, fp: string) {
+  const osup_det = zero();
+  let nilValue = 0;
+  for (const r of receipts) {
+    for (const t of r.taxes) {
+      if (t.gstRate > 0) {
+        addTo(osup_det, t);
+      } else {
+        nilValue += t.taxableValue;
+      }
+    }
+  }
+  return {
+    gstin,
+    ret_period: fp,
+    sup_details: {
+      osup_det: inRupees(osup_det),
+      osup_zero: { txval: 0, iamt: 0, csamt: 0 },
+      osup_nil_exmp: { txval: toRupees(nilValue) },
+      isup_rev: zero(),
+      osup_nongst: { txval: 0 },
+    },
+  };
+}
+
+export type Gstr3b = ReturnType<typeof buildGstr3b>;
+
+/** Quote a CSV cell when needed */
+const cell = (v: unknown) => {
+  const s = String(v ?? '');
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+const toCsv = (header: string[], rows: unknown[][]) => [header, ...rows].map((r) => r.map(cell).join(',')).join('\n') + '\n';
+
+/** One GSTR-1 section as CSV, in the offline tool's column order */
+export function gstr1Csv(report: Gstr1, section: Gstr1Section): string {
+  switch (section) {
+    case 'b2b':
+      return toCsv(
+        ['GSTIN/UIN of Recipient', 'Invoice Number', 'Invoice date', 'Invoice Value', 'Place Of Supply', 'Reverse Charge', 'Invoice Type', 'Rate', 'Taxable Value', 'Cess Amount'],
+        report.b2b.flatMap((b) =>
+          b.inv.flatMap((inv) =>
+            inv.itms.map((it: any) => [b.ctin, inv.inum, inv.idt, inv.val, stateLabel(inv.pos), inv.rchrg, 'Regular', it.itm_det.rt, it.itm_det.txval, it.itm_det.csamt]),
+          ),
+        ),
+      );
+    case 'b2cs':
+      return toCsv(
+        ['Type', 'Place Of Supply', 'Rate', 'Taxable Value', 'Cess Amount'],
+        report.b2cs.map((r) => [r.typ, stateLabel(r.pos), r.rt, r.txval, r.csamt]),
+      );
+    case 'cdnr':
+      return toCsv(
+        ['GSTIN/UIN of Recipient', 'Note Number', 'Note Date', 'Note Type', 'Place Of Supply', 'Reverse Charge', 'Note Supply Type', 'Note Value', 'Rate', 'Taxable Value', 'Cess Amount'],
+        report.cdnr.flatMap((c) =>
+          c.nt.flatMap((nt) =>
+            nt.itms.map((it: any) => [c.ctin, nt.nt_num, nt.nt_dt, nt.ntty, stateLabel(nt.pos), nt.rchrg, 'Regular', nt.val, it.itm_det.rt, it.itm_det.txval, it.itm_det.csamt]),
+          ),
+        ),
+      );
+    case 'hsn':
+      return toCsv(
+        ['HSN', 'Description', 'UQC', 'Total Quantity', 'Total Value', 'Rate', 'Taxable Value', 'Integrated Tax Amount', 'Central Tax Amount', 'State/UT Tax Amount', 'Cess Amount'],
+        report.hsn.data.map((h) => [h.hsn_sc, h.desc, h.uqc, h.qty, h.val, h.rt, h.txval, h.iamt, h.camt, h.samt, h.csamt]),
+      );
+    case 'nil':
+      return toCsv(
+        ['Description', 'Nil Rated Supplies', 'Exempted (other than nil rated/non GST supply)', 'Non-GST Supplies'],
+        report.nil.inv.map((n) => [n.sply_ty, n.nil_amt, n.expt_amt, n.ngsup_amt]),
+      );
+  }
+}
+
+/** GSTR-3B table 3.1 as CSV */
+export function gstr3bCsv(report: Gstr3b): string {
+  const s = report.sup_details;
+  return toCsv(
+    ['Nature of Supplies', 'Total Taxable Value', 'Integrated Tax', 'Central Tax', 'State/UT Tax', 'Cess'],
+    [
+      ['(a) Outward taxable supplies (other than zero rated, nil rated and exempted)', s.osup_det.txval, s.osup_det.iamt, s.osup_det.camt, s.osup_det.samt, s.osup_det.csamt],
+      ['(b) Outward taxable supplies (zero rated)', s.osup_zero.txval, s.osup_zero.iamt, '', '', s.osup_zero.csamt],
+      ['(c) Other outward supplies (nil rated, exempted)', s.osup_nil_exmp.txval, '', '', '', ''],
+      ['(d) Inward supplies (liable to reverse charge)', s.isup_rev.txval, s.isup_rev.iamt, s.isup_rev.camt, s.isup_rev.samt, s.isup_rev.csamt],
+      ['(e) Non-GST outward supplies', s.osup_nongst.txval, '', '', '', ''],
+    ],
+  );
+}
+
+/** Completed sales and returns dated within [from, to) */
+export function loadPeriodReceipts(db: Prisma.TransactionClient, from: Date, to: Date): Promise<GstrReceipt[]> {
+  return db.receipt.findMany({
+    where: { date: { gte: from, lt: to }, status: { in: ['COMPLETED', 'RETURNED'] } },
+    include: { taxes: true, lines: { include: { item: { select: { name: true, unit: true } } } } },
+    orderBy: { date: 'asc' },
+  });
+}
@@ -1,29 +1,88 @@
 import express from 'express';
 import cors from 'cors';
 import prisma from './prisma';
-import { v4 as uuid } from 'uuid';
+import { audit, auditPrint, AUDIT_ACTIONS, changes, lineSnapshot, parseAuditQuery } from './audit';
+import { allow, authenticate, currentTerminal, currentUser, login, logout, SessionUser } from './auth';
+import { approveExpired, ExpiredError } from './batches';
+import { loadDailyZ } from './dailyz';
+import { localDate } from './time';
+import { loyaltyConfig, maskPhone, normalisePhone, PointsEntryType, POINTS_LABELS } from './customers';
+import { findByIdempotencyKey, recordSale, TenderError } from './sales';
+import { loadReturnable, recordExchange, recordReturn, RETURN_REASONS } from './returns';
+import {
+  CartLine,
+  countOpenCarts,
+  createCart,
+  deleteCart,
+  getCart,
+  holdCart,
+  listHeldCarts,
+  resumeCart,
+  saveCart,
+  setCustomer,
+  setCustomerGstin,
+  setPlaceOfSupply,
+  startPayment,
+} from './carts';
+import {
+  buildGstr1,
+  buildGstr3b,
+  Gstr1Section,
+  gstrPeriod,
+  GSTR1_SECTIONS,
+  gstr1Csv,
+  gstr3bCsv,
+  loadPeriodReceipts,
+} from './gstr';
+import {
+  adjustStock,
+  ADJUSTMENT_REASONS,
+  allowNegativeStock,
+  checkStock,
+  receiveStock,
+  StockError,
+  stockOnHand,
+} from './inventory';
+import { amountInWords, hsnSummary, stateLabel, wrapWords } from './invoice';
+import { formatINR, formatRupees, grossValue, percentOf, roundPaise } from './money';
+import { isPaperWidth } from './escpos';
+import { grantOverride, isOverrideAction, lineOverrides, OverrideAction, OverrideError, OVERRIDE_ACTIONS, useOverride } from './overrides';
+import { dailyZBytes, drawerKick, parsePrinterTarget, PrinterTarget, receiptBytes, sendToPrinter, shiftBytes } from './printer';
+import { parsePromotion } from './promotions';
+import {
+  createPurchaseOrder,
+  GOODS_RECEIPT_INCLUDE,
+  parseGoodsReceipt,
+  parsePurchaseOrder,
+  parseVendor,
+  PURCHASE_ORDER_INCLUDE,
+  receiveGoods,
+  setPurchaseOrderStatus,
+  updatePurchaseOrder,
+} from './purchasing';
+import { labelQuantity, parseScaleBarcode, ScaleLabel } from './scale';
+import { draftPurchaseOrders, nearExpiry, parseReorderOptions, reorderReport } from './replenishment';
+import { loadSettings, parseSettings, saveSettings, setting, Settings, storeGstin, storeStateCode } from './settings';
+import {
+  CASH_MOVEMENT_TYPES,
+  closeShift,
+  currentShift,
+  DENOMINATIONS,
+  isCashMovementType,
+  openShift,
+  parseShiftCount,
+  ShiftError,
+  shiftReport,
+  UNCOUNTED_TENDERS,
+} from './shifts';
+import { GST_STATES, isInterState, isValidGstin, normaliseStateCode, priceLine } from './tax';
+import { parseUser, rolePermissions, saveUser, USER_SELECT } from './users';
 
 /** small helpers */
 const toNum = (v: any) => (v == null ? 0 : typeof v === 'number' ? v : Number(v));
 
-/** In-memory cart (simple demo) */
-interface CartLine {
-  itemId: number;
-  quantity: number;
-  unitPrice: number;
-  discount: number;
-  taxRateId: number | null;
-  taxAmount: number;
-  lineTotal: number;
-  name?: string;
-}
-interface Cart {
-  id: string;
-  lines: CartLine[];
-}
-const carts: Record<string, Cart> = {};
-
-async function main() {
+/** The API with every route; `main` serves it, the route tests drive it through supertest */
+export function createApp() {
   const app = express();
   app.use(cors());
   app.use(express.json());
@@ -31,6 +90,64 @@ async function main() {
   /** Health */
   app.get('/api/health', (_req, res) => res.json({ status: 'ok' }));
 
+  /** Auth: { username, password, terminal? } -> { token, expiresAt, user } (see src/auth.ts) */
+  app.use('/api', authenticate(prisma));
+  app.post('/api/auth/login', async (req, res) => {
+    const { username, password, terminal } = req.body || {};
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ error: 'username and password are required' });
+    }
+    try {
+      const session = await login(prisma, username, password, typeof terminal === 'string' ? terminal : undefined);
+      if (!session) return res.status(401).json({ error: 'Wrong username or password' });
+      res.json(session);
+    } catch (err: any) {
+      // an unknown terminal
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  // every route below needs a signed-in user; allow(...) also wants a permission
+  app.use('/api', allow());
+
+  app.get('/api/auth/me', (_req, res) => res.json(currentUser(res)));
+  app.post('/api/auth/logout', async (_req, res) => {
+    await logout(prisma, currentUser(res).sessionId);
+    res.json({ ok: true });
+  });
+
+  /** Users: accounts with their role names; passwords are never returned */
+  app.get('/api/users', allow('users'), async (_req, res) => {
+    res.json(await prisma.user.findMany({ select: USER_SELECT, orderBy: { username: 'asc' } }));
+  });
+  app.get('/api/roles', allow('users'), async (_req, res) => {
+    const roles = await prisma.role.findMany({ orderBy: { id: 'asc' } });
+    res.json(roles.map((r) => ({ id: r.id, name: r.name, permissions: rolePermissions(r) })));
+  });
+  /** Users: create { username, fullName, password, role, pin? } */
+  app.post('/api/users', allow('users'), async (req, res) => {
+    try {
+      res.status(201).json(await saveUser(prisma, parseUser(req.body)));
+    } catch (err: any) {
+      if (err?.code === 'P2002') return res.status(409).json({ error: 'That username is taken' });
+      res.status(400).json({ error: err.message });
+    }
+  });
+  /** Users: update any of { username, fullName, password, role, pin, active }; a new password or deactivating ends their sessions */
+  app.put('/api/users/:id', allow('users'), async (req, res) => {
+    const id = Number(req.params.id);
+    if (!(await prisma.user.findUnique({ where: { id } }))) return res.status(404).json({ error: 'User not found' });
+    try {
+      const input = parseUser(req.body, true);
+      const user = await saveUser(prisma, input, id);
+      if (!user.active || input.password !== undefined) await prisma.session.deleteMany({ where: { userId: id } });
+      res.json(user);
+    } catch (err: any) {
+      if (err?.code === 'P2002') return res.status(409).json({ error: 'That username is taken' });
+      res.status(400).json({ error: err.message });
+    }
+  });
+
   /** Items list (supports ?query= or ?search=) */
   app.get('/api/items', async (req, res) => {
     const q = (req.query.query ?? req.query.search ?? '').toString();
@@ -42,6 +159,7 @@ async function main() {
                 { name: { contains: q } },
                 { sku: { contains: q } },
                 { barcodes: { some: { code: { contains: q } } } },
+                { plu: q },
               ],
             }
           : undefined,
@@ -55,7 +173,7 @@ async function main() {
   });
 
   /** Minimal Items create/read (optional) */
-  app.post('/api/items', async (req, res) => {
+  app.post('/api/items', allow('items'), async (req, res) => {
     try {
       const item = await prisma.item.create({ data: req.body });
       res.status(201).json(item);
@@ -64,6 +182,23 @@ async function main() {
     }
   });
 
+  /** Items update; a change of mrp or cost is audited */
+  app.put('/api/items/:id', allow('items'), async (req, res) => {
+    const id = Number(req.params.id);
+    const before = await prisma.item.findUnique({ where: { id } });
+    if (!before) return res.status(404).json({ error: 'Not found' });
+    try {
+      const item = await prisma.item.update({ where: { id }, data: req.body });
+      const diff = changes({ mrp: before.mrp, cost: before.cost }, { mrp: item.mrp, cost: item.cost });
+      if (diff.changed) {
+        await audit(prisma, currentUser(res), { action: 'ITEM_PRICE_CHANGE', reference: item.sku, before: diff.before, after: diff.after });
+      }
+      res.json(item);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
   app.get('/api/items/:id', async (req, res) => {
     const id = Number(req.params.id);
     const item = await prisma.item.findUnique({
@@ -75,183 +210,550 @@ async function main() {
   });
 
   /** Checkout: start -> return full cart object */
-  app.post('/api/checkout/start', (_req, res) => {
-    const id = uuid();
-    const cart: Cart = { id, lines: [] };
-    carts[id] = cart;
+  app.post('/api/checkout/start', allow('sell'), async (_req, res) => {
+    try {
+      res.json(await createCart());
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /** Checkout: fetch an open cart (lets the Cashier page resume after a reload) */
+  app.get('/api/checkout/cart/:id', allow('sell'), async (req, res) => {
+    const cart = await getCart(req.params.id);
+    if (!cart) return res.status(404).json({ error: 'Cart not found' });
     res.json(cart);
   });
 
-  /** Checkout: add item { cartId, itemId?, barcode?, qty } -> return cart */
-  app.post('/api/checkout/add', async (req, res) => {
-    const { cartId, itemId, barcode, qty = 1 } = req.body || {};
-    const cart = carts[cartId];
+  /**
+   * Checkout: add item { cartId, itemId?, barcode?, qty, supervisorPin? } -> return cart
+   * with `stockWarnings` for items short of stock; 409 OUT_OF_STOCK instead
+   * when negative stock is not allowed, 409 EXPIRED when only expired stock
+   * is left and no supervisor PIN approves selling it.  A barcode that is
+   * a weighing-scale label (src/scale.ts) adds its item by PLU at the
+   * label's weight; only weighable items take a decimal qty
+   */
+  app.post('/api/checkout/add', allow('sell'), async (req, res) => {
+    const { cartId, itemId, barcode, qty = 1, supervisorPin } = req.body || {};
+    const cart = await getCart(cartId);
     if (!cart) return res.status(404).json({ error: 'Cart not found' });
+    if (cart.status === 'HELD') return res.status(409).json({ error: 'Cart is on hold' });
 
-    // locate item
+    // locate item: an exact barcode, else a weighing-scale label (PLU with weight or price)
     let item: any | null = null;
+    let label: ScaleLabel | null = null;
     if (barcode) {
       const bc = await prisma.barcode.findUnique({
         where: { code: String(barcode) },
         include: { item: true },
       });
       item = bc?.item ?? null;
+      if (!item) {
+        label = parseScaleBarcode(String(barcode), await setting(prisma, 'scaleBarcodeFormats'));
+        if (label) item = await prisma.item.findUnique({ where: { plu: label.plu } });
+      }
     } else if (itemId) {
       item = await prisma.item.findUnique({ where: { id: Number(itemId) } });
     }
     if (!item) return res.status(404).json({ error: 'Item not found' });
 
     const unitPrice = toNum(item.mrp);
-    let taxAmount = 0;
+    const quantity = label ? labelQuantity(label, unitPrice) : Number(qty);
+    if (!(quantity > 0)) return res.status(400).json({ error: 'qty must be more than 0' });
+    if (!item.isWeighable && !Number.isInteger(quantity)) {
+      return res.status(400).json({ error: `${item.name} is sold in whole units` });
+    }
     let taxRateId: number | null = null;
+    let hsnCode: string | null = item.hsnCode ?? null;
+    let gstRate = 0;
+    let cessRate = 0;
 
     if (item.taxId) {
       const tax = await prisma.tax.findUnique({ where: { id: item.taxId } });
       if (tax) {
         taxRateId = tax.id;
-        taxAmount = (unitPrice * qty * tax.rate) / 100;
+        hsnCode = hsnCode ?? tax.hsn ?? null;
+        gstRate = tax.rate;
+        cessRate = tax.cess ?? 0;
       }
     }
 
-    const line: CartLine = {
+    const line: CartLine = priceLine({
       itemId: item.id,
-      quantity: Number(qty),
+      quantity,
       unitPrice,
       discount: 0,
+      promoDiscount: 0,
       taxRateId,
-      taxAmount,
-      lineTotal: unitPrice * qty + taxAmount,
+      hsnCode,
+      gstRate,
+      cessRate,
+      taxAmount: 0,
+      cessAmount: 0,
+      lineTotal: 0,
+      taxInclusive: await setting(prisma, 'pricesIncludeTax'),
+      labelPrice: label?.kind === 'PRICE' ? label.price : null,
       name: item.name,
-    };
+      unit: item.isWeighable ? item.unit : null,
+    });
 
     cart.lines.push(line);
-    res.json(cart);
+    try {
+      const stockWarnings = await checkStock(prisma, cart.lines.filter((l) => l.itemId === item.id));
+      // lines already approved take the expired units; the rest need fresh stock
+      const fresh = cart.lines.filter((l) => l.itemId === item.id && l.expiryOverrideBy == null);
+      line.expiryOverrideBy = await approveExpired(
+        prisma,
+        item,
+        fresh.reduce((s, l) => s + l.quantity, 0),
+        supervisorPin,
+        `cart ${cart.id}`,
+        currentUser(res),
+      );
+      res.json({ ...(await saveCart(cart)), stockWarnings });
+    } catch (err: any) {
+      if (err instanceof StockError) return res.status(409).json({ error: err.message, code: err.code, shortages: err.shortages });
+      if (err instanceof ExpiredError) return res.status(409).json({ error: err.message, code: err.code, ...err.details });
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /** Optional: apply % discount (0-100) to entire cart (on top of any promotions) */
+  app.post('/api/checkout/discount', allow('sell'), async (req, res) => {
+    try {
+      const { cartId, discountPercent = 0, overrideToken } = req.body || {};
+      const percent = Number(discountPercent);
+      if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+        return res.status(400).json({ error: 'discountPercent must be between 0 and 100' });
+      }
+      const cart = await getCart(cartId);
+      if (!cart) return res.status(404).json({ error: 'Cart not found' });
+      if (cart.status === 'HELD') return res.status(409).json({ error: 'Cart is on hold' });
+
+      const limit = await setting(prisma, 'overrideDiscountPercent');
+      const user = currentUser(res);
+      const detail = `${percent}% off the bill`;
+      cart.lines = cart.lines.map((l) => {
+        const d = percentOf(grossValue(l), percent);
+        return priceLine({ ...l, discount: d + l.promoDiscount });
+      });
+      const before = cart.totals?.totalDiscount ?? 0;
+      const saved = await prisma.$transaction(async (tx) => {
+        await useOverride(tx, percent > limit ? ['DISCOUNT'] : [], overrideToken, cart.id, detail, user.terminal);
+        return saveCart(cart, tx);
+      });
+      await audit(prisma, user, {
+        action: 'DISCOUNT',
+        reference: cart.id,
+        before: { totalDiscount: before },
+        after: { discountPercent: percent, totalDiscount: saved.totals?.totalDiscount ?? 0 },
+        description: detail,
+      });
+      res.json(saved);
+    } catch (err: any) {
+      if (err instanceof OverrideError) return res.status(409).json({ error: err.message, code: err.code, actions: err.actions });
+      res.status(400).json({ error: err.message });
+    }
   });
 
-  /** Optional: apply % discount to entire cart */
-  app.post('/api/checkout/discount', (req, res) => {
-    const { cartId, discountPercent = 0 } = req.body || {};
-    const cart = carts[cartId];
+  /**
+   * Checkout: set the customer's place of supply for GST
+   * body: { cartId, placeOfSupply } (state code, abbreviation or GSTIN; empty = store state)
+   */
+  app.post('/api/checkout/placeOfSupply', allow('sell'), async (req, res) => {
+    const { cartId, placeOfSupply } = req.body || {};
+    const cart = await getCart(cartId);
     if (!cart) return res.status(404).json({ error: 'Cart not found' });
+    if (cart.status === 'HELD') return res.status(409).json({ error: 'Cart is on hold' });
+    const code = placeOfSupply ? normaliseStateCode(placeOfSupply) : null;
+    if (placeOfSupply && !code) return res.status(400).json({ error: 'Unknown state' });
+    res.json(await setPlaceOfSupply(cart, code));
+  });
 
-    cart.lines = cart.lines.map((l) => {
-      const d = (l.unitPrice * l.quantity) * (Number(discountPercent) / 100);
-      const t = l.unitPrice * l.quantity - d + l.taxAmount;
-      return { ...l, discount: d, lineTotal: t };
-    });
-    res.json(cart);
+  /**
+   * Checkout: attach a B2B buyer's GSTIN (empty to clear) for the tax invoice
+   * body: { cartId, gstin }
+   */
+  app.post('/api/checkout/customerGstin', allow('sell'), async (req, res) => {
+    const { cartId, gstin } = req.body || {};
+    const cart = await getCart(cartId);
+    if (!cart) return res.status(404).json({ error: 'Cart not found' });
+    if (cart.status === 'HELD') return res.status(409).json({ error: 'Cart is on hold' });
+    const value = gstin ? String(gstin).trim().toUpperCase() : null;
+    if (value && !isValidGstin(value)) return res.status(400).json({ error: 'Invalid GSTIN' });
+    res.json(await setCustomerGstin(cart, value));
+  });
+
+  /**
+   * Checkout: attach a loyalty customer to the cart (null to detach)
+   * body: { cartId, customerId }
+   */
+  app.post('/api/checkout/customer', allow('sell'), async (req, res) => {
+    const { cartId, customerId } = req.body || {};
+    const cart = await getCart(cartId);
+    if (!cart) return res.status(404).json({ error: 'Cart not found' });
+    if (cart.status === 'HELD') return res.status(409).json({ error: 'Cart is on hold' });
+    if (customerId != null && !(await prisma.customer.findUnique({ where: { id: Number(customerId) } }))) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+    res.json(await setCustomer(cart, customerId == null ? null : Number(customerId)));
+  });
+
+  /** GST state codes (for place-of-supply pickers) */
+  app.get('/api/tax/states', (_req, res) => res.json(GST_STATES));
+
+  /**
+   * Checkout: hold (park) a cart so the next customer can be served
+   * body: { cartId, customerLabel? } -> held cart (with holdRef)
+   */
+  app.post('/api/checkout/hold', allow('sell'), async (req, res) => {
+    const { cartId, customerLabel = null } = req.body || {};
+    const cart = await getCart(cartId);
+    if (!cart) return res.status(404).json({ error: 'Cart not found' });
+    if (!cart.lines.length) return res.status(400).json({ error: 'Cart empty' });
+    try {
+      res.json(await holdCart(cart.id, customerLabel));
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /**
+   * Checkout: resume a held cart
+   * body: { holdRef, currentCartId? } -> cart
+   * An empty cart being swapped out (currentCartId) is discarded.
+   */
+  app.post('/api/checkout/resume', allow('sell'), async (req, res) => {
+    const { holdRef, currentCartId } = req.body || {};
+    if (!holdRef) return res.status(400).json({ error: 'holdRef required' });
+    try {
+      const cart = await resumeCart(holdRef);
+      if (!cart) return res.status(404).json({ error: 'Held cart not found' });
+      if (currentCartId && currentCartId !== cart.id) {
+        const current = await getCart(currentCartId);
+        if (current && current.status === 'OPEN' && !current.lines.length) await deleteCart(current.id);
+      }
+      res.json(cart);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /** Checkout: list held carts (label, item count, total, age) */
+  app.get('/api/checkout/holds', allow('sell'), async (_req, res) => {
+    res.json(await listHeldCarts());
   });
 
   /**
    * Checkout: complete
    * body: { cartId, payments: [{ method: 'CASH'|'UPI'|'CARD'|'WALLET', amount, reference? }], customerId? }
+   * header: Idempotency-Key (or body.idempotencyKey) – a retry with the same
+   * key returns the receipt of the first request instead of a second sale.
+   * Receipt, payments, stock movements and the cart delete are one transaction.
    */
-  app.post('/api/checkout/complete', async (req, res) => {
+  app.post('/api/checkout/complete', allow('sell'), async (req, res) => {
     const { cartId, payments = [], customerId = null } = req.body || {};
-    const cart = carts[cartId];
+    const idempotencyKey = String(req.get('Idempotency-Key') || req.body?.idempotencyKey || '').trim() || null;
+    if (idempotencyKey) {
+      const prior = await findByIdempotencyKey(prisma, idempotencyKey);
+      if (prior) return res.json(prior);
+    }
+    const cart = await getCart(cartId);
     if (!cart) return res.status(404).json({ error: 'Cart not found' });
+    if (cart.status === 'HELD') return res.status(409).json({ error: 'Cart is on hold' });
     if (!cart.lines.length) return res.status(400).json({ error: 'Cart empty' });
 
-    // totals (matching your working schema fields)
-    const totalBeforeDiscount = cart.lines.reduce((s, l) => s + l.unitPrice * l.quantity, 0);
-    const totalDiscount = cart.lines.reduce((s, l) => s + l.discount, 0);
-    const totalTax = cart.lines.reduce((s, l) => s + l.taxAmount, 0);
-    const totalAmount = cart.lines.reduce((s, l) => s + l.lineTotal, 0);
-
-    // simplified GST split
-    const cgst = totalTax / 2;
-    const sgst = totalTax / 2;
-    const igst = 0;
-    const cess = 0;
-
-    const receiptNumber = `R${Date.now()}${Math.floor(Math.random() * 1000)}`;
+    try {
+      const receipt = await prisma.$transaction(async (tx) => {
+        const sale = await recordSale(tx, cart, payments, customerId, idempotencyKey, currentTerminal(res));
+        await deleteCart(cart.id, tx);
+        return sale;
+      });
+      res.json(receipt);
+    } catch (err: any) {
+      // a concurrent retry won the race: hand back its receipt
+      if (idempotencyKey && err?.code === 'P2002') {
+        const prior = await findByIdempotencyKey(prisma, idempotencyKey);
+        if (prior) return res.json(prior);
+      }
+      if (err instanceof TenderError) return res.status(400).json({ error: err.message, code: err.code, ...err.details });
+      if (err instanceof ShiftError) return res.status(409).json({ error: err.message, code: err.code });
+      if (err instanceof StockError) return res.status(409).json({ error: err.message, code: err.code, shortages: err.shortages });
+      res.status(400).json({ error: err.message });
+    }
+  });
 
+  /**
+   * Checkout: void a whole cart { cartId, reason?, overrideToken? }; the
+   * lines go to the audit log.  Once payment has started it needs an override.
+   */
+  app.post('/api/checkout/void', allow('void'), async (req, res) => {
     try {
-      // ensure payment methods exist; connect by id
-      const createPayments = [];
-      for (const p of payments) {
-        const methodName = String(p.method || '').toUpperCase() || 'CASH';
-        let pm = await prisma.paymentMethod.findFirst({
-          where: { OR: [{ code: methodName }, { name: methodName }] as any },
-        });
-        if (!pm) {
-          try {
-            pm = await prisma.paymentMethod.create({
-              data: { code: methodName, name: methodName } as any,
-            });
-          } catch {
-            pm = await prisma.paymentMethod.create({
-              data: { name: methodName } as any,
-            });
-          }
-        }
-        createPayments.push({
-          amount: toNum(p.amount),
-          reference: p.reference ? String(p.reference) : null,
-          status: 'SUCCESS',
-          paymentMethod: { connect: { id: pm.id } }, // relation name: paymentMethod
+      const { cartId, reason, overrideToken } = req.body || {};
+      const cart = await getCart(cartId);
+      if (!cart) return res.status(404).json({ error: 'Cart not found' });
+      const user = currentUser(res);
+      const needed: OverrideAction[] =
+        cart.paymentAt && cart.lines.length && (await setting(prisma, 'overrideVoidAfterPayment')) ? ['VOID_AFTER_PAYMENT'] : [];
+      await useOverride(prisma, needed, overrideToken, cart.id, `voided cart of ${cart.lines.length} lines`, user.terminal);
+      await deleteCart(cart.id);
+      if (cart.lines.length) {
+        await audit(prisma, user, {
+          action: 'CART_VOIDED',
+          reference: cart.id,
+          before: { lines: cart.lines.map(lineSnapshot), totalAmount: cart.totals?.totalAmount ?? 0 },
+          description: reason ? String(reason).slice(0, 200) : undefined,
         });
       }
+      res.json({ voided: true });
+    } catch (err: any) {
+      if (err instanceof OverrideError) return res.status(409).json({ error: err.message, code: err.code, actions: err.actions });
+      res.status(400).json({ error: err.message });
+    }
+  });
 
-      const receipt = await prisma.receipt.create({
-        data: {
-          receiptNumber,
-          date: new Date(),
-          customerId: customerId ?? null,
-          totalBeforeDiscount,
-          totalDiscount,
-          totalTax,
-          totalAmount,
-          cgst,
-          sgst,
-          igst,
-          cess,
-          status: 'COMPLETED',
-          lines: {
-            create: cart.lines.map((l) => ({
-              itemId: l.itemId,
-              quantity: l.quantity,
-              unitPrice: l.unitPrice,
-              discount: l.discount,
-              taxAmount: l.taxAmount,
-              lineTotal: l.lineTotal,
-              taxRateId: l.taxRateId ?? null,
-            })),
-          },
-          payments: { create: createPayments },
-        },
-        include: {
-          lines: true,
-          payments: { include: { paymentMethod: true } },
-        },
+  /** Checkout: the payment drawer was opened { cartId }; removing or reducing lines after it may need an override */
+  app.post('/api/checkout/payment', allow('sell'), async (req, res) => {
+    const cart = await getCart(req.body?.cartId);
+    if (!cart) return res.status(404).json({ error: 'Cart not found' });
+    res.json(await startPayment(cart));
+  });
+
+  /**
+   * Overrides: a supervisor's PIN for actions past the thresholds
+   * body: { pin, actions: [...], cartId? } -> { token, actions, expiresAt, approvedBy }
+   * The token goes with the retried request as `overrideToken` (see src/overrides.ts).
+   */
+  app.post('/api/overrides', allow('sell'), async (req, res) => {
+    const { pin, actions, cartId } = req.body || {};
+    if (!Array.isArray(actions) || !actions.length || !actions.every(isOverrideAction)) {
+      return res.status(400).json({ error: `actions must list some of ${OVERRIDE_ACTIONS.join(', ')}` });
+    }
+    try {
+      res.json(await grantOverride(prisma, pin, actions, cartId ? String(cartId) : null, currentUser(res)));
+    } catch (err: any) {
+      res.status(403).json({ error: err.message });
+    }
+  });
+
+  /** Drawer: open the cash drawer without a sale { overrideToken? }; always audited */
+  app.post('/api/drawer/no-sale', allow('sell'), async (req, res) => {
+    const user = currentUser(res);
+    const detail = `no sale by ${user.username} at ${currentTerminal(res)}`;
+    let target: PrinterTarget;
+    try {
+      const needed: OverrideAction[] = (await setting(prisma, 'overrideNoSale')) ? ['NO_SALE'] : [];
+      await useOverride(prisma, needed, req.body?.overrideToken, null, detail, user.terminal);
+      target = parsePrinterTarget(await setting(prisma, 'printer'));
+    } catch (err: any) {
+      if (err instanceof OverrideError) return res.status(409).json({ error: err.message, code: err.code, actions: err.actions });
+      return res.status(400).json({ error: err.message });
+    }
+    await audit(prisma, user, { action: 'NO_SALE', description: detail });
+    try {
+      await sendToPrinter(target, drawerKick());
+      res.json({ opened: true });
+    } catch (err: any) {
+      res.status(502).json({ error: `Printer error: ${err.message}` });
+    }
+  });
+
+  /**
+   * Shifts (src/shifts.ts): the drawer of this terminal is opened with a
+   * float, takes drops and pay-outs, and is closed with a blind count.
+   * The cashier's view of the open shift has no expected figures; the X
+   * report is for the `reports` permission.
+   */
+  app.get('/api/shifts/denominations', (_req, res) =>
+    res.json({ denominations: DENOMINATIONS, movementTypes: CASH_MOVEMENT_TYPES, uncounted: UNCOUNTED_TENDERS }),
+  );
+
+  app.get('/api/shifts/current', allow('sell'), async (_req, res) => {
+    res.json(await currentShift(prisma, currentTerminal(res)));
+  });
+
+  /** Shifts: open one { openingFloat (paise) } */
+  app.post('/api/shifts/open', allow('sell'), async (req, res) => {
+    try {
+      res.json(await openShift(prisma, currentTerminal(res), currentUser(res).id, Number(req.body?.openingFloat)));
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /** Shifts: cash out of or into the drawer { type: DROP|PAYOUT|PAYIN, amount (paise), reason } */
+  app.post('/api/shifts/current/movements', allow('sell'), async (req, res) => {
+    const { type, amount, reason } = req.body || {};
+    if (!isCashMovementType(type)) return res.status(400).json({ error: `type must be one of ${CASH_MOVEMENT_TYPES.join(', ')}` });
+    if (!Number.isInteger(amount) || amount <= 0) return res.status(400).json({ error: 'amount must be a positive number of paise' });
+    if (type !== 'DROP' && !String(reason ?? '').trim()) return res.status(400).json({ error: 'Give a reason for a pay-out or pay-in' });
+    const shift = await currentShift(prisma, currentTerminal(res));
+    if (!shift) return res.status(409).json({ error: 'No shift is open on this terminal', code: 'NO_SHIFT' });
+    const user = currentUser(res);
+    const movement = await prisma.cashMovement.create({
+      data: { shiftId: shift.id, type, amount, reason: reason ? String(reason).slice(0, 200) : null, userId: user.id },
+    });
+    await audit(prisma, user, {
+      action: 'CASH_MOVEMENT',
+      reference: `shift ${shift.id}`,
+      after: { type, amount },
+      description: movement.reason ?? undefined,
+    });
+    res.json(movement);
+  });
+
+  /**
+   * Shifts: close the open shift with the blind count
+   * body: { cash: { "500": 4, ... }, tenders: { CARD: paise, ... }, notes? } -> Z report
+   */
+  app.post('/api/shifts/current/close', allow('sell'), async (req, res) => {
+    const shift = await currentShift(prisma, currentTerminal(res));
+    if (!shift) return res.status(409).json({ error: 'No shift is open on this terminal', code: 'NO_SHIFT' });
+    const user = currentUser(res);
+    try {
+      const count = parseShiftCount(req.body);
+      const report = await prisma.$transaction((tx) => closeShift(tx, shift.id, user.id, count, req.body?.notes));
+      await audit(prisma, user, {
+        action: 'SHIFT_CLOSE',
+        reference: `shift ${shift.id}`,
+        after: report?.reconciliation?.rows,
+        description: `variance ${formatINR(report?.reconciliation?.variance ?? 0)}`,
       });
+      res.json(report);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
 
-      // stock ledger (out)
-      for (const l of cart.lines) {
-        await prisma.stockLedger.create({
-          data: {
-            itemId: l.itemId,
-            quantity: -Math.abs(l.quantity),
-            unitCost: 0,
-            type: 'SALE',
-            reference: receipt.receiptNumber,
-          },
-        });
-      }
+  /** Shifts: recent shifts, newest first (?terminal=, ?limit= up to 200) */
+  app.get('/api/shifts', allow('reports'), async (req, res) => {
+    const limit = Math.min(Number(req.query.limit) || 50, 200);
+    const shifts = await prisma.shift.findMany({
+      where: req.query.terminal ? { terminal: String(req.query.terminal) } : {},
+      include: { opener: { select: { username: true, fullName: true } }, closer: { select: { username: true, fullName: true } } },
+      orderBy: { id: 'desc' },
+      take: limit,
+    });
+    res.json(shifts.map(({ counted, expected, ...s }) => s));
+  });
 
-      delete carts[cartId];
-      res.json(receipt);
+  /** Shifts: the X report of an open shift or the Z report of a closed one */
+  app.get('/api/shifts/:id/report', allow('reports'), async (req, res) => {
+    const report = await shiftReport(prisma, Number(req.params.id));
+    if (!report) return res.status(404).json({ error: 'Shift not found' });
+    res.json(report);
+  });
+
+  /**
+   * Shifts: print the X or Z report on the receipt printer { paper? }.
+   * The cashier who closed a shift may print its Z; anything else needs `reports`.
+   */
+  app.post('/api/shifts/:id/print', allow('sell'), async (req, res) => {
+    const { paper } = req.body || {};
+    if (paper != null && !isPaperWidth(paper)) return res.status(400).json({ error: 'paper must be 58mm or 80mm' });
+    const shift = await prisma.shift.findUnique({ where: { id: Number(req.params.id) } });
+    if (!shift) return res.status(404).json({ error: 'Shift not found' });
+    const user = currentUser(res);
+    if (!user.permissions.includes('reports') && shift.closedBy !== user.id) {
+      return res.status(403).json({ error: `The ${user.role} role may not print this report` });
+    }
+    let bytes: Buffer | null;
+    let target: PrinterTarget;
+    try {
+      target = parsePrinterTarget(await setting(prisma, 'printer'));
+      bytes = await shiftBytes(prisma, shift.id, { paper });
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+    if (!bytes) return res.status(404).json({ error: 'Shift not found' });
+    try {
+      await sendToPrinter(target, bytes);
+      res.json({ printed: true, bytes: bytes.length });
+    } catch (err: any) {
+      res.status(502).json({ error: `Printer error: ${err.message}` });
+    }
+  });
+
+  /** Returns: reason codes for the Returns screen */
+  app.get('/api/returns/reasons', (_req, res) => res.json(RETURN_REASONS));
+
+  /** Returns: look up a sale by receipt number with returnable quantities per line */
+  app.get('/api/returns/lookup/:number', allow('return'), async (req, res) => {
+    const found = await loadReturnable(prisma, req.params.number);
+    if (!found) return res.status(404).json({ error: 'Receipt not found' });
+    const { receipt, lines } = found;
+    res.json({
+      receiptNumber: receipt.receiptNumber,
+      date: receipt.date,
+      customerId: receipt.customerId,
+      totalAmount: receipt.totalAmount,
+      lines,
+      payments: receipt.payments.map((p) => ({
+        id: p.id,
+        method: p.paymentMethod?.code,
+        amount: p.amount,
+        reference: p.reference,
+      })),
+    });
+  });
+
+  /**
+   * Returns: record a return, or an exchange when exchangeCartId is given
+   * body: { receiptNumber, lines: [{ lineId, quantity }], reason,
+   *         refundMode?: 'ORIGINAL'|'STORE_CREDIT', exchangeCartId?, payments? }
+   * -> { returnReceipt, saleReceipt? }
+   */
+  app.post('/api/returns', allow('return'), async (req, res) => {
+    const { receiptNumber, lines = [], reason, refundMode, exchangeCartId, payments = [], customerId = null } =
+      req.body || {};
+    if (!receiptNumber) return res.status(400).json({ error: 'receiptNumber required' });
+    const input = { receiptNumber, lines, reason, refundMode };
+    const auditReturn = (ret: { receiptNumber: string; totalAmount: number }, exchangeReceipt?: string) =>
+      audit(prisma, currentUser(res), {
+        action: 'RETURN',
+        reference: ret.receiptNumber,
+        before: { receiptNumber },
+        after: { lines, totalAmount: ret.totalAmount, refundMode: refundMode ?? null, exchangeReceipt: exchangeReceipt ?? null },
+        description: reason ? String(reason) : undefined,
+      });
+    try {
+      if (exchangeCartId) {
+        const cart = await getCart(exchangeCartId);
+        if (!cart) return res.status(404).json({ error: 'Cart not found' });
+        if (cart.status === 'HELD') return res.status(409).json({ error: 'Cart is on hold' });
+        if (!cart.lines.length) return res.status(400).json({ error: 'Cart empty' });
+        const result = await prisma.$transaction((tx) =>
+          recordExchange(tx, input, cart, payments, customerId, currentTerminal(res)),
+        );
+        await auditReturn(result.returnReceipt, result.saleReceipt.receiptNumber);
+        return res.json(result);
+      }
+      const returnReceipt = await prisma.$transaction((tx) => recordReturn(tx, input, 0, currentTerminal(res)));
+      await auditReturn(returnReceipt);
+      res.json({ returnReceipt });
     } catch (err: any) {
+      if (err instanceof TenderError) return res.status(400).json({ error: err.message, code: err.code, ...err.details });
+      if (err instanceof ShiftError) return res.status(409).json({ error: err.message, code: err.code });
       res.status(400).json({ error: err.message });
     }
   });
 
+  /** Store credit: a credit note by number with what is left on it (spent as a STORE_CREDIT tender) */
+  app.get('/api/credit-notes/:number', allow('sell'), async (req, res) => {
+    const note = await prisma.creditNote.findUnique({
+      where: { number: req.params.number },
+      include: { receipt: { select: { date: true, customerId: true } } },
+    });
+    if (!note) return res.status(404).json({ error: 'Credit note not found' });
+    res.json(note);
+  });
+
   /** Payment methods (simple) */
   app.get('/api/payment-methods', async (_req, res) => {
     const methods = await prisma.paymentMethod.findMany();
     res.json(methods);
   });
-  app.post('/api/payment-methods', async (req, res) => {
+  app.post('/api/payment-methods', allow('items'), async (req, res) => {
     try {
       const pm = await prisma.paymentMethod.create({ data: req.body });
     res.status(201).json(pm);
@@ -260,24 +762,506 @@ async function main() {
     }
   });
 
-  /** Reports: very simple daily Z */
-  app.get('/api/reports/daily_z', async (_req, res) => {
-    const today = new Date().toISOString().slice(0, 10);
-    const start = new Date(`${today}T00:00:00.000Z`);
-    const end = new Date(`${today}T23:59:59.999Z`);
-    const receipts = await prisma.receipt.findMany({
-      where: { date: { gte: start, lte: end }, status: 'COMPLETED' },
-      include: { payments: { include: { paymentMethod: true } } },
+  /** Customers: search by phone (any part of the number) or name, most recent first */
+  app.get('/api/customers', allow('sell'), async (req, res) => {
+    const q = String(req.query.phone ?? req.query.query ?? '').trim();
+    const digits = normalisePhone(q) ?? q.replace(/\D/g, '');
+    const customers = await prisma.customer.findMany({
+      where: q
+        ? { OR: [...(digits.length >= 3 ? [{ phone: { contains: digits } }] : []), { name: { contains: q } }] }
+        : undefined,
+      orderBy: { updatedAt: 'desc' },
+      take: 20,
     });
-    const totalSales = receipts.reduce((s, r) => s + toNum(r.totalAmount), 0);
-    const paymentSummary: Record<string, number> = {};
-    for (const r of receipts) {
-      for (const p of r.payments) {
-        const key = p.paymentMethod?.name || String(p.paymentMethodId);
-        paymentSummary[key] = (paymentSummary[key] || 0) + toNum(p.amount);
+    res.json(customers);
+  });
+
+  /**
+   * Customers: create
+   * body: { phone, name?, email? } -> 201 customer; 409 with the existing customer if the phone is taken
+   */
+  app.post('/api/customers', allow('sell'), async (req, res) => {
+    const { phone, name, email } = req.body || {};
+    const mobile = normalisePhone(phone);
+    if (!mobile) return res.status(400).json({ error: 'Enter a 10-digit mobile number' });
+    const existing = await prisma.customer.findUnique({ where: { phone: mobile } });
+    if (existing) return res.status(409).json({ error: 'A customer with this number exists', customer: existing });
+    try {
+      const customer = await prisma.customer.create({
+        data: { phone: mobile, name: name ? String(name).trim() : null, email: email ? String(email).trim() : null },
+      });
+      res.status(201).json(customer);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /** Customers: one customer with their latest points ledger entries */
+  app.get('/api/customers/:id', allow('sell'), async (req, res) => {
+    const customer = await prisma.customer.findUnique({
+      where: { id: Number(req.params.id) },
+      include: {
+        points: { orderBy: { id: 'desc' }, take: 20, include: { receipt: { select: { receiptNumber: true } } } },
+      },
+    });
+    if (!customer) return res.status(404).json({ error: 'Customer not found' });
+    res.json(customer);
+  });
+
+  /** Loyalty: points earned per rupee and the value of a point (paise) */
+  app.get('/api/loyalty', async (_req, res) => {
+    res.json(await loyaltyConfig(prisma));
+  });
+
+  /** Promotions, newest first */
+  app.get('/api/promotions', async (_req, res) => {
+    const promotions = await prisma.promotion.findMany({
+      include: { items: true, tiers: { orderBy: { minQty: 'asc' } }, category: true },
+      orderBy: { id: 'desc' },
+    });
+    res.json(promotions);
+  });
+
+  /**
+   * Create a promotion
+   * body: { name, promoType, value, valueType?, buyQty?, getQty?, minAmount?, maxDiscount?,
+   *         itemIds?, categoryId?, tiers?: [{ minQty, value }], startDate?, endDate?,
+   *         startTime?, endTime?, days?, priority?, stackable?, active? } (money in paise)
+   */
+  app.post('/api/promotions', allow('items'), async (req, res) => {
+    try {
+      const { data, itemIds, tiers } = parsePromotion(req.body);
+      const promotion = await prisma.promotion.create({
+        data: { ...data, items: { create: itemIds.map((itemId) => ({ itemId })) }, tiers: { create: tiers } },
+        include: { items: true, tiers: true },
+      });
+      res.status(201).json(promotion);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /** Replace a promotion (same body as create); `active: false` switches it off */
+  app.put('/api/promotions/:id', allow('items'), async (req, res) => {
+    try {
+      const { data, itemIds, tiers } = parsePromotion(req.body);
+      const promotion = await prisma.promotion.update({
+        where: { id: Number(req.params.id) },
+        data: {
+          ...data,
+          items: { deleteMany: {}, create: itemIds.map((itemId) => ({ itemId })) },
+          tiers: { deleteMany: {}, create: tiers },
+        },
+        include: { items: true, tiers: true },
+      });
+      res.json(promotion);
+    } catch (err: any) {
+      if (err?.code === 'P2025') return res.status(404).json({ error: 'Promotion not found' });
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /** Vendors, by name */
+  app.get('/api/vendors', allow('inventory'), async (_req, res) => {
+    res.json(await prisma.vendor.findMany({ orderBy: { name: 'asc' } }));
+  });
+
+  /**
+   * Vendors: create
+   * body: { name, gstin?, address?, phone?, contactPerson? }
+   */
+  app.post('/api/vendors', allow('inventory'), async (req, res) => {
+    try {
+      const vendor = await prisma.vendor.create({ data: parseVendor(req.body) });
+      res.status(201).json(vendor);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /** Vendors: one vendor with their latest purchase orders */
+  app.get('/api/vendors/:id', allow('inventory'), async (req, res) => {
+    const vendor = await prisma.vendor.findUnique({
+      where: { id: Number(req.params.id) },
+      include: { purchaseOrders: { orderBy: { id: 'desc' }, take: 20 } },
+    });
+    if (!vendor) return res.status(404).json({ error: 'Vendor not found' });
+    res.json(vendor);
+  });
+
+  /** Vendors: replace (same body as create) */
+  app.put('/api/vendors/:id', allow('inventory'), async (req, res) => {
+    try {
+      const vendor = await prisma.vendor.update({ where: { id: Number(req.params.id) }, data: parseVendor(req.body) });
+      res.json(vendor);
+    } catch (err: any) {
+      if (err?.code === 'P2025') return res.status(404).json({ error: 'Vendor not found' });
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /** Vendors: delete; a vendor with purchase orders is kept for the paper trail (409) */
+  app.delete('/api/vendors/:id', allow('inventory'), async (req, res) => {
+    const id = Number(req.params.id);
+    if (await prisma.purchaseOrder.count({ where: { vendorId: id } })) {
+      return res.status(409).json({ error: 'Vendor has purchase orders and cannot be deleted' });
+    }
+    try {
+      await prisma.vendor.delete({ where: { id } });
+      res.status(204).end();
+    } catch (err: any) {
+      if (err?.code === 'P2025') return res.status(404).json({ error: 'Vendor not found' });
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /** Purchase orders, newest first; ?status=ORDERED and ?vendorId= filter */
+  app.get('/api/purchase-orders', allow('inventory'), async (req, res) => {
+    const status = req.query.status ? String(req.query.status).toUpperCase() : undefined;
+    const vendorId = req.query.vendorId ? Number(req.query.vendorId) : undefined;
+    const orders = await prisma.purchaseOrder.findMany({
+      where: { status, vendorId },
+      include: PURCHASE_ORDER_INCLUDE,
+      orderBy: { id: 'desc' },
+    });
+    res.json(orders);
+  });
+
+  /**
+   * Purchase orders: create as DRAFT
+   * body: { vendorId, expectedDate?, lines: [{ itemId, quantity, unitCost, taxId? }] } (unitCost in paise)
+   */
+  app.post('/api/purchase-orders', allow('inventory'), async (req, res) => {
+    try {
+      const input = parsePurchaseOrder(req.body);
+      const order = await prisma.$transaction((tx) => createPurchaseOrder(tx, input));
+      res.status(201).json(order);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /** Purchase orders: one order with its lines (ordered and received quantities) and goods receipts */
+  app.get('/api/purchase-orders/:id', allow('inventory'), async (req, res) => {
+    const order = await prisma.purchaseOrder.findUnique({
+      where: { id: Number(req.params.id) },
+      include: PURCHASE_ORDER_INCLUDE,
+    });
+    if (!order) return res.status(404).json({ error: 'Purchase order not found' });
+    res.json(order);
+  });
+
+  /** Purchase orders: replace a DRAFT order (same body as create) */
+  app.put('/api/purchase-orders/:id', allow('inventory'), async (req, res) => {
+    try {
+      const input = parsePurchaseOrder(req.body);
+      const order = await prisma.$transaction((tx) => updatePurchaseOrder(tx, Number(req.params.id), input));
+      res.json(order);
+    } catch (err: any) {
+      if (err?.code === 'P2025') return res.status(404).json({ error: 'Purchase order not found' });
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /**
+   * Purchase orders: change status
+   * body: { status: 'ORDERED' | 'CANCELLED' } (DRAFT -> ORDERED, DRAFT or ORDERED -> CANCELLED)
+   */
+  app.post('/api/purchase-orders/:id/status', allow('inventory'), async (req, res) => {
+    try {
+      const id = Number(req.params.id);
+      const order = await prisma.$transaction((tx) => setPurchaseOrderStatus(tx, id, req.body?.status));
+      res.json(order);
+    } catch (err: any) {
+      if (err?.code === 'P2025') return res.status(404).json({ error: 'Purchase order not found' });
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /** Goods receipts, newest first; ?purchaseOrderId= filters */
+  app.get('/api/goods-receipts', allow('inventory'), async (req, res) => {
+    const purchaseOrderId = req.query.purchaseOrderId ? Number(req.query.purchaseOrderId) : undefined;
+    const receipts = await prisma.goodsReceipt.findMany({
+      where: { purchaseOrderId },
+      include: GOODS_RECEIPT_INCLUDE,
+      orderBy: { id: 'desc' },
+    });
+    res.json(receipts);
+  });
+
+  /**
+   * Goods receipts: receive (part of) an ORDERED purchase order
+   * body: { purchaseOrderId, vendorInvoiceNo?, freight?, lines: [{ lineId, quantity, unitCost?,
+   *         batchNo?, expiryDate?, manufactureDate? }] } (money in paise)
+   */
+  app.post('/api/goods-receipts', allow('inventory'), async (req, res) => {
+    try {
+      const input = parseGoodsReceipt(req.body);
+      const grn = await prisma.$transaction((tx) => receiveGoods(tx, input));
+      res.status(201).json(grn);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /** Goods receipts: one GRN with its batches */
+  app.get('/api/goods-receipts/:id', allow('inventory'), async (req, res) => {
+    const grn = await prisma.goodsReceipt.findUnique({
+      where: { id: Number(req.params.id) },
+      include: GOODS_RECEIPT_INCLUDE,
+    });
+    if (!grn) return res.status(404).json({ error: 'Goods receipt not found' });
+    res.json(grn);
+  });
+
+  /** Inventory: quantity on hand, weighted average cost and stock value per item (paise) */
+  app.get('/api/inventory/stock_on_hand', allow('inventory'), async (_req, res) => {
+    res.json(await stockOnHand(prisma));
+  });
+
+  /** Inventory: reason codes accepted on an adjustment */
+  app.get('/api/inventory/reasons', allow('inventory'), (_req, res) => res.json(ADJUSTMENT_REASONS));
+
+  /**
+   * Inventory: receive stock without a purchase order
+   * body: { itemId, quantity, unitCost, reference?, batchNo?, expiryDate? } (unitCost in paise)
+   */
+  app.post('/api/inventory/receive', allow('inventory'), async (req, res) => {
+    const { itemId, quantity, unitCost, reference, batchNo, expiryDate } = req.body || {};
+    const qty = Number(quantity);
+    if (!itemId) return res.status(400).json({ error: 'itemId required' });
+    if (!Number.isFinite(qty) || qty <= 0) return res.status(400).json({ error: 'quantity must be more than 0' });
+    if (!Number.isInteger(Number(unitCost)) || Number(unitCost) < 0) {
+      return res.status(400).json({ error: 'unitCost must be whole paise, 0 or more' });
+    }
+    const expiry = expiryDate ? new Date(String(expiryDate)) : null;
+    if (expiry && isNaN(expiry.getTime())) return res.status(400).json({ error: 'expiryDate is not a date' });
+    try {
+      const entry = await prisma.$transaction((tx) =>
+        receiveStock(tx, {
+          itemId: Number(itemId),
+          quantity: qty,
+          unitCost: Number(unitCost),
+          reference: reference ? String(reference).trim() : null,
+          batchNo: batchNo ? String(batchNo).trim() : null,
+          expiryDate: expiry,
+        }),
+      );
+      res.status(201).json(entry);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /**
+   * Inventory: adjust stock up or down with a reason code (audited)
+   * body: { itemId, delta, reason, note? } -> { entries, onHand }
+   */
+  app.post('/api/inventory/adjust', allow('inventory'), async (req, res) => {
+    const { itemId, delta, reason, note } = req.body || {};
+    if (!itemId) return res.status(400).json({ error: 'itemId required' });
+    const input = { itemId: Number(itemId), delta: Number(delta), reason, note: note ? String(note).trim() : null };
+    try {
+      const result = await prisma.$transaction((tx) => adjustStock(tx, input, currentUser(res)));
+      res.status(201).json(result);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /** Audit: entries newest first, filtered (see parseAuditQuery) -> { total, entries } */
+  app.get('/api/audit', allow('reports'), async (req, res) => {
+    let q: ReturnType<typeof parseAuditQuery>;
+    try {
+      q = parseAuditQuery(req.query);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+    const [total, rows] = await Promise.all([
+      prisma.auditLog.count({ where: q.where }),
+      prisma.auditLog.findMany({
+        where: q.where,
+        include: { user: { select: { id: true, username: true, fullName: true } } },
+        orderBy: { id: 'desc' },
+        take: q.take,
+        skip: q.skip,
+      }),
+    ]);
+    const parse = (v: string | null) => (v == null ? null : JSON.parse(v));
+    res.json({ total, entries: rows.map((r) => ({ ...r, before: parse(r.before), after: parse(r.after) })) });
+  });
+  app.get('/api/audit/actions', allow('reports'), (_req, res) => res.json(AUDIT_ACTIONS));
+
+  const auditSettings = async (user: SessionUser, before: Settings, patch: Partial<Settings>) => {
+    const diff = changes(before, patch);
+    if (diff.changed) {
+      const reference = Object.keys(diff.after).join(',');
+      await audit(prisma, user, { action: 'SETTINGS_CHANGE', reference, before: diff.before, after: diff.after });
+    }
+  };
+
+  /** Settings: every store setting, stored or from its env fallback (see src/settings.ts) */
+  app.get('/api/settings', async (_req, res) => {
+    res.json(await loadSettings(prisma));
+  });
+
+  /** Settings: update some settings { key: value, ... } -> every setting */
+  app.put('/api/settings', allow('settings'), async (req, res) => {
+    try {
+      const patch = parseSettings(req.body);
+      const before = await loadSettings(prisma);
+      const after = await saveSettings(prisma, patch);
+      await auditSettings(currentUser(res), before, patch);
+      res.json(after);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /** Settings: whether stock may go below zero */
+  app.get('/api/settings/stock', async (_req, res) => {
+    res.json({ allowNegativeStock: await allowNegativeStock(prisma) });
+  });
+  app.post('/api/settings/stock', allow('settings'), async (req, res) => {
+    const value = req.body?.allowNegativeStock;
+    if (typeof value !== 'boolean') return res.status(400).json({ error: 'allowNegativeStock must be true or false' });
+    const before = await loadSettings(prisma);
+    await saveSettings(prisma, { allowNegativeStock: value });
+    await auditSettings(currentUser(res), before, { allowNegativeStock: value });
+    res.json({ allowNegativeStock: value });
+  });
+
+  /**
+   * Reports: items at or below their reorder level with sales per day over
+   * ?days= (default 30) and a suggested quantity covering ?coverDays= (default 14),
+   * net of what is still on open purchase orders
+   */
+  app.get('/api/reports/reorder', allow('inventory'), async (req, res) => {
+    try {
+      res.json(await reorderReport(prisma, parseReorderOptions(req.query)));
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  /** Reports: batches with stock expiring within ?days= (default 30), expired ones included */
+  app.get('/api/reports/near-expiry', allow('inventory'), async (req, res) => {
+    const days = Number(req.query.days ?? 30);
+    if (!Number.isInteger(days) || days < 0) return res.status(400).json({ error: 'days must be a whole number' });
+    res.json(await nearExpiry(prisma, days));
+  });
+
+  /**
+   * Purchase orders: draft orders from the reorder report, one per last vendor; items
+   * already covered by open orders are skipped
+   * body: { days?, coverDays?, itemIds? } -> { orders, unassigned } (items with no vendor history)
+   */
+  app.post('/api/purchase-orders/suggest', allow('inventory'), async (req, res) => {
+    try {
+      const options = parseReorderOptions(req.body || {});
+      const itemIds: number[] | null = Array.isArray(req.body?.itemIds) ? req.body.itemIds.map(Number) : null;
+      const result = await prisma.$transaction(async (tx) => {
+        const rows = await reorderReport(tx, options);
+        return draftPurchaseOrders(tx, itemIds ? rows.filter((r) => itemIds.includes(r.itemId)) : rows);
+      });
+      res.status(201).json(result);
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  /**
+   * Reports: the daily Z of ?date=YYYY-MM-DD (default today), the day
+   * running midnight to midnight in the store's time zone (src/dailyz.ts)
+   */
+  const zDate = async (q: unknown) =>
+    typeof q === 'string' && q ? q : localDate(new Date(), await setting(prisma, 'timezone'));
+
+  app.get('/api/reports/daily_z', allow('reports'), async (req, res) => {
+    try {
+      res.json(await loadDailyZ(prisma, await zDate(req.query.date), await setting(prisma, 'timezone')));
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  /** Reports: the daily Z as 80mm ESC/POS bytes (?date=) */
+  app.get('/api/reports/daily_z/escpos', allow('reports'), async (req, res) => {
+    try {
+      const date = await zDate(req.query.date);
+      const bytes = await dailyZBytes(prisma, date);
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.setHeader('Content-Disposition', `attachment; filename="Z_${date}.bin"`);
+      res.send(bytes);
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  /** Reports: print the daily Z on the receipt printer { date? }; 502 when the printer cannot be reached */
+  app.post('/api/reports/daily_z/print', allow('reports'), async (req, res) => {
+    let bytes: Buffer;
+    let target: PrinterTarget;
+    try {
+      target = parsePrinterTarget(await setting(prisma, 'printer'));
+      bytes = await dailyZBytes(prisma, await zDate(req.body?.date));
+    } catch (e: any) {
+      return res.status(400).json({ error: e.message });
+    }
+    try {
+      await sendToPrinter(target, bytes);
+      res.json({ printed: true, bytes: bytes.length });
+    } catch (err: any) {
+      res.status(502).json({ error: `Printer error: ${err.message}` });
+    }
+  });
+
+  /**
+   * GST returns for a date range (default: the current month), days in the store's time zone.
+   * query: from=YYYY-MM-DD, to=YYYY-MM-DD, format=json|csv
+   * GSTR-1 CSV is one section at a time: section=b2b|b2cs|cdnr|hsn|nil
+   */
+  const period = async (q: { from?: unknown; to?: unknown }) => {
+    const timeZone = await setting(prisma, 'timezone');
+    return { ...gstrPeriod(q, localDate(new Date(), timeZone), timeZone), timeZone };
+  };
+
+  app.get('/api/reports/gstr1', allow('reports'), async (req, res) => {
+    try {
+      const { from, to, fp, timeZone } = await period(req.query);
+      const section = String(req.query.section || 'b2b') as Gstr1Section;
+      if (req.query.format === 'csv' && !GSTR1_SECTIONS.includes(section)) {
+        return res.status(400).json({ error: `section must be one of ${GSTR1_SECTIONS.join(', ')}` });
+      }
+      const receipts = await loadPeriodReceipts(prisma, from, to);
+      const report = buildGstr1(receipts, await storeGstin(prisma), await storeStateCode(prisma), fp, timeZone);
+      if (req.query.format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="GSTR1_${section}_${fp}.csv"`);
+        return res.send(gstr1Csv(report, section));
+      }
+      res.setHeader('Content-Disposition', `attachment; filename="GSTR1_${fp}.json"`);
+      res.json(report);
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
+    }
+  });
+
+  app.get('/api/reports/gstr3b', allow('reports'), async (req, res) => {
+    try {
+      const { from, to, fp } = await period(req.query);
+      const receipts = await loadPeriodReceipts(prisma, from, to);
+      const report = buildGstr3b(receipts, await storeGstin(prisma), fp);
+      if (req.query.format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="GSTR3B_${fp}.csv"`);
+        return res.send(gstr3bCsv(report));
       }
+      res.setHeader('Content-Disposition', `attachment; filename="GSTR3B_${fp}.json"`);
+      res.json(report);
+    } catch (e: any) {
+      res.status(400).json({ error: e.message });
     }
-    res.json({ date: today, totalSales, paymentSummary });
   });
 
   // ------------------------------------------------------------------------
@@ -291,6 +1275,9 @@ async function main() {
       where: { receiptNumber: number },
       include: {
         lines: { include: { item: true } },          // include item details for names
+        taxes: true,
+        promotions: true,
+        points: true,
         payments: { include: { paymentMethod: true } }
       },
     });
@@ -298,17 +1285,25 @@ async function main() {
     res.json(receipt);
   });
 
-  // Plain-text (58mm style) printable receipt
+  // Plain-text (58mm style) printable receipt; ?mode=invoice prints the GST tax invoice
   app.get('/api/receipts/:number/plain', async (req, res) => {
     const number = req.params.number;
+    const invoice = req.query.mode === 'invoice';
     const r = await prisma.receipt.findFirst({
       where: { receiptNumber: number },
       include: {
         lines: { include: { item: true } },
+        taxes: true,
+        promotions: true,
+        points: { orderBy: { id: 'asc' } },
+        customer: true,
         payments: { include: { paymentMethod: true } },
       },
     });
     if (!r) return res.status(404).send('Receipt not found');
+    await auditPrint(prisma, currentUser(res), number, 'plain text');
+    const store = await loadSettings(prisma);
+    const interState = isInterState(store.placeOfSupply, r.placeOfSupply);
 
     const W = 42; // ~58mm width
     const line = (ch = '-') => ch.repeat(W);
@@ -319,25 +1314,30 @@ async function main() {
       const spaces = Math.max(1, W - l.length - rS.length);
       return l + ' '.repeat(spaces) + rS;
     };
-    const fmt = new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' });
-    const inr = (n: any) => fmt.format(Number(n ?? 0));
+    const inr = (n: any) => formatINR(Number(n ?? 0));
 
     let out = '';
-    // Header – replace with your store details
-    out += pad('My Store') + '\n';
-    out += pad('GSTIN: XXABCDE1234F1Z5') + '\n';
-    out += pad('Bengaluru, KA') + '\n';
+    out += pad(store.storeName) + '\n';
+    if (store.gstin) out += pad(`GSTIN: ${store.gstin}`) + '\n';
+    for (const w of wrapWords(store.storeAddress, W)) out += pad(w) + '\n';
     out += line() + '\n';
 
     out += pad(`Receipt: ${r.receiptNumber}`) + '\n';
     const when = (r as any).date ?? (r as any).createdAt ?? new Date();
     out += pad(new Date(when).toLocaleString()) + '\n';
+    if (invoice) {
+      out += pad(r.status === 'RETURNED' ? 'CREDIT NOTE' : 'TAX INVOICE') + '\n';
+      out += pad(`Place of supply: ${stateLabel(r.placeOfSupply)}`) + '\n';
+      if (r.customer?.name) out += pad(`Customer: ${r.customer.name}`) + '\n';
+      if (r.customerGstin) out += pad(`Buyer GSTIN: ${r.customerGstin}`) + '\n';
+    }
     out += line() + '\n';
 
     out += pad('Items') + '\n';
     r.lines.forEach((L) => {
       const name = L.item?.name ?? `Item #${L.itemId}`;
       out += pad(name) + '\n';
+      if (invoice) out += pad(`  HSN ${L.hsnCode ?? '-'}  GST ${L.gstRate}%${L.cessRate ? ` + Cess ${L.cessRate}%` : ''}`) + '\n';
       out += lr(`  ${L.quantity} x ${inr(L.unitPrice)}`, inr(L.lineTotal)) + '\n';
     });
     out += line() + '\n';
@@ -349,11 +1349,43 @@ async function main() {
 
     out += lr('Subtotal', inr(sub)) + '\n';
     if (disc > 0) out += lr('Discount', `- ${inr(disc)}`) + '\n';
+    for (const p of r.promotions) out += lr(`  ${p.name.slice(0, W - 16)}`, `- ${inr(p.amount)}`) + '\n';
     out += lr('Tax', inr(tax)) + '\n';
+    if (invoice) {
+      for (const t of r.taxes) {
+        if (interState) {
+          out += lr(`  IGST @${t.gstRate}% on ${inr(t.taxableValue)}`, inr(t.igst)) + '\n';
+        } else {
+          out += lr(`  CGST @${t.gstRate / 2}% on ${inr(t.taxableValue)}`, inr(t.cgst)) + '\n';
+          out += lr(`  SGST @${t.gstRate / 2}% on ${inr(t.taxableValue)}`, inr(t.sgst)) + '\n';
+        }
+        if (t.cess) out += lr(`  Cess @${t.cessRate}%`, inr(t.cess)) + '\n';
+      }
+    }
+    if (r.roundOff) out += lr('Round off', inr(r.roundOff)) + '\n';
     out += line() + '\n';
     out += lr('TOTAL', inr(total)) + '\n';
+    if (invoice) {
+      for (const w of wrapWords(amountInWords(Math.abs(Number(total))), W)) out += pad(w) + '\n';
+    }
     out += line() + '\n';
 
+    if (invoice) {
+      const num = formatRupees;
+      const col = (s: string, w: number) => (s.length >= w ? s.slice(0, w) : ' '.repeat(w - s.length) + s);
+      out += pad('HSN Summary') + '\n';
+      out += interState
+        ? pad(`HSN       ${col('Taxable', 11)}${col('Rate', 6)}${col('IGST', 10)}`) + '\n'
+        : pad(`HSN     ${col('Taxable', 10)}${col('Rate', 6)}${col('CGST', 9)}${col('SGST', 9)}`) + '\n';
+      for (const h of hsnSummary(r.lines, interState)) {
+        out += interState
+          ? pad(`${h.hsnCode.padEnd(10).slice(0, 10)}${col(num(h.taxableValue), 11)}${col(`${h.gstRate}%`, 6)}${col(num(h.igst), 10)}`) + '\n'
+          : pad(`${h.hsnCode.padEnd(8).slice(0, 8)}${col(num(h.taxableValue), 10)}${col(`${h.gstRate}%`, 6)}${col(num(h.cgst), 9)}${col(num(h.sgst), 9)}`) + '\n';
+        if (h.cess) out += pad(`  Cess ${num(h.cess)}`) + '\n';
+      }
+      out += line() + '\n';
+    }
+
     if (r.payments?.length) {
       out += pad('Payments') + '\n';
       for (const p of r.payments) {
@@ -361,25 +1393,66 @@ async function main() {
         out += lr(`  ${name}`, inr(p.amount)) + '\n';
         if (p.reference) out += pad(`   Ref: ${p.reference}`) + '\n';
       }
+      if (r.changeDue > 0) out += lr('  Change', inr(r.changeDue)) + '\n';
       out += line() + '\n';
     }
 
-    out += pad('Thank you! Visit again.') + '\n';
+    if (r.customer && r.points.length) {
+      out += pad(`Member: ${r.customer.name ?? ''} ${maskPhone(r.customer.phone)}`.trim()) + '\n';
+      for (const p of r.points) out += lr(`  ${POINTS_LABELS[p.type as PointsEntryType] ?? p.type}`, `${p.points > 0 ? '+' : ''}${p.points}`) + '\n';
+      out += lr('  Points balance', String(r.points[r.points.length - 1].balance)) + '\n';
+      out += line() + '\n';
+    }
+
+    for (const w of wrapWords(store.receiptFooter, W)) out += pad(w) + '\n';
 
     res.setHeader('Content-Type', 'text/plain; charset=utf-8');
     res.send(out);
   });
+
+  // ESC/POS bytes of a receipt from escpos_templates (?paper=58mm|80mm, default the printer's)
+  app.get('/api/receipts/:number/escpos', async (req, res) => {
+    const paper = req.query.paper;
+    if (paper != null && !isPaperWidth(paper)) return res.status(400).json({ error: 'paper must be 58mm or 80mm' });
+    try {
+      const bytes = await receiptBytes(prisma, req.params.number, { paper });
+      if (!bytes) return res.status(404).json({ error: 'Receipt not found' });
+      await auditPrint(prisma, currentUser(res), req.params.number, 'ESC/POS download');
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.setHeader('Content-Disposition', `attachment; filename="${req.params.number}.bin"`);
+      res.send(bytes);
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+    }
+  });
+
+  /** Print a receipt on the receipt printer { paper? }; never opens the drawer (see no-sale); 502 when the printer cannot be reached */
+  app.post('/api/receipts/:number/escpos', async (req, res) => {
+    const { paper } = req.body || {};
+    if (paper != null && !isPaperWidth(paper)) return res.status(400).json({ error: 'paper must be 58mm or 80mm' });
+    let bytes: Buffer | null;
+    let target: PrinterTarget;
+    try {
+      target = parsePrinterTarget(await setting(prisma, 'printer'));
+      bytes = await receiptBytes(prisma, req.params.number, { paper });
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+    if (!bytes) return res.status(404).json({ error: 'Receipt not found' });
+    try {
+      await sendToPrinter(target, bytes);
+      await auditPrint(prisma, currentUser(res), req.params.number, 'receipt printer');
+      res.json({ printed: true, bytes: bytes.length });
+    } catch (err: any) {
+      res.status(502).json({ error: `Printer error: ${err.message}` });
+    }
+  });
 // Pretty HTML (customer-readable) printable receipt
 app.get('/api/receipts/:number/print', async (req, res) => {
   const number = req.params.number;
+  const invoice = req.query.mode === 'invoice';
 
-  // You can set these in .env; we use fallbacks so it works right away.
-  const STORE = {
-    name: process.env.STORE_NAME || 'My Store',
-    address: process.env.STORE_ADDRESS || 'Bengaluru, KA',
-    gstin: process.env.STORE_GSTIN || 'XXABCDE1234F1Z5',
-    phone: process.env.STORE_PHONE || '',
-  };
+  const STORE = await loadSettings(prisma);
 
   // Pull receipt with lines, item names and payment methods
   const r = await prisma.receipt.findFirst({
@@ -387,12 +1460,17 @@ app.get('/api/receipts/:number/print', async (req, res) => {
     include: {
       lines: { include: { item: true } },
       payments: { include: { paymentMethod: true } },
+      taxes: true,
+      promotions: true,
+      points: { orderBy: { id: 'asc' } },
+      customer: true,
     },
   });
   if (!r) {
     res.status(404).send(`<h3 style="font-family:system-ui">Receipt not found</h3>`);
     return;
   }
+  await auditPrint(prisma, currentUser(res), number, invoice ? 'tax invoice' : 'browser');
 
   const esc = (s: any) =>
     String(s ?? '')
@@ -400,8 +1478,7 @@ app.get('/api/receipts/:number/print', async (req, res) => {
       .replace(/</g, '&lt;')
       .replace(/>/g, '&gt;');
 
-  const fmt = new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' });
-  const INR = (n: any) => fmt.format(Number(n ?? 0));
+  const INR = (n: any) => formatINR(Number(n ?? 0));
   const when = (r as any).date ?? (r as any).createdAt ?? new Date();
 
   const sub = (r as any).totalBeforeDiscount ?? (r as any).subtotal ?? 0;
@@ -418,6 +1495,7 @@ app.get('/api/receipts/:number/print', async (req, res) => {
           <td class="left">
             <div class="name">${esc(name)}</div>
             <div class="meta">${L.quantity} × ${INR(L.unitPrice)}</div>
+            ${invoice ? `<div class="meta">HSN ${esc(L.hsnCode || 'NA')} · GST ${L.gstRate}%${L.cessRate ? ` + Cess ${L.cessRate}%` : ''}</div>` : ''}
           </td>
           <td class="right">${INR(L.lineTotal)}</td>
         </tr>
@@ -441,11 +1519,64 @@ app.get('/api/receipts/:number/print', async (req, res) => {
           </tr>
         `;
       })
-      .join('') || '';
+      .join('') +
+    (r.changeDue > 0
+      ? `<tr class="row"><td class="left"><div class="name">Change</div></td><td class="right">${INR(r.changeDue)}</td></tr>`
+      : '');
 
   const cgst = Number((r as any).cgst ?? 0);
   const sgst = Number((r as any).sgst ?? 0);
   const igst = Number((r as any).igst ?? 0);
+  const cess = Number((r as any).cess ?? 0);
+
+  // Tax invoice sections: rate-wise breakup, HSN summary and amount in words
+  const storeState = STORE.placeOfSupply;
+  const interState = isInterState(storeState, r.placeOfSupply);
+  const title = r.status === 'RETURNED' ? 'CREDIT NOTE' : 'TAX INVOICE';
+  const taxCols = interState ? ['IGST'] : ['CGST', 'SGST'];
+  const rateRows = r.taxes
+    .map(
+      (t) => `
+        <tr class="row">
+          <td>${t.gstRate}%${t.cessRate ? ` + ${t.cessRate}%` : ''}</td>
+          <td class="right">${INR(t.taxableValue)}</td>
+          ${interState ? `<td class="right">${INR(t.igst)}</td>` : `<td class="right">${INR(t.cgst)}</td><td class="right">${INR(t.sgst)}</td>`}
+          <td class="right">${INR(t.cess)}</td>
+        </tr>`
+    )
+    .join('');
+  const hsnRows = hsnSummary(r.lines, interState)
+    .map(
+      (h) => `
+        <tr class="row">
+          <td>${esc(h.hsnCode)}</td>
+          <td class="right">${h.quantity}</td>
+          <td class="right">${INR(h.taxableValue)}</td>
+          <td class="right">${INR(h.cgst + h.sgst + h.igst + h.cess)}</td>
+        </tr>`
+    )
+    .join('');
+  const invoiceSecs = invoice
+    ? `
+      <div class="sec">
+        <div class="meta" style="margin-bottom:6px">Tax breakup</div>
+        <table>
+          <tr class="meta"><td>Rate</td><td class="right">Taxable</td>${taxCols.map((c) => `<td class="right">${c}</td>`).join('')}<td class="right">Cess</td></tr>
+          ${rateRows}
+        </table>
+      </div>
+      <div class="sec">
+        <div class="meta" style="margin-bottom:6px">HSN summary</div>
+        <table>
+          <tr class="meta"><td>HSN</td><td class="right">Qty</td><td class="right">Taxable</td><td class="right">Tax</td></tr>
+          ${hsnRows}
+        </table>
+      </div>
+      <div class="sec">
+        <div class="meta">Amount in words</div>
+        <div class="name">${esc(amountInWords(Math.abs(Number(total))))}</div>
+      </div>`
+    : ``;
 
   const html = `<!doctype html>
 <html>
@@ -501,14 +1632,18 @@ app.get('/api/receipts/:number/print', async (req, res) => {
     </div>
     <div class="paper">
       <div class="head">
-        <div class="store">${esc(STORE.name)}</div>
-        <div class="sub">${esc(STORE.address)}</div>
-        <div class="sub">GSTIN: ${esc(STORE.gstin)}${STORE.phone ? ' · Ph: ' + esc(STORE.phone) : ''}</div>
+        <div class="store">${esc(STORE.storeName)}</div>
+        <div class="sub">${esc(STORE.storeAddress)}</div>
+        <div class="sub">GSTIN: ${esc(STORE.gstin)}${STORE.storePhone ? ' · Ph: ' + esc(STORE.storePhone) : ''}</div>
       </div>
       <div class="sec">
         <table>
-          <tr><td class="left meta">Receipt</td><td class="right meta">${esc(r.receiptNumber)}</td></tr>
+          ${invoice ? `<tr><td colspan="2" class="name" style="text-align:center">${title}</td></tr>` : ``}
+          <tr><td class="left meta">${invoice ? 'Invoice No.' : 'Receipt'}</td><td class="right meta">${esc(r.receiptNumber)}</td></tr>
           <tr><td class="left meta">Date</td><td class="right meta">${esc(new Date(when).toLocaleString())}</td></tr>
+          ${invoice ? `<tr><td class="left meta">Place of supply</td><td class="right meta">${esc(stateLabel(r.placeOfSupply ?? storeState))}</td></tr>` : ``}
+          ${invoice && r.customer ? `<tr><td class="left meta">Buyer</td><td class="right meta">${esc(r.customer.name)}</td></tr>` : ``}
+          ${invoice && r.customerGstin ? `<tr><td class="left meta">Buyer GSTIN</td><td class="right meta">${esc(r.customerGstin)}</td></tr>` : ``}
           <tr><td colspan="2"><div class="hr"></div></td></tr>
         </table>
       </div>
@@ -523,10 +1658,13 @@ app.get('/api/receipts/:number/print', async (req, res) => {
         <table class="totals">
           <tr><td class="left">Subtotal</td><td class="right">${INR(sub)}</td></tr>
           ${disc > 0 ? `<tr><td class="left">Discount</td><td class="right">- ${INR(disc)}</td></tr>` : ``}
+          ${r.promotions.map((p) => `<tr><td class="left meta">${esc(p.name)}</td><td class="right meta">- ${INR(p.amount)}</td></tr>`).join('')}
           <tr><td class="left">Tax</td><td class="right">${INR(tax)}</td></tr>
           ${cgst > 0 || sgst > 0 ? `<tr><td class="left meta">CGST</td><td class="right meta">${INR(cgst)}</td></tr>
           <tr><td class="left meta">SGST</td><td class="right meta">${INR(sgst)}</td></tr>` : ``}
           ${igst > 0 ? `<tr><td class="left meta">IGST</td><td class="right meta">${INR(igst)}</td></tr>` : ``}
+          ${cess > 0 ? `<tr><td class="left meta">Cess</td><td class="right meta">${INR(cess)}</td></tr>` : ``}
+          ${r.roundOff ? `<tr><td class="left">Round off</td><td class="right">${INR(r.roundOff)}</td></tr>` : ``}
           <tr><td colspan="2"><div class="hr"></div></td></tr>
           <tr><td class="left grand">TOTAL</td><td class="right grand">${INR(total)}</td></tr>
         </table>
@@ -540,9 +1678,21 @@ app.get('/api/receipts/:number/print', async (req, res) => {
             </div>`
           : ``
       }
+      ${
+        r.customer && r.points.length
+          ? `<div class="sec">
+              <div class="meta" style="margin-bottom:6px">Member: ${esc(r.customer.name ?? '')} ${esc(maskPhone(r.customer.phone))}</div>
+              <table>
+                ${r.points.map((p) => `<tr><td class="left meta">${esc(POINTS_LABELS[p.type as PointsEntryType] ?? p.type)}</td><td class="right meta">${p.points > 0 ? '+' : ''}${p.points}</td></tr>`).join('')}
+                <tr><td class="left">Points balance</td><td class="right">${r.points[r.points.length - 1].balance}</td></tr>
+              </table>
+            </div>`
+          : ``
+      }
+      ${invoiceSecs}
 
       <div class="sec" style="text-align:center; padding-bottom:18px">
-        <div class="meta">Thank you! Visit again.</div>
+        <div class="meta">${esc(STORE.receiptFooter)}</div>
       </div>
     </div>
   </div>
@@ -554,71 +1704,141 @@ app.get('/api/receipts/:number/print', async (req, res) => {
 });
 
 /**
- * Update a line in the in-memory cart.
+ * Update a line in a cart.
  * body: { cartId, lineIndex, quantity?, unitPrice?, discount? }
- * - quantity <= 0 will remove the line
- * - recomputes taxAmount & lineTotal using the line's taxRateId
+ * - quantity <= 0 will remove the line (the `void` permission); decimals only for weighable items
+ * - discount is the manual discount; promotions are re-applied on top
+ * - recomputes taxAmount & lineTotal using the line's GST/cess rates
+ * - a bigger quantity is checked against stock and expiry like
+ *   /api/checkout/add (supervisorPin? approves expired stock)
  */
-app.post('/api/checkout/updateLine', async (req, res) => {
+app.post('/api/checkout/updateLine', allow('sell'), async (req, res) => {
   try {
     const { cartId, lineIndex, quantity, unitPrice, discount } = req.body || {};
-    const cart = carts[cartId];
+    const cart = await getCart(cartId);
     if (!cart) return res.status(404).json({ error: 'Cart not found' });
+    if (cart.status === 'HELD') return res.status(409).json({ error: 'Cart is on hold' });
 
     const idx = Number(lineIndex);
     const line = cart.lines[idx];
     if (!line) return res.status(404).json({ error: 'Line not found' });
+    const before = { ...line };
+    const user = currentUser(res);
+    const item = await prisma.item.findUniqueOrThrow({ where: { id: line.itemId } });
+    const rules = await loadSettings(prisma);
+    const paying = !!cart.paymentAt;
 
     // Remove when quantity <= 0
     if (quantity != null && Number(quantity) <= 0) {
+      if (!user.permissions.includes('void')) return res.status(403).json({ error: `The ${user.role} role may not do this` });
+      const needed = lineOverrides({ before, after: null, cost: item.cost, paying }, rules);
       cart.lines.splice(idx, 1);
-      return res.json(cart);
+      // the approval is spent only if the line goes
+      const saved = await prisma.$transaction(async (tx) => {
+        await useOverride(tx, needed, req.body?.overrideToken, cart.id, `removed ${before.quantity} x ${item.sku}`, user.terminal);
+        return saveCart(cart, tx);
+      });
+      await audit(prisma, user, { action: 'LINE_REMOVED', reference: cart.id, before: lineSnapshot(before), description: item.sku });
+      return res.json(saved);
+    }
+
+    if (quantity != null && !Number.isInteger(Number(quantity)) && !item.isWeighable) {
+      return res.status(400).json({ error: `${line.name ?? 'This item'} is sold in whole units` });
     }
 
+    // only a bigger quantity needs stock; selling less never does
+    const more = quantity != null && Number(quantity) > line.quantity;
     if (quantity != null) line.quantity = Number(quantity);
-    if (unitPrice != null) line.unitPrice = Number(unitPrice);
-    if (discount != null) line.discount = Number(discount);
+    if (unitPrice != null) line.unitPrice = roundPaise(Number(unitPrice));
+    // a new quantity or price is no longer what the scale label says
+    if (line.quantity !== before.quantity || line.unitPrice !== before.unitPrice) line.labelPrice = null;
+    if (discount != null) line.discount = roundPaise(Number(discount)) + line.promoDiscount;
+
+    // Recompute tax & totals from the slab captured at scan time
+    priceLine(line);
 
-    // Recompute tax & totals
-    let taxRatePct = 0;
-    if (line.taxRateId) {
-      const tx = await prisma.tax.findUnique({ where: { id: line.taxRateId } });
-      taxRatePct = tx?.rate ?? 0;
+    // stock and expiry first, so an edit they refuse does not use up the supervisor's approval
+    const stockWarnings = more ? await checkStock(prisma, cart.lines.filter((l) => l.itemId === line.itemId)) : [];
+    if (more && line.expiryOverrideBy == null) {
+      const fresh = cart.lines.filter((l) => l.itemId === line.itemId && l.expiryOverrideBy == null);
+      line.expiryOverrideBy = await approveExpired(
+        prisma,
+        item,
+        fresh.reduce((s, l) => s + l.quantity, 0),
+        req.body?.supervisorPin,
+        `cart ${cart.id}`,
+        user,
+      );
     }
-    const base = line.unitPrice * line.quantity;
-    const taxAmount = (base - (line.discount || 0)) * (taxRatePct / 100);
-    line.taxAmount = taxAmount;
-    line.lineTotal = base - (line.discount || 0) + taxAmount;
 
-    res.json(cart);
+    const needed = lineOverrides({ before, after: line, cost: item.cost, paying }, rules);
+    const change =
+      `${item.sku}: ${before.quantity} @ ${formatRupees(before.unitPrice)} less ${formatRupees(before.discount)}` +
+      ` -> ${line.quantity} @ ${formatRupees(line.unitPrice)} less ${formatRupees(line.discount)}`;
+    const saved = await prisma.$transaction(async (tx) => {
+      await useOverride(tx, needed, req.body?.overrideToken, cart.id, change, user.terminal);
+      return saveCart(cart, tx);
+    });
+    const entry = { reference: cart.id, before: lineSnapshot(before), after: lineSnapshot(line), description: item.sku };
+    if (line.unitPrice !== before.unitPrice) await audit(prisma, user, { action: 'PRICE_OVERRIDE', ...entry });
+    if (line.discount - line.promoDiscount !== before.discount - before.promoDiscount) {
+      await audit(prisma, user, { action: 'DISCOUNT', ...entry });
+    }
+    res.json({ ...saved, stockWarnings });
   } catch (e: any) {
+    if (e instanceof StockError) return res.status(409).json({ error: e.message, code: e.code, shortages: e.shortages });
+    if (e instanceof ExpiredError) return res.status(409).json({ error: e.message, code: e.code, ...e.details });
+    if (e instanceof OverrideError) return res.status(409).json({ error: e.message, code: e.code, actions: e.actions });
     res.status(400).json({ error: e.message });
   }
 });
 
 /**
  * Remove a line by index
- * body: { cartId, lineIndex }
+ * body: { cartId, lineIndex, overrideToken? } (needed once the payment drawer was opened)
  */
-app.post('/api/checkout/removeLine', (req, res) => {
-  const { cartId, lineIndex } = req.body || {};
-  const cart = carts[cartId];
-  if (!cart) return res.status(404).json({ error: 'Cart not found' });
-
-  const idx = Number(lineIndex);
-  if (idx < 0 || idx >= cart.lines.length) {
-    return res.status(404).json({ error: 'Line not found' });
+app.post('/api/checkout/removeLine', allow('void'), async (req, res) => {
+  try {
+    const { cartId, lineIndex, overrideToken } = req.body || {};
+    const cart = await getCart(cartId);
+    if (!cart) return res.status(404).json({ error: 'Cart not found' });
+    if (cart.status === 'HELD') return res.status(409).json({ error: 'Cart is on hold' });
+
+    const idx = Number(lineIndex);
+    const line = cart.lines[idx];
+    if (!line) return res.status(404).json({ error: 'Line not found' });
+    const user = currentUser(res);
+    const label = line.name ?? `item #${line.itemId}`;
+    const needed = lineOverrides({ before: line, after: null, cost: 0, paying: !!cart.paymentAt }, await loadSettings(prisma));
+    cart.lines.splice(idx, 1);
+    const saved = await prisma.$transaction(async (tx) => {
+      await useOverride(tx, needed, overrideToken, cart.id, `removed ${line.quantity} x ${label}`, user.terminal);
+      return saveCart(cart, tx);
+    });
+    await audit(prisma, user, { action: 'LINE_REMOVED', reference: cart.id, before: lineSnapshot(line), description: label });
+    res.json(saved);
+  } catch (err: any) {
+    if (err instanceof OverrideError) return res.status(409).json({ error: err.message, code: err.code, actions: err.actions });
+    res.status(400).json({ error: err.message });
   }
-  cart.lines.splice(idx, 1);
-  res.json(cart);
 });
   // ------------------------------------------------------------------------
 
+  return app;
+}
+
+async function main() {
+  const app = createApp();
+  const openCarts = await countOpenCarts();
+  if (openCarts) console.log(`Restored ${openCarts} open cart(s) from the database`);
+
   const port = Number(process.env.PORT || 3000);
   app.listen(port, () => console.log(`POS backend running on port ${port}`));
 }
 
-main().catch((e) => {
-  console.error(e);
-  process.exit(1);
-});
+if (require.main === module) {
+  main().catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,221 @@
+import { Prisma } from '@prisma/client';
+import { Actor, audit } from './audit';
+import { consumeBatches } from './batches';
+import { Paise, roundPaise } from './money';
+import { setting } from './settings';
+
+/**
+ * Stock on hand from the StockLedger.  Every movement is a ledger entry
+ * (PURCHASE and RETURN in, SALE out, ADJUSTMENT either way), so an
+ * item's quantity on hand is the sum of its entries.
+ *
+ * Cost is a moving weighted average: each PURCHASE blends its unit cost
+ * into the average by quantity, every other movement goes in or out at
+ * the current average.  Items never purchased through the ledger fall
+ * back to `Item.cost`.  All amounts are paise.
+ */
+
+/** Reason codes accepted on a stock adjustment */
+export const ADJUSTMENT_REASONS = ['COUNT', 'DAMAGED', 'EXPIRED', 'THEFT', 'INTERNAL_USE', 'FOUND', 'OTHER'];
+
+export interface StockPosition {
+  onHand: number;
+  avgCost: Paise;
+  stockValue: Paise;
+}
+
+/** Ledger quantities are Float; keep sums to grams / millilitres */
+const roundQty = (q: number) => Math.round(q * 1000) / 1000 || 0;
+
+/** Quantity on hand, weighted average cost and stock value from an item's entries in ledger order */
+export function stockPosition(
+  entries: { type: string; quantity: number; unitCost: Paise | null }[],
+  fallbackCost: Paise,
+): StockPosition {
+  let onHand = 0;
+  let avg = fallbackCost;
+  let costed = false;
+  for (const e of entries) {
+    if (e.type === 'PURCHASE' && e.quantity > 0 && e.unitCost != null) {
+      // the first purchase, or one after stock ran out, sets the average outright
+      avg = costed && onHand > 0 ? (onHand * avg + e.quantity * e.unitCost) / (onHand + e.quantity) : e.unitCost;
+      costed = true;
+    }
+    onHand = roundQty(onHand + e.quantity);
+  }
+  return { onHand, avgCost: roundPaise(avg), stockValue: roundPaise(onHand * avg) };
+}
+
+/** Stock position of every item (or of `itemIds`), by item name */
+export async function stockOnHand(db: Prisma.TransactionClient, itemIds?: number[]) {
+  const where = itemIds ? { id: { in: itemIds } } : undefined;
+  const [items, entries] = await Promise.all([
+    db.item.findMany({ where, select: { id: true, sku: true, name: true, unit: true, cost: true }, orderBy: { name: 'asc' } }),
+    db.stockLedger.findMany({
+      where: itemIds ? { itemId: { in: itemIds } } : undefined,
+      select: { itemId: true, type: true, quantity: true, unitCost: true },
+      orderBy: { id: 'asc' },
+    }),
+  ]);
+  const byItem = new Map<number, typeof entries>();
+  for (const e of entries) byItem.set(e.itemId, [...(byItem.get(e.itemId) ?? []), e]);
+  return items.map((i) => ({
+    id: i.id,
+    sku: i.sku,
+    name: i.name,
+    unit: i.unit,
+    ...stockPosition(byItem.get(i.id) ?? [], i.cost),
+  }));
+}
+
+/** Whether stock may be sold below zero (setting `allowNegativeStock`) */
+export const allowNegativeStock = (db: Prisma.TransactionClient) => setting(db, 'allowNegativeStock');
+
+/** An item the cart wants more of than is on hand */
+export interface Shortage {
+  itemId: number;
+  name: string;
+  unit: string;
+  requested: number;
+  onHand: number;
+}
+
+/** e.g. "Only 2 pcs of Amul Butter 100g left" */
+export const shortageMessage = (s: Shortage) =>
+  s.onHand > 0 ? `Only ${s.onHand} ${s.unit} of ${s.name} left` : `${s.name} is out of stock`;
+
+/** Selling past stock on hand while negative stock is not allowed */
+export class StockError extends Error {
+  code = 'OUT_OF_STOCK' as const;
+  constructor(public shortages: Shortage[]) {
+    super(shortages.map(shortageMessage).join('; '));
+    this.name = 'StockError';
+  }
+}
+
+/** Requested quantity per item (summed over lines) against what is on hand */
+export function findShortages(
+  lines: { itemId: number; quantity: number }[],
+  levels: Map<number, { name: string; unit: string; onHand: number }>,
+): Shortage[] {
+  const requested = new Map<number, number>();
+  for (const l of lines) requested.set(l.itemId, roundQty((requested.get(l.itemId) ?? 0) + l.quantity));
+  const shortages: Shortage[] = [];
+  for (const [itemId, qty] of requested) {
+    const level = levels.get(itemId);
+    if (level && qty > level.onHand) shortages.push({ itemId, ...level, requested: qty });
+  }
+  return shortages;
+}
+
+/**
+ * Check cart lines against current stock.  Returns the shortages as
+ * warnings when negative stock is allowed, otherwise throws a
+ * StockError saying how much is left.
+ */
+export async function checkStock(db: Prisma.TransactionClient, lines: { itemId: number; quantity: number }[]) {
+  const itemIds = [...new Set(lines.map((l) => l.itemId))];
+  if (!itemIds.length) return [];
+  const [items, sums] = await Promise.all([
+    db.item.findMany({ where: { id: { in: itemIds } }, select: { id: true, name: true, unit: true } }),
+    db.stockLedger.groupBy({ by: ['itemId'], where: { itemId: { in: itemIds } }, _sum: { quantity: true } }),
+  ]);
+  const levels = new Map(
+    items.map((i) => [
+      i.id,
+      { name: i.name, unit: i.unit, onHand: roundQty(sums.find((s) => s.itemId === i.id)?._sum.quantity ?? 0) },
+    ]),
+  );
+  const shortages = findShortages(lines, levels);
+  if (shortages.length && !(await allowNegativeStock(db))) throw new StockError(shortages);
+  return shortages;
+}
+
+export interface ReceiveInput {
+  itemId: number;
+  quantity: number;
+  unitCost: Paise;
+  reference: string | null;
+  batchNo: string | null;
+  expiryDate: Date | null;
+}
+
+/**
+ * Take stock in without a purchase order (a cash purchase, an opening
+ * balance): a Batch and a PURCHASE entry at `unitCost`, which also
+ * becomes the item's cost.  Must run in one transaction.
+ */
+export async function receiveStock(db: Prisma.TransactionClient, input: ReceiveInput) {
+  const item = await db.item.findUnique({ where: { id: input.itemId } });
+  if (!item) throw new Error('Item not found');
+  const batch = await db.batch.create({
+    data: {
+      itemId: item.id,
+      batchNo: input.batchNo,
+      expiryDate: input.expiryDate,
+      quantity: input.quantity,
+      cost: input.unitCost,
+    },
+  });
+  const entry = await db.stockLedger.create({
+    data: {
+      itemId: item.id,
+      batchId: batch.id,
+      type: 'PURCHASE',
+      reference: input.reference ?? 'DIRECT',
+      quantity: input.quantity,
+      unitCost: input.unitCost,
+    },
+  });
+  await db.item.update({ where: { id: item.id }, data: { cost: input.unitCost } });
+  return entry;
+}
+
+export interface AdjustInput {
+  itemId: number;
+  delta: number;
+  reason: string;
+  note: string | null;
+}
+
+/**
+ * Correct stock by `delta` units with a reason code.  Stock taken out
+ * comes off the batches expiring first (expired ones included) at their
+ * cost; anything else is valued at the current average cost.  A
+ * STOCK_ADJUST audit entry records who made the change, on which
+ * terminal, and the quantity before and after.  Must run in one
+ * transaction.
+ */
+export async function adjustStock(db: Prisma.TransactionClient, input: AdjustInput, actor: Actor | null = null) {
+  const reason = String(input.reason || '').toUpperCase();
+  if (!ADJUSTMENT_REASONS.includes(reason)) {
+    throw new Error(`reason must be one of ${ADJUSTMENT_REASONS.join(', ')}`);
+  }
+  if (reason === 'OTHER' && !input.note) throw new Error('Say what the adjustment is for');
+  if (!Number.isFinite(input.delta) || !input.delta) throw new Error('delta must be a non-zero number');
+
+  const [before] = await stockOnHand(db, [input.itemId]);
+  if (!before) throw new Error('Item not found');
+  const reference = input.note ? `${reason}: ${input.note}` : reason;
+  const moves: { batchId: number | null; quantity: number; unitCost: Paise }[] = [];
+  if (input.delta < 0) {
+    const { allocations, unallocated } = await consumeBatches(db, before.id, -input.delta, new Date(), true);
+    moves.push(...allocations.map((a) => ({ batchId: a.batchId, quantity: -a.quantity, unitCost: a.cost })));
+    if (unallocated > 0) moves.push({ batchId: null, quantity: -unallocated, unitCost: before.avgCost });
+  } else {
+    moves.push({ batchId: null, quantity: input.delta, unitCost: before.avgCost });
+  }
+  const entries = [];
+  for (const m of moves) {
+    entries.push(await db.stockLedger.create({ data: { itemId: before.id, type: 'ADJUSTMENT', reference, ...m } }));
+  }
+  const after = roundQty(before.onHand + input.delta);
+  await audit(db, actor, {
+    action: 'STOCK_ADJUST',
+    reference: before.sku,
+    before: { onHand: before.onHand },
+    after: { onHand: after },
+    description: `${before.sku} ${before.name}: ${input.delta > 0 ? '+' : ''}${input.delta} (${reference})`,
+  });
+  return { entries, onHand: after };
+}
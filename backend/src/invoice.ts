@@ -0,0 +1,96 @@
+import { Paise } from './money';
+import { GST_STATES, splitLineTax, TaxedLine } from './tax';
+
+/**
+ * Tax-invoice helpers shared by the HTML and plain-text receipt
+ * renderers: an HSN-wise summary of the lines and the amount in words.
+ */
+
+export interface HsnRow {
+  hsnCode: string;
+  gstRate: number;
+  quantity: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  cess: number;
+}
+
+/** Group lines by HSN code and GST rate */
+export function hsnSummary(
+  lines: (TaxedLine & { hsnCode?: string | null })[],
+  interState: boolean,
+): HsnRow[] {
+  const rows = new Map<string, HsnRow>();
+  for (const l of lines) {
+    const hsnCode = l.hsnCode || 'NA';
+    const key = `${hsnCode}/${l.gstRate}`;
+    const row = rows.get(key) ?? { hsnCode, gstRate: l.gstRate, quantity: 0, taxableValue: 0, cgst: 0, sgst: 0, igst: 0, cess: 0 };
+    const heads = splitLineTax(l, interState);
+    row.quantity += l.quantity;
+    row.taxableValue += l.lineTotal - l.taxAmount;
+    row.cgst += heads.cgst;
+    row.sgst += heads.sgst;
+    row.igst += heads.igst;
+    row.cess += heads.cess;
+    rows.set(key, row);
+  }
+  return [...rows.values()].sort((a, b) => a.hsnCode.localeCompare(b.hsnCode) || a.gstRate - b.gstRate);
+}
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const twoDigits = (n: number) => (n < 20 ? ONES[n] : TENS[Math.floor(n / 10)] + (n % 10 ? ` ${ONES[n % 10]}` : ''));
+
+/** Whole number in words using the Indian system (thousand, lakh, crore) */
+export function numberInWords(n: number): string {
+  n = Math.floor(Math.abs(n));
+  if (n === 0) return 'Zero';
+  const parts: string[] = [];
+  const crore = Math.floor(n / 10000000);
+  const lakh = Math.floor(n / 100000) % 100;
+  const thousand = Math.floor(n / 1000) % 100;
+  const hundred = Math.floor(n / 100) % 10;
+  const rest = n % 100;
+  if (crore) parts.push(`${numberInWords(crore)} Crore`);
+  if (lakh) parts.push(`${twoDigits(lakh)} Lakh`);
+  if (thousand) parts.push(`${twoDigits(thousand)} Thousand`);
+  if (hundred) parts.push(`${ONES[hundred]} Hundred`);
+  if (rest) parts.push(twoDigits(rest));
+  return parts.join(' ');
+}
+
+/** Paise in words, e.g. 15960 -> "Rupees One Hundred Fifty Nine and Sixty Paise Only" */
+export function amountInWords(amount: Paise): string {
+  const paiseTotal = Math.abs(amount);
+  const rupees = Math.floor(paiseTotal / 100);
+  const paise = paiseTotal % 100;
+  return `Rupees ${numberInWords(rupees)}${paise ? ` and ${twoDigits(paise)} Paise` : ''} Only`;
+}
+
+/** "29-Karnataka" style label for a GST state code */
+export function stateLabel(code?: string | null): string {
+  const st = GST_STATES.find((s) => s.code === code);
+  return st ? `${st.code}-${st.name}` : code || '-';
+}
+
+/** Break text into lines of at most `width` characters on word boundaries */
+export function wrapWords(text: string, width: number): string[] {
+  const out: string[] = [];
+  let cur = '';
+  for (const w of text.split(/\s+/)) {
+    if (cur && cur.length + 1 + w.length > width) {
+      out.push(cur);
+      cur = w;
+    } else {
+      cur = cur ? `${cur} ${w}` : w;
+    }
+  }
+  if (cur) out.push(cur);
+  return out;
+}
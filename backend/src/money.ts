@@ -0,0 +1,83 @@
+/**
+ * Money is held as integer paise everywhere: database columns, cart and
+ * receipt maths, the JSON API and the receipt renderers.  Only these
+ * helpers turn rupees into paise (user input) or paise into rupees
+ * (printing, GST portal files).
+ *
+ * Rounding rules:
+ * - per line: the line value (unit price × quantity) and each tax on it
+ *   are rounded to whole paise, half away from zero;
+ * - per invoice: totals are sums of the rounded line amounts, never
+ *   recomputed from rates, so lines always add up to the bill;
+ * - round off: optionally the payable total is rounded to the nearest
+ *   rupee and the difference is shown as a separate "Round off" line.
+ */
+
+export type Paise = number;
+
+/**
+ * Round to whole paise, half away from zero so that refunds mirror sales.
+ * The tiny nudge absorbs binary float error such as 1.005 * 100.
+ */
+export const roundPaise = (v: number): Paise => (v < 0 ? -Math.round(-v + 1e-9) : Math.round(v + 1e-9)) || 0;
+
+/** Rupee input (number or string) to paise */
+export const toPaise = (rupees: unknown): Paise => {
+  const n = Number(rupees ?? 0);
+  if (!Number.isFinite(n)) throw new Error(`Invalid amount: ${rupees}`);
+  return roundPaise(n * 100);
+};
+
+/** Paise to rupees, for printing and external formats */
+export const toRupees = (p: Paise): number => p / 100;
+
+/** Line value of `quantity` units at `unitPrice` paise (quantity may be fractional for loose items) */
+export const lineValue = (unitPrice: Paise, quantity: number): Paise => roundPaise(unitPrice * quantity);
+
+/** A line's value before discount: the price on its scale label, else unit price × quantity */
+export const grossValue = (line: { unitPrice: Paise; quantity: number; labelPrice?: Paise | null }): Paise =>
+  line.labelPrice ?? lineValue(line.unitPrice, line.quantity);
+
+/** `rate` percent of an amount in paise */
+export const percentOf = (amount: Paise, rate: number): Paise => roundPaise((amount * rate) / 100);
+
+/** Split `total` paise in proportion to `weights`, largest remainders taking the odd paise */
+export function allocate(total: Paise, weights: number[]): Paise[] {
+  const whole = weights.reduce((s, w) => s + w, 0);
+  if (!whole) return weights.map(() => 0);
+  const exact = weights.map((w) => (total * w) / whole);
+  const out = exact.map(Math.floor);
+  const order = exact.map((x, i) => ({ i, frac: x - Math.floor(x) })).sort((a, b) => b.frac - a.frac);
+  const left = total - out.reduce((s, x) => s + x, 0);
+  for (let k = 0; k < left; k++) out[order[k % order.length].i] += 1;
+  return out;
+}
+
+const inr = new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' });
+
+/** e.g. 12345 -> "₹123.45" */
+export const formatINR = (p: Paise | null | undefined): string => inr.format((p ?? 0) / 100);
+
+/** e.g. 12345 -> "123.45" */
+export const formatRupees = (p: Paise | null | undefined): string => ((p ?? 0) / 100).toFixed(2);
+
+export type RoundOffMode = 'NONE' | 'RUPEE';
+
+/** Adjustment that takes `total` to the nearest rupee (half away from zero) */
+export function roundOff(total: Paise, mode: RoundOffMode): Paise {
+  if (mode !== 'RUPEE') return 0;
+  return roundPaise(total / 100) * 100 - total;
+}
+
+/** Bill totals from priced lines; `totalAmount` includes the round off */
+export function invoiceTotals(
+  lines: { unitPrice: Paise; quantity: number; labelPrice?: Paise | null; discount: Paise; taxAmount: Paise; lineTotal: Paise }[],
+  mode: RoundOffMode,
+) {
+  const totalBeforeDiscount = lines.reduce((s, l) => s + grossValue(l), 0);
+  const totalDiscount = lines.reduce((s, l) => s + l.discount, 0);
+  const totalTax = lines.reduce((s, l) => s + l.taxAmount, 0);
+  const linesTotal = lines.reduce((s, l) => s + l.lineTotal, 0);
+  const adjust = roundOff(linesTotal, mode);
+  return { totalBeforeDiscount, totalDiscount, totalTax, roundOff: adjust, totalAmount: linesTotal + adjust };
+}
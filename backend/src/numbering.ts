@@ -0,0 +1,87 @@
+import { Prisma } from '@prisma/client';
+import { PrefixKey, setting, terminalPrefix } from './settings';
+import { localDate } from './time';
+
+/**
+ * Gapless invoice numbering.  Each terminal has its own series per
+ * financial year (1 April to 31 March), one for sales and one for
+ * credit notes (returns).  Purchase orders and goods receipts are
+ * numbered the same way from their own series.  Numbers come from a
+ * ReceiptSequence row that is incremented with the same transaction
+ * client that creates the Receipt, so a rolled-back sale does not skip
+ * a number and two tills never share one.
+ *
+ * Prefixes are configurable per terminal through Settings:
+ * `receiptPrefix` / `creditNotePrefix` / `purchaseOrderPrefix` /
+ * `goodsReceiptPrefix` for every terminal, or
+ * `receiptPrefix.<terminal>` for one.  `{terminal}` in a prefix is
+ * replaced by the terminal id.
+ */
+
+export type ReceiptSeries = 'SALE' | 'RETURN' | 'PO' | 'GRN';
+
+const PREFIX_KEY: Record<ReceiptSeries, PrefixKey> = {
+  SALE: 'receiptPrefix',
+  RETURN: 'creditNotePrefix',
+  PO: 'purchaseOrderPrefix',
+  GRN: 'goodsReceiptPrefix',
+};
+
+/** GST caps an invoice number at 16 characters */
+export const MAX_NUMBER_LENGTH = 16;
+
+/** This till's id (TERMINAL_ID, default T1) */
+export const terminalId = () => (process.env.TERMINAL_ID || 'T1').trim();
+
+/** Indian financial year of an instant in the store's time zone, e.g. 2025-04-01 -> "2025-26" */
+export function financialYear(date: Date, timeZone: string): string {
+  const [year, month] = localDate(date, timeZone).split('-').map(Number);
+  const start = month >= 4 ? year : year - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+}
+
+/** e.g. ("T1-", "2025-26", 42) -> "T1-2526/00042" */
+export function formatReceiptNumber(prefix: string, fy: string, seq: number): string {
+  const number = `${prefix}${fy.slice(2, 4)}${fy.slice(5, 7)}/${String(seq).padStart(5, '0')}`;
+  if (number.length > MAX_NUMBER_LENGTH) {
+    throw new Error(`Receipt number ${number} is longer than ${MAX_NUMBER_LENGTH} characters; shorten the prefix`);
+  }
+  return number;
+}
+
+async function receiptPrefix(db: Prisma.TransactionClient, terminal: string, series: ReceiptSeries) {
+  return (await terminalPrefix(db, PREFIX_KEY[series], terminal)).replace(/\{terminal\}/g, terminal);
+}
+
+/** Whether the store has set up this till: the `terminals` setting, or this server's own TERMINAL_ID */
+export async function isKnownTerminal(db: Prisma.TransactionClient, terminal: string) {
+  return terminal === terminalId() || (await setting(db, 'terminals')).includes(terminal);
+}
+
+/** Refuse an unknown till and one whose sale or credit note numbers would not fit in MAX_NUMBER_LENGTH */
+export async function checkTerminal(db: Prisma.TransactionClient, terminal: string) {
+  if (!(await isKnownTerminal(db, terminal))) throw new Error(`Unknown terminal ${terminal}`);
+  for (const series of ['SALE', 'RETURN'] as const) {
+    formatReceiptNumber(await receiptPrefix(db, terminal, series), '2099-00', 99999);
+  }
+}
+
+/**
+ * Take the next number in this terminal's series.  Must be called with
+ * the transaction client that creates the Receipt.
+ */
+export async function allocateReceiptNumber(
+  db: Prisma.TransactionClient,
+  series: ReceiptSeries,
+  date = new Date(),
+  terminal = terminalId(),
+): Promise<{ receiptNumber: string; terminal: string }> {
+  const fy = financialYear(date, await setting(db, 'timezone'));
+  const seq = await db.receiptSequence.upsert({
+    where: { terminal_series_financialYear: { terminal, series, financialYear: fy } },
+    create: { terminal, series, financialYear: fy, lastNumber: 1 },
+    update: { lastNumber: { increment: 1 } },
+  });
+  const prefix = await receiptPrefix(db, terminal, series);
+  return { receiptNumber: formatReceiptNumber(prefix, fy, seq.lastNumber), terminal };
+}
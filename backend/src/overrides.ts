@@ -0,0 +1,134 @@
+import { Prisma } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { Actor, audit } from './audit';
+import { grossValue } from './money';
+import { Settings } from './settings';
+import { supervisorByPin } from './users';
+
+/**
+ * Manager overrides.  Past the thresholds in the settings, a till action
+ * needs a supervisor: the Cashier asks for their PIN, POST /api/overrides
+ * trades it for a token naming the approved actions, and the action is
+ * retried with `overrideToken`.  A token is good once, for one cart, for
+ * OVERRIDE_MINUTES; using it stamps the Override row and the audit log
+ * with what was approved and by whom.
+ */
+
+export const OVERRIDE_ACTIONS = ['PRICE_BELOW_COST', 'DISCOUNT', 'VOID_AFTER_PAYMENT', 'NO_SALE'] as const;
+
+export type OverrideAction = (typeof OVERRIDE_ACTIONS)[number];
+
+export const OVERRIDE_LABELS: Record<OverrideAction, string> = {
+  PRICE_BELOW_COST: 'price below cost',
+  DISCOUNT: 'discount above the limit',
+  VOID_AFTER_PAYMENT: 'void after payment started',
+  NO_SALE: 'no sale',
+};
+
+const OVERRIDE_MINUTES = 2;
+
+export const isOverrideAction = (v: unknown): v is OverrideAction => OVERRIDE_ACTIONS.includes(v as OverrideAction);
+
+export type OverrideRules = Pick<
+  Settings,
+  'overridePriceBelowCost' | 'overrideDiscountPercent' | 'overrideVoidAfterPayment' | 'overrideNoSale'
+>;
+
+/** An action that needs a supervisor and has no valid token */
+export class OverrideError extends Error {
+  code = 'OVERRIDE_REQUIRED' as const;
+  constructor(
+    message: string,
+    public actions: OverrideAction[],
+  ) {
+    super(message);
+    this.name = 'OverrideError';
+  }
+}
+
+export interface LineChange {
+  /** the line before the change */
+  before: { quantity: number; unitPrice: number; discount: number; promoDiscount: number; labelPrice?: number | null };
+  /** after it; null removes the line */
+  after: { quantity: number; unitPrice: number; discount: number; promoDiscount: number; labelPrice?: number | null } | null;
+  /** the item's purchase cost per unit (paise) */
+  cost: number;
+  /** the payment drawer has been opened for this cart */
+  paying: boolean;
+}
+
+/** Overrides a line edit or removal needs under `rules` */
+export function lineOverrides(change: LineChange, rules: OverrideRules): OverrideAction[] {
+  const { before, after } = change;
+  const needed: OverrideAction[] = [];
+  if (after) {
+    if (rules.overridePriceBelowCost && after.unitPrice !== before.unitPrice && after.unitPrice < change.cost) {
+      needed.push('PRICE_BELOW_COST');
+    }
+    // a line already approved above the limit only needs a new approval for more
+    const over = (l: NonNullable<LineChange['after']>) =>
+      (l.discount - l.promoDiscount) * 100 > grossValue(l) * rules.overrideDiscountPercent;
+    if (over(after) && (!over(before) || after.discount - after.promoDiscount > before.discount - before.promoDiscount)) {
+      needed.push('DISCOUNT');
+    }
+  }
+  if (rules.overrideVoidAfterPayment && change.paying && (!after || after.quantity < before.quantity)) {
+    needed.push('VOID_AFTER_PAYMENT');
+  }
+  return needed;
+}
+
+/** A token for the actions a supervisor approved with their PIN; throws when the PIN is not a supervisor's */
+export async function grantOverride(
+  db: Prisma.TransactionClient,
+  pin: unknown,
+  actions: OverrideAction[],
+  cartId: string | null,
+  requester: Actor,
+) {
+  const supervisor = await supervisorByPin(db, pin, requester);
+  if (!supervisor) throw new Error('Supervisor PIN not recognised');
+  const row = await db.override.create({
+    data: {
+      token: randomBytes(16).toString('hex'),
+      actions: actions.join(','),
+      cartId,
+      approvedBy: supervisor.id,
+      requestedBy: requester.id,
+      expiresAt: new Date(Date.now() + OVERRIDE_MINUTES * 60_000),
+    },
+  });
+  return { token: row.token, actions, expiresAt: row.expiresAt, approvedBy: supervisor };
+}
+
+/**
+ * Check `needed` against the token sent with the request.  Nothing needed
+ * gives null; otherwise a matching unused token is spent (recording
+ * `detail` and auditing it) and the approver's id returned.  Throws
+ * OverrideError when there is no such token.
+ */
+export async function useOverride(
+  db: Prisma.TransactionClient,
+  needed: OverrideAction[],
+  token: unknown,
+  cartId: string | null,
+  detail: string,
+  terminal: string | null = null,
+): Promise<number | null> {
+  if (!needed.length) return null;
+  const what = needed.map((a) => OVERRIDE_LABELS[a]).join(' and ');
+  if (token == null || token === '') throw new OverrideError(`A supervisor must approve this (${what})`, needed);
+  const row = await db.override.findUnique({ where: { token: String(token) }, include: { approver: true } });
+  const granted = row?.actions.split(',') ?? [];
+  if (!row || row.usedAt || row.expiresAt < new Date() || row.cartId !== cartId || !needed.every((a) => granted.includes(a))) {
+    throw new OverrideError(`The supervisor approval is not valid for this (${what})`, needed);
+  }
+  await db.override.update({ where: { id: row.id }, data: { usedAt: new Date(), detail } });
+  await audit(db, { id: row.approvedBy, terminal }, {
+    action: 'OVERRIDE',
+    reference: cartId,
+    after: { actions: needed },
+    description: `${needed.join(', ')} approved by ${row.approver.username}: ${detail}`,
+  });
+  return row.approvedBy;
+}
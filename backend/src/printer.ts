@@ -0,0 +1,221 @@
+import { Prisma } from '@prisma/client';
+import { promises as fs } from 'fs';
+import net from 'net';
+import path from 'path';
+import { DailyZ, loadDailyZ } from './dailyz';
+import { encode, PAPER_COLUMNS, PaperWidth, renderTemplate } from './escpos';
+import { formatINR, formatRupees } from './money';
+import { loadSettings, Settings } from './settings';
+import { ShiftReport, shiftReport } from './shifts';
+import { isInterState } from './tax';
+import { zoneOffset } from './time';
+
+/**
+ * Receipt printing.  A receipt fills escpos_templates/receipt_<paper>.txt
+ * (see src/escpos.ts) with the store profile and footer from the
+ * settings, and the bytes go to the receipt printer.
+ *
+ * The `printer` setting is `tcp://host[:port]` for a network printer's
+ * raw port (9100 unless given), otherwise a path: a device such as
+ * /dev/usb/lp0, or an ordinary file that captures the bytes.  The
+ * scan-to-pay QR code is left off while there is no UPI VPA.
+ */
+
+export type PrinterTarget = { kind: 'TCP'; host: string; port: number } | { kind: 'FILE'; path: string };
+
+const TEMPLATE_DIR = process.env.ESCPOS_TEMPLATES_DIR || path.resolve(__dirname, '../../escpos_templates');
+
+/** Where `printer` points */
+export function parsePrinterTarget(value: string): PrinterTarget {
+  const v = value.trim();
+  if (!v) throw new Error('No receipt printer is configured');
+  const m = /^tcp:\/\/([^:/]+)(?::(\d+))?\/?$/i.exec(v);
+  if (m) return { kind: 'TCP', host: m[1], port: m[2] ? Number(m[2]) : 9100 };
+  return { kind: 'FILE', path: v };
+}
+
+/** Write bytes to the printer; a file target is appended to, so a capture file keeps every job */
+export async function sendToPrinter(target: PrinterTarget, bytes: Buffer, timeoutMs = 5000): Promise<void> {
+  if (target.kind === 'FILE') return fs.appendFile(target.path, bytes);
+  await new Promise<void>((resolve, reject) => {
+    const socket = net.createConnection({ host: target.host, port: target.port });
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`Printer ${target.host}:${target.port} did not respond`)));
+    socket.on('error', reject);
+    socket.on('connect', () => socket.end(bytes));
+    socket.on('close', () => resolve());
+  });
+}
+
+/** Opens the cash drawer wired to the printer without printing anything */
+export const drawerKick = () => encode('', { columns: PAPER_COLUMNS['58mm'], cut: false, openDrawer: true });
+
+export const RECEIPT_PRINT_INCLUDE = {
+  lines: { include: { item: true }, orderBy: { id: 'asc' } },
+  taxes: true,
+  payments: { include: { paymentMethod: true }, orderBy: { id: 'asc' } },
+  shift: { include: { opener: { select: { fullName: true } } } },
+} satisfies Prisma.ReceiptInclude;
+
+export type PrintableReceipt = Prisma.ReceiptGetPayload<{ include: typeof RECEIPT_PRINT_INCLUDE }>;
+
+/** `YYYY-MM-DD HH:MM` on the store's clock */
+const printDate = (d: Date, timeZone: string) =>
+  new Date(d.getTime() + zoneOffset(d, timeZone) * 60_000).toISOString().slice(0, 16).replace('T', ' ');
+
+/** upi://pay link for an amount in paise; the payee is the store unless the settings name one */
+export const upiLink = (s: Pick<Settings, 'upiVpa' | 'upiPayeeName' | 'storeName'>, amount: number, note: string) =>
+  `upi://pay?pa=${encodeURIComponent(s.upiVpa)}&pn=${encodeURIComponent(s.upiPayeeName || s.storeName)}` +
+  `&am=${formatRupees(amount)}&cu=INR&tn=${encodeURIComponent(note)}`;
+
+/** Values the receipt template reads; amounts are formatted rupees */
+export function receiptTemplateData(r: PrintableReceipt, store: Settings, interState: boolean) {
+  const taxes = r.taxes.flatMap((t) => [
+    ...(interState
+      ? [{ label: `IGST @${t.gstRate}%`, amount: formatRupees(t.igst) }]
+      : [
+          { label: `CGST @${t.gstRate / 2}%`, amount: formatRupees(t.cgst) },
+          { label: `SGST @${t.gstRate / 2}%`, amount: formatRupees(t.sgst) },
+        ]),
+    ...(t.cess ? [{ label: `Cess @${t.cessRate}%`, amount: formatRupees(t.cess) }] : []),
+  ]);
+  return {
+    STORE_NAME: store.storeName,
+    STORE_ADDRESS: store.storeAddress,
+    STORE_PHONE: store.storePhone,
+    STORE_GSTIN: store.gstin,
+    TITLE: r.status === 'RETURNED' ? 'CREDIT NOTE' : '',
+    RECEIPT_NO: r.receiptNumber,
+    DATE: printDate(r.date, store.timezone),
+    TERMINAL: r.terminal ?? '',
+    // the cashier whose drawer took it
+    CASHIER_NAME: r.shift?.opener.fullName ?? '',
+    LINES: r.lines.map((l) => ({
+      name: l.item?.name ?? `Item #${l.itemId}`,
+      qty: Number.isInteger(l.quantity) ? String(l.quantity) : l.quantity.toFixed(3),
+      rate: formatRupees(l.unitPrice),
+      amount: formatRupees(l.lineTotal),
+      tax: formatRupees(l.taxAmount),
+    })),
+    SUBTOTAL: formatRupees(r.totalBeforeDiscount),
+    DISCOUNT: r.totalDiscount ? `-${formatRupees(r.totalDiscount)}` : '',
+    TAXES: taxes,
+    ROUND_OFF: r.roundOff ? formatRupees(r.roundOff) : '',
+    TOTAL: formatINR(r.totalAmount),
+    PAYMENTS: r.payments.map((p) => ({
+      method: p.paymentMethod?.name ?? 'Payment',
+      amount: formatRupees(p.amount),
+      reference: p.reference ?? '',
+    })),
+    CHANGE: r.changeDue ? formatRupees(r.changeDue) : '',
+    UPI_QR: store.upiVpa ? upiLink(store, r.totalAmount, r.receiptNumber) : '',
+    FOOTER: store.receiptFooter,
+  };
+}
+
+const signed = (p: number) => (p > 0 ? `+${formatRupees(p)}` : formatRupees(p));
+
+/** Values escpos_templates/shift_<paper>.txt reads; amounts are formatted rupees */
+export function shiftTemplateData(r: ShiftReport, storeName: string, timeZone: string) {
+  const name = (code: string) => r.tenders.find((t) => t.code === code)?.name ?? code;
+  return {
+    STORE_NAME: storeName,
+    TITLE: r.kind === 'Z' ? 'Z REPORT - SHIFT CLOSE' : 'X REPORT - MID SHIFT',
+    SHIFT_NO: String(r.shift.id),
+    TERMINAL: r.shift.terminal,
+    OPENED: `${printDate(r.shift.openedAt, timeZone)} ${r.shift.opener.username}`,
+    CLOSED: r.shift.closedAt ? `${printDate(r.shift.closedAt, timeZone)} ${r.shift.closer?.username ?? ''}` : '',
+    PRINTED: printDate(new Date(), timeZone),
+    SALES_COUNT: String(r.sales.count),
+    SALES: formatRupees(r.sales.total),
+    RETURNS_COUNT: String(r.returns.count),
+    RETURNS: formatRupees(r.returns.total),
+    NET: formatRupees(r.sales.total + r.returns.total),
+    TENDERS: r.tenders.map((t) => ({ name: t.name, sales: formatRupees(t.sales), refunds: formatRupees(t.refunds), net: formatRupees(t.net) })),
+    FLOAT: formatRupees(r.cash.openingFloat),
+    DROPS: r.cash.drops ? `-${formatRupees(r.cash.drops)}` : '',
+    PAYOUTS: r.cash.payouts ? `-${formatRupees(r.cash.payouts)}` : '',
+    PAYINS: r.cash.payins ? formatRupees(r.cash.payins) : '',
+    EXPECTED: Object.entries(r.expected).map(([code, amount]) => ({ name: name(code), amount: formatRupees(amount) })),
+    COUNTED: (r.reconciliation?.rows ?? []).map((row) => ({
+      name: name(row.code),
+      counted: formatRupees(row.counted),
+      expected: formatRupees(row.expected),
+      variance: signed(row.variance),
+    })),
+    VARIANCE: r.reconciliation ? signed(r.reconciliation.variance) : '',
+    NOTES: r.shift.notes ?? '',
+  };
+}
+
+/** Values escpos_templates/dailyz_80mm.txt reads; amounts are formatted rupees */
+export function dailyZTemplateData(z: DailyZ, store: Settings) {
+  return {
+    STORE_NAME: store.storeName,
+    STORE_GSTIN: store.gstin,
+    DATE: z.date,
+    TIME_ZONE: z.timeZone,
+    PRINTED: printDate(new Date(), z.timeZone),
+    GROSS: formatRupees(z.grossSales),
+    DISCOUNTS: z.discounts ? `-${formatRupees(z.discounts)}` : '0.00',
+    SALES_COUNT: String(z.sales.count),
+    SALES: formatRupees(z.sales.total),
+    RETURNS_COUNT: String(z.returns.count),
+    RETURNS: formatRupees(z.returns.total),
+    NET: formatINR(z.netSales),
+    ROUND_OFF: z.roundOff ? formatRupees(z.roundOff) : '',
+    RECEIPTS: String(z.receiptCount),
+    AVERAGE: formatRupees(z.averageBasket),
+    SLABS: z.taxBySlab.map((s) => ({
+      rate: `${s.gstRate}%`,
+      taxable: formatRupees(s.taxableValue),
+      tax: formatRupees(s.tax),
+    })),
+    TAXABLE: formatRupees(z.netTaxable),
+    TAX: formatRupees(z.netTax),
+    TENDERS: z.tenders.map((t) => ({ name: t.name, amount: formatRupees(t.net) })),
+    NUMBERS: z.numbers.map((n) => ({
+      label: `${n.terminal || '-'} ${n.series === 'SALE' ? 'sales' : 'credit notes'} (${n.count})`,
+      range: n.first === n.last ? n.first : `${n.first} - ${n.last}`,
+    })),
+    VOID_CARTS: `${z.voids.carts} / ${formatRupees(z.voids.cartsTotal)}`,
+    VOID_LINES: `${z.voids.lines} / ${formatRupees(z.voids.linesTotal)}`,
+  };
+}
+
+export async function loadTemplate(paper: PaperWidth, name: 'receipt' | 'shift' | 'dailyz' = 'receipt'): Promise<string> {
+  return fs.readFile(path.join(TEMPLATE_DIR, `${name}_${paper}.txt`), 'utf8');
+}
+
+export interface PrintOptions {
+  paper?: PaperWidth;
+}
+
+/** ESC/POS bytes of a receipt, or null when there is no such receipt */
+export async function receiptBytes(db: Prisma.TransactionClient, receiptNumber: string, options: PrintOptions = {}) {
+  const r = await db.receipt.findUnique({ where: { receiptNumber }, include: RECEIPT_PRINT_INCLUDE });
+  if (!r) return null;
+  const settings = await loadSettings(db);
+  const paper = options.paper ?? settings.printerPaper;
+  const data = receiptTemplateData(r, settings, isInterState(settings.placeOfSupply, r.placeOfSupply));
+  const columns = PAPER_COLUMNS[paper];
+  return encode(renderTemplate(await loadTemplate(paper), data, columns), { columns });
+}
+
+/** ESC/POS bytes of a shift's X or Z report, or null when there is no such shift */
+export async function shiftBytes(db: Prisma.TransactionClient, shiftId: number, options: PrintOptions = {}) {
+  const report = await shiftReport(db, shiftId);
+  if (!report) return null;
+  const settings = await loadSettings(db);
+  const paper = options.paper ?? settings.printerPaper;
+  const columns = PAPER_COLUMNS[paper];
+  const data = shiftTemplateData(report, settings.storeName, settings.timezone);
+  return encode(renderTemplate(await loadTemplate(paper, 'shift'), data, columns), { columns });
+}
+
+/** ESC/POS bytes of the daily Z report of `date` in the store's time zone, on 80mm paper */
+export async function dailyZBytes(db: Prisma.TransactionClient, date: string) {
+  const settings = await loadSettings(db);
+  const z = await loadDailyZ(db, date, settings.timezone);
+  const columns = PAPER_COLUMNS['80mm'];
+  return encode(renderTemplate(await loadTemplate('80mm', 'dailyz'), dailyZTemplateData(z, settings), columns), { columns });
+}
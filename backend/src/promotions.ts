@@ -0,0 +1,354 @@
+import { Prisma } from '@prisma/client';
+import { allocate, grossValue, Paise, percentOf, roundPaise } from './money';
+import { setting } from './settings';
+import { priceLine, TaxedLine } from './tax';
+import { zoneOffset } from './time';
+
+/**
+ * Promotions engine.  Every change to a cart re-runs the live promotions
+ * over its lines, highest priority first:
+ *
+ * - BUY_X_GET_Y: in every group of `buyQty` + `getQty` qualifying units
+ *   the cheapest `getQty` are discounted (100 PERCENT = free);
+ * - MIX_MATCH: any `buyQty` qualifying units, across items (typically a
+ *   category), form a group; PRICE sets the group's price;
+ * - QTY_TIER: per item, the highest slab whose `minQty` the quantity
+ *   reaches sets a per-unit PRICE, PERCENT or AMOUNT off;
+ * - BILL_THRESHOLD: once the qualifying lines' value before tax reaches
+ *   `minAmount`, PERCENT or AMOUNT off the bill, spread over the lines.
+ *
+ * Groups are formed from the most expensive units down.  Discounts land
+ * on the lines' `discount` (so GST is charged on the discounted value)
+ * and are tracked in `promoDiscount`, leaving any manual discount alone.
+ * A promotion that is not stackable skips lines another promotion has
+ * already discounted and keeps later promotions off the lines it
+ * discounts.  All amounts are paise.
+ */
+
+export const PROMOTION_TYPES = ['BUY_X_GET_Y', 'MIX_MATCH', 'QTY_TIER', 'BILL_THRESHOLD'] as const;
+export type PromotionType = (typeof PROMOTION_TYPES)[number];
+
+/** How `value` reads: percent off, paise off, or a fixed price in paise */
+export const VALUE_TYPES = ['PERCENT', 'AMOUNT', 'PRICE'] as const;
+export type ValueType = (typeof VALUE_TYPES)[number];
+
+/** A Promotion row with its items and tiers, as the engine reads it */
+export interface PromotionRule {
+  id: number;
+  name: string;
+  promoType: string;
+  value: number;
+  valueType: string;
+  buyQty: number | null;
+  getQty: number | null;
+  minAmount: number | null;
+  maxDiscount: number | null;
+  categoryId: number | null;
+  startDate: Date | null;
+  endDate: Date | null;
+  startTime: string | null;
+  endTime: string | null;
+  days: string | null;
+  priority: number;
+  stackable: boolean;
+  active: boolean;
+  items: { itemId: number }[];
+  tiers: { minQty: number; value: number }[];
+}
+
+/** A cart line as the engine sees it; `discount` is the manual discount only */
+export interface PromoLine {
+  itemId: number;
+  categoryId: number | null;
+  quantity: number;
+  unitPrice: Paise;
+  discount: Paise;
+  labelPrice?: Paise | null;
+}
+
+/** A promotion that took money off the cart, shown as a named line */
+export interface AppliedPromotion {
+  promotionId: number;
+  name: string;
+  amount: Paise;
+}
+
+const minutesOf = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + (m || 0);
+};
+
+/**
+ * Whether a promotion runs at `now`: switched on, within its dates, on one
+ * of its days and inside its hours.  Days and hours are the store's wall
+ * clock in `timeZone`, whatever zone the server runs in.
+ */
+export function isLive(p: PromotionRule, now: Date, timeZone: string): boolean {
+  if (!p.active) return false;
+  if (p.startDate && now < p.startDate) return false;
+  if (p.endDate && now > p.endDate) return false;
+  const local = new Date(now.getTime() + zoneOffset(now, timeZone) * 60_000);
+  if (p.days && !p.days.split(',').map((d) => Number(d.trim())).includes(local.getUTCDay())) return false;
+  if (p.startTime && p.endTime) {
+    const t = local.getUTCHours() * 60 + local.getUTCMinutes();
+    const from = minutesOf(p.startTime);
+    const to = minutesOf(p.endTime);
+    // a window such as 22:00-02:00 runs past midnight
+    return from <= to ? t >= from && t < to : t >= from || t < to;
+  }
+  return true;
+}
+
+const inScope = (p: PromotionRule, l: PromoLine) =>
+  (!p.items.length && p.categoryId == null) ||
+  p.items.some((i) => i.itemId === l.itemId) ||
+  (p.categoryId != null && p.categoryId === l.categoryId);
+
+const sum = (xs: number[]) => xs.reduce((s, x) => s + x, 0);
+
+/** Discount on `gross` paise of goods; AMOUNT and PRICE are per unit, times `units` */
+function discountOn(p: PromotionRule, gross: Paise, units: number, value = p.value): Paise {
+  const off =
+    p.valueType === 'PERCENT'
+      ? percentOf(gross, value)
+      : p.valueType === 'AMOUNT'
+        ? roundPaise(value * units)
+        : gross - roundPaise(value * units);
+  return Math.max(0, Math.min(gross, off));
+}
+
+/** Whole units of the given lines, most expensive first (loose quantities count whole units only) */
+function unitsOf(lines: PromoLine[], idx: number[]) {
+  const units: { line: number; price: Paise }[] = [];
+  for (const i of idx) for (let k = 0; k < Math.floor(lines[i].quantity); k++) units.push({ line: i, price: lines[i].unitPrice });
+  return units.sort((a, b) => b.price - a.price || a.line - b.line);
+}
+
+type Rule = (p: PromotionRule, lines: PromoLine[], idx: number[], net: (i: number) => Paise) => Paise[];
+
+const RULES: Record<PromotionType, Rule> = {
+  BUY_X_GET_Y(p, lines, idx) {
+    const d = lines.map(() => 0);
+    const buy = p.buyQty ?? 1;
+    const get = p.getQty ?? 1;
+    const units = unitsOf(lines, idx);
+    for (let g = 0; g + buy + get <= units.length; g += buy + get) {
+      for (const u of units.slice(g + buy, g + buy + get)) d[u.line] += discountOn(p, u.price, 1);
+    }
+    return d;
+  },
+
+  MIX_MATCH(p, lines, idx) {
+    const d = lines.map(() => 0);
+    const size = p.buyQty ?? 1;
+    const units = unitsOf(lines, idx);
+    for (let g = 0; g + size <= units.length; g += size) {
+      const group = units.slice(g, g + size);
+      const prices = group.map((u) => u.price);
+      const shares = allocate(discountOn(p, sum(prices), 1), prices);
+      group.forEach((u, k) => (d[u.line] += shares[k]));
+    }
+    return d;
+  },
+
+  QTY_TIER(p, lines, idx) {
+    const d = lines.map(() => 0);
+    const tiers = [...p.tiers].sort((a, b) => b.minQty - a.minQty);
+    for (const itemId of new Set(idx.map((i) => lines[i].itemId))) {
+      const mine = idx.filter((i) => lines[i].itemId === itemId);
+      const tier = tiers.find((t) => sum(mine.map((i) => lines[i].quantity)) >= t.minQty);
+      if (!tier) continue;
+      for (const i of mine) {
+        d[i] = discountOn(p, grossValue(lines[i]), lines[i].quantity, tier.value);
+      }
+    }
+    return d;
+  },
+
+  BILL_THRESHOLD(p, lines, idx, net) {
+    const values = lines.map((_, i) => (idx.includes(i) ? Math.max(0, net(i)) : 0));
+    const bill = sum(values);
+    if (bill <= 0 || bill < (p.minAmount ?? 0)) return lines.map(() => 0);
+    return allocate(discountOn(p, bill, 1), values);
+  },
+};
+
+/**
+ * Run promotions over cart lines at `now` (the store being in `timeZone`).
+ * Returns the promotions that applied and, per line, the promotion
+ * discount it gets.
+ */
+export function evaluatePromotions(lines: PromoLine[], promotions: PromotionRule[], now: Date, timeZone: string) {
+  const promo = lines.map(() => 0);
+  const touched = lines.map(() => false); // discounted by some promotion
+  const locked = lines.map(() => false); // discounted by a promotion that does not stack
+  const net = (i: number) => grossValue(lines[i]) - lines[i].discount - promo[i];
+  const applied: AppliedPromotion[] = [];
+
+  const live = promotions.filter((p) => isLive(p, now, timeZone)).sort((a, b) => b.priority - a.priority || a.id - b.id);
+  for (const p of live) {
+    const rule = RULES[p.promoType as PromotionType];
+    if (!rule) continue;
+    const idx = lines
+      .map((_, i) => i)
+      .filter((i) => lines[i].quantity > 0 && inScope(p, lines[i]) && !locked[i] && (p.stackable || !touched[i]));
+    if (!idx.length) continue;
+
+    let d = rule(p, lines, idx, net);
+    if (p.maxDiscount != null && sum(d) > p.maxDiscount) d = allocate(p.maxDiscount, d);
+    d = d.map((x, i) => Math.max(0, Math.min(x, net(i))));
+    const amount = sum(d);
+    if (amount <= 0) continue;
+
+    applied.push({ promotionId: p.id, name: p.name, amount });
+    d.forEach((x, i) => {
+      if (!x) return;
+      promo[i] += x;
+      touched[i] = true;
+      if (!p.stackable) locked[i] = true;
+    });
+  }
+  return { applied, lineDiscounts: promo };
+}
+
+/** Promotions that are switched on, with their items and tiers */
+export function loadPromotions(db: Prisma.TransactionClient) {
+  return db.promotion.findMany({ where: { active: true }, include: { items: true, tiers: true } });
+}
+
+/**
+ * Re-run the promotions over cart lines in place: each line's
+ * `promoDiscount` is replaced (keeping the manual part of `discount`) and
+ * the line re-priced.  Returns the promotions applied.
+ */
+export async function applyPromotions<L extends TaxedLine & { itemId: number; promoDiscount: number }>(
+  db: Prisma.TransactionClient,
+  lines: L[],
+  now = new Date(),
+): Promise<AppliedPromotion[]> {
+  const promotions = await loadPromotions(db);
+  const items = await db.item.findMany({
+    where: { id: { in: [...new Set(lines.map((l) => l.itemId))] } },
+    select: { id: true, categoryId: true },
+  });
+  const categoryOf = new Map(items.map((i) => [i.id, i.categoryId]));
+  const { applied, lineDiscounts } = evaluatePromotions(
+    lines.map((l) => ({
+      itemId: l.itemId,
+      categoryId: categoryOf.get(l.itemId) ?? null,
+      quantity: l.quantity,
+      unitPrice: l.unitPrice,
+      discount: l.discount - l.promoDiscount,
+      labelPrice: l.labelPrice,
+    })),
+    promotions,
+    now,
+    await setting(db, 'timezone'),
+  );
+  lines.forEach((l, i) => {
+    l.discount = l.discount - l.promoDiscount + lineDiscounts[i];
+    l.promoDiscount = lineDiscounts[i];
+    priceLine(l);
+  });
+  return applied;
+}
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Validate a promotion posted to /api/promotions.  Money (`value` for
+ * AMOUNT/PRICE, `minAmount`, `maxDiscount`) is in paise.  Throws with a
+ * message fit for a 400.
+ */
+export function parsePromotion(body: any) {
+  const b = body || {};
+  const name = String(b.name ?? '').trim();
+  if (!name) throw new Error('name required');
+  const promoType = String(b.promoType ?? '').toUpperCase();
+  if (!PROMOTION_TYPES.includes(promoType as PromotionType)) {
+    throw new Error(`promoType must be one of ${PROMOTION_TYPES.join(', ')}`);
+  }
+  const valueType = String(b.valueType ?? 'PERCENT').toUpperCase();
+  if (!VALUE_TYPES.includes(valueType as ValueType)) throw new Error(`valueType must be one of ${VALUE_TYPES.join(', ')}`);
+  if (promoType === 'BILL_THRESHOLD' && valueType === 'PRICE') throw new Error('A bill threshold takes PERCENT or AMOUNT');
+
+  const num = (v: unknown, field: string) => {
+    if (v == null || v === '') return null;
+    const n = Number(v);
+    if (!Number.isFinite(n) || n < 0) throw new Error(`${field} must be a non-negative number`);
+    return n;
+  };
+  const count = (v: unknown, field: string) => {
+    const n = num(v, field);
+    if (n != null && (!Number.isInteger(n) || n < 1)) throw new Error(`${field} must be a whole number of at least 1`);
+    return n;
+  };
+  const paise = (v: unknown, field: string) => {
+    const n = num(v, field);
+    if (n != null && !Number.isInteger(n)) throw new Error(`${field} must be whole paise`);
+    return n;
+  };
+  const checkValue = (v: number, field: string) => {
+    if (valueType === 'PERCENT' && v > 100) throw new Error(`${field} cannot be more than 100 percent`);
+    if (valueType !== 'PERCENT' && !Number.isInteger(v)) throw new Error(`${field} must be whole paise`);
+  };
+  const date = (v: unknown, field: string) => {
+    if (v == null || v === '') return null;
+    const d = new Date(String(v));
+    if (isNaN(d.getTime())) throw new Error(`${field} is not a date`);
+    return d;
+  };
+  const time = (v: unknown, field: string) => {
+    if (v == null || v === '') return null;
+    if (!TIME.test(String(v))) throw new Error(`${field} must be HH:MM`);
+    return String(v);
+  };
+
+  const tiers = (Array.isArray(b.tiers) ? b.tiers : []).map((t: any, i: number) => {
+    const minQty = num(t?.minQty, `tiers[${i}].minQty`);
+    const value = num(t?.value, `tiers[${i}].value`);
+    if (!minQty || value == null) throw new Error(`tiers[${i}] needs minQty and value`);
+    checkValue(value, `tiers[${i}].value`);
+    return { minQty, value };
+  });
+  const value = num(b.value, 'value') ?? 0;
+  if (promoType !== 'QTY_TIER') checkValue(value, 'value');
+
+  const buyQty = count(b.buyQty, 'buyQty');
+  const getQty = count(b.getQty, 'getQty');
+  if (promoType === 'BUY_X_GET_Y' && (!buyQty || !getQty)) throw new Error('buyQty and getQty required');
+  if (promoType === 'MIX_MATCH' && !buyQty) throw new Error('buyQty (units per group) required');
+  if (promoType === 'QTY_TIER' && !tiers.length) throw new Error('tiers required');
+
+  const days = b.days == null || b.days === '' ? null : String(b.days);
+  if (days && !days.split(',').every((d) => /^[0-6]$/.test(d.trim()))) throw new Error('days must be 0-6 (0 = Sunday), comma separated');
+  const startTime = time(b.startTime, 'startTime');
+  const endTime = time(b.endTime, 'endTime');
+  if (!startTime !== !endTime) throw new Error('startTime and endTime go together');
+
+  const itemIds = (Array.isArray(b.itemIds) ? b.itemIds : []).map(Number).filter(Number.isInteger);
+  return {
+    data: {
+      name,
+      promoType,
+      value,
+      valueType,
+      description: b.description ? String(b.description) : null,
+      buyQty,
+      getQty,
+      minAmount: paise(b.minAmount, 'minAmount'),
+      maxDiscount: paise(b.maxDiscount, 'maxDiscount'),
+      categoryId: b.categoryId == null || b.categoryId === '' ? null : Number(b.categoryId),
+      startDate: date(b.startDate, 'startDate'),
+      endDate: date(b.endDate, 'endDate'),
+      startTime,
+      endTime,
+      days,
+      priority: Math.trunc(Number(b.priority ?? 0)) || 0,
+      stackable: !!b.stackable,
+      active: b.active !== false,
+    },
+    itemIds: [...new Set<number>(itemIds)],
+    tiers,
+  };
+}
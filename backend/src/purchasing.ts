@@ -0,0 +1,268 @@
+import { Prisma } from '@prisma/client';
+import { allocate, lineValue, Paise, roundPaise } from './money';
+import { allocateReceiptNumber } from './numbering';
+import { isValidGstin } from './tax';
+
+/**
+ * Vendors, purchase orders and goods receipts (GRN).
+ *
+ * A purchase order is drafted and edited as DRAFT, then sent to the
+ * vendor as ORDERED.  Deliveries are booked as goods receipts against an
+ * ORDERED PO, one or more per order: each receipt may cover part of a
+ * line, but never more than is still outstanding.  Once every line is
+ * fully received the PO becomes RECEIVED.  A DRAFT or ORDERED PO can be
+ * CANCELLED, which short-closes whatever has not arrived.
+ *
+ * Every received line becomes a Batch and a PURCHASE stock ledger entry
+ * at landed cost: the vendor's unit cost plus the line's share, by
+ * value, of the freight on the delivery.  Costs are before GST, which is
+ * claimed back as input credit.  All amounts are paise.
+ */
+
+export const PO_STATUSES = ['DRAFT', 'ORDERED', 'RECEIVED', 'CANCELLED'] as const;
+export type PoStatus = (typeof PO_STATUSES)[number];
+
+/** Status changes made by hand; RECEIVED is only ever set by goods receipts */
+const TRANSITIONS: Record<PoStatus, PoStatus[]> = {
+  DRAFT: ['ORDERED', 'CANCELLED'],
+  ORDERED: ['CANCELLED'],
+  RECEIVED: [],
+  CANCELLED: [],
+};
+
+/** Whether a PO in status `from` may be moved to `to` by hand */
+export const canMoveTo = (from: string, to: string) => (TRANSITIONS[from as PoStatus] ?? []).includes(to as PoStatus);
+
+const text = (v: unknown) => (v == null || String(v).trim() === '' ? null : String(v).trim());
+
+const date = (v: unknown, field: string) => {
+  if (v == null || v === '') return null;
+  const d = new Date(String(v));
+  if (isNaN(d.getTime())) throw new Error(`${field} is not a date`);
+  return d;
+};
+
+const positive = (v: unknown, field: string) => {
+  const n = Number(v);
+  if (!Number.isFinite(n) || n <= 0) throw new Error(`${field} must be more than 0`);
+  return n;
+};
+
+const paise = (v: unknown, field: string) => {
+  const n = Number(v ?? 0);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`${field} must be whole paise, 0 or more`);
+  return n;
+};
+
+/** Vendor fields from a request body; throws on a missing name or a bad GSTIN */
+export function parseVendor(body: any) {
+  const b = body || {};
+  const name = text(b.name);
+  if (!name) throw new Error('name required');
+  const gstin = text(b.gstin)?.toUpperCase() ?? null;
+  if (gstin && !isValidGstin(gstin)) throw new Error('Invalid GSTIN');
+  return {
+    name,
+    gstin,
+    address: text(b.address),
+    phone: text(b.phone),
+    contactPerson: text(b.contactPerson),
+  };
+}
+
+export interface PurchaseOrderInput {
+  vendorId: number;
+  expectedDate: Date | null;
+  lines: { itemId: number; quantity: number; unitCost: Paise; taxId: number | null }[];
+}
+
+/** PO header and lines from a request body; throws when something is missing or invalid */
+export function parsePurchaseOrder(body: any): PurchaseOrderInput {
+  const b = body || {};
+  const vendorId = Number(b.vendorId);
+  if (!Number.isInteger(vendorId) || vendorId < 1) throw new Error('vendorId required');
+  const lines = (Array.isArray(b.lines) ? b.lines : []).map((l: any, i: number) => {
+    const itemId = Number(l?.itemId);
+    if (!Number.isInteger(itemId) || itemId < 1) throw new Error(`lines[${i}].itemId required`);
+    return {
+      itemId,
+      quantity: positive(l.quantity, `lines[${i}].quantity`),
+      unitCost: paise(l.unitCost, `lines[${i}].unitCost`),
+      taxId: l.taxId == null || l.taxId === '' ? null : Number(l.taxId),
+    };
+  });
+  if (!lines.length) throw new Error('A purchase order needs at least one line');
+  return { vendorId, expectedDate: date(b.expectedDate, 'expectedDate'), lines };
+}
+
+/** Includes for a PO as the API returns it */
+export const PURCHASE_ORDER_INCLUDE = {
+  vendor: true,
+  lines: { include: { item: { select: { id: true, sku: true, name: true, unit: true } } } },
+  receipts: { select: { id: true, receiptNumber: true, receiptDate: true, totalAmount: true } },
+} satisfies Prisma.PurchaseOrderInclude;
+
+/** Open a new DRAFT purchase order with the next PO number */
+export async function createPurchaseOrder(db: Prisma.TransactionClient, input: PurchaseOrderInput, date = new Date()) {
+  const { receiptNumber } = await allocateReceiptNumber(db, 'PO', date);
+  return db.purchaseOrder.create({
+    data: {
+      orderNumber: receiptNumber,
+      vendorId: input.vendorId,
+      orderDate: date,
+      expectedDate: input.expectedDate,
+      status: 'DRAFT',
+      lines: { create: input.lines },
+    },
+    include: PURCHASE_ORDER_INCLUDE,
+  });
+}
+
+/** Replace a DRAFT purchase order's vendor, expected date and lines */
+export async function updatePurchaseOrder(db: Prisma.TransactionClient, id: number, input: PurchaseOrderInput) {
+  const po = await db.purchaseOrder.findUniqueOrThrow({ where: { id } });
+  if (po.status !== 'DRAFT') throw new Error(`Only a DRAFT purchase order can be edited; this one is ${po.status}`);
+  return db.purchaseOrder.update({
+    where: { id },
+    data: {
+      vendorId: input.vendorId,
+      expectedDate: input.expectedDate,
+      lines: { deleteMany: {}, create: input.lines },
+    },
+    include: PURCHASE_ORDER_INCLUDE,
+  });
+}
+
+/** Move a purchase order to ORDERED or CANCELLED */
+export async function setPurchaseOrderStatus(db: Prisma.TransactionClient, id: number, status: string) {
+  const po = await db.purchaseOrder.findUniqueOrThrow({ where: { id } });
+  const to = String(status ?? '').toUpperCase();
+  if (!canMoveTo(po.status, to)) throw new Error(`A ${po.status} purchase order cannot be moved to ${to || 'nothing'}`);
+  return db.purchaseOrder.update({ where: { id }, data: { status: to }, include: PURCHASE_ORDER_INCLUDE });
+}
+
+/**
+ * Landed cost per unit of each received line: the line value plus its
+ * share of `freight` (split by line value, so no paisa is lost), divided
+ * back over the quantity.
+ */
+export function landedCosts(lines: { quantity: number; unitCost: Paise }[], freight: Paise): Paise[] {
+  const values = lines.map((l) => lineValue(l.unitCost, l.quantity));
+  const shares = allocate(freight, values);
+  return lines.map((l, i) => roundPaise((values[i] + shares[i]) / l.quantity));
+}
+
+export interface GoodsReceiptInput {
+  purchaseOrderId: number;
+  vendorInvoiceNo: string | null;
+  freight: Paise;
+  lines: {
+    lineId: number;
+    quantity: number;
+    /** vendor's invoice cost per unit; defaults to the PO line's */
+    unitCost: Paise | null;
+    batchNo: string | null;
+    expiryDate: Date | null;
+    manufactureDate: Date | null;
+  }[];
+}
+
+/** GRN input from a request body; throws when something is missing or invalid */
+export function parseGoodsReceipt(body: any): GoodsReceiptInput {
+  const b = body || {};
+  const purchaseOrderId = Number(b.purchaseOrderId);
+  if (!Number.isInteger(purchaseOrderId) || purchaseOrderId < 1) throw new Error('purchaseOrderId required');
+  const lines = (Array.isArray(b.lines) ? b.lines : []).map((l: any, i: number) => {
+    const lineId = Number(l?.lineId);
+    if (!Number.isInteger(lineId) || lineId < 1) throw new Error(`lines[${i}].lineId required`);
+    return {
+      lineId,
+      quantity: positive(l.quantity, `lines[${i}].quantity`),
+      unitCost: l.unitCost == null || l.unitCost === '' ? null : paise(l.unitCost, `lines[${i}].unitCost`),
+      batchNo: text(l.batchNo),
+      expiryDate: date(l.expiryDate, `lines[${i}].expiryDate`),
+      manufactureDate: date(l.manufactureDate, `lines[${i}].manufactureDate`),
+    };
+  });
+  if (!lines.length) throw new Error('Nothing to receive');
+  return { purchaseOrderId, vendorInvoiceNo: text(b.vendorInvoiceNo), freight: paise(b.freight, 'freight'), lines };
+}
+
+/** Includes for a goods receipt as the API returns it */
+export const GOODS_RECEIPT_INCLUDE = {
+  purchaseOrder: { include: { vendor: true } },
+  batches: { include: { item: { select: { id: true, sku: true, name: true, unit: true } } } },
+} satisfies Prisma.GoodsReceiptInclude;
+
+/**
+ * Book a delivery against an ORDERED purchase order.  Creates the goods
+ * receipt, a Batch and a PURCHASE ledger entry per line at landed cost,
+ * moves the PO lines' received quantities on, updates each item's cost
+ * and marks the PO RECEIVED once nothing is outstanding.  Must run in one
+ * transaction.
+ */
+export async function receiveGoods(db: Prisma.TransactionClient, input: GoodsReceiptInput, date = new Date()) {
+  const po = await db.purchaseOrder.findUnique({ where: { id: input.purchaseOrderId }, include: { lines: true } });
+  if (!po) throw new Error('Purchase order not found');
+  if (po.status !== 'ORDERED') throw new Error(`Goods can only be received against an ORDERED purchase order; this one is ${po.status}`);
+
+  const receiving = new Map<number, number>();
+  const lines = input.lines.map((l) => {
+    const poLine = po.lines.find((p) => p.id === l.lineId);
+    if (!poLine) throw new Error(`Line ${l.lineId} is not on purchase order ${po.orderNumber}`);
+    const total = (receiving.get(poLine.id) ?? 0) + l.quantity;
+    const outstanding = poLine.quantity - poLine.receivedQuantity;
+    if (total > outstanding + 1e-9) {
+      throw new Error(`Line ${l.lineId}: only ${outstanding} left to receive`);
+    }
+    receiving.set(poLine.id, total);
+    return { ...l, poLine, unitCost: l.unitCost ?? poLine.unitCost };
+  });
+
+  const costs = landedCosts(lines, input.freight);
+  const value = lines.reduce((s, l) => s + lineValue(l.unitCost, l.quantity), 0);
+  const { receiptNumber } = await allocateReceiptNumber(db, 'GRN', date);
+  const grn = await db.goodsReceipt.create({
+    data: {
+      purchaseOrderId: po.id,
+      receiptNumber,
+      receiptDate: date,
+      vendorInvoiceNo: input.vendorInvoiceNo,
+      freight: input.freight,
+      totalAmount: value + input.freight,
+    },
+  });
+
+  for (const [i, l] of lines.entries()) {
+    const batch = await db.batch.create({
+      data: {
+        itemId: l.poLine.itemId,
+        goodsReceiptId: grn.id,
+        purchaseOrderLineId: l.poLine.id,
+        batchNo: l.batchNo,
+        expiryDate: l.expiryDate,
+        manufactureDate: l.manufactureDate,
+        quantity: l.quantity,
+        cost: costs[i],
+      },
+    });
+    await db.stockLedger.create({
+      data: {
+        itemId: l.poLine.itemId,
+        batchId: batch.id,
+        entryDate: date,
+        type: 'PURCHASE',
+        reference: receiptNumber,
+        quantity: l.quantity,
+        unitCost: costs[i],
+      },
+    });
+    await db.purchaseOrderLine.update({ where: { id: l.poLine.id }, data: { receivedQuantity: { increment: l.quantity } } });
+    await db.item.update({ where: { id: l.poLine.itemId }, data: { cost: costs[i] } });
+  }
+
+  const done = po.lines.every((p) => p.receivedQuantity + (receiving.get(p.id) ?? 0) >= p.quantity - 1e-9);
+  if (done) await db.purchaseOrder.update({ where: { id: po.id }, data: { status: 'RECEIVED' } });
+
+  return db.goodsReceipt.findUniqueOrThrow({ where: { id: grn.id }, include: GOODS_RECEIPT_INCLUDE });
+}
@@ -0,0 +1,157 @@
+import { Prisma } from '@prisma/client';
+import { fefoOrder, isExpired } from './batches';
+import { stockOnHand } from './inventory';
+import { lineValue, Paise } from './money';
+import { createPurchaseOrder } from './purchasing';
+import { setting } from './settings';
+import { localDate } from './time';
+
+/**
+ * Replenishment: what to reorder and what is about to expire.
+ *
+ * An item needs reordering once its stock on hand (from the StockLedger)
+ * is at or below `Item.reorderLevel`.  Sales velocity is the net quantity
+ * sold per day (sales less returns) over the last `days` days; the
+ * suggested order brings stock back up to the reorder level plus
+ * `coverDays` of sales, less what is still to arrive on open (DRAFT or
+ * ORDERED) purchase orders.  Suggestions become DRAFT purchase orders,
+ * one per vendor, going to whoever supplied each item last.
+ */
+
+export interface ReorderOptions {
+  /** sales history window for velocity */
+  days: number;
+  /** days of sales the order should cover above the reorder level */
+  coverDays: number;
+}
+
+export const DEFAULT_REORDER_OPTIONS: ReorderOptions = { days: 30, coverDays: 14 };
+
+/** Quantity to order: up to the reorder level plus `coverDays` of sales, less what is on order, in whole units */
+export function suggestedQuantity(onHand: number, reorderLevel: number, perDay: number, coverDays: number, onOrder = 0): number {
+  return Math.max(0, Math.ceil(reorderLevel + perDay * coverDays - onHand - onOrder - 1e-9));
+}
+
+/** Whole days from `now` in `timeZone` to an expiry date (negative once expired) */
+export function daysToExpiry(expiryDate: Date, now: Date, timeZone: string): number {
+  const today = Date.parse(localDate(now, timeZone));
+  const expiry = Date.parse(expiryDate.toISOString().slice(0, 10));
+  return Math.round((expiry - today) / 86_400_000);
+}
+
+/** Reorder options from query parameters, falling back to the defaults */
+export function parseReorderOptions(q: Record<string, unknown>): ReorderOptions {
+  const days = Number(q.days ?? DEFAULT_REORDER_OPTIONS.days);
+  const coverDays = Number(q.coverDays ?? DEFAULT_REORDER_OPTIONS.coverDays);
+  if (!Number.isInteger(days) || days < 1) throw new Error('days must be a whole number of at least 1');
+  if (!Number.isFinite(coverDays) || coverDays < 0) throw new Error('coverDays must be 0 or more');
+  return { days, coverDays };
+}
+
+/**
+ * Items at or below their reorder level with their sales velocity, the
+ * quantity still to arrive on open purchase orders, the suggested
+ * quantity and the vendor and cost of their last purchase order.
+ */
+export async function reorderReport(db: Prisma.TransactionClient, options = DEFAULT_REORDER_OPTIONS, now = new Date()) {
+  const items = await db.item.findMany({ where: { reorderLevel: { not: null } }, select: { id: true, reorderLevel: true } });
+  const levels = new Map(items.map((i) => [i.id, i.reorderLevel ?? 0]));
+  const stock = (await stockOnHand(db, [...levels.keys()])).filter((s) => s.onHand <= (levels.get(s.id) ?? 0));
+  if (!stock.length) return [];
+  const ids = stock.map((s) => s.id);
+
+  const since = new Date(now.getTime() - options.days * 86_400_000);
+  const sold = await db.receiptLine.groupBy({
+    by: ['itemId'],
+    where: { itemId: { in: ids }, receipt: { date: { gte: since }, status: { in: ['COMPLETED', 'RETURNED'] } } },
+    _sum: { quantity: true },
+  });
+  const open = await db.purchaseOrderLine.findMany({
+    where: { itemId: { in: ids }, purchaseOrder: { status: { in: ['DRAFT', 'ORDERED'] } } },
+    select: { itemId: true, quantity: true, receivedQuantity: true },
+  });
+  const lastLines = await db.purchaseOrderLine.findMany({
+    where: { itemId: { in: ids }, purchaseOrder: { status: { not: 'CANCELLED' } } },
+    include: { purchaseOrder: { include: { vendor: { select: { id: true, name: true } } } } },
+    orderBy: { id: 'desc' },
+  });
+
+  return stock.map((s) => {
+    const reorderLevel = levels.get(s.id) ?? 0;
+    const perDay = Math.max(0, (sold.find((x) => x.itemId === s.id)?._sum.quantity ?? 0) / options.days);
+    const last = lastLines.find((l) => l.itemId === s.id);
+    const onOrder = open.filter((l) => l.itemId === s.id).reduce((q, l) => q + Math.max(0, l.quantity - l.receivedQuantity), 0);
+    return {
+      itemId: s.id,
+      sku: s.sku,
+      name: s.name,
+      unit: s.unit,
+      onHand: s.onHand,
+      reorderLevel,
+      perDay: Math.round(perDay * 100) / 100,
+      daysOfCover: perDay > 0 ? Math.max(0, Math.floor(s.onHand / perDay)) : null,
+      onOrder,
+      suggestedQty: suggestedQuantity(s.onHand, reorderLevel, perDay, options.coverDays, onOrder),
+      vendor: last?.purchaseOrder.vendor ?? null,
+      lastCost: (last?.unitCost ?? s.avgCost) as Paise,
+      taxId: last?.taxId ?? null,
+    };
+  });
+}
+
+export type ReorderRow = Awaited<ReturnType<typeof reorderReport>>[number];
+
+/** Batches with stock left that expire within `days` days (or already have), soonest first */
+export async function nearExpiry(db: Prisma.TransactionClient, days: number, now = new Date()) {
+  const timeZone = await setting(db, 'timezone');
+  const until = new Date(Date.parse(localDate(now, timeZone)) + days * 86_400_000);
+  const batches = await db.batch.findMany({
+    where: { quantity: { gt: 0 }, expiryDate: { not: null, lte: until } },
+    include: { item: { select: { id: true, sku: true, name: true, unit: true } } },
+  });
+  return fefoOrder(batches).map((b) => ({
+    batchId: b.id,
+    batchNo: b.batchNo,
+    itemId: b.itemId,
+    sku: b.item.sku,
+    name: b.item.name,
+    unit: b.item.unit,
+    quantity: b.quantity,
+    expiryDate: b.expiryDate,
+    daysLeft: daysToExpiry(b.expiryDate!, now, timeZone),
+    expired: isExpired(b.expiryDate, now, timeZone),
+    value: lineValue(b.cost, b.quantity),
+  }));
+}
+
+/**
+ * Turn reorder rows into DRAFT purchase orders, one per last vendor.
+ * Rows with nothing left to order (stock and open orders cover them) are
+ * skipped, so asking again does not draft the same order twice; rows
+ * without a vendor are left out and returned as `unassigned`.  Must run
+ * in one transaction.
+ */
+export async function draftPurchaseOrders(db: Prisma.TransactionClient, rows: ReorderRow[], now = new Date()) {
+  const byVendor = new Map<number, ReorderRow[]>();
+  const unassigned: ReorderRow[] = [];
+  for (const r of rows) {
+    if (r.suggestedQty <= 0) continue;
+    if (!r.vendor) unassigned.push(r);
+    else byVendor.set(r.vendor.id, [...(byVendor.get(r.vendor.id) ?? []), r]);
+  }
+  const orders = [];
+  for (const [vendorId, lines] of byVendor) {
+    orders.push(
+      await createPurchaseOrder(
+        db,
+        {
+          vendorId,
+          expectedDate: null,
+          lines: lines.map((l) => ({ itemId: l.itemId, quantity: l.suggestedQty, unitCost: l.lastCost, taxId: l.taxId })),
+        },
+        now,
+      ),
+    );
+  }
+  return { orders, unassigned };
+}
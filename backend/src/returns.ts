@@ -0,0 +1,332 @@
+import { Prisma } from '@prisma/client';
+import { Cart } from './carts';
+import { loyaltyConfig, postPoints } from './customers';
+import { invoiceTotals, Paise, roundPaise } from './money';
+import { allocateReceiptNumber, terminalId } from './numbering';
+import { recordSale, resolvePaymentMethod, STORE_CREDIT_TENDER, TenderInput } from './sales';
+import { roundOffMode, storeStateCode } from './settings';
+import { shiftForReceipt } from './shifts';
+import { summariseTax } from './tax';
+
+/** Reason codes accepted on a return */
+export const RETURN_REASONS = ['DAMAGED', 'EXPIRED', 'WRONG_ITEM', 'NOT_NEEDED', 'QUALITY', 'OTHER'];
+
+/** Returns for these reasons cannot be sold again: the stock comes back and is written off at once */
+const WRITE_OFF_REASONS = ['DAMAGED', 'EXPIRED'];
+
+/** Where the money goes back: the original tenders or a store credit note */
+export type RefundMode = 'ORIGINAL' | 'STORE_CREDIT';
+
+export interface ReturnInput {
+  receiptNumber: string;
+  lines: { lineId: number; quantity: number }[];
+  reason: string;
+  refundMode?: RefundMode;
+}
+
+/** Money already handed back against a sold line, summed over its returns */
+const returnedAmounts = (returns: { discount: number; taxAmount: number; cessAmount: number; lineTotal: number }[]) => ({
+  discount: returns.reduce((s, r) => s + Math.abs(r.discount), 0),
+  taxAmount: returns.reduce((s, r) => s + Math.abs(r.taxAmount), 0),
+  cessAmount: returns.reduce((s, r) => s + Math.abs(r.cessAmount), 0),
+  lineTotal: returns.reduce((s, r) => s + Math.abs(r.lineTotal), 0),
+});
+
+/** Stock moved for a line: the batch (null for none), the quantity and its unit cost */
+export interface StockMove {
+  batchId: number | null;
+  quantity: number;
+  unitCost: Paise;
+}
+
+const roundQty = (q: number) => Math.round(q * 1000) / 1000 || 0;
+
+/**
+ * Split a returned quantity back over the batches the sale took it from
+ * (`sold`, in the order it took them), less what earlier returns already
+ * put back into each (`returned`), at the cost each went out at.  What
+ * the sale's entries cannot account for comes back unbatched at
+ * `fallbackCost`.
+ */
+export function splitRestock(sold: StockMove[], returned: StockMove[], quantity: number, fallbackCost: Paise): StockMove[] {
+  const back = new Map<number | null, number>();
+  for (const r of returned) back.set(r.batchId, (back.get(r.batchId) ?? 0) + Math.abs(r.quantity));
+  const moves: StockMove[] = [];
+  let left = quantity;
+  for (const s of sold) {
+    if (left <= 0) break;
+    const already = back.get(s.batchId) ?? 0;
+    const open = roundQty(Math.abs(s.quantity) - already);
+    back.set(s.batchId, Math.max(0, already - Math.abs(s.quantity)));
+    if (open <= 0) continue;
+    const take = roundQty(Math.min(left, open));
+    moves.push({ batchId: s.batchId, quantity: take, unitCost: s.unitCost });
+    left = roundQty(left - take);
+  }
+  if (left > 0) moves.push({ batchId: null, quantity: left, unitCost: fallbackCost });
+  return moves;
+}
+
+/**
+ * Load a completed sale with, per line, how much has already been
+ * returned and how much can still be returned.  Returns null when no
+ * sale with that number exists.
+ */
+export async function loadReturnable(db: Prisma.TransactionClient, receiptNumber: string) {
+  const receipt = await db.receipt.findFirst({
+    where: { receiptNumber: String(receiptNumber), status: 'COMPLETED' },
+    include: {
+      lines: { include: { item: true, returnLines: true } },
+      payments: { include: { paymentMethod: true, refundPayments: true } },
+    },
+  });
+  if (!receipt) return null;
+
+  const lines = receipt.lines.map((l) => {
+    const returnedQuantity = l.returnLines.reduce((s, r) => s + Math.abs(r.quantity), 0);
+    return {
+      lineId: l.id,
+      itemId: l.itemId,
+      batchId: l.batchId,
+      name: l.item?.name ?? `Item #${l.itemId}`,
+      quantity: l.quantity,
+      returnedQuantity,
+      returnableQuantity: Math.max(0, l.quantity - returnedQuantity),
+      returned: returnedAmounts(l.returnLines),
+      unitPrice: l.unitPrice,
+      discount: l.discount,
+      taxAmount: l.taxAmount,
+      lineTotal: l.lineTotal,
+      taxRateId: l.taxRateId,
+      hsnCode: l.hsnCode,
+      gstRate: l.gstRate,
+      cessRate: l.cessRate,
+      cessAmount: l.cessAmount,
+    };
+  });
+  return { receipt, lines };
+}
+
+/**
+ * Record a return against an original sale.
+ *
+ * The return receipt (status RETURNED) mirrors the sold lines with
+ * negative quantities and amounts so that it nets off naturally in
+ * reports.  Stock comes back in through RETURN ledger entries, and goes
+ * straight out again as an ADJUSTMENT when it was damaged or expired.  The
+ * refund is paid out as negative Payment rows: back to the original
+ * tenders (non-cash first, each linked through `parentPaymentId`, cash
+ * takes any remainder) or as store credit: a CreditNote under the return's
+ * number that later sales spend as a STORE_CREDIT tender.  `keepAsCredit`
+ * is the part of the refund an exchange applies to the new sale instead;
+ * it goes on the same note.  The return is numbered and paid out on
+ * `terminal`, the till it is taken at.
+ */
+export async function recordReturn(
+  db: Prisma.TransactionClient,
+  input: ReturnInput,
+  keepAsCredit = 0,
+  terminal = terminalId(),
+) {
+  const reason = String(input.reason || '').toUpperCase();
+  if (!RETURN_REASONS.includes(reason)) {
+    throw new Error(`Unknown reason code; use one of ${RETURN_REASONS.join(', ')}`);
+  }
+  const refundMode: RefundMode = input.refundMode === 'STORE_CREDIT' ? 'STORE_CREDIT' : 'ORIGINAL';
+
+  const found = await loadReturnable(db, input.receiptNumber);
+  if (!found) throw new Error('Receipt not found');
+  const { receipt: original, lines: sold } = found;
+
+  const picks = (input.lines || []).filter((p) => Number(p.quantity) > 0);
+  if (!picks.length) throw new Error('Nothing selected to return');
+
+  const returnLines = picks.map((p) => {
+    const s = sold.find((l) => l.lineId === Number(p.lineId));
+    if (!s) throw new Error(`Line ${p.lineId} is not on receipt ${original.receiptNumber}`);
+    const qty = Number(p.quantity);
+    if (qty > s.returnableQuantity) {
+      throw new Error(`Only ${s.returnableQuantity} of ${s.name} can be returned`);
+    }
+    // the last units returned take whatever is left of each amount, so a
+    // line returned in parts refunds exactly what was charged for it
+    const last = qty === s.returnableQuantity;
+    const part = (k: 'discount' | 'taxAmount' | 'cessAmount' | 'lineTotal') =>
+      -(last ? s[k] - s.returned[k] : roundPaise((s[k] * qty) / s.quantity));
+    return {
+      originalLineId: s.lineId,
+      itemId: s.itemId,
+      batchId: s.batchId,
+      taxRateId: s.taxRateId,
+      hsnCode: s.hsnCode,
+      gstRate: s.gstRate,
+      cessRate: s.cessRate,
+      quantity: -qty,
+      unitPrice: s.unitPrice,
+      discount: part('discount'),
+      taxAmount: part('taxAmount'),
+      cessAmount: part('cessAmount'),
+      lineTotal: part('lineTotal'),
+    };
+  });
+
+  // refund is rounded off the same way the sale was
+  const { totalBeforeDiscount, totalDiscount, totalTax, roundOff, totalAmount } = invoiceTotals(
+    returnLines,
+    await roundOffMode(db),
+  );
+  // tax heads are reversed under the original bill's place of supply
+  const taxes = summariseTax(returnLines, await storeStateCode(db), original.placeOfSupply);
+
+  // credit notes run in their own series
+  const date = new Date();
+  const { receiptNumber } = await allocateReceiptNumber(db, 'RETURN', date, terminal);
+  const shiftId = await shiftForReceipt(db, terminal);
+  const refundDue = -totalAmount;
+  const credit = Math.min(keepAsCredit, refundDue);
+
+  // refund payments (negative amounts = money out of the drawer)
+  const refunds: { amount: number; methodCode: string; parentPaymentId?: number; reference?: string }[] = [];
+  let remaining = refundDue - credit;
+  if (credit > 0) refunds.push({ amount: -credit, methodCode: STORE_CREDIT_TENDER, reference: 'EXCHANGE' });
+  if (remaining > 0 && refundMode === 'STORE_CREDIT') {
+    refunds.push({ amount: -remaining, methodCode: STORE_CREDIT_TENDER, reference: receiptNumber });
+    remaining = 0;
+  }
+  if (remaining > 0) {
+    const tenders = [...original.payments].sort(
+      (a, b) => Number(a.paymentMethod?.code === 'CASH') - Number(b.paymentMethod?.code === 'CASH'),
+    );
+    for (const p of tenders) {
+      if (remaining <= 0) break;
+      const isCash = p.paymentMethod?.code === 'CASH';
+      const alreadyRefunded = p.refundPayments.reduce((s, r) => s + Math.abs(r.amount), 0);
+      const open = isCash ? remaining : Math.min(remaining, p.amount - alreadyRefunded);
+      if (open <= 0) continue;
+      // store credit spent on the sale goes back on a new note under this return's number
+      const reference = p.paymentMethod.code === STORE_CREDIT_TENDER ? receiptNumber : p.reference ?? undefined;
+      refunds.push({ amount: -open, methodCode: p.paymentMethod.code, parentPaymentId: p.id, reference });
+      remaining -= open;
+    }
+    if (remaining > 0) refunds.push({ amount: -remaining, methodCode: 'CASH' });
+  }
+
+  const createPayments = [];
+  for (const r of refunds) {
+    const pm = await resolvePaymentMethod(db, r.methodCode);
+    createPayments.push({
+      amount: r.amount,
+      reference: r.reference ?? null,
+      status: 'REFUNDED',
+      paymentMethod: { connect: { id: pm.id } },
+      ...(r.parentPaymentId ? { parentPayment: { connect: { id: r.parentPaymentId } } } : {}),
+    });
+  }
+
+  const ret = await db.receipt.create({
+    data: {
+      receiptNumber,
+      terminal,
+      shiftId,
+      date,
+      customerId: original.customerId,
+      originalReceiptId: original.id,
+      returnReason: reason,
+      totalBeforeDiscount,
+      totalDiscount,
+      totalTax,
+      totalAmount,
+      roundOff,
+      cgst: taxes.cgst,
+      sgst: taxes.sgst,
+      igst: taxes.igst,
+      cess: taxes.cess,
+      placeOfSupply: taxes.placeOfSupply,
+      customerGstin: original.customerGstin,
+      status: 'RETURNED',
+      lines: { create: returnLines },
+      taxes: { create: taxes.breakup },
+      payments: { create: createPayments },
+    },
+    include: {
+      lines: true,
+      taxes: true,
+      points: true,
+      payments: { include: { paymentMethod: true } },
+      creditNote: true,
+    },
+  });
+  // store credit is a note under the return's number, spent later (or by the exchange) as a tender
+  const storeCredit = -refunds.filter((r) => r.methodCode === STORE_CREDIT_TENDER).reduce((s, r) => s + r.amount, 0);
+  if (storeCredit > 0) {
+    ret.creditNote = await db.creditNote.create({
+      data: { number: ret.receiptNumber, receiptId: ret.id, amount: storeCredit, balance: storeCredit },
+    });
+  }
+  // redeemed points go back, points earned on the refunded part are taken back
+  ret.points = await postPoints(db, ret, await loyaltyConfig(db));
+
+  // stock ledger (back in), into the batches the sale took each line from and at their cost; returns
+  // of this sale (this one included) already booked against an item come off what each batch gave.
+  // Damaged or expired goods go straight back out as an ADJUSTMENT and never reach a batch
+  const writeOff = WRITE_OFF_REASONS.includes(reason);
+  const returns = await db.receipt.findMany({ where: { originalReceiptId: original.id }, select: { receiptNumber: true } });
+  for (const l of returnLines) {
+    const [sold, returned, item] = await Promise.all([
+      db.stockLedger.findMany({
+        where: { type: 'SALE', reference: original.receiptNumber, itemId: l.itemId },
+        orderBy: { id: 'asc' },
+      }),
+      db.stockLedger.findMany({
+        where: { type: 'RETURN', reference: { in: returns.map((r) => r.receiptNumber) }, itemId: l.itemId },
+      }),
+      db.item.findUnique({ where: { id: l.itemId }, select: { cost: true } }),
+    ]);
+    for (const m of splitRestock(sold, returned, Math.abs(l.quantity), item?.cost ?? 0)) {
+      if (m.batchId && !writeOff) {
+        await db.batch.update({ where: { id: m.batchId }, data: { quantity: { increment: m.quantity } } });
+      }
+      await db.stockLedger.create({
+        data: { itemId: l.itemId, ...m, type: 'RETURN', reference: ret.receiptNumber },
+      });
+      if (writeOff) {
+        await db.stockLedger.create({
+          data: { itemId: l.itemId, ...m, quantity: -m.quantity, type: 'ADJUSTMENT', reference: `${reason}: ${ret.receiptNumber}` },
+        });
+      }
+    }
+  }
+
+  return ret;
+}
+
+/**
+ * Exchange: net a return against a new sale.  The return value is
+ * applied to the new bill as a STORE_CREDIT tender on the return's credit
+ * note (up to the bill total); `payments` cover any balance and any
+ * surplus is refunded per `refundMode`.  Run inside a transaction so both receipts land together.
+ */
+export async function recordExchange(
+  db: Prisma.TransactionClient,
+  input: ReturnInput,
+  cart: Cart,
+  payments: TenderInput[],
+  customerId: number | null = null,
+  terminal = terminalId(),
+) {
+  const saleTotal = invoiceTotals(cart.lines, await roundOffMode(db)).totalAmount;
+  const ret = await recordReturn(db, input, saleTotal, terminal);
+  const creditPayment = ret.payments.find((p) => p.reference === 'EXCHANGE');
+  const credit = creditPayment ? Math.abs(creditPayment.amount) : 0;
+
+  const tenders: TenderInput[] = credit > 0 ? [{ method: STORE_CREDIT_TENDER, amount: credit, reference: ret.receiptNumber }] : [];
+  const sale = await recordSale(db, cart, [...tenders, ...payments], customerId ?? ret.customerId, null, terminal);
+  if (creditPayment) {
+    await db.payment.update({ where: { id: creditPayment.id }, data: { reference: sale.receiptNumber } });
+    creditPayment.reference = sale.receiptNumber;
+  }
+  // what the sale left on the note
+  if (ret.creditNote) ret.creditNote = await db.creditNote.findUniqueOrThrow({ where: { id: ret.creditNote.id } });
+  await db.cart.delete({ where: { id: cart.id } });
+  return { returnReceipt: ret, saleReceipt: sale };
+}
@@ -0,0 +1,313 @@
+import { Prisma } from '@prisma/client';
+import { consumeBatches } from './batches';
+import { Cart } from './carts';
+import { LOYALTY_TENDER, loyaltyConfig, postPoints } from './customers';
+import { checkStock } from './inventory';
+import { formatINR, invoiceTotals, Paise } from './money';
+import { allocateReceiptNumber, terminalId } from './numbering';
+import { roundOffMode, storeStateCode } from './settings';
+import { shiftForReceipt } from './shifts';
+import { summariseTax } from './tax';
+
+/** Tender as posted by the Cashier payment drawer */
+export interface TenderInput {
+  method?: string;
+  amount: Paise | string;
+  reference?: string | null;
+}
+
+export type TenderErrorCode =
+  | 'UNKNOWN_TENDER'
+  | 'INVALID_AMOUNT'
+  | 'EXCEEDS_BALANCE'
+  | 'UNDERPAID'
+  | 'NO_CUSTOMER'
+  | 'INSUFFICIENT_POINTS'
+  | 'UNKNOWN_CREDIT_NOTE'
+  | 'INSUFFICIENT_CREDIT';
+
+/** Payment method code of a store credit note; the tender's reference is the note number */
+export const STORE_CREDIT_TENDER = 'STORE_CREDIT';
+
+/**
+ * A tender problem the payment drawer can show inline: `code` says what
+ * went wrong, `tenderIndex` which tender, and `due`/`paid` the amounts.
+ */
+export class TenderError extends Error {
+  constructor(
+    public code: TenderErrorCode,
+    message: string,
+    public details: { tenderIndex?: number; due?: number; paid?: number; balance?: number } = {},
+  ) {
+    super(message);
+    this.name = 'TenderError';
+  }
+}
+
+/**
+ * Check tenders (paise) against the bill total.  Tenders must cover the
+ * total; card, UPI and other non-cash tenders may not go past the balance
+ * left by the non-cash tenders before them, so only cash can overpay and
+ * the difference is change.  Returns the amount paid and the change due.
+ */
+export function checkTenders(total: Paise, tenders: { code: string; amount: Paise }[]) {
+  const due = total;
+  let nonCash = 0;
+  let paid = 0;
+  tenders.forEach((t, i) => {
+    if (!Number.isInteger(t.amount) || t.amount <= 0) {
+      throw new TenderError('INVALID_AMOUNT', `${t.code} amount must be a positive number of paise`, { tenderIndex: i, due });
+    }
+    if (t.code !== 'CASH') {
+      const balance = due - nonCash;
+      if (t.amount > balance) {
+        throw new TenderError('EXCEEDS_BALANCE', `${t.code} amount ${formatINR(t.amount)} is more than the balance ${formatINR(balance)}`, {
+          tenderIndex: i,
+          due,
+          balance,
+        });
+      }
+      nonCash += t.amount;
+    }
+    paid += t.amount;
+  });
+  if (paid < due) {
+    throw new TenderError('UNDERPAID', `Payments ${formatINR(paid)} do not cover the bill ${formatINR(due)}`, {
+      due,
+      paid,
+      balance: due - paid,
+    });
+  }
+  return { paid, change: paid - due };
+}
+
+/**
+ * Resolve a tender's payment method by code or name.  Unknown tenders
+ * are rejected; payment methods are set up through /api/payment-methods.
+ */
+export async function resolvePaymentMethod(db: Prisma.TransactionClient, method?: string) {
+  const methodName = String(method || '').toUpperCase() || 'CASH';
+  const pm = await db.paymentMethod.findFirst({
+    where: { OR: [{ code: methodName }, { name: String(method || 'CASH') }] },
+  });
+  if (!pm) throw new TenderError('UNKNOWN_TENDER', `Unknown tender code "${methodName}"`);
+  return pm;
+}
+
+/**
+ * Spend the STORE_CREDIT tenders on their credit notes: each names an
+ * issued note by number and may not take more than is left on it.  The
+ * balance check and the decrement are one statement, so two tills cannot
+ * spend the same credit.  Run inside the sale's transaction.
+ */
+export async function spendStoreCredit(
+  db: Prisma.TransactionClient,
+  tenders: { code: string; amount: Paise; reference?: string | null }[],
+) {
+  const spend = new Map<string, { amount: Paise; tenderIndex: number }>();
+  tenders.forEach((t, i) => {
+    if (t.code !== STORE_CREDIT_TENDER) return;
+    const number = String(t.reference ?? '').trim();
+    const s = spend.get(number);
+    spend.set(number, { amount: (s?.amount ?? 0) + t.amount, tenderIndex: s?.tenderIndex ?? i });
+  });
+  for (const [number, { amount, tenderIndex }] of spend) {
+    const note = number ? await db.creditNote.findUnique({ where: { number } }) : null;
+    if (!note) {
+      throw new TenderError('UNKNOWN_CREDIT_NOTE', number ? `No credit note ${number}` : 'Give the credit note number', { tenderIndex });
+    }
+    const spent = await db.creditNote.updateMany({
+      where: { id: note.id, balance: { gte: amount } },
+      data: { balance: { decrement: amount } },
+    });
+    if (!spent.count) {
+      throw new TenderError('INSUFFICIENT_CREDIT', `Only ${formatINR(note.balance)} left on credit note ${number}`, {
+        tenderIndex,
+        balance: note.balance,
+      });
+    }
+  }
+}
+
+/** What a completed receipt is returned with */
+export const RECEIPT_INCLUDE = {
+  lines: true,
+  taxes: true,
+  promotions: true,
+  points: true,
+  payments: { include: { paymentMethod: true } },
+} satisfies Prisma.ReceiptInclude;
+
+/** The receipt an earlier request with this idempotency key produced */
+export function findByIdempotencyKey(db: Prisma.TransactionClient, idempotencyKey: string) {
+  return db.receipt.findUnique({ where: { idempotencyKey }, include: RECEIPT_INCLUDE });
+}
+
+/**
+ * Turn a cart into a completed Receipt with its payments and post the
+ * SALE stock movements (first-expiry-first-out across batches, at batch
+ * cost), the customer's loyalty points and any store credit spent.
+ * Throws a StockError when a line is short and negative stock is not
+ * allowed, a TenderError when a credit note is unknown or short, and a
+ * ShiftError when no shift is open on `terminal`, the till it is rung up
+ * on.  `db` must be a transaction client: the receipt number is taken
+ * from the terminal's counter in the same transaction, and exchanges also
+ * write their return in it.
+ */
+export async function recordSale(
+  db: Prisma.TransactionClient,
+  cart: Cart,
+  payments: TenderInput[],
+  customerId: number | null = null,
+  idempotencyKey: string | null = null,
+  terminal = terminalId(),
+) {
+  // the customer attached to the cart unless the caller names one
+  customerId = customerId ?? cart.customerId;
+
+  // stock may have sold out on another till since the items were scanned
+  await checkStock(db, cart.lines);
+
+  // totals in paise, with the invoice round off when configured
+  const { totalBeforeDiscount, totalDiscount, totalTax, roundOff, totalAmount } = invoiceTotals(
+    cart.lines,
+    await roundOffMode(db),
+  );
+
+  // GST split per line: CGST+SGST intra-state, IGST inter-state, cess on top
+  const taxes = summariseTax(cart.lines, await storeStateCode(db), cart.placeOfSupply);
+  const { cgst, sgst, igst, cess } = taxes;
+
+  // next number in this terminal's series, allocated inside the caller's transaction
+  const date = new Date();
+  const { receiptNumber } = await allocateReceiptNumber(db, 'SALE', date, terminal);
+  // the takings go in the drawer of the shift open on that terminal
+  const shiftId = await shiftForReceipt(db, terminal);
+
+  // known tenders only, covering the bill; only cash may overpay
+  const methods: Awaited<ReturnType<typeof resolvePaymentMethod>>[] = [];
+  for (const [i, p] of payments.entries()) {
+    try {
+      methods.push(await resolvePaymentMethod(db, p.method));
+    } catch (e) {
+      if (e instanceof TenderError) e.details.tenderIndex = i;
+      throw e;
+    }
+  }
+  // amounts may be posted as strings; checkTenders refuses anything that is not whole paise
+  const tenders = payments.map((p, i) => ({ code: methods[i].code, amount: Number(p.amount), reference: p.reference }));
+  const { change } = checkTenders(totalAmount, tenders);
+
+  // loyalty points as a tender: the customer's, in whole points, no more than they hold
+  const loyalty = await loyaltyConfig(db);
+  const pointsIndex = methods.findIndex((m) => m.code === LOYALTY_TENDER);
+  if (pointsIndex >= 0) {
+    const redeemed = tenders.reduce((s, t) => s + (t.code === LOYALTY_TENDER ? t.amount : 0), 0);
+    if (!customerId) {
+      throw new TenderError('NO_CUSTOMER', 'Attach a customer to pay with loyalty points', { tenderIndex: pointsIndex });
+    }
+    if (redeemed % loyalty.pointValue) {
+      throw new TenderError('INVALID_AMOUNT', `Points are redeemed in steps of ${formatINR(loyalty.pointValue)}`, {
+        tenderIndex: pointsIndex,
+      });
+    }
+    const customer = await db.customer.findUnique({ where: { id: customerId } });
+    const available = customer?.loyaltyPoints ?? 0;
+    if (redeemed / loyalty.pointValue > available) {
+      throw new TenderError('INSUFFICIENT_POINTS', `Only ${available} points (${formatINR(available * loyalty.pointValue)}) available`, {
+        tenderIndex: pointsIndex,
+        balance: available * loyalty.pointValue,
+      });
+    }
+  }
+
+  // store credit: issued notes with enough left on them, spent in this transaction
+  await spendStoreCredit(db, tenders);
+
+  // stock out of the batches that expire first, at their cost; what no batch covers goes at the item's cost
+  const items = await db.item.findMany({ where: { id: { in: cart.lines.map((l) => l.itemId) } }, select: { id: true, cost: true } });
+  const picks: Awaited<ReturnType<typeof consumeBatches>>[] = [];
+  for (const l of cart.lines) {
+    picks.push(await consumeBatches(db, l.itemId, Math.abs(l.quantity), date, l.expiryOverrideBy != null));
+  }
+
+  const createPayments = [];
+  for (const [i, t] of tenders.entries()) {
+    const pm = methods[i];
+    createPayments.push({
+      amount: t.amount,
+      reference: t.reference ? String(t.reference).trim() : null,
+      status: 'SUCCESS',
+      paymentMethod: { connect: { id: pm.id } }, // relation name: paymentMethod
+    });
+  }
+
+  const receipt = await db.receipt.create({
+    data: {
+      receiptNumber,
+      terminal,
+      shiftId,
+      idempotencyKey,
+      date,
+      customerId: customerId ?? null,
+      totalBeforeDiscount,
+      totalDiscount,
+      totalTax,
+      totalAmount,
+      roundOff,
+      changeDue: change,
+      cgst,
+      sgst,
+      igst,
+      cess,
+      status: 'COMPLETED',
+      holdRef: cart.holdRef,
+      placeOfSupply: taxes.placeOfSupply,
+      customerGstin: cart.customerGstin,
+      lines: {
+        create: cart.lines.map((l, i) => ({
+          itemId: l.itemId,
+          batchId: picks[i].allocations[0]?.batchId ?? null,
+          quantity: l.quantity,
+          unitPrice: l.unitPrice,
+          discount: l.discount,
+          taxAmount: l.taxAmount,
+          lineTotal: l.lineTotal,
+          taxRateId: l.taxRateId ?? null,
+          hsnCode: l.hsnCode ?? null,
+          gstRate: l.gstRate,
+          cessRate: l.cessRate,
+          cessAmount: l.cessAmount,
+        })),
+      },
+      taxes: { create: taxes.breakup },
+      promotions: { create: cart.promotions },
+      payments: { create: createPayments },
+    },
+    include: RECEIPT_INCLUDE,
+  });
+  receipt.points = await postPoints(db, receipt, loyalty);
+
+  // stock ledger (out): one entry per batch taken from
+  for (const [i, l] of cart.lines.entries()) {
+    const { allocations, unallocated } = picks[i];
+    const entries = allocations.map((a) => ({ batchId: a.batchId as number | null, quantity: a.quantity, unitCost: a.cost }));
+    if (unallocated > 0) {
+      entries.push({ batchId: null, quantity: unallocated, unitCost: items.find((it) => it.id === l.itemId)?.cost ?? 0 });
+    }
+    for (const e of entries) {
+      await db.stockLedger.create({
+        data: {
+          itemId: l.itemId,
+          batchId: e.batchId,
+          quantity: -e.quantity,
+          unitCost: e.unitCost,
+          type: 'SALE',
+          reference: receipt.receiptNumber,
+        },
+      });
+    }
+  }
+
+  return receipt;
+}
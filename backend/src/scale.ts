@@ -0,0 +1,84 @@
+import { Paise, roundPaise } from './money';
+
+/**
+ * Weighing-scale labels: GS1 variable-measure EAN-13 codes.  Codes in
+ * the restricted range 20–29 are printed by the store's own scales as
+ *
+ *   prefix (2 digits) | PLU | weight or price | check digit
+ *
+ * The prefix says which layout applies (a weight in grams, or a price)
+ * and the PLU is `Item.plu`.  Layouts are configurable through the
+ * `scaleBarcodeFormats` setting (a JSON array of ScaleFormat); by
+ * default 21 carries a weight and 22 a price, each with a 5-digit PLU
+ * and a 5-digit value.
+ */
+
+export type ScaleValueKind = 'WEIGHT' | 'PRICE';
+
+export interface ScaleFormat {
+  prefix: string;
+  kind: ScaleValueKind;
+  pluDigits: number;
+  valueDigits: number;
+  /** implied decimals of the value: 3 for kg in grams, 2 for rupees in paise */
+  decimals: number;
+}
+
+export const DEFAULT_SCALE_FORMATS: ScaleFormat[] = [
+  { prefix: '21', kind: 'WEIGHT', pluDigits: 5, valueDigits: 5, decimals: 3 },
+  { prefix: '22', kind: 'PRICE', pluDigits: 5, valueDigits: 5, decimals: 2 },
+];
+
+/** A scale label read off a barcode: `weight` in kg or `price` in paise */
+export interface ScaleLabel {
+  plu: string;
+  kind: ScaleValueKind;
+  weight?: number;
+  price?: Paise;
+}
+
+/** GS1 check digit of the first 12 digits of an EAN-13 */
+export function ean13CheckDigit(first12: string): number {
+  const sum = [...first12].reduce((s, d, i) => s + Number(d) * (i % 2 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+/** Whether a layout fits an EAN-13 and only uses the 20–29 range */
+export function isValidFormat(f: ScaleFormat): boolean {
+  return (
+    /^2\d$/.test(String(f.prefix)) &&
+    (f.kind === 'WEIGHT' || f.kind === 'PRICE') &&
+    [f.pluDigits, f.valueDigits, f.decimals].every((n) => Number.isInteger(n) && n >= 0) &&
+    f.pluDigits > 0 &&
+    f.valueDigits > 0 &&
+    f.prefix.length + f.pluDigits + f.valueDigits + 1 === 13
+  );
+}
+
+/**
+ * Read a scale label; null when the code is not a 13-digit variable
+ * measure code with a matching layout and a correct check digit.
+ */
+export function parseScaleBarcode(code: string, formats: ScaleFormat[] = DEFAULT_SCALE_FORMATS): ScaleLabel | null {
+  const digits = String(code ?? '').trim();
+  if (!/^2\d{12}$/.test(digits)) return null;
+  if (ean13CheckDigit(digits.slice(0, 12)) !== Number(digits[12])) return null;
+  const f = formats.find((x) => digits.startsWith(x.prefix));
+  if (!f) return null;
+  const plu = digits.slice(f.prefix.length, f.prefix.length + f.pluDigits);
+  const raw = Number(digits.slice(f.prefix.length + f.pluDigits, 12));
+  const value = raw / 10 ** f.decimals;
+  return f.kind === 'WEIGHT' ? { plu, kind: 'WEIGHT', weight: value } : { plu, kind: 'PRICE', price: roundPaise(value * 100) };
+}
+
+/**
+ * Quantity a label sells at `unitPrice` per kg, to the gram.  The line of
+ * a price label is charged the printed price (`labelPrice` on the line),
+ * not the rounded weight times the unit price.
+ */
+export const labelQuantity = (label: ScaleLabel, unitPrice: Paise): number =>
+  label.kind === 'WEIGHT'
+    ? label.weight ?? 0
+    : unitPrice > 0
+      ? Math.round(((label.price ?? 0) / unitPrice) * 1000) / 1000
+      : 0;
@@ -0,0 +1,307 @@
+import { Prisma } from '@prisma/client';
+import { isPaperWidth, PaperWidth } from './escpos';
+import { RoundOffMode } from './money';
+import { DEFAULT_SCALE_FORMATS, isValidFormat, ScaleFormat } from './scale';
+import { isValidGstin, normaliseStateCode } from './tax';
+
+/**
+ * Store settings.  Each setting is a `Setting` row (key -> string) that
+ * is typed and validated here.  Without a row a setting falls back to
+ * its env var (the ones in .env.example), then to a default, so a fresh
+ * install still runs from its environment.  The Settings page edits
+ * them through /api/settings.
+ *
+ * Number prefixes may also be set for one terminal as
+ * `<prefix setting>.<terminal>`, e.g. `receiptPrefix.T2`; those rows
+ * are validated like the prefix itself.
+ */
+
+interface SettingDef<T> {
+  /** env var read when there is no Setting row */
+  env?: string;
+  fallback: T;
+  /** stored or posted value -> typed value; throws with a message fit for a 400 */
+  parse(raw: unknown, key: string): T;
+  /** reads the env var when its format differs from the stored one */
+  fromEnv?(raw: string): T;
+  /** typed value -> stored string, when String() will not do */
+  format?(value: T): string;
+}
+
+const def = <T>(d: SettingDef<T>) => d;
+
+const text =
+  (max: number, required = false) =>
+  (raw: unknown, key: string): string => {
+    const s = String(raw ?? '').trim();
+    if (required && !s) throw new Error(`${key} is required`);
+    if (s.length > max) throw new Error(`${key} must be at most ${max} characters`);
+    return s;
+  };
+
+const bool = (raw: unknown, key: string): boolean => {
+  if (raw === true || raw === 'true') return true;
+  if (raw === false || raw === 'false') return false;
+  throw new Error(`${key} must be true or false`);
+};
+
+const oneOf =
+  <T extends string>(values: readonly T[]) =>
+  (raw: unknown, key: string): T => {
+    if (!values.includes(raw as T)) throw new Error(`${key} must be one of ${values.join(', ')}`);
+    return raw as T;
+  };
+
+const percent = (raw: unknown, key: string): number => {
+  const n = typeof raw === 'string' && raw.trim() === '' ? NaN : Number(raw);
+  if (!Number.isFinite(n) || n < 0 || n > 100) throw new Error(`${key} must be a percentage from 0 to 100`);
+  return n;
+};
+
+/** A number prefix; `{terminal}` stands for the till id, the rest must leave room for the year and sequence */
+const numberPrefix = (raw: unknown, key: string): string => {
+  const s = text(20, true)(raw, key);
+  if (!/^([A-Za-z0-9/-]|\{terminal\})*$/.test(s)) throw new Error(`${key} may only have letters, digits, - / and {terminal}`);
+  if (s.replace(/\{terminal\}/g, '').length > 6) throw new Error(`${key} may have at most 6 characters besides {terminal}`);
+  return s;
+};
+
+const timeZone = (raw: unknown, key: string): string => {
+  const s = String(raw ?? '').trim();
+  try {
+    new Intl.DateTimeFormat('en-IN', { timeZone: s });
+  } catch {
+    throw new Error(`${key} must be an IANA time zone such as Asia/Kolkata`);
+  }
+  return s;
+};
+
+/** a till id: short, since it goes into that till's receipt numbers */
+const TERMINAL = /^[A-Za-z0-9-]{1,8}$/;
+
+const VPA = /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z][a-zA-Z0-9]{1,63}$/;
+
+export const SETTINGS = {
+  storeName: def({ env: 'STORE_NAME', fallback: 'My Store', parse: text(60, true) }),
+  storeAddress: def({ env: 'STORE_ADDRESS', fallback: '', parse: text(200) }),
+  storePhone: def({
+    env: 'STORE_PHONE',
+    fallback: '',
+    parse: (raw, key) => {
+      const s = text(20)(raw, key);
+      if (!/^[0-9+\-() ]*$/.test(s)) throw new Error(`${key} may only have digits, spaces and + - ( )`);
+      return s;
+    },
+  }),
+  gstin: def({
+    env: 'STORE_GSTIN',
+    fallback: '',
+    fromEnv: (raw) => raw.trim().toUpperCase(),
+    parse: (raw, key) => {
+      const s = String(raw ?? '').trim().toUpperCase();
+      if (s && !isValidGstin(s)) throw new Error(`${key} is not a valid GSTIN`);
+      return s;
+    },
+  }),
+  /** the store's GST state code; sales to another state are charged IGST */
+  placeOfSupply: def({
+    env: 'PLACE_OF_SUPPLY',
+    fallback: '29',
+    parse: (raw, key) => {
+      const code = normaliseStateCode(raw);
+      if (!code) throw new Error(`${key} must be a GST state code or abbreviation`);
+      return code;
+    },
+  }),
+  /** where the store's business day starts and ends (daily Z report) */
+  timezone: def({ env: 'STORE_TIMEZONE', fallback: 'Asia/Kolkata', parse: timeZone }),
+  upiVpa: def({
+    env: 'UPI_VPA',
+    fallback: '',
+    parse: (raw, key) => {
+      const s = String(raw ?? '').trim();
+      if (s && !VPA.test(s)) throw new Error(`${key} must look like name@bank`);
+      return s;
+    },
+  }),
+  /** name shown to the customer's UPI app; blank uses the store name */
+  upiPayeeName: def({ env: 'UPI_PAYER_NAME', fallback: '', parse: text(50) }),
+  // invoice number prefixes per series (see src/numbering.ts)
+  receiptPrefix: def({ fallback: '{terminal}-', parse: numberPrefix }),
+  creditNotePrefix: def({ fallback: '{terminal}-CN', parse: numberPrefix }),
+  purchaseOrderPrefix: def({ fallback: '{terminal}-PO', parse: numberPrefix }),
+  goodsReceiptPrefix: def({ fallback: '{terminal}-GRN', parse: numberPrefix }),
+  /** the tills staff may sign in on, e.g. T1,T2 */
+  terminals: def<string[]>({
+    env: 'TERMINALS',
+    fallback: ['T1'],
+    parse: (raw, key) => {
+      const ids = (Array.isArray(raw) ? raw : String(raw ?? '').split(',')).map((id) => String(id).trim()).filter(Boolean);
+      if (!ids.length) throw new Error(`${key} needs at least one terminal id`);
+      const bad = ids.find((id) => !TERMINAL.test(id));
+      if (bad) throw new Error(`${key}: ${bad} must be 1 to 8 letters, digits or dashes`);
+      return [...new Set(ids)];
+    },
+  }),
+  receiptFooter: def({ fallback: 'Thank you for shopping!', parse: text(200) }),
+  /** RUPEE rounds bill totals to the nearest rupee */
+  roundOff: def<RoundOffMode>({
+    env: 'CASH_ROUNDING',
+    fallback: 'NONE',
+    parse: oneOf(['NONE', 'RUPEE'] as const),
+    fromEnv: (raw) => (raw === 'true' ? 'RUPEE' : 'NONE'),
+  }),
+  /** item prices include GST and cess; off, tax is added on top */
+  pricesIncludeTax: def({ env: 'PRICES_INCLUDE_TAX', fallback: false, parse: bool }),
+  allowNegativeStock: def({ env: 'ALLOW_NEGATIVE_STOCK', fallback: true, parse: bool }),
+  /** points earned per rupee spent (0.01: one point per ₹100) */
+  loyaltyPointsPerRupee: def({
+    env: 'LOYALTY_POINTS_PER_RUPEE',
+    fallback: 0.01,
+    parse: (raw, key) => {
+      const n = typeof raw === 'string' && raw.trim() === '' ? NaN : Number(raw);
+      if (!Number.isFinite(n) || n < 0) throw new Error(`${key} must be a number of 0 or more`);
+      return n;
+    },
+  }),
+  /** what a point is worth when redeemed, in paise */
+  loyaltyPointValue: def({
+    env: 'LOYALTY_POINT_VALUE',
+    fallback: 100,
+    parse: (raw, key) => {
+      const n = typeof raw === 'string' && raw.trim() === '' ? NaN : Number(raw);
+      if (!Number.isInteger(n) || n < 1) throw new Error(`${key} must be a whole number of paise, at least 1`);
+      return n;
+    },
+  }),
+  /** weighing-scale label layouts (see src/scale.ts) */
+  scaleBarcodeFormats: def<ScaleFormat[]>({
+    fallback: DEFAULT_SCALE_FORMATS,
+    parse: (raw, key) => {
+      let list = raw;
+      if (typeof raw === 'string') {
+        try {
+          list = JSON.parse(raw);
+        } catch {
+          list = null;
+        }
+      }
+      if (!Array.isArray(list) || !list.length || !list.every(isValidFormat)) {
+        throw new Error(`${key} must be a list of EAN-13 layouts with a 2x prefix`);
+      }
+      return list;
+    },
+    format: (formats) => JSON.stringify(formats),
+  }),
+  // what needs a supervisor's PIN at the till (see src/overrides.ts)
+  overridePriceBelowCost: def({ fallback: true, parse: bool }),
+  /** a manual discount above this share of the line (or bill) */
+  overrideDiscountPercent: def({ fallback: 20, parse: percent }),
+  /** removing or reducing lines once the payment drawer has been opened */
+  overrideVoidAfterPayment: def({ fallback: true, parse: bool }),
+  /** opening the cash drawer without a sale */
+  overrideNoSale: def({ fallback: true, parse: bool }),
+  /** receipt printer: tcp://host[:port], a device path or a capture file (see printer.ts) */
+  printer: def({ env: 'PRINTER', fallback: '', parse: text(200) }),
+  printerPaper: def<PaperWidth>({
+    env: 'PRINTER_PAPER',
+    fallback: '80mm',
+    parse: (raw, key) => {
+      if (!isPaperWidth(raw)) throw new Error(`${key} must be 58mm or 80mm`);
+      return raw;
+    },
+  }),
+};
+
+export type SettingKey = keyof typeof SETTINGS;
+export type Settings = { [K in SettingKey]: (typeof SETTINGS)[K]['fallback'] };
+
+const KEYS = Object.keys(SETTINGS) as SettingKey[];
+
+/** A setting's value from its stored row, else its env var, else its default; bad values are skipped */
+export function resolveSetting<K extends SettingKey>(key: K, stored: string | undefined, env = process.env): Settings[K] {
+  const d = SETTINGS[key] as SettingDef<Settings[K]>;
+  const raw = d.env ? env[d.env] : undefined;
+  const tries: [string | undefined, (v: string) => Settings[K]][] = [
+    [stored, (v) => d.parse(v, key)],
+    [raw, d.fromEnv ?? ((v) => d.parse(v, key))],
+  ];
+  for (const [value, parse] of tries) {
+    if (value === undefined) continue;
+    try {
+      return parse(value);
+    } catch {
+      // fall through to the next source
+    }
+  }
+  return d.fallback;
+}
+
+export async function loadSettings(db: Prisma.TransactionClient): Promise<Settings> {
+  const rows = await db.setting.findMany({ where: { key: { in: KEYS } } });
+  const stored = new Map(rows.map((r) => [r.key, r.value]));
+  return Object.fromEntries(KEYS.map((k) => [k, resolveSetting(k, stored.get(k))])) as Settings;
+}
+
+export async function setting<K extends SettingKey>(db: Prisma.TransactionClient, key: K): Promise<Settings[K]> {
+  const row = await db.setting.findUnique({ where: { key } });
+  return resolveSetting(key, row?.value);
+}
+
+const PREFIX_KEYS = ['receiptPrefix', 'creditNotePrefix', 'purchaseOrderPrefix', 'goodsReceiptPrefix'] as const;
+export type PrefixKey = (typeof PREFIX_KEYS)[number];
+
+/** A settings update: typed settings and one-terminal prefixes such as `receiptPrefix.T2` */
+export type SettingsUpdate = Partial<Settings> & { [key: `${PrefixKey}.${string}`]: string };
+
+const isTerminalPrefix = (key: string): key is `${PrefixKey}.${string}` => {
+  const dot = key.indexOf('.');
+  return PREFIX_KEYS.includes(key.slice(0, dot) as PrefixKey) && TERMINAL.test(key.slice(dot + 1));
+};
+
+/** A number prefix for one terminal: its own `<key>.<terminal>` row, else the store's setting */
+export async function terminalPrefix(db: Prisma.TransactionClient, key: PrefixKey, terminal: string): Promise<string> {
+  const own = await db.setting.findUnique({ where: { key: `${key}.${terminal}` } });
+  try {
+    if (own) return numberPrefix(own.value, own.key);
+  } catch {
+    // a bad row is skipped like any other setting
+  }
+  return setting(db, key);
+}
+
+/** Validate a partial update posted to /api/settings; unknown keys are refused */
+export function parseSettings(body: unknown): SettingsUpdate {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) throw new Error('Settings must be an object');
+  const patch: Record<string, unknown> = {};
+  for (const [key, raw] of Object.entries(body)) {
+    if (key in SETTINGS) patch[key] = SETTINGS[key as SettingKey].parse(raw, key);
+    else if (isTerminalPrefix(key)) patch[key] = numberPrefix(raw, key);
+    else throw new Error(`Unknown setting ${key}`);
+  }
+  return patch as SettingsUpdate;
+}
+
+/** Store a validated update and return every setting after it */
+export async function saveSettings(db: Prisma.TransactionClient, patch: SettingsUpdate): Promise<Settings> {
+  const next = { ...(await loadSettings(db)), ...patch };
+  const gstChanged = patch.gstin !== undefined || patch.placeOfSupply !== undefined;
+  if (gstChanged && next.gstin && next.gstin.slice(0, 2) !== next.placeOfSupply) {
+    throw new Error(`GSTIN ${next.gstin} is registered in state ${next.gstin.slice(0, 2)}, not ${next.placeOfSupply}`);
+  }
+  for (const [key, value] of Object.entries(patch)) {
+    const format = key in SETTINGS ? (SETTINGS[key as SettingKey] as SettingDef<unknown>).format : undefined;
+    const stored = format ? format(value) : String(value);
+    await db.setting.upsert({ where: { key }, create: { key, value: stored }, update: { value: stored } });
+  }
+  return next;
+}
+
+/** The store's own GST state code */
+export const storeStateCode = (db: Prisma.TransactionClient) => setting(db, 'placeOfSupply');
+
+/** The store's own GSTIN ('' when not registered) */
+export const storeGstin = (db: Prisma.TransactionClient) => setting(db, 'gstin');
+
+/** Whether bill totals are rounded to the rupee */
+export const roundOffMode = (db: Prisma.TransactionClient) => setting(db, 'roundOff');
@@ -0,0 +1,225 @@
+import { Prisma } from '@prisma/client';
+import { LOYALTY_TENDER } from './customers';
+import { Paise } from './money';
+
+/**
+ * Cashier shifts.  A shift is opened on a terminal's drawer with a float;
+ * sales and returns rung up while it is open point at it, and cash drops,
+ * pay-outs and pay-ins are recorded against it.  At close the cashier
+ * counts the drawer blind (notes and coins by denomination, card and UPI
+ * slips as totals) and only then sees what was expected per tender and
+ * the variance.  The X report is the same figures mid-shift, the Z report
+ * those kept at close.
+ */
+
+/** Notes and coins counted at close, in rupees */
+export const DENOMINATIONS = [2000, 500, 200, 100, 50, 20, 10, 5, 2, 1] as const;
+
+export const CASH_MOVEMENT_TYPES = ['DROP', 'PAYOUT', 'PAYIN'] as const;
+
+export type CashMovementType = (typeof CASH_MOVEMENT_TYPES)[number];
+
+export const isCashMovementType = (v: unknown): v is CashMovementType => CASH_MOVEMENT_TYPES.includes(v as CashMovementType);
+
+/** Tenders with nothing in the drawer to count; they are reported but not reconciled */
+export const UNCOUNTED_TENDERS = ['STORE_CREDIT', LOYALTY_TENDER];
+
+/** A sale or return with nothing open to tie it to */
+export class ShiftError extends Error {
+  code = 'NO_SHIFT' as const;
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShiftError';
+  }
+}
+
+/** The drawer count at close: notes/coins per denomination, other tenders as totals in paise */
+export interface ShiftCount {
+  cash: Record<string, number>;
+  tenders: Record<string, Paise>;
+}
+
+/** Value of a denomination count in paise; throws on an unknown note or a bad count */
+export function cashTotal(cash: Record<string, number>): Paise {
+  let total = 0;
+  for (const [note, count] of Object.entries(cash)) {
+    if (!DENOMINATIONS.includes(Number(note) as (typeof DENOMINATIONS)[number])) throw new Error(`Unknown denomination ${note}`);
+    if (!Number.isInteger(count) || count < 0) throw new Error(`Count of ₹${note} must be a whole number`);
+    total += Number(note) * 100 * count;
+  }
+  return total;
+}
+
+/** The count posted to close a shift: { cash: { "500": 4, ... }, tenders: { CARD: 125000 } } */
+export function parseShiftCount(body: unknown): ShiftCount {
+  const b = (body ?? {}) as Record<string, unknown>;
+  const obj = (v: unknown, name: string) => {
+    if (v == null) return {};
+    if (typeof v !== 'object' || Array.isArray(v)) throw new Error(`${name} must be an object`);
+    return v as Record<string, unknown>;
+  };
+  const cash = Object.fromEntries(Object.entries(obj(b.cash, 'cash')).map(([k, v]) => [k, Number(v)]));
+  cashTotal(cash);
+  const tenders: Record<string, Paise> = {};
+  for (const [code, v] of Object.entries(obj(b.tenders, 'tenders'))) {
+    const amount = Number(v);
+    if (!Number.isInteger(amount) || amount < 0) throw new Error(`${code} must be a whole number of paise`);
+    if (code.toUpperCase() === 'CASH') throw new Error('Count cash by denomination');
+    tenders[code.toUpperCase()] = amount;
+  }
+  return { cash, tenders };
+}
+
+/** What a shift report is built from */
+export interface ShiftActivity {
+  openingFloat: Paise;
+  receipts: {
+    status: string;
+    totalAmount: Paise;
+    changeDue: Paise;
+    payments: { amount: Paise; paymentMethod: { code: string; name: string } }[];
+  }[];
+  movements: { type: string; amount: Paise }[];
+}
+
+export interface TenderSummary {
+  code: string;
+  name: string;
+  sales: Paise;
+  refunds: Paise;
+  net: Paise;
+}
+
+/**
+ * Totals of a shift: sales and returns, takings per tender (cash net of
+ * change given), cash movements, and what each countable tender should
+ * come to.  Cash expected is the float plus net cash, less drops and
+ * pay-outs, plus pay-ins.
+ */
+export function summariseShift(a: ShiftActivity) {
+  const tenders = new Map<string, TenderSummary>();
+  const tender = (code: string, name: string) => {
+    if (!tenders.has(code)) tenders.set(code, { code, name, sales: 0, refunds: 0, net: 0 });
+    return tenders.get(code)!;
+  };
+  tender('CASH', 'Cash');
+  const sales = { count: 0, total: 0 };
+  const returns = { count: 0, total: 0 };
+  for (const r of a.receipts) {
+    const returned = r.status === 'RETURNED';
+    const bucket = returned ? returns : sales;
+    bucket.count += 1;
+    bucket.total += r.totalAmount;
+    for (const p of r.payments) {
+      const t = tender(p.paymentMethod.code, p.paymentMethod.name);
+      if (returned) t.refunds += p.amount;
+      else t.sales += p.amount;
+    }
+    if (r.changeDue) tender('CASH', 'Cash').sales -= r.changeDue;
+  }
+  const moved = (type: CashMovementType) => a.movements.filter((m) => m.type === type).reduce((s, m) => s + m.amount, 0);
+  const cash = { openingFloat: a.openingFloat, drops: moved('DROP'), payouts: moved('PAYOUT'), payins: moved('PAYIN') };
+  const list = [...tenders.values()].map((t) => ({ ...t, net: t.sales + t.refunds }));
+  const expected: Record<string, Paise> = {};
+  for (const t of list) {
+    if (UNCOUNTED_TENDERS.includes(t.code)) continue;
+    expected[t.code] = t.code === 'CASH' ? cash.openingFloat + t.net - cash.drops - cash.payouts + cash.payins : t.net;
+  }
+  return { sales, returns, tenders: list, cash, expected };
+}
+
+export type ShiftSummary = ReturnType<typeof summariseShift>;
+
+/** Expected against counted per tender; a tender missing from the count was counted as zero */
+export function reconcile(expected: Record<string, Paise>, count: ShiftCount) {
+  const counted: Record<string, Paise> = { ...count.tenders, CASH: cashTotal(count.cash) };
+  const codes = [...new Set([...Object.keys(expected), ...Object.keys(counted)])];
+  const rows = codes.map((code) => {
+    const e = expected[code] ?? 0;
+    const c = counted[code] ?? 0;
+    return { code, expected: e, counted: c, variance: c - e };
+  });
+  return { rows, variance: rows.reduce((s, r) => s + r.variance, 0) };
+}
+
+export const SHIFT_INCLUDE = {
+  opener: { select: { id: true, username: true, fullName: true } },
+  closer: { select: { id: true, username: true, fullName: true } },
+  movements: { orderBy: { id: 'asc' } },
+} satisfies Prisma.ShiftInclude;
+
+/** The open shift on a terminal's drawer, if any */
+export function currentShift(db: Prisma.TransactionClient, terminal: string) {
+  return db.shift.findFirst({ where: { terminal, status: 'OPEN' }, include: SHIFT_INCLUDE });
+}
+
+/** Id of the open shift a receipt on `terminal` belongs to; throws ShiftError when there is none */
+export async function shiftForReceipt(db: Prisma.TransactionClient, terminal: string) {
+  const shift = await db.shift.findFirst({ where: { terminal, status: 'OPEN' }, select: { id: true } });
+  if (!shift) throw new ShiftError(`No shift is open on ${terminal}; open one with the drawer float first`);
+  return shift.id;
+}
+
+export async function openShift(db: Prisma.TransactionClient, terminal: string, userId: number, openingFloat: Paise) {
+  if (!Number.isInteger(openingFloat) || openingFloat < 0) throw new Error('Opening float must be a whole number of paise');
+  if (await currentShift(db, terminal)) throw new Error(`A shift is already open on ${terminal}`);
+  return db.shift.create({ data: { terminal, openedBy: userId, openingFloat }, include: SHIFT_INCLUDE });
+}
+
+/** Receipts and movements of a shift summarised; the X report while open */
+export async function shiftActivity(db: Prisma.TransactionClient, shiftId: number) {
+  const shift = await db.shift.findUnique({ where: { id: shiftId }, include: SHIFT_INCLUDE });
+  if (!shift) return null;
+  const receipts = await db.receipt.findMany({
+    where: { shiftId },
+    select: {
+      status: true,
+      totalAmount: true,
+      changeDue: true,
+      payments: { select: { amount: true, paymentMethod: { select: { code: true, name: true } } } },
+    },
+  });
+  return { shift, summary: summariseShift({ openingFloat: shift.openingFloat, receipts, movements: shift.movements }) };
+}
+
+/** Close the open shift with the blind count; keeps expected, counted and the variance on the row */
+export async function closeShift(db: Prisma.TransactionClient, shiftId: number, userId: number, count: ShiftCount, notes?: string) {
+  const found = await shiftActivity(db, shiftId);
+  if (!found || found.shift.status !== 'OPEN') throw new Error('Shift is not open');
+  const { rows, variance } = reconcile(found.summary.expected, count);
+  await db.shift.update({
+    where: { id: shiftId },
+    data: {
+      status: 'CLOSED',
+      closedBy: userId,
+      closedAt: new Date(),
+      counted: JSON.stringify(count),
+      expected: JSON.stringify(found.summary.expected),
+      variance,
+      notes: notes || null,
+    },
+  });
+  return shiftReport(db, shiftId);
+}
+
+/**
+ * The X (open) or Z (closed) report of a shift.  A closed shift is
+ * reported against the expected figures kept when it closed.
+ */
+export async function shiftReport(db: Prisma.TransactionClient, shiftId: number) {
+  const found = await shiftActivity(db, shiftId);
+  if (!found) return null;
+  const { shift, summary } = found;
+  const closed = shift.status === 'CLOSED';
+  const count: ShiftCount | null = shift.counted ? JSON.parse(shift.counted) : null;
+  const expected: Record<string, Paise> = shift.expected ? JSON.parse(shift.expected) : summary.expected;
+  return {
+    kind: closed ? ('Z' as const) : ('X' as const),
+    shift: { ...shift, counted: count, expected },
+    ...summary,
+    expected,
+    reconciliation: count ? reconcile(expected, count) : null,
+  };
+}
+
+export type ShiftReport = NonNullable<Awaited<ReturnType<typeof shiftReport>>>;
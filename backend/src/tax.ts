@@ -0,0 +1,181 @@
+import { grossValue, percentOf, roundPaise } from './money';
+
+/**
+ * GST helpers.  Every line carries a snapshot of its slab (`gstRate` and
+ * `cessRate`, both percentages) taken at scan time.  GST on a line is
+ * split into CGST + SGST for an intra-state sale or charged as IGST when
+ * the place of supply differs from the store's state; cess is charged on
+ * top in either case.  All amounts are integer paise (see money.ts).
+ */
+
+/** GST state codes (first two digits of a GSTIN) */
+export const GST_STATES: { code: string; abbr: string; name: string }[] = [
+  { code: '01', abbr: 'JK', name: 'Jammu and Kashmir' },
+  { code: '02', abbr: 'HP', name: 'Himachal Pradesh' },
+  { code: '03', abbr: 'PB', name: 'Punjab' },
+  { code: '04', abbr: 'CH', name: 'Chandigarh' },
+  { code: '05', abbr: 'UK', name: 'Uttarakhand' },
+  { code: '06', abbr: 'HR', name: 'Haryana' },
+  { code: '07', abbr: 'DL', name: 'Delhi' },
+  { code: '08', abbr: 'RJ', name: 'Rajasthan' },
+  { code: '09', abbr: 'UP', name: 'Uttar Pradesh' },
+  { code: '10', abbr: 'BR', name: 'Bihar' },
+  { code: '11', abbr: 'SK', name: 'Sikkim' },
+  { code: '12', abbr: 'AR', name: 'Arunachal Pradesh' },
+  { code: '13', abbr: 'NL', name: 'Nagaland' },
+  { code: '14', abbr: 'MN', name: 'Manipur' },
+  { code: '15', abbr: 'MZ', name: 'Mizoram' },
+  { code: '16', abbr: 'TR', name: 'Tripura' },
+  { code: '17', abbr: 'ML', name: 'Meghalaya' },
+  { code: '18', abbr: 'AS', name: 'Assam' },
+  { code: '19', abbr: 'WB', name: 'West Bengal' },
+  { code: '20', abbr: 'JH', name: 'Jharkhand' },
+  { code: '21', abbr: 'OD', name: 'Odisha' },
+  { code: '22', abbr: 'CG', name: 'Chhattisgarh' },
+  { code: '23', abbr: 'MP', name: 'Madhya Pradesh' },
+  { code: '24', abbr: 'GJ', name: 'Gujarat' },
+  { code: '26', abbr: 'DN', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', abbr: 'MH', name: 'Maharashtra' },
+  { code: '29', abbr: 'KA', name: 'Karnataka' },
+  { code: '30', abbr: 'GA', name: 'Goa' },
+  { code: '31', abbr: 'LD', name: 'Lakshadweep' },
+  { code: '32', abbr: 'KL', name: 'Kerala' },
+  { code: '33', abbr: 'TN', name: 'Tamil Nadu' },
+  { code: '34', abbr: 'PY', name: 'Puducherry' },
+  { code: '35', abbr: 'AN', name: 'Andaman and Nicobar Islands' },
+  { code: '36', abbr: 'TS', name: 'Telangana' },
+  { code: '37', abbr: 'AP', name: 'Andhra Pradesh' },
+  { code: '38', abbr: 'LA', name: 'Ladakh' },
+  { code: '97', abbr: 'OT', name: 'Other Territory' },
+];
+
+/**
+ * Normalise a state given as a GST code ("29"), an abbreviation ("KA")
+ * or a GSTIN ("29ABCDE1234F1Z5") to its two-digit code.  Returns null
+ * when it cannot be recognised.
+ */
+export function normaliseStateCode(v: unknown): string | null {
+  const s = String(v ?? '').trim().toUpperCase();
+  if (!s) return null;
+  const code = /^\d/.test(s) ? s.slice(0, 2).padStart(2, '0') : null;
+  const hit = GST_STATES.find((st) => st.code === code || st.abbr === s);
+  return hit ? hit.code : null;
+}
+
+/** Inter-state when the customer's place of supply is set and differs from the store */
+export const isInterState = (storeState: string, placeOfSupply?: string | null) =>
+  !!placeOfSupply && placeOfSupply !== storeState;
+
+/** Fields of a cart/receipt line that the tax maths reads and writes */
+export interface TaxedLine {
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  gstRate: number;
+  cessRate: number;
+  taxAmount: number;
+  cessAmount: number;
+  lineTotal: number;
+  /** the price already includes GST and cess (setting `pricesIncludeTax` when scanned) */
+  taxInclusive?: boolean;
+  /** price printed on a weighing-scale label: the line's value, whatever unitPrice × quantity rounds to */
+  labelPrice?: number | null;
+}
+
+/**
+ * Recompute a line's tax (GST + cess on the discounted value) and total
+ * in place.  GST and cess are each rounded to paise on the line.  A
+ * tax-inclusive line has the tax backed out of its discounted value, so
+ * its total stays at the price charged; any odd paisa lands on GST.
+ */
+export function priceLine<T extends TaxedLine>(line: T): T {
+  const value = grossValue(line) - (line.discount || 0);
+  const rate = (line.gstRate || 0) + (line.cessRate || 0);
+  const taxable = line.taxInclusive ? roundPaise((value * 100) / (100 + rate)) : value;
+  const cess = percentOf(taxable, line.cessRate || 0);
+  const gst = line.taxInclusive ? value - taxable - cess : percentOf(taxable, line.gstRate || 0);
+  line.cessAmount = cess;
+  line.taxAmount = gst + cess;
+  line.lineTotal = taxable + gst + cess;
+  return line;
+}
+
+/** One row of the per-rate tax breakup */
+export interface TaxBreakup {
+  gstRate: number;
+  cessRate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  cess: number;
+}
+
+export interface TaxSummary {
+  placeOfSupply: string;
+  interState: boolean;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  cess: number;
+  breakup: TaxBreakup[];
+}
+
+/** Split a line's GST into its heads; an odd paisa goes to CGST so the halves always add up */
+export function splitLineTax(line: TaxedLine, interState: boolean) {
+  const gst = line.taxAmount - line.cessAmount;
+  if (interState) return { cgst: 0, sgst: 0, igst: gst, cess: line.cessAmount };
+  const sgst = gst < 0 ? -Math.floor(-gst / 2) : Math.floor(gst / 2);
+  return { cgst: gst - sgst, sgst, igst: 0, cess: line.cessAmount };
+}
+
+/** Per-rate and overall CGST/SGST/IGST/cess for a set of lines */
+export function summariseTax(lines: TaxedLine[], storeState: string, placeOfSupply?: string | null): TaxSummary {
+  const interState = isInterState(storeState, placeOfSupply);
+  const byRate = new Map<string, TaxBreakup>();
+  for (const l of lines) {
+    const key = `${l.gstRate || 0}/${l.cessRate || 0}`;
+    const row = byRate.get(key) ?? {
+      gstRate: l.gstRate || 0,
+      cessRate: l.cessRate || 0,
+      taxableValue: 0,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+      cess: 0,
+    };
+    const heads = splitLineTax(l, interState);
+    row.taxableValue += l.lineTotal - l.taxAmount;
+    row.cgst += heads.cgst;
+    row.sgst += heads.sgst;
+    row.igst += heads.igst;
+    row.cess += heads.cess;
+    byRate.set(key, row);
+  }
+  const breakup = [...byRate.values()].sort((a, b) => a.gstRate - b.gstRate || a.cessRate - b.cessRate);
+  const sum = (k: 'cgst' | 'sgst' | 'igst' | 'cess') => breakup.reduce((s, r) => s + r[k], 0);
+  return {
+    placeOfSupply: placeOfSupply || storeState,
+    interState,
+    cgst: sum('cgst'),
+    sgst: sum('sgst'),
+    igst: sum('igst'),
+    cess: sum('cess'),
+    breakup,
+  };
+}
+
+const GSTIN_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/** Validate a GSTIN's format, state code and check character */
+export function isValidGstin(v: unknown): boolean {
+  const s = String(v ?? '').trim().toUpperCase();
+  if (!/^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(s)) return false;
+  if (!normaliseStateCode(s.slice(0, 2))) return false;
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARS.indexOf(s[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARS[(36 - (sum % 36)) % 36] === s[14];
+}
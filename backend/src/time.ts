@@ -0,0 +1,48 @@
+/**
+ * The store's clock.  Business days, financial years, promotion hours
+ * and batch expiry follow the wall clock of the `timezone` setting, not
+ * the server's; these turn instants into that zone's dates and back.
+ */
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Minutes `timeZone` is ahead of UTC at an instant */
+export function zoneOffset(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(at);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const wall = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return Math.round((wall - Math.floor(at.getTime() / 1000) * 1000) / 60_000);
+}
+
+/** The calendar date (YYYY-MM-DD) in `timeZone` at an instant */
+export function localDate(at: Date, timeZone: string): string {
+  const local = new Date(at.getTime() + zoneOffset(at, timeZone) * 60_000);
+  return local.toISOString().slice(0, 10);
+}
+
+/** Midnight of a local wall-clock date as an instant */
+function localMidnight(y: number, m: number, d: number, timeZone: string): Date {
+  const wall = Date.UTC(y, m - 1, d);
+  // the offset at the guess may differ from the one at midnight across a DST change; a second pass settles it
+  let at = wall - zoneOffset(new Date(wall), timeZone) * 60_000;
+  at = wall - zoneOffset(new Date(at), timeZone) * 60_000;
+  return new Date(at);
+}
+
+/** The instants a business day starts and ends (exclusive) in `timeZone` */
+export function dayRange(date: string, timeZone: string): { from: Date; to: Date } {
+  if (!DAY.test(date)) throw new Error('date must be YYYY-MM-DD');
+  const [y, m, d] = date.split('-').map(Number);
+  const check = new Date(Date.UTC(y, m - 1, d));
+  if (check.getUTCMonth() !== m - 1 || check.getUTCDate() !== d) throw new Error(`${date} is not a date`);
+  return { from: localMidnight(y, m, d, timeZone), to: localMidnight(y, m, d + 1, timeZone) };
+}
@@ -0,0 +1,189 @@
+import { Prisma } from '@prisma/client';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { Actor, audit } from './audit';
+import { isKnownTerminal } from './numbering';
+
+/**
+ * Till users.  A user signs in with a password (stored as a scrypt hash)
+ * and may do what their role's permissions allow.  Supervisors (and
+ * admins) approve what a cashier may not do alone by entering their PIN
+ * at the till; PINs are hashed like passwords and no two users share one.
+ */
+
+export const PERMISSIONS = [
+  'sell', // ring up, hold and complete sales
+  'return', // returns and exchanges
+  'void', // void lines or bills
+  'override', // approve overrides with a PIN
+  'items', // items, prices, promotions and payment methods
+  'inventory', // stock, vendors and purchasing
+  'reports', // Z and GST reports
+  'settings', // store settings
+  'users', // user accounts
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/** What each seeded role may do when its `permissions` are not set */
+export const ROLE_PERMISSIONS: Record<string, Permission[]> = {
+  Cashier: ['sell'],
+  Supervisor: ['sell', 'return', 'void', 'override', 'inventory', 'reports'],
+  Admin: [...PERMISSIONS],
+};
+
+const isPermission = (v: unknown): v is Permission => PERMISSIONS.includes(v as Permission);
+
+/** A role's permissions: its JSON array when set, else the defaults for its name */
+export function rolePermissions(role: { name: string; permissions: string | null }): Permission[] {
+  try {
+    const list = JSON.parse(role.permissions ?? '');
+    if (Array.isArray(list) && list.length) return list.filter(isPermission);
+  } catch {
+    // not JSON: use the defaults
+  }
+  return ROLE_PERMISSIONS[role.name] ?? [];
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+/** scrypt$<salt>$<hash>, both hex */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 32);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/** A password stored before hashing came in; it is rehashed at the next login */
+export const isLegacyPassword = (stored: string) => !stored.startsWith('scrypt$');
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (isLegacyPassword(stored)) {
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+  const [, salt, hash] = stored.split('$');
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+/** Wrong PINs a till may enter within PIN_LOCK_MINUTES before its PIN approvals are refused */
+export const PIN_ATTEMPTS = 5;
+export const PIN_LOCK_MINUTES = 15;
+
+/** The user whose (hashed) PIN this is; a PIN stored before hashing is rehashed on a match */
+async function pinOwner(db: Prisma.TransactionClient, pin: string) {
+  const users = await db.user.findMany({
+    where: { pin: { not: null } },
+    select: { id: true, username: true, fullName: true, pin: true, active: true, role: true },
+  });
+  for (const u of users) {
+    if (!(await verifyPassword(pin, u.pin!))) continue;
+    if (isLegacyPassword(u.pin!)) await db.user.update({ where: { id: u.id }, data: { pin: await hashPassword(pin) } });
+    return u;
+  }
+  return null;
+}
+
+/**
+ * The active user with this PIN whose role may approve overrides, or
+ * null.  A wrong PIN is audited against the requester and their till;
+ * after PIN_ATTEMPTS of them in PIN_LOCK_MINUTES, by that user on any
+ * till or by anyone on that till, PINs are refused until the window
+ * passes.  Only a till the store has set up may ask.
+ */
+export async function supervisorByPin(db: Prisma.TransactionClient, pin: unknown, requester: Actor) {
+  const value = String(pin ?? '').trim();
+  if (!value) return null;
+  if (requester.terminal && !(await isKnownTerminal(db, requester.terminal))) {
+    throw new Error(`Unknown terminal ${requester.terminal}; sign in on a configured till`);
+  }
+  const failures = await db.auditLog.count({
+    where: {
+      action: 'PIN_FAILED',
+      createdAt: { gte: new Date(Date.now() - PIN_LOCK_MINUTES * 60_000) },
+      OR: [{ userId: requester.id }, ...(requester.terminal ? [{ terminal: requester.terminal }] : [])],
+    },
+  });
+  if (failures >= PIN_ATTEMPTS) {
+    throw new Error(`Too many wrong PINs; supervisor approval is locked here for up to ${PIN_LOCK_MINUTES} minutes`);
+  }
+  const owner = await pinOwner(db, value);
+  if (!owner?.active || !rolePermissions(owner.role).includes('override')) {
+    await audit(db, requester, { action: 'PIN_FAILED', description: `wrong supervisor PIN (${failures + 1} of ${PIN_ATTEMPTS})` });
+    return null;
+  }
+  return { id: owner.id, username: owner.username, fullName: owner.fullName };
+}
+
+export interface UserInput {
+  username?: string;
+  fullName?: string;
+  password?: string;
+  pin?: string | null;
+  role?: string;
+  active?: boolean;
+}
+
+/** Validate a user posted to /api/users; `partial` for an update */
+export function parseUser(body: any, partial = false): UserInput {
+  const out: UserInput = {};
+  const b = body || {};
+  if (b.username != null || !partial) {
+    const username = String(b.username ?? '').trim().toLowerCase();
+    if (!/^[a-z0-9._-]{3,32}$/.test(username)) throw new Error('username must be 3-32 letters, digits, dots, dashes or underscores');
+    out.username = username;
+  }
+  if (b.fullName != null || !partial) {
+    const fullName = String(b.fullName ?? '').trim();
+    if (!fullName) throw new Error('fullName is required');
+    out.fullName = fullName;
+  }
+  if (b.password != null || !partial) {
+    const password = String(b.password ?? '');
+    if (password.length < 8) throw new Error('password must be at least 8 characters');
+    out.password = password;
+  }
+  if (b.pin !== undefined) {
+    const pin = b.pin === null || b.pin === '' ? null : String(b.pin).trim();
+    if (pin !== null && !/^\d{4,8}$/.test(pin)) throw new Error('pin must be 4-8 digits');
+    out.pin = pin;
+  }
+  if (b.role != null || !partial) {
+    if (!b.role) throw new Error('role is required');
+    out.role = String(b.role);
+  }
+  if (b.active != null) out.active = !!b.active;
+  return out;
+}
+
+export const USER_SELECT = {
+  id: true,
+  username: true,
+  fullName: true,
+  active: true,
+  role: { select: { name: true } },
+} satisfies Prisma.UserSelect;
+
+/** Store a validated user, hashing the password and PIN; the role is looked up by name */
+export async function saveUser(db: Prisma.TransactionClient, input: UserInput, id?: number) {
+  const { password, pin, role, ...rest } = input;
+  const data: Prisma.UserUncheckedUpdateInput = { ...rest };
+  if (password !== undefined) data.password = await hashPassword(password);
+  if (pin) {
+    // a PIN names the approver, so it must be theirs alone
+    const owner = await pinOwner(db, pin);
+    if (owner && owner.id !== id) throw new Error('That PIN is in use; choose another');
+  }
+  if (pin !== undefined) data.pin = pin && (await hashPassword(pin));
+  if (role !== undefined) {
+    const found = await db.role.findUnique({ where: { name: role } });
+    if (!found) throw new Error(`Unknown role ${role}`);
+    data.roleId = found.id;
+  }
+  if (id != null) return db.user.update({ where: { id }, data, select: USER_SELECT });
+  return db.user.create({ data: data as Prisma.UserUncheckedCreateInput, select: USER_SELECT });
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from '@jest/globals';
+import { changes, lineSnapshot, parseAuditQuery } from '../src/audit';
+
+/**
+ * Audit log helpers: what a change records and the filters of the audit
+ * viewer.
+ */
+describe('recording changes', () => {
+  it('keeps only the values that changed', () => {
+    expect(changes({ mrp: 5000, cost: 4000 }, { mrp: 5500, cost: 4000 })).toEqual({
+      before: { mrp: 5000 },
+      after: { mrp: 5500 },
+      changed: true,
+    });
+    expect(changes({ roundOff: 'NONE' }, { roundOff: 'NONE' }).changed).toBe(false);
+  });
+
+  it('snapshots a cart line with its manual discount', () => {
+    const line = { itemId: 7, name: 'Rice 1kg', quantity: 2, unitPrice: 6000, discount: 1500, promoDiscount: 1000, lineTotal: 10500 };
+    expect(lineSnapshot(line as any)).toEqual({ itemId: 7, name: 'Rice 1kg', quantity: 2, unitPrice: 6000, discount: 500, lineTotal: 10500 });
+  });
+});
+
+describe('audit filters', () => {
+  it('builds a query from the viewer filters', () => {
+    const q = parseAuditQuery({ from: '2025-04-01', to: '2025-04-30', action: 'NO_SALE', userId: '3', terminal: 'T2', reference: 'T2-', limit: '50' });
+    expect(q.take).toBe(50);
+    expect(q.skip).toBe(0);
+    expect(q.where).toMatchObject({ action: 'NO_SALE', userId: 3, terminal: 'T2', reference: { contains: 'T2-' } });
+    const { gte, lt } = q.where.createdAt as { gte: Date; lt: Date };
+    expect([gte.getDate(), lt.getMonth(), lt.getDate()]).toEqual([1, 4, 1]);
+  });
+
+  it('refuses bad filters', () => {
+    expect(parseAuditQuery({}).where).toEqual({});
+    expect(() => parseAuditQuery({ from: '01-04-2025' })).toThrow('YYYY-MM-DD');
+    expect(() => parseAuditQuery({ action: 'DANCE' })).toThrow('Unknown action');
+    expect(() => parseAuditQuery({ limit: '1000' })).toThrow('1 to 500');
+  });
+});
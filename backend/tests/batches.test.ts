@@ -0,0 +1,64 @@
+import { describe, expect, it } from '@jest/globals';
+import { allocateFefo, BatchStock, isExpired } from '../src/batches';
+
+/**
+ * First-expiry-first-out allocation over in-memory batches.  Costs are
+ * paise.
+ */
+const batch = (id: number, quantity: number, cost: number, expiry: string | null): BatchStock => ({
+  id,
+  batchNo: `B${id}`,
+  expiryDate: expiry ? new Date(expiry) : null,
+  quantity,
+  cost,
+});
+
+// 15 June 2025, 15:30 IST
+const NOW = new Date('2025-06-15T10:00:00Z');
+const IST = 'Asia/Kolkata';
+
+describe('expiry', () => {
+  it('keeps a batch sellable through its expiry date', () => {
+    expect(isExpired(new Date('2025-06-15'), NOW, IST)).toBe(false);
+    expect(isExpired(new Date('2025-06-14'), NOW, IST)).toBe(true);
+    expect(isExpired(null, NOW, IST)).toBe(false);
+  });
+
+  it('goes by the store\'s day, not the server\'s', () => {
+    // 00:30 IST on 16 June is still 15 June in UTC
+    const lateNight = new Date('2025-06-15T19:00:00Z');
+    expect(isExpired(new Date('2025-06-15'), lateNight, IST)).toBe(true);
+    expect(isExpired(new Date('2025-06-15'), lateNight, 'UTC')).toBe(false);
+  });
+});
+
+describe('FEFO allocation', () => {
+  const batches = [
+    batch(1, 5, 1000, null),
+    batch(2, 3, 1100, '2025-09-30'),
+    batch(3, 2, 1200, '2025-07-31'),
+    batch(4, 4, 900, '2025-06-01'),
+  ];
+
+  it('takes the earliest expiry first, undated last, at batch cost', () => {
+    expect(allocateFefo(batches, 6, NOW, IST)).toEqual({
+      allocations: [
+        { batchId: 3, quantity: 2, cost: 1200 },
+        { batchId: 2, quantity: 3, cost: 1100 },
+        { batchId: 1, quantity: 1, cost: 1000 },
+      ],
+      unallocated: 0,
+    });
+  });
+
+  it('skips expired batches unless approved', () => {
+    expect(allocateFefo(batches, 1, NOW, IST).allocations[0].batchId).toBe(3);
+    expect(allocateFefo(batches, 1, NOW, IST, true).allocations[0]).toEqual({ batchId: 4, quantity: 1, cost: 900 });
+  });
+
+  it('reports what the batches cannot cover', () => {
+    const r = allocateFefo([batch(1, 0.75, 8000, null)], 1.25, NOW, IST);
+    expect(r.allocations).toEqual([{ batchId: 1, quantity: 0.75, cost: 8000 }]);
+    expect(r.unallocated).toBe(0.5);
+  });
+});
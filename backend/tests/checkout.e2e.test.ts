@@ -1,68 +1,62 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
 import request from 'supertest';
-import express from 'express';
-import prisma from '../src/prisma';
-import { v4 as uuid } from 'uuid';
-import { PrismaClient } from '@prisma/client';
+import { testApp } from './e2e';
 
 /**
  * This test covers the critical checkout flow: scanning items, applying a
  * percentage discount, splitting payments and completing the sale.  It
- * demonstrates how the API can be exercised end to end without a browser.
+ * demonstrates how the API can be exercised end to end without a browser:
+ * the cashier signs in on a till and opens a shift before selling.
  */
 describe('Checkout E2E Flow', () => {
-  let server: any;
+  let t: Awaited<ReturnType<typeof testApp>>;
+  let token: string;
+  const post = (url: string) => request(t.app).post(url).set('Authorization', `Bearer ${token}`);
+
   beforeAll(async () => {
-    // Use a separate database file for testing
-    process.env.DATABASE_URL = 'file:./test.db';
-    // Initialise prisma client
-    (prisma as unknown as PrismaClient).$connect();
-    // Run migrations
-    // In a real test we would run the SQL in init.sql here.
-    // Start the express app
-    const app = require('../src/index');
-    server = app.default || app;
+    t = await testApp('checkout.e2e');
+    token = await t.login('cashier', 'T1');
+    await post('/api/shifts/open').send({ openingFloat: 0 }).expect(200);
   });
   afterAll(async () => {
-    await (prisma as unknown as PrismaClient).$disconnect();
+    await t?.close();
+  });
+
+  it('refuses the API without a session', async () => {
+    await request(t.app).post('/api/checkout/start').expect(401);
+  });
+
+  it('refuses to sign in on a terminal the store has not set up', async () => {
+    const r = await request(t.app).post('/api/auth/login').send({ username: 'cashier', password: 'password', terminal: 'TILL-01' });
+    expect(r.status).toBe(400);
+    expect(r.body.error).toBe('Unknown terminal TILL-01');
   });
+
   it('scan items -> discount -> split pay', async () => {
     // Start a cart
-    const startRes = await request(server).post('/api/checkout/start').expect(200);
-    const cartId = startRes.body.cartId;
-    // Scan first item (Basamti Rice barcode)
-    await request(server)
-      .post('/api/checkout/scan')
-      .send({ cartId, barcode: '8900000000011' })
-      .expect(200);
+    const startRes = await post('/api/checkout/start').expect(200);
+    const cartId = startRes.body.id;
+    // Scan first item (Basmati Rice barcode)
+    await post('/api/checkout/add').send({ cartId, barcode: '8900000000011' }).expect(200);
     // Scan second item
-    await request(server)
-      .post('/api/checkout/scan')
-      .send({ cartId, barcode: '8900000000028' })
-      .expect(200);
+    await post('/api/checkout/add').send({ cartId, barcode: '8900000000028' }).expect(200);
     // Apply 10% discount on entire cart
-    await request(server)
-      .post('/api/checkout/discount')
-      .send({ cartId, discountPercent: 10 })
-      .expect(200);
-    // Fetch cart to compute total
-    const cartRes = await request(server)
-      .post('/api/checkout/scan')
-      .send({ cartId, barcode: '8900000000011' });
-    const cart = cartRes.body.cart;
-    const total = cart.lines.reduce((sum: number, l: any) => sum + l.lineTotal, 0);
+    const cart = (await post('/api/checkout/discount').send({ cartId, discountPercent: 10 }).expect(200)).body;
+    const total = cart.totals.totalAmount;
+    expect(total).toBe(13500);
     // Split payment: half UPI, half cash
-    const half = Math.round((total / 2) * 100) / 100;
-    const receiptRes = await request(server)
-      .post('/api/checkout/complete')
+    const half = Math.round(total / 2); // paise
+    const receiptRes = await post('/api/checkout/complete')
       .send({
         cartId,
         payments: [
-          { methodCode: 'UPI', amount: half, reference: 'upi-txn-123' },
-          { methodCode: 'CASH', amount: total - half },
+          { method: 'UPI', amount: half, reference: 'upi-txn-123' },
+          { method: 'CASH', amount: total - half },
         ],
       })
       .expect(200);
-    expect(receiptRes.body.totalAmount).toBeCloseTo(total);
+    expect(receiptRes.body.totalAmount).toBe(total);
+    expect(receiptRes.body.terminal).toBe('T1');
     expect(receiptRes.body.payments.length).toBe(2);
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from '@jest/globals';
+import { maskPhone, normalisePhone, pointsEarned, pointsMovements } from '../src/customers';
+
+/**
+ * Phone lookup normalisation and the points a receipt earns or burns.
+ * One point per ₹100, a point worth ₹1 (100 paise).
+ */
+const config = { pointsPerRupee: 0.01, pointValue: 100 };
+
+describe('normalisePhone', () => {
+  it('reduces Indian mobile numbers to ten digits', () => {
+    expect(normalisePhone('+91 98765-43210')).toBe('9876543210');
+    expect(normalisePhone('09876543210')).toBe('9876543210');
+    expect(normalisePhone('12345')).toBeNull();
+    expect(normalisePhone('1234567890')).toBeNull();
+    expect(maskPhone('9876543210')).toBe('******3210');
+  });
+});
+
+describe('points', () => {
+  it('earns whole points only', () => {
+    expect(pointsEarned(19999, 0.01)).toBe(1);
+    expect(pointsEarned(20000, 0.01)).toBe(2);
+  });
+
+  it('earns on the part of a sale not paid with points', () => {
+    expect(pointsMovements(50000, 0, config)).toEqual([{ type: 'EARN', points: 5 }]);
+    expect(pointsMovements(50000, 20000, config)).toEqual([
+      { type: 'REDEEM', points: -200 },
+      { type: 'EARN', points: 3 },
+    ]);
+  });
+
+  it('gives redeemed points back and reverses earned ones on a return', () => {
+    expect(pointsMovements(-50000, -20000, config)).toEqual([
+      { type: 'REFUND', points: 200 },
+      { type: 'REVERSAL', points: -3 },
+    ]);
+    expect(pointsMovements(-5000, 0, config)).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from '@jest/globals';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { buildDailyZ, ZReceipt } from '../src/dailyz';
+import { renderTemplate } from '../src/escpos';
+import { dailyZTemplateData } from '../src/printer';
+import { Settings } from '../src/settings';
+
+/**
+ * Daily Z: the breakdown of a business day's sales, returns, tax slabs,
+ * tenders, number ranges and voids.
+ */
+const cash = { code: 'CASH', name: 'Cash' };
+const upi = { code: 'UPI', name: 'UPI' };
+const receipt = (r: Partial<ZReceipt>): ZReceipt => ({
+  receiptNumber: '',
+  terminal: 'T1',
+  status: 'COMPLETED',
+  totalBeforeDiscount: 0,
+  totalDiscount: 0,
+  totalTax: 0,
+  totalAmount: 0,
+  roundOff: 0,
+  changeDue: 0,
+  taxes: [],
+  payments: [],
+  ...r,
+});
+const slab = (gstRate: number, taxableValue: number, half: number) => ({ gstRate, taxableValue, cgst: half, sgst: half, igst: 0, cess: 0 });
+
+const receipts = [
+  receipt({
+    receiptNumber: 'T1-2526/00001',
+    totalBeforeDiscount: 11800,
+    totalDiscount: 1000,
+    totalTax: 1647,
+    totalAmount: 10800,
+    taxes: [slab(18, 9153, 824)],
+    payments: [{ amount: 20000, paymentMethod: cash }],
+    changeDue: 9200,
+  }),
+  receipt({
+    receiptNumber: 'T1-2526/00002',
+    totalBeforeDiscount: 5250,
+    totalTax: 250,
+    totalAmount: 5250,
+    taxes: [slab(5, 5000, 125)],
+    payments: [{ amount: 5250, paymentMethod: upi }],
+  }),
+  receipt({
+    receiptNumber: 'T1-CN2526/00001',
+    status: 'RETURNED',
+    totalBeforeDiscount: -5250,
+    totalTax: -250,
+    totalAmount: -5250,
+    taxes: [slab(5, -5000, -125)],
+    payments: [{ amount: -5250, paymentMethod: cash }],
+  }),
+];
+const voids = [
+  { action: 'CART_VOIDED', before: JSON.stringify({ lines: [], totalAmount: 4500 }) },
+  { action: 'LINE_REMOVED', before: JSON.stringify({ lineTotal: 1200 }) },
+  { action: 'LINE_REMOVED', before: null },
+];
+
+describe('report', () => {
+  const z = buildDailyZ('2025-04-01', 'Asia/Kolkata', receipts, voids);
+
+  it('breaks down sales, discounts and returns', () => {
+    expect(z.grossSales).toBe(17050);
+    expect(z.discounts).toBe(1000);
+    expect(z.sales).toEqual({ count: 2, total: 16050, tax: 1897 });
+    expect(z.returns).toEqual({ count: 1, total: -5250, tax: -250 });
+    expect(z.netSales).toBe(10800);
+    expect(z.receiptCount).toBe(2);
+    expect(z.averageBasket).toBe(8025);
+  });
+
+  it('nets tax per slab and tenders after change and refunds', () => {
+    expect(z.taxBySlab.map((s) => [s.gstRate, s.taxableValue, s.tax])).toEqual([
+      [5, 0, 0],
+      [18, 9153, 1648],
+    ]);
+    expect(z.tenders.map((t) => [t.code, t.net])).toEqual([
+      ['CASH', 10800 - 5250],
+      ['UPI', 5250],
+    ]);
+    expect(z.paymentSummary).toEqual({ Cash: 5550, UPI: 5250 });
+  });
+
+  it('gives the number range of each series and the voids', () => {
+    expect(z.numbers).toEqual([
+      { terminal: 'T1', series: 'RETURN', first: 'T1-CN2526/00001', last: 'T1-CN2526/00001', count: 1 },
+      { terminal: 'T1', series: 'SALE', first: 'T1-2526/00001', last: 'T1-2526/00002', count: 2 },
+    ]);
+    expect(z.voids).toEqual({ carts: 1, cartsTotal: 4500, lines: 2, linesTotal: 1200 });
+  });
+
+  it('prints on 80mm paper', () => {
+    const store = { storeName: 'My Store', gstin: '' } as Settings;
+    const template = readFileSync(path.resolve(__dirname, '../../escpos_templates/dailyz_80mm.txt'), 'utf8');
+    const text = renderTemplate(template, dailyZTemplateData(z, store), 48);
+    expect(text).toMatch(/Business day\s+2025-04-01/);
+    expect(text).toMatch(/18%\s+91\.53\s+16\.48/);
+    expect(text).toContain('T1-2526/00001 - T1-2526/00002');
+    expect(text).toMatch(/Voided carts \/ value\s+1 \/ 45\.00/);
+    // style marks take no room on paper
+    for (const line of text.split('\n')) expect(line.replace(/[\uE000-\uE0FF]/g, '').length).toBeLessThanOrEqual(48);
+  });
+});
@@ -0,0 +1,57 @@
+import type { Express } from 'express';
+import { readFileSync, rmSync } from 'fs';
+import path from 'path';
+import request from 'supertest';
+
+/**
+ * Route tests run the whole API (createApp in src/index.ts) against a
+ * fresh SQLite file built from prisma/init.sql and seeded with the
+ * roles, a cashier and a supervisor (password `password`), tills T1,
+ * T2 and T9, cash and UPI tenders and two items.  Call `testApp` before
+ * anything loads src/prisma, since the client reads DATABASE_URL when
+ * it is created.
+ */
+export async function testApp(name: string) {
+  const file = path.resolve(__dirname, `${name}.db`);
+  rmSync(file, { force: true });
+  process.env.DATABASE_URL = `file:${file}`;
+
+  const { default: prisma } = await import('../src/prisma');
+  const { hashPassword, ROLE_PERMISSIONS } = await import('../src/users');
+  const { createApp } = await import('../src/index');
+
+  for (const sql of readFileSync(path.resolve(__dirname, '../prisma/init.sql'), 'utf8').split(';')) {
+    if (sql.trim()) await prisma.$executeRawUnsafe(sql);
+  }
+  const roles: Record<string, number> = {};
+  for (const [name, permissions] of Object.entries(ROLE_PERMISSIONS)) {
+    roles[name] = (await prisma.role.create({ data: { name, permissions: JSON.stringify(permissions) } })).id;
+  }
+  const password = await hashPassword('password');
+  await prisma.user.create({ data: { username: 'cashier', fullName: 'Cashier', password, roleId: roles.Cashier } });
+  await prisma.user.create({
+    data: { username: 'supervisor', fullName: 'Supervisor', password, pin: await hashPassword('1234'), roleId: roles.Supervisor },
+  });
+  await prisma.setting.create({ data: { key: 'terminals', value: 'T1,T2,T9' } });
+  await prisma.paymentMethod.createMany({ data: [{ code: 'CASH', name: 'Cash' }, { code: 'UPI', name: 'UPI' }] });
+  await prisma.item.create({
+    data: { sku: 'SKU0001', name: 'Basmati Rice 1kg', mrp: 12000, cost: 9000, barcodes: { create: [{ code: '8900000000011' }] } },
+  });
+  await prisma.item.create({
+    data: { sku: 'SKU0002', name: 'Masala Chips 200g', mrp: 3000, cost: 2000, barcodes: { create: [{ code: '8900000000028' }] } },
+  });
+
+  const app: Express = createApp();
+  return {
+    app,
+    prisma,
+    /** a bearer token for `username` signed in on `terminal` */
+    login: async (username: string, terminal: string) =>
+      (await request(app).post('/api/auth/login').send({ username, password: 'password', terminal }).expect(200)).body
+        .token as string,
+    close: async () => {
+      await prisma.$disconnect();
+      rmSync(file, { force: true });
+    },
+  };
+}
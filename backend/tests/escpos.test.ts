@@ -0,0 +1,78 @@
+import { describe, expect, it } from '@jest/globals';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { encode, ESCPOS, printable, qrCode, renderTemplate } from '../src/escpos';
+import { parsePrinterTarget, sendToPrinter } from '../src/printer';
+
+/**
+ * Receipt templates and the ESC/POS bytes they become.  Printing is
+ * checked against a capture file standing in for the printer.
+ */
+const bytes = (b: Buffer) => [...b];
+const contains = (hay: number[], needle: number[]) =>
+  hay.some((_, i) => needle.every((n, j) => hay[i + j] === n));
+
+describe('templates', () => {
+  it('fills values, each blocks and padding helpers', () => {
+    const tpl = 'Bill {{NO}}\n{{#each LINES}}\n{{padRight name 6}}|{{padLeft qty 3}}\n{{/each}}\nEnd\n';
+    const data = { NO: 'T1-7', LINES: [{ name: 'Rice 1kg', qty: 2 }, { name: 'Salt', qty: 10 }] };
+    expect(renderTemplate(tpl, data, 32)).toBe('Bill T1-7\nRice 1|  2\nSalt  | 10\nEnd\n');
+  });
+
+  it('takes if/else branches and spreads lr over the paper', () => {
+    const tpl = '{{#if UPI_QR}}\nQR\n{{else}}\nno QR\n{{/if}}\n{{lr "Total" TOTAL}}\n';
+    expect(renderTemplate(tpl, { UPI_QR: '', TOTAL: '₹12.50' }, 20)).toBe('no QR\nTotal       Rs.12.50\n');
+  });
+
+  it('reads outer values inside each and rejects bad nesting', () => {
+    expect(renderTemplate('{{#each L}}{{this}}{{SEP}}{{/each}}', { L: ['a', 'b'], SEP: ';' }, 32)).toBe('a;b;');
+    expect(() => renderTemplate('{{#each L}}x', {}, 32)).toThrow('not closed');
+    expect(() => renderTemplate('{{#nope}}x{{/nope}}', {}, 32)).toThrow('unknown block');
+  });
+
+  it('keeps text to what the printer can show', () => {
+    expect(printable('₹ 1,234.00 café')).toBe('Rs.1,234.00 cafe');
+    expect(printable('नमस्ते')).toMatch(/^\?+$/);
+  });
+});
+
+describe('ESC/POS encoding', () => {
+  it('starts with init, styles lines and cuts', () => {
+    const out = bytes(encode(renderTemplate('{{#bold}}\n{{#double}}\nShop\n{{/double}}\n{{/bold}}\nok\n', {}, 32), { columns: 32 }));
+    expect(out.slice(0, 2)).toEqual(ESCPOS.INIT);
+    expect(contains(out, [...ESCPOS.BOLD_ON, ...ESCPOS.DOUBLE_ON, ...Buffer.from('Shop\n')])).toBe(true);
+    expect(contains(out, [...ESCPOS.DOUBLE_OFF, ...ESCPOS.BOLD_OFF, ...Buffer.from('ok\n')])).toBe(true);
+    expect(out.slice(-4)).toEqual(ESCPOS.CUT);
+  });
+
+  it('fits rules and long lines to the paper width', () => {
+    const out = encode('-----\n' + 'x'.repeat(40) + '\n', { columns: 32, cut: false }).toString('latin1');
+    expect(out).toBe('\x1b@' + '-'.repeat(32) + '\n' + 'x'.repeat(32) + '\n\n');
+  });
+
+  it('kicks the drawer and prints a native QR code', () => {
+    const out = bytes(encode(renderTemplate('{{qr LINK}}\n', { LINK: 'upi://pay?pa=a@b' }, 48), { columns: 48, openDrawer: true }));
+    expect(out.slice(2, 7)).toEqual(ESCPOS.DRAWER_KICK);
+    expect(contains(out, qrCode('upi://pay?pa=a@b'))).toBe(true);
+    // store command: length of the data plus 3, little-endian
+    expect(contains(qrCode('abc'), [0x1d, 0x28, 0x6b, 6, 0, 0x31, 0x50, 0x30, 0x61, 0x62, 0x63])).toBe(true);
+  });
+});
+
+describe('printer', () => {
+  it('reads network and device targets', () => {
+    expect(parsePrinterTarget('tcp://192.168.1.50')).toEqual({ kind: 'TCP', host: '192.168.1.50', port: 9100 });
+    expect(parsePrinterTarget('tcp://printer.local:9101')).toEqual({ kind: 'TCP', host: 'printer.local', port: 9101 });
+    expect(parsePrinterTarget('/dev/usb/lp0')).toEqual({ kind: 'FILE', path: '/dev/usb/lp0' });
+    expect(() => parsePrinterTarget(' ')).toThrow('No receipt printer');
+  });
+
+  it('appends each job to a capture file', async () => {
+    const file = path.join(mkdtempSync(path.join(tmpdir(), 'escpos-')), 'capture.bin');
+    const job = encode('hello\n', { columns: 32 });
+    await sendToPrinter({ kind: 'FILE', path: file }, job);
+    await sendToPrinter({ kind: 'FILE', path: file }, job);
+    expect(readFileSync(file)).toEqual(Buffer.concat([job, job]));
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildGstr1, buildGstr3b, gstr1Csv, gstrPeriod, GstrReceipt } from '../src/gstr';
+import { priceLine, summariseTax } from '../src/tax';
+
+/**
+ * GSTR-1 / 3B aggregation over in-memory receipts: B2B by GSTIN, B2C
+ * small by rate and place of supply, credit notes from B2B returns and
+ * 3B table 3.1 net of returns.  Receipts hold paise; the portal files
+ * are in rupees.
+ */
+const GSTIN = '27AAPFU0939F1ZV';
+
+function receipt(
+  receiptNumber: string,
+  lines: [number, number, number][],
+  opts: { status?: string; pos?: string | null; gstin?: string | null; hsn?: string } = {},
+): GstrReceipt {
+  const sign = opts.status === 'RETURNED' ? -1 : 1;
+  const priced = lines.map(([unitPrice, qty, gstRate]) => ({
+    ...priceLine({ unitPrice, quantity: sign * qty, gstRate, cessRate: 0, discount: 0, taxAmount: 0, cessAmount: 0, lineTotal: 0 }),
+    hsnCode: opts.hsn ?? '1905',
+    item: { name: 'Biscuits', unit: 'pcs' },
+  }));
+  const taxes = summariseTax(priced, '29', opts.pos ?? null);
+  return {
+    receiptNumber,
+    // 01:30 IST on 5 April, still the 4th in UTC
+    date: new Date('2025-04-04T20:00:00Z'),
+    status: opts.status ?? 'COMPLETED',
+    totalAmount: priced.reduce((s, l) => s + l.lineTotal, 0),
+    placeOfSupply: opts.pos ?? null,
+    customerGstin: opts.gstin ?? null,
+    taxes: taxes.breakup,
+    lines: priced,
+  };
+}
+
+describe('GSTR-1', () => {
+  const receipts = [
+    receipt('R1', [[10000, 2, 18]], { pos: '27', gstin: GSTIN }),
+    receipt('R2', [[10000, 1, 5], [5000, 1, 0]]),
+    receipt('R3', [[10000, 1, 5]]),
+    receipt('C1', [[10000, 1, 18]], { status: 'RETURNED', pos: '27', gstin: GSTIN }),
+  ];
+  const r = buildGstr1(receipts, '29AAPFU0939F1ZN', '29', '042025', 'Asia/Kolkata');
+
+  it('lists B2B invoices by buyer GSTIN with rate-wise items', () => {
+    expect(r.b2b).toHaveLength(1);
+    expect(r.b2b[0].ctin).toBe(GSTIN);
+    expect(r.b2b[0].inv[0]).toMatchObject({ inum: 'R1', idt: '05-04-2025', pos: '27', val: 236 });
+    expect(r.b2b[0].inv[0].itms[0].itm_det).toMatchObject({ rt: 18, txval: 200, iamt: 36, camt: 0 });
+  });
+
+  it('groups B2C small sales by rate and place of supply', () => {
+    expect(r.b2cs).toEqual([{ sply_ty: 'INTRA', pos: '29', typ: 'OE', rt: 5, txval: 200, iamt: 0, camt: 5, samt: 5, csamt: 0 }]);
+    expect(r.nil.inv).toEqual([{ sply_ty: 'INTRAB2C', nil_amt: 50, expt_amt: 0, ngsup_amt: 0 }]);
+  });
+
+  it('turns B2B returns into positive credit notes', () => {
+    expect(r.cdnr[0].nt[0]).toMatchObject({ ntty: 'C', nt_num: 'C1', val: 118 });
+    expect(r.cdnr[0].nt[0].itms[0].itm_det).toMatchObject({ txval: 100, iamt: 18 });
+  });
+
+  it('nets returns in the HSN summary and exports CSV', () => {
+    const row = r.hsn.data.find((h) => h.rt === 18)!;
+    expect(row).toMatchObject({ hsn_sc: '1905', uqc: 'NOS', qty: 1, txval: 100, iamt: 18 });
+    expect(gstr1Csv(r, 'b2cs').split('\n')[1]).toBe('OE,29-Karnataka,5,200,0');
+  });
+});
+
+describe('return period', () => {
+  it('runs over whole days in the store time zone, by default this month', () => {
+    expect(gstrPeriod({}, '2025-04-17', 'Asia/Kolkata')).toEqual({
+      from: new Date('2025-03-31T18:30:00Z'),
+      to: new Date('2025-04-30T18:30:00Z'),
+      fp: '042025',
+    });
+    expect(gstrPeriod({ from: '2025-02-01', to: '2025-02-28' }, '2025-04-17', 'UTC')).toEqual({
+      from: new Date('2025-02-01T00:00:00Z'),
+      to: new Date('2025-03-01T00:00:00Z'),
+      fp: '022025',
+    });
+  });
+
+  it('refuses dates that are not days or run backwards', () => {
+    expect(() => gstrPeriod({ from: '2025-02-30' }, '2025-04-17', 'UTC')).toThrow('not a date');
+    expect(() => gstrPeriod({ from: ['2025-02-01'] }, '2025-04-17', 'UTC')).toThrow('YYYY-MM-DD');
+    expect(() => gstrPeriod({ from: '2025-04-10', to: '2025-04-01' }, '2025-04-17', 'UTC')).toThrow('after');
+  });
+});
+
+describe('GSTR-3B', () => {
+  it('totals table 3.1 net of returns with nil-rated separately', () => {
+    const r = buildGstr3b(
+      [receipt('R1', [[10000, 2, 18]], { pos: '27' }), receipt('R2', [[5000, 1, 0]]), receipt('C1', [[10000, 1, 18]], { status: 'RETURNED', pos: '27' })],
+      '29AAPFU0939F1ZN',
+      '042025',
+    );
+    expect(r.sup_details.osup_det).toEqual({ txval: 100, iamt: 18, camt: 0, samt: 0, csamt: 0 });
+    expect(r.sup_details.osup_nil_exmp.txval).toBe(50);
+  });
+});
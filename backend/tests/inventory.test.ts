@@ -0,0 +1,51 @@
+import { describe, expect, it } from '@jest/globals';
+import { findShortages, shortageMessage, stockPosition } from '../src/inventory';
+
+/**
+ * Stock on hand and moving weighted average cost over in-memory ledger
+ * entries, and cart quantities checked against it.  Costs are paise.
+ */
+const purchase = (quantity: number, unitCost: number) => ({ type: 'PURCHASE', quantity, unitCost });
+const sale = (quantity: number) => ({ type: 'SALE', quantity: -quantity, unitCost: 0 });
+
+describe('stock position', () => {
+  it('blends purchases into the average by quantity', () => {
+    // 10 @ 1000 then 30 @ 1200 -> 1150
+    expect(stockPosition([purchase(10, 1000), purchase(30, 1200)], 900)).toEqual({ onHand: 40, avgCost: 1150, stockValue: 46000 });
+  });
+
+  it('sells at the average without changing it', () => {
+    const p = stockPosition([purchase(10, 1000), sale(4), purchase(6, 1300), { type: 'RETURN', quantity: 1, unitCost: 0 }], 900);
+    // 6 @ 1000 + 6 @ 1300 = 1150; the return comes back at 1150
+    expect(p).toEqual({ onHand: 13, avgCost: 1150, stockValue: 14950 });
+  });
+
+  it('restarts the average once stock has run out', () => {
+    expect(stockPosition([purchase(2, 1000), sale(3), purchase(5, 2000)], 900).avgCost).toBe(2000);
+  });
+
+  it('falls back to the item cost and keeps loose quantities tidy', () => {
+    expect(stockPosition([], 900)).toEqual({ onHand: 0, avgCost: 900, stockValue: 0 });
+    const loose = stockPosition([{ type: 'ADJUSTMENT', quantity: 1.2, unitCost: 900 }, sale(0.4), sale(0.1)], 8000);
+    expect(loose).toEqual({ onHand: 0.7, avgCost: 8000, stockValue: 5600 });
+  });
+});
+
+describe('stock check', () => {
+  const levels = new Map([
+    [1, { name: 'Amul Butter 100g', unit: 'pcs', onHand: 2 }],
+    [2, { name: 'Tomato', unit: 'kg', onHand: 0 }],
+  ]);
+
+  it('sums an item over its lines before comparing', () => {
+    expect(findShortages([{ itemId: 1, quantity: 1 }], levels)).toEqual([]);
+    const [short] = findShortages([{ itemId: 1, quantity: 1 }, { itemId: 1, quantity: 2 }], levels);
+    expect(short).toMatchObject({ itemId: 1, requested: 3, onHand: 2 });
+    expect(shortageMessage(short)).toBe('Only 2 pcs of Amul Butter 100g left');
+  });
+
+  it('says when nothing is left', () => {
+    const [short] = findShortages([{ itemId: 2, quantity: 0.5 }], levels);
+    expect(shortageMessage(short)).toBe('Tomato is out of stock');
+  });
+});
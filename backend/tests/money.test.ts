@@ -0,0 +1,44 @@
+import { describe, expect, it } from '@jest/globals';
+import { allocate, formatINR, invoiceTotals, roundOff, roundPaise, toPaise } from '../src/money';
+import { priceLine } from '../src/tax';
+
+/**
+ * Integer-paise money: parsing rupee input, half-away-from-zero rounding
+ * and the optional round off to the nearest rupee.
+ */
+const line = (unitPrice: number, quantity: number, gstRate: number) =>
+  priceLine({ unitPrice, quantity, gstRate, cessRate: 0, discount: 0, taxAmount: 0, cessAmount: 0, lineTotal: 0 });
+
+describe('money', () => {
+  it('parses rupees into whole paise', () => {
+    expect(toPaise('12.34')).toBe(1234);
+    expect(toPaise(1.005)).toBe(101);
+    expect(toPaise(0.1 + 0.2)).toBe(30);
+    expect(() => toPaise('abc')).toThrow();
+  });
+
+  it('rounds halves away from zero so returns mirror sales', () => {
+    expect(roundPaise(2.5)).toBe(3);
+    expect(roundPaise(-2.5)).toBe(-3);
+    expect(roundPaise(-0.4)).toBe(0);
+  });
+
+  it('splits an amount by weight without losing a paisa', () => {
+    expect(allocate(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocate(1000, [4000, 4000, 3000])).toEqual([364, 363, 273]);
+    expect(allocate(0, [0, 0])).toEqual([0, 0]);
+  });
+
+  it('rounds off to the nearest rupee only when enabled', () => {
+    expect(roundOff(23650, 'RUPEE')).toBe(50);
+    expect(roundOff(23640, 'RUPEE')).toBe(-40);
+    expect(roundOff(-23650, 'RUPEE')).toBe(-50);
+    expect(roundOff(23650, 'NONE')).toBe(0);
+  });
+
+  it('totals an invoice from rounded lines plus the round off', () => {
+    const t = invoiceTotals([line(12000, 1, 5), line(3000, 1, 12)], 'RUPEE');
+    expect(t).toEqual({ totalBeforeDiscount: 15000, totalDiscount: 0, totalTax: 960, roundOff: 40, totalAmount: 16000 });
+    expect(formatINR(t.totalAmount)).toBe('₹160.00');
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from '@jest/globals';
+import { checkTerminal, financialYear, formatReceiptNumber } from '../src/numbering';
+
+/**
+ * Invoice series roll over on 1 April and the formatted number has to
+ * stay within GST's 16-character limit.
+ */
+describe('receipt numbering', () => {
+  it('runs the financial year from April to March', () => {
+    expect(financialYear(new Date('2025-03-31T18:29:00Z'), 'Asia/Kolkata')).toBe('2024-25');
+    // 00:00 IST on 1 April, still 31 March in UTC
+    expect(financialYear(new Date('2025-03-31T18:30:00Z'), 'Asia/Kolkata')).toBe('2025-26');
+    expect(financialYear(new Date('2025-03-31T18:30:00Z'), 'UTC')).toBe('2024-25');
+    expect(financialYear(new Date('2099-12-31T12:00:00Z'), 'Asia/Kolkata')).toBe('2099-00');
+  });
+
+  it('formats prefix, year and a padded sequence', () => {
+    expect(formatReceiptNumber('T1-', '2025-26', 42)).toBe('T1-2526/00042');
+    expect(formatReceiptNumber('T1-CN', '2025-26', 1)).toBe('T1-CN2526/00001');
+  });
+
+  it('rejects prefixes that push the number past 16 characters', () => {
+    expect(() => formatReceiptNumber('STORE01-TILL-', '2025-26', 1)).toThrow(/16 characters/);
+  });
+});
+
+describe('signing in on a terminal', () => {
+  const store = (rows: Record<string, string>) => {
+    const all = Object.entries(rows).map(([key, value]) => ({ key, value }));
+    return {
+      setting: {
+        findUnique: async ({ where }: any) => all.find((r) => r.key === where.key) ?? null,
+        findMany: async ({ where }: any) => all.filter((r) => where.key.in.includes(r.key)),
+      },
+    } as any;
+  };
+
+  it('takes the configured tills and this server\'s own', async () => {
+    const db = store({ terminals: 'T1,T2' });
+    await expect(checkTerminal(db, 'T2')).resolves.toBeUndefined();
+    await expect(checkTerminal(db, 'T1')).resolves.toBeUndefined();
+  });
+
+  it('refuses an unknown till and one whose numbers would not fit', async () => {
+    await expect(checkTerminal(store({ terminals: 'T1,T2' }), 'T3')).rejects.toThrow('Unknown terminal T3');
+    await expect(checkTerminal(store({ terminals: 'T1,TILL-01' }), 'TILL-01')).rejects.toThrow(/16 characters/);
+    await expect(checkTerminal(store({ terminals: 'T1,TILL-01', receiptPrefix: 'A', creditNotePrefix: 'C' }), 'TILL-01')).resolves.toBeUndefined();
+  });
+});
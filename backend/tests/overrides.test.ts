@@ -0,0 +1,62 @@
+import { describe, expect, it } from '@jest/globals';
+import { lineOverrides, OverrideError, OverrideRules, useOverride } from '../src/overrides';
+
+/**
+ * Manager overrides: which line edits cross the thresholds, and that an
+ * action past them is refused without a supervisor's token.
+ */
+const rules: OverrideRules = {
+  overridePriceBelowCost: true,
+  overrideDiscountPercent: 20,
+  overrideVoidAfterPayment: true,
+  overrideNoSale: true,
+};
+const line = { quantity: 2, unitPrice: 5000, discount: 0, promoDiscount: 0 };
+
+describe('line overrides', () => {
+  it('flags a new price below cost', () => {
+    expect(lineOverrides({ before: line, after: { ...line, unitPrice: 3900 }, cost: 4000, paying: false }, rules)).toEqual([
+      'PRICE_BELOW_COST',
+    ]);
+    expect(lineOverrides({ before: line, after: { ...line, unitPrice: 4000 }, cost: 4000, paying: false }, rules)).toEqual([]);
+    // an item already priced below cost is not flagged for a quantity change
+    const cheap = { ...line, unitPrice: 3000 };
+    expect(lineOverrides({ before: cheap, after: { ...cheap, quantity: 3 }, cost: 4000, paying: false }, rules)).toEqual([]);
+    expect(
+      lineOverrides({ before: line, after: { ...line, unitPrice: 100 }, cost: 4000, paying: false }, { ...rules, overridePriceBelowCost: false }),
+    ).toEqual([]);
+  });
+
+  it('flags a manual discount above the limit, not promotions', () => {
+    const at = (discount: number, promoDiscount = 0) => ({ ...line, discount, promoDiscount });
+    expect(lineOverrides({ before: line, after: at(2000), cost: 0, paying: false }, rules)).toEqual([]);
+    expect(lineOverrides({ before: line, after: at(2001), cost: 0, paying: false }, rules)).toEqual(['DISCOUNT']);
+    expect(lineOverrides({ before: line, after: at(5000, 4000), cost: 0, paying: false }, rules)).toEqual([]);
+    // approved before: the same discount again is fine, more is not
+    expect(lineOverrides({ before: at(3000), after: at(3000), cost: 0, paying: false }, rules)).toEqual([]);
+    expect(lineOverrides({ before: at(3000), after: at(3500), cost: 0, paying: false }, rules)).toEqual(['DISCOUNT']);
+    // selling fewer makes the same discount a bigger share
+    expect(lineOverrides({ before: at(2000), after: { ...at(2000), quantity: 1 }, cost: 0, paying: false }, rules)).toEqual([
+      'DISCOUNT',
+    ]);
+  });
+
+  it('flags removing or reducing lines once payment has started', () => {
+    expect(lineOverrides({ before: line, after: null, cost: 0, paying: false }, rules)).toEqual([]);
+    expect(lineOverrides({ before: line, after: null, cost: 0, paying: true }, rules)).toEqual(['VOID_AFTER_PAYMENT']);
+    expect(lineOverrides({ before: line, after: { ...line, quantity: 1 }, cost: 0, paying: true }, rules)).toEqual([
+      'VOID_AFTER_PAYMENT',
+    ]);
+    expect(lineOverrides({ before: line, after: { ...line, quantity: 3 }, cost: 0, paying: true }, rules)).toEqual([]);
+  });
+});
+
+describe('using an override', () => {
+  it('passes when nothing is needed and refuses a missing token', async () => {
+    const db = {} as any; // not touched on these paths
+    await expect(useOverride(db, [], undefined, 'cart-1', 'x')).resolves.toBeNull();
+    const err = await useOverride(db, ['NO_SALE'], '', null, 'x').catch((e) => e);
+    expect(err).toBeInstanceOf(OverrideError);
+    expect(err).toMatchObject({ code: 'OVERRIDE_REQUIRED', actions: ['NO_SALE'] });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, expect, it } from '@jest/globals';
+import { evaluatePromotions, isLive, parsePromotion, PromoLine, PromotionRule } from '../src/promotions';
+
+/**
+ * Promotion rules over in-memory cart lines: the four promotion types,
+ * happy-hour windows, priority and stacking.  Amounts are paise.
+ */
+const promo = (over: Partial<PromotionRule>): PromotionRule => ({
+  id: 1,
+  name: 'Offer',
+  promoType: 'BUY_X_GET_Y',
+  value: 100,
+  valueType: 'PERCENT',
+  buyQty: null,
+  getQty: null,
+  minAmount: null,
+  maxDiscount: null,
+  categoryId: null,
+  startDate: null,
+  endDate: null,
+  startTime: null,
+  endTime: null,
+  days: null,
+  priority: 0,
+  stackable: false,
+  active: true,
+  items: [],
+  tiers: [],
+  ...over,
+});
+
+const line = (itemId: number, unitPrice: number, quantity: number, categoryId: number | null = null): PromoLine => ({
+  itemId,
+  categoryId,
+  quantity,
+  unitPrice,
+  discount: 0,
+});
+
+const TZ = 'Asia/Kolkata';
+/** 12:00 IST on a Monday */
+const NOON = new Date('2025-04-07T06:30:00Z');
+
+describe('promotion types', () => {
+  it('buy 2 get 1 free discounts the cheapest unit of each group', () => {
+    const bogo = promo({ name: 'Buy 2 Get 1', buyQty: 2, getQty: 1, items: [{ itemId: 1 }, { itemId: 2 }] });
+    const r = evaluatePromotions([line(1, 3000, 2), line(2, 2000, 2)], [bogo], NOON, TZ);
+    // units 3000, 3000, 2000 | 2000: one group, the 2000 unit is free
+    expect(r.lineDiscounts).toEqual([0, 2000]);
+    expect(r.applied).toEqual([{ promotionId: 1, name: 'Buy 2 Get 1', amount: 2000 }]);
+  });
+
+  it('mix and match prices a group across a category', () => {
+    const mm = promo({ promoType: 'MIX_MATCH', buyQty: 3, value: 10000, valueType: 'PRICE', categoryId: 7 });
+    const r = evaluatePromotions([line(1, 4000, 2, 7), line(2, 3000, 2, 7), line(3, 9900, 1, 8)], [mm], NOON, TZ);
+    // group 4000 + 4000 + 3000 = 11000 for 10000; the fourth unit pays full price
+    expect(r.lineDiscounts).toEqual([727, 273, 0]);
+    expect(r.applied[0].amount).toBe(1000);
+  });
+
+  it('quantity tiers use the highest slab reached', () => {
+    const tier = promo({
+      promoType: 'QTY_TIER',
+      valueType: 'PRICE',
+      items: [{ itemId: 1 }],
+      tiers: [{ minQty: 3, value: 900 }, { minQty: 6, value: 800 }],
+    });
+    expect(evaluatePromotions([line(1, 1000, 2)], [tier], NOON, TZ).lineDiscounts).toEqual([0]);
+    expect(evaluatePromotions([line(1, 1000, 4)], [tier], NOON, TZ).lineDiscounts).toEqual([400]);
+    expect(evaluatePromotions([line(1, 1000, 4), line(1, 1000, 2)], [tier], NOON, TZ).lineDiscounts).toEqual([800, 400]);
+  });
+
+  it('bill thresholds spread the discount and respect the cap', () => {
+    const bill = promo({ promoType: 'BILL_THRESHOLD', value: 10, minAmount: 50000, maxDiscount: 4000 });
+    expect(evaluatePromotions([line(1, 20000, 2)], [bill], NOON, TZ).applied).toEqual([]);
+    const r = evaluatePromotions([line(1, 20000, 2), line(2, 10000, 2)], [bill], NOON, TZ);
+    expect(r.lineDiscounts).toEqual([2667, 1333]);
+    expect(r.applied[0].amount).toBe(4000);
+  });
+});
+
+describe('time windows', () => {
+  it('runs happy hours only inside the window and on the listed days', () => {
+    const happy = promo({ startTime: '17:00', endTime: '19:00', days: '1,2,3,4,5' });
+    expect(isLive(happy, new Date('2025-04-07T12:00:00Z'), TZ)).toBe(true); // 17:30 IST
+    expect(isLive(happy, new Date('2025-04-07T13:30:00Z'), TZ)).toBe(false); // 19:00 IST
+    expect(isLive(happy, new Date('2025-04-06T12:00:00Z'), TZ)).toBe(false); // Sunday
+    expect(isLive(promo({ startTime: '22:00', endTime: '02:00' }), new Date('2025-04-06T19:30:00Z'), TZ)).toBe(true);
+  });
+
+  it('reads the window on the store clock, not the server clock', () => {
+    // 11:30 UTC on Monday is 17:00 IST, but Sunday 22:30 is already Monday 04:00 in IST
+    const happy = promo({ startTime: '17:00', endTime: '19:00', days: '1' });
+    expect(isLive(happy, new Date('2025-04-07T11:30:00Z'), TZ)).toBe(true);
+    expect(isLive(happy, new Date('2025-04-07T11:30:00Z'), 'UTC')).toBe(false);
+    const monday = promo({ days: '1' });
+    expect(isLive(monday, new Date('2025-04-06T22:30:00Z'), TZ)).toBe(true);
+    expect(isLive(monday, new Date('2025-04-06T22:30:00Z'), 'UTC')).toBe(false);
+  });
+
+  it('respects start and end dates', () => {
+    const p = promo({ startDate: new Date(2025, 3, 1), endDate: new Date(2025, 3, 30) });
+    expect(isLive(p, NOON, TZ)).toBe(true);
+    expect(isLive(p, new Date(2025, 4, 1), TZ)).toBe(false);
+    expect(isLive({ ...p, active: false }, NOON, TZ)).toBe(false);
+  });
+});
+
+describe('priority and stacking', () => {
+  const lines = [line(1, 10000, 2)];
+  const half = promo({ id: 1, name: 'BOGO 50%', buyQty: 1, getQty: 1, value: 50, priority: 10 });
+  const bill = promo({ id: 2, name: '5% off', promoType: 'BILL_THRESHOLD', value: 5, priority: 1 });
+
+  it('keeps a non-stackable promotion to itself', () => {
+    const r = evaluatePromotions(lines, [bill, half], NOON, TZ);
+    expect(r.applied.map((a) => a.name)).toEqual(['BOGO 50%']);
+    expect(r.lineDiscounts).toEqual([5000]);
+  });
+
+  it('stacks stackable promotions in priority order on the reduced value', () => {
+    const r = evaluatePromotions(lines, [{ ...bill, stackable: true }, { ...half, stackable: true }], NOON, TZ);
+    expect(r.applied).toEqual([
+      { promotionId: 1, name: 'BOGO 50%', amount: 5000 },
+      { promotionId: 2, name: '5% off', amount: 750 },
+    ]);
+  });
+
+  it('does not discount past the line value after a manual discount', () => {
+    const free = promo({ buyQty: 1, getQty: 1 });
+    const r = evaluatePromotions([{ ...line(1, 10000, 2), discount: 15000 }], [free], NOON, TZ);
+    expect(r.lineDiscounts).toEqual([5000]);
+  });
+});
+
+describe('parsePromotion', () => {
+  it('validates promotion input', () => {
+    expect(() => parsePromotion({ name: 'X', promoType: 'BUY_X_GET_Y' })).toThrow('buyQty and getQty required');
+    expect(() => parsePromotion({ name: 'X', promoType: 'MIX_MATCH', buyQty: 3, value: 99.5, valueType: 'PRICE' })).toThrow('whole paise');
+    expect(() => parsePromotion({ name: 'X', promoType: 'BILL_THRESHOLD', value: 5, startTime: '25:00', endTime: '26:00' })).toThrow('HH:MM');
+    const ok = parsePromotion({ name: 'Happy hour', promoType: 'BILL_THRESHOLD', value: 5, startTime: '17:00', endTime: '19:00', itemIds: [1, 1, 2] });
+    expect(ok.data).toMatchObject({ promoType: 'BILL_THRESHOLD', valueType: 'PERCENT', active: true, stackable: false });
+    expect(ok.itemIds).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from '@jest/globals';
+import { canMoveTo, landedCosts, parseGoodsReceipt, parsePurchaseOrder, parseVendor } from '../src/purchasing';
+
+/**
+ * Purchasing helpers: the PO status workflow, landed cost with freight
+ * and request validation.  Amounts are paise.
+ */
+describe('purchase order workflow', () => {
+  it('moves DRAFT to ORDERED and cancels only open orders', () => {
+    expect(canMoveTo('DRAFT', 'ORDERED')).toBe(true);
+    expect(canMoveTo('DRAFT', 'CANCELLED')).toBe(true);
+    expect(canMoveTo('ORDERED', 'CANCELLED')).toBe(true);
+    expect(canMoveTo('ORDERED', 'DRAFT')).toBe(false);
+    expect(canMoveTo('ORDERED', 'RECEIVED')).toBe(false); // only a goods receipt closes an order
+    expect(canMoveTo('RECEIVED', 'CANCELLED')).toBe(false);
+    expect(canMoveTo('CANCELLED', 'ORDERED')).toBe(false);
+  });
+});
+
+describe('landed cost', () => {
+  it('spreads freight by line value', () => {
+    // values 10000 and 30000 share 1000 freight as 250 / 750
+    expect(landedCosts([{ quantity: 10, unitCost: 1000 }, { quantity: 5, unitCost: 6000 }], 1000)).toEqual([1025, 6150]);
+  });
+
+  it('is the invoice cost when there is no freight', () => {
+    expect(landedCosts([{ quantity: 3, unitCost: 4599 }], 0)).toEqual([4599]);
+  });
+
+  it('rounds per unit for loose quantities', () => {
+    expect(landedCosts([{ quantity: 2.5, unitCost: 4000 }, { quantity: 1, unitCost: 10000 }], 100)).toEqual([4020, 10050]);
+  });
+});
+
+describe('validation', () => {
+  it('checks vendor input', () => {
+    expect(() => parseVendor({ gstin: '' })).toThrow('name required');
+    expect(() => parseVendor({ name: 'Acme', gstin: '29AAAAA0000A1Z0' })).toThrow('Invalid GSTIN');
+    expect(parseVendor({ name: ' Acme ', gstin: '27aapfu0939f1zv', phone: '' })).toEqual({
+      name: 'Acme',
+      gstin: '27AAPFU0939F1ZV',
+      address: null,
+      phone: null,
+      contactPerson: null,
+    });
+  });
+
+  it('checks purchase order and goods receipt input', () => {
+    expect(() => parsePurchaseOrder({ vendorId: 1, lines: [] })).toThrow('at least one line');
+    expect(() => parsePurchaseOrder({ vendorId: 1, lines: [{ itemId: 1, quantity: 2, unitCost: 10.5 }] })).toThrow('whole paise');
+    expect(() => parseGoodsReceipt({ purchaseOrderId: 1, lines: [{ lineId: 1, quantity: 0 }] })).toThrow('more than 0');
+    const grn = parseGoodsReceipt({ purchaseOrderId: 1, freight: 500, lines: [{ lineId: 3, quantity: 4, expiryDate: '2026-03-31' }] });
+    expect(grn.lines[0]).toMatchObject({ lineId: 3, quantity: 4, unitCost: null, batchNo: null });
+    expect(grn.lines[0].expiryDate).toEqual(new Date('2026-03-31'));
+  });
+});
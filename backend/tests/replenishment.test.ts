@@ -0,0 +1,37 @@
+import { describe, expect, it } from '@jest/globals';
+import { daysToExpiry, parseReorderOptions, suggestedQuantity } from '../src/replenishment';
+
+/**
+ * Reorder suggestions and expiry countdowns.
+ */
+describe('reorder suggestion', () => {
+  it('orders up to the reorder level plus the cover period', () => {
+    // 2 on hand, level 10, selling 1.5 a day, 14 days cover -> 10 + 21 - 2
+    expect(suggestedQuantity(2, 10, 1.5, 14)).toBe(29);
+    expect(suggestedQuantity(-3, 5, 0, 14)).toBe(8); // negative stock is made good too
+    expect(suggestedQuantity(0.4, 2, 0.1, 7)).toBe(3); // whole units
+    expect(suggestedQuantity(12, 10, 0, 14)).toBe(0);
+    // stock still to arrive on open orders counts
+    expect(suggestedQuantity(2, 10, 1.5, 14, 20)).toBe(9);
+    expect(suggestedQuantity(2, 10, 1.5, 14, 29)).toBe(0);
+  });
+
+  it('validates the window and cover days', () => {
+    expect(parseReorderOptions({})).toEqual({ days: 30, coverDays: 14 });
+    expect(parseReorderOptions({ days: '7', coverDays: '3' })).toEqual({ days: 7, coverDays: 3 });
+    expect(() => parseReorderOptions({ days: '0' })).toThrow('days');
+    expect(() => parseReorderOptions({ coverDays: '-1' })).toThrow('coverDays');
+  });
+});
+
+describe('expiry countdown', () => {
+  it('counts calendar days, negative once expired', () => {
+    // 22:15 IST on 30 March
+    const now = new Date('2025-03-30T16:45:00Z');
+    expect(daysToExpiry(new Date('2025-04-02'), now, 'Asia/Kolkata')).toBe(3);
+    expect(daysToExpiry(new Date('2025-03-30'), now, 'Asia/Kolkata')).toBe(0);
+    expect(daysToExpiry(new Date('2025-03-28'), now, 'Asia/Kolkata')).toBe(-2);
+    // 01:15 IST on 31 March is already the next day
+    expect(daysToExpiry(new Date('2025-04-02'), new Date('2025-03-30T19:45:00Z'), 'Asia/Kolkata')).toBe(2);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from '@jest/globals';
+import { splitRestock } from '../src/returns';
+
+/**
+ * Returned stock goes back into the batches the sale took it from, at
+ * the cost each went out at.  Costs are paise.
+ */
+describe('restocking a return', () => {
+  // 5 sold: 2 from batch 1, 3 from batch 2
+  const sold = [
+    { batchId: 1, quantity: -2, unitCost: 900 },
+    { batchId: 2, quantity: -3, unitCost: 1000 },
+  ];
+
+  it('splits the quantity over the batches it came from', () => {
+    expect(splitRestock(sold, [], 4, 950)).toEqual([
+      { batchId: 1, quantity: 2, unitCost: 900 },
+      { batchId: 2, quantity: 2, unitCost: 1000 },
+    ]);
+  });
+
+  it('skips what earlier returns already put back', () => {
+    const returned = [{ batchId: 1, quantity: 2, unitCost: 900 }, { batchId: 2, quantity: 1, unitCost: 1000 }];
+    expect(splitRestock(sold, returned, 2, 950)).toEqual([{ batchId: 2, quantity: 2, unitCost: 1000 }]);
+  });
+
+  it('brings back what no sale entry covers unbatched at the fallback cost', () => {
+    expect(splitRestock([{ batchId: null, quantity: -0.5, unitCost: 8000 }], [], 0.75, 7500)).toEqual([
+      { batchId: null, quantity: 0.5, unitCost: 8000 },
+      { batchId: null, quantity: 0.25, unitCost: 7500 },
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from '@jest/globals';
+import { ean13CheckDigit, isValidFormat, labelQuantity, parseScaleBarcode } from '../src/scale';
+
+/**
+ * Weighing-scale labels (GS1 variable-measure EAN-13).  Prices are paise.
+ */
+describe('check digit', () => {
+  it('matches the GS1 algorithm', () => {
+    expect(ean13CheckDigit('400638133393')).toBe(1);
+    expect(ean13CheckDigit('210012301250')).toBe(3);
+  });
+});
+
+describe('scale labels', () => {
+  it('reads a PLU and a weight in kg', () => {
+    expect(parseScaleBarcode('2100123012503')).toEqual({ plu: '00123', kind: 'WEIGHT', weight: 1.25 });
+  });
+
+  it('reads a PLU and a price', () => {
+    expect(parseScaleBarcode('2200123050007')).toEqual({ plu: '00123', kind: 'PRICE', price: 5000 });
+  });
+
+  it('rejects bad check digits, other ranges and unknown prefixes', () => {
+    expect(parseScaleBarcode('2100123012504')).toBeNull();
+    expect(parseScaleBarcode('4006381333931')).toBeNull();
+    expect(parseScaleBarcode('2100123012503', [])).toBeNull();
+    expect(parseScaleBarcode('21001230125')).toBeNull();
+  });
+
+  it('follows a configured layout', () => {
+    const formats = [{ prefix: '23', kind: 'WEIGHT' as const, pluDigits: 4, valueDigits: 6, decimals: 3 }];
+    const code = '230123001250';
+    expect(parseScaleBarcode(code + ean13CheckDigit(code), formats)).toEqual({ plu: '0123', kind: 'WEIGHT', weight: 1.25 });
+  });
+
+  it('validates layouts', () => {
+    expect(isValidFormat({ prefix: '21', kind: 'WEIGHT', pluDigits: 5, valueDigits: 5, decimals: 3 })).toBe(true);
+    expect(isValidFormat({ prefix: '31', kind: 'WEIGHT', pluDigits: 5, valueDigits: 5, decimals: 3 })).toBe(false);
+    expect(isValidFormat({ prefix: '21', kind: 'PRICE', pluDigits: 5, valueDigits: 4, decimals: 2 })).toBe(false);
+  });
+
+  it('turns a label into a quantity at the per-kg price', () => {
+    expect(labelQuantity({ plu: '00123', kind: 'WEIGHT', weight: 0.75 }, 4000)).toBe(0.75);
+    expect(labelQuantity({ plu: '00123', kind: 'PRICE', price: 5000 }, 4000)).toBe(1.25);
+    // to the gram
+    expect(labelQuantity({ plu: '00123', kind: 'PRICE', price: 5000 }, 3000)).toBe(1.667);
+  });
+});
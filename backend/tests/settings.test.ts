@@ -0,0 +1,76 @@
+import { describe, expect, it } from '@jest/globals';
+import { parseSettings, resolveSetting } from '../src/settings';
+
+/**
+ * Typed settings: a stored value wins, then the env var, then the
+ * default; updates are validated before they are stored.
+ */
+describe('resolving a setting', () => {
+  it('prefers the stored value, then the env var, then the default', () => {
+    const env = { STORE_NAME: 'Env Mart', CASH_ROUNDING: 'true' };
+    expect(resolveSetting('storeName', 'Stored Mart', env)).toBe('Stored Mart');
+    expect(resolveSetting('storeName', undefined, env)).toBe('Env Mart');
+    expect(resolveSetting('storeName', undefined, {})).toBe('My Store');
+    expect(resolveSetting('roundOff', undefined, env)).toBe('RUPEE');
+    expect(resolveSetting('roundOff', 'NONE', env)).toBe('NONE');
+  });
+
+  it('skips a bad stored value and keeps an empty one', () => {
+    expect(resolveSetting('placeOfSupply', 'nowhere', { PLACE_OF_SUPPLY: 'MH' })).toBe('27');
+    expect(resolveSetting('allowNegativeStock', 'maybe', {})).toBe(true);
+    expect(resolveSetting('storeAddress', '', { STORE_ADDRESS: 'Env Road' })).toBe('');
+  });
+});
+
+describe('updating settings', () => {
+  it('normalises valid values', () => {
+    expect(parseSettings({ placeOfSupply: 'KA', gstin: ' 29aabcu9603r1zj ', pricesIncludeTax: true, printerPaper: '58mm' })).toEqual({
+      placeOfSupply: '29',
+      gstin: '29AABCU9603R1ZJ',
+      pricesIncludeTax: true,
+      printerPaper: '58mm',
+    });
+  });
+
+  it('keeps a list of terminal ids', () => {
+    expect(parseSettings({ terminals: ' T1, T2,T1 ' })).toEqual({ terminals: ['T1', 'T2'] });
+    expect(parseSettings({ terminals: ['T1', 'BACK'] })).toEqual({ terminals: ['T1', 'BACK'] });
+    expect(resolveSetting('terminals', undefined, { TERMINALS: 'T1,T2' })).toEqual(['T1', 'T2']);
+  });
+
+  it('takes number prefixes for the store and for one terminal', () => {
+    expect(parseSettings({ receiptPrefix: 'S{terminal}-', 'creditNotePrefix.T2': 'CN2-' })).toEqual({
+      receiptPrefix: 'S{terminal}-',
+      'creditNotePrefix.T2': 'CN2-',
+    });
+    expect(() => parseSettings({ receiptPrefix: 'STORE01-' })).toThrow('at most 6 characters');
+    expect(() => parseSettings({ 'receiptPrefix.T2': 'A B' })).toThrow('letters, digits');
+    expect(() => parseSettings({ 'receiptPrefix.TILL 2': 'A' })).toThrow('Unknown setting');
+  });
+
+  it('reads loyalty rates and scale layouts', () => {
+    expect(parseSettings({ loyaltyPointsPerRupee: '0.02', loyaltyPointValue: 50 })).toEqual({
+      loyaltyPointsPerRupee: 0.02,
+      loyaltyPointValue: 50,
+    });
+    expect(resolveSetting('loyaltyPointValue', undefined, { LOYALTY_POINT_VALUE: '25' })).toBe(25);
+    const weight = { prefix: '23', kind: 'WEIGHT', pluDigits: 4, valueDigits: 6, decimals: 3 };
+    expect(parseSettings({ scaleBarcodeFormats: JSON.stringify([weight]) })).toEqual({ scaleBarcodeFormats: [weight] });
+    expect(resolveSetting('scaleBarcodeFormats', 'not json', {})).toHaveLength(2);
+    expect(() => parseSettings({ loyaltyPointValue: 0.5 })).toThrow('whole number of paise');
+    expect(() => parseSettings({ scaleBarcodeFormats: [{ ...weight, prefix: '31' }] })).toThrow('2x prefix');
+  });
+
+  it('refuses unknown keys and bad values', () => {
+    expect(() => parseSettings({ colour: 'red' })).toThrow('Unknown setting colour');
+    expect(() => parseSettings({ storeName: ' ' })).toThrow('storeName is required');
+    expect(() => parseSettings({ gstin: '29AABCU9603R1ZX' })).toThrow('not a valid GSTIN');
+    expect(() => parseSettings({ upiVpa: 'no-at-sign' })).toThrow('name@bank');
+    expect(() => parseSettings({ roundOff: 'PAISE' })).toThrow('NONE, RUPEE');
+    expect(() => parseSettings({ pricesIncludeTax: 'yes' })).toThrow('true or false');
+    expect(() => parseSettings({ timezone: 'India/Bengaluru' })).toThrow('IANA time zone');
+    expect(() => parseSettings({ terminals: '' })).toThrow('at least one terminal');
+    expect(() => parseSettings({ terminals: 'T1,TILL NUMBER 9' })).toThrow('1 to 8 letters');
+    expect(() => parseSettings([])).toThrow('must be an object');
+  });
+});
@@ -0,0 +1,65 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import request from 'supertest';
+import { testApp } from './e2e';
+
+/**
+ * Shift routes end to end: a cashier signed in on a till opens a shift,
+ * sells into it, drops cash and closes with a blind count; checkout is
+ * refused on a till with no shift open.
+ */
+describe('shift routes', () => {
+  let t: Awaited<ReturnType<typeof testApp>>;
+  let token: string;
+  const api = (method: 'get' | 'post', url: string, auth = token) =>
+    request(t.app)[method](url).set('Authorization', `Bearer ${auth}`);
+
+  /** a cart with one ₹120 item, completed in cash */
+  const sell = async () => {
+    const cart = (await api('post', '/api/checkout/start').expect(200)).body;
+    await api('post', '/api/checkout/add').send({ cartId: cart.id, barcode: '8900000000011' }).expect(200);
+    return api('post', '/api/checkout/complete').send({ cartId: cart.id, payments: [{ method: 'CASH', amount: 12000 }] });
+  };
+
+  beforeAll(async () => {
+    t = await testApp('shifts.e2e');
+    token = await t.login('cashier', 'T9');
+  });
+  afterAll(async () => {
+    await t?.close();
+  });
+
+  it('refuses a sale while no shift is open', async () => {
+    const r = await sell();
+    expect(r.status).toBe(409);
+    expect(r.body.code).toBe('NO_SHIFT');
+  });
+
+  it('opens a shift on the session’s terminal', async () => {
+    const r = await api('post', '/api/shifts/open').send({ openingFloat: 100000 }).expect(200);
+    expect(r.body).toMatchObject({ terminal: 'T9', status: 'OPEN', openingFloat: 100000 });
+    // another till has no shift
+    const elsewhere = await t.login('cashier', 'T2');
+    expect((await api('get', '/api/shifts/current', elsewhere).expect(200)).body?.id).toBeUndefined();
+  });
+
+  it('takes a sale into the open shift', async () => {
+    const shift = (await api('get', '/api/shifts/current').expect(200)).body;
+    const r = await sell();
+    expect(r.status).toBe(200);
+    expect(r.body).toMatchObject({ terminal: 'T9', shiftId: shift.id, totalAmount: 12000 });
+  });
+
+  it('records a cash drop', async () => {
+    const r = await api('post', '/api/shifts/current/movements').send({ type: 'DROP', amount: 50000 }).expect(200);
+    expect(r.body).toMatchObject({ type: 'DROP', amount: 50000 });
+  });
+
+  it('closes with a blind count and reports the variance', async () => {
+    // float 1000 + sale 120 - drop 500 = 620 expected; 610 counted
+    const r = await api('post', '/api/shifts/current/close').send({ cash: { 500: 1, 100: 1, 10: 1 } }).expect(200);
+    expect(r.body.shift.status).toBe('CLOSED');
+    expect(r.body.reconciliation.rows).toContainEqual({ code: 'CASH', expected: 62000, counted: 61000, variance: -1000 });
+    expect(r.body.reconciliation.variance).toBe(-1000);
+    expect((await sell()).status).toBe(409);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from '@jest/globals';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { renderTemplate } from '../src/escpos';
+import { shiftTemplateData } from '../src/printer';
+import { cashTotal, parseShiftCount, reconcile, ShiftReport, summariseShift } from '../src/shifts';
+
+/**
+ * Shift cash-up: the blind count by denomination, what the drawer should
+ * hold per tender after change, refunds and cash movements, and the
+ * variance between the two.
+ */
+const cash = { code: 'CASH', name: 'Cash' };
+const card = { code: 'CARD', name: 'Card' };
+const credit = { code: 'STORE_CREDIT', name: 'Store credit' };
+
+const activity = {
+  openingFloat: 200000,
+  receipts: [
+    // ₹236.50 paid with ₹300 cash
+    { status: 'COMPLETED', totalAmount: 23650, changeDue: 6350, payments: [{ amount: 30000, paymentMethod: cash }] },
+    { status: 'COMPLETED', totalAmount: 50000, changeDue: 0, payments: [{ amount: 50000, paymentMethod: card }] },
+    // cash refund, and an exchange credit used on the same shift
+    { status: 'RETURNED', totalAmount: -10000, changeDue: 0, payments: [{ amount: -10000, paymentMethod: cash }] },
+    { status: 'RETURNED', totalAmount: -5000, changeDue: 0, payments: [{ amount: -5000, paymentMethod: credit }] },
+  ],
+  movements: [
+    { type: 'DROP', amount: 100000 },
+    { type: 'PAYOUT', amount: 2000 },
+    { type: 'PAYIN', amount: 500 },
+  ],
+};
+
+describe('blind count', () => {
+  it('adds up notes and coins', () => {
+    expect(cashTotal({ 500: 2, 100: 3, 2: 1 })).toBe(130200);
+    expect(cashTotal({})).toBe(0);
+  });
+
+  it('refuses unknown notes, part counts and cash given as a total', () => {
+    expect(() => cashTotal({ 25: 1 })).toThrow('Unknown denomination 25');
+    expect(() => cashTotal({ 100: 1.5 })).toThrow('whole number');
+    expect(() => parseShiftCount({ tenders: { CASH: 1000 } })).toThrow('by denomination');
+    expect(() => parseShiftCount({ tenders: { card: -1 } })).toThrow('paise');
+    expect(parseShiftCount({ cash: { 500: '2' }, tenders: { card: 50000 } })).toEqual({ cash: { 500: 2 }, tenders: { CARD: 50000 } });
+  });
+});
+
+describe('shift summary', () => {
+  it('nets change and refunds and moves cash in and out of the drawer', () => {
+    const s = summariseShift(activity);
+    expect(s.sales).toEqual({ count: 2, total: 73650 });
+    expect(s.returns).toEqual({ count: 2, total: -15000 });
+    expect(s.tenders.find((t) => t.code === 'CASH')).toEqual({ ...cash, sales: 23650, refunds: -10000, net: 13650 });
+    expect(s.cash).toEqual({ openingFloat: 200000, drops: 100000, payouts: 2000, payins: 500 });
+    // store credit is reported but there is nothing to count
+    expect(s.expected).toEqual({ CASH: 200000 + 13650 - 100000 - 2000 + 500, CARD: 50000 });
+  });
+
+  it('reconciles the count per tender', () => {
+    const { expected } = summariseShift(activity);
+    const r = reconcile(expected, { cash: { 500: 2, 100: 1, 20: 1, 1: 1 }, tenders: { CARD: 50000, UPI: 0 } });
+    expect(r.rows).toEqual([
+      { code: 'CASH', expected: 112150, counted: 112100, variance: -50 },
+      { code: 'CARD', expected: 50000, counted: 50000, variance: 0 },
+      { code: 'UPI', expected: 0, counted: 0, variance: 0 },
+    ]);
+    expect(r.variance).toBe(-50);
+    // nothing counted for a tender that took money
+    expect(reconcile(expected, { cash: {}, tenders: {} }).rows[1]).toEqual({ code: 'CARD', expected: 50000, counted: 0, variance: -50000 });
+  });
+});
+
+describe('Z report', () => {
+  it('prints within the 80mm paper', () => {
+    const summary = summariseShift(activity);
+    const count = { cash: { 500: 2, 100: 1, 20: 1, 1: 1 }, tenders: { CARD: 50000 } };
+    // 09:00 and 17:30 IST, whatever the server's zone
+    const at = new Date('2025-04-01T03:30:00Z');
+    const report = {
+      kind: 'Z',
+      shift: {
+        id: 7,
+        terminal: 'T1',
+        openedAt: at,
+        closedAt: new Date('2025-04-01T12:00:00Z'),
+        opener: { id: 1, username: 'cashier', fullName: 'Cashier' },
+        closer: { id: 1, username: 'cashier', fullName: 'Cashier' },
+        notes: null,
+      },
+      ...summary,
+      reconciliation: reconcile(summary.expected, count),
+    } as unknown as ShiftReport;
+    const template = readFileSync(path.resolve(__dirname, '../../escpos_templates/shift_80mm.txt'), 'utf8');
+    const text = renderTemplate(template, shiftTemplateData(report, 'My Store', 'Asia/Kolkata'), 48);
+    expect(text).toContain('Z REPORT');
+    expect(text).toMatch(/Opened\s+2025-04-01 09:00 cashier/);
+    expect(text).toMatch(/Cash\s+1121\.00\s+1121\.50\s+-0\.50/);
+    expect(text).toMatch(/Variance\s+-0\.50/);
+    // style marks take no room on paper
+    for (const line of text.split('\n')) expect(line.replace(/[\uE000-\uE0FF]/g, '').length).toBeLessThanOrEqual(48);
+  });
+});
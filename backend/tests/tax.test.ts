@@ -0,0 +1,102 @@
+import { describe, expect, it } from '@jest/globals';
+import { amountInWords, hsnSummary } from '../src/invoice';
+import { isValidGstin, normaliseStateCode, priceLine, summariseTax, TaxedLine } from '../src/tax';
+
+/**
+ * GST split rules: CGST/SGST halves for intra-state sales, IGST when the
+ * place of supply differs from the store's state, and cess on top of
+ * either.  Amounts are paise.  These are pure functions so no database
+ * is needed.
+ */
+const line = (unitPrice: number, quantity: number, gstRate: number, cessRate = 0, discount = 0): TaxedLine =>
+  priceLine({ unitPrice, quantity, gstRate, cessRate, discount, taxAmount: 0, cessAmount: 0, lineTotal: 0 });
+
+describe('GST split', () => {
+  it('halves GST into CGST/SGST for an intra-state sale', () => {
+    const lines = [line(12000, 1, 5), line(3000, 1, 12)];
+    const t = summariseTax(lines, '29', null);
+    expect(t.interState).toBe(false);
+    expect(t.cgst).toBe(480);
+    expect(t.sgst).toBe(480);
+    expect(t.igst).toBe(0);
+    expect(t.breakup.map((b) => b.gstRate)).toEqual([5, 12]);
+    expect(t.breakup[0]).toMatchObject({ taxableValue: 12000, cgst: 300, sgst: 300 });
+  });
+
+  it('charges IGST when the place of supply is another state', () => {
+    const t = summariseTax([line(10000, 2, 18)], '29', '27');
+    expect(t.interState).toBe(true);
+    expect(t.igst).toBe(3600);
+    expect(t.cgst + t.sgst).toBe(0);
+  });
+
+  it('adds cess on the discounted value', () => {
+    const l = line(100000, 1, 28, 12, 10000);
+    expect(l.cessAmount).toBe(10800);
+    expect(l.taxAmount).toBe(25200 + 10800);
+    expect(l.lineTotal).toBe(90000 + 36000);
+    expect(summariseTax([l], '29').cess).toBe(10800);
+  });
+
+  it('rounds tax per line and never loses a paisa in the CGST/SGST split', () => {
+    // 0.5 kg at ₹33.33/kg = ₹16.665 -> 1667 paise; 5% = 83.35 -> 83 paise
+    const l = line(3333, 0.5, 5);
+    expect(l.lineTotal - l.taxAmount).toBe(1667);
+    expect(l.taxAmount).toBe(83);
+    const t = summariseTax([l], '29');
+    expect(t.cgst + t.sgst).toBe(83);
+    expect(t.cgst).toBe(42);
+  });
+
+  it('backs tax out of a tax-inclusive price', () => {
+    const l = priceLine({ ...line(11800, 1, 18), taxInclusive: true });
+    expect(l.lineTotal).toBe(11800);
+    expect(l.taxAmount).toBe(1800);
+    // ₹105 at 28% + 12% cess: ₹75 taxable, ₹9 cess, ₹21 GST
+    const c = priceLine({ ...line(10500, 1, 28, 12), taxInclusive: true });
+    expect([c.lineTotal - c.taxAmount, c.cessAmount, c.taxAmount - c.cessAmount]).toEqual([7500, 900, 2100]);
+    const d = priceLine({ ...line(10000, 1, 5, 0, 1000), taxInclusive: true });
+    expect(d.lineTotal).toBe(9000);
+    expect(d.lineTotal - d.taxAmount).toBe(8571);
+  });
+
+  it('charges a scale label its printed price, not the rounded weight', () => {
+    // ₹50 of an item at ₹30/kg is 1.667 kg, which would come to ₹50.01
+    const l = priceLine({ ...line(3000, 1.667, 5), labelPrice: 5000, taxInclusive: true });
+    expect(l.lineTotal).toBe(5000);
+    expect(priceLine({ ...l, labelPrice: null }).lineTotal).toBe(5001);
+  });
+
+  it('recognises state codes, abbreviations and GSTINs', () => {
+    expect(normaliseStateCode('KA')).toBe('29');
+    expect(normaliseStateCode('27AABCU9603R1ZV')).toBe('27');
+    expect(normaliseStateCode('7')).toBe('07');
+    expect(normaliseStateCode('XX')).toBeNull();
+  });
+});
+
+describe('tax invoice helpers', () => {
+  it('validates GSTIN check characters', () => {
+    expect(isValidGstin('27AAPFU0939F1ZV')).toBe(true);
+    expect(isValidGstin('27AAPFU0939F1ZX')).toBe(false);
+    expect(isValidGstin('XXABCDE1234F1Z5')).toBe(false);
+  });
+
+  it('writes amounts in words with lakh and crore', () => {
+    expect(amountInWords(15960)).toBe('Rupees One Hundred Fifty Nine and Sixty Paise Only');
+    expect(amountInWords(1234567800)).toBe('Rupees One Crore Twenty Three Lakh Forty Five Thousand Six Hundred Seventy Eight Only');
+  });
+
+  it('summarises lines by HSN and rate', () => {
+    const rows = hsnSummary(
+      [
+        { ...line(12000, 1, 5), hsnCode: '1006' },
+        { ...line(6000, 2, 5), hsnCode: '1006' },
+        { ...line(3000, 1, 12), hsnCode: '2106' },
+      ],
+      false,
+    );
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({ hsnCode: '1006', quantity: 3, taxableValue: 24000, cgst: 600, sgst: 600 });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from '@jest/globals';
+import { checkTenders, spendStoreCredit, TenderError } from '../src/sales';
+
+/**
+ * Tender rules enforced at checkout: full coverage, change only from
+ * cash, non-cash tenders capped at the balance.
+ */
+const fail = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (e) {
+    return e as TenderError;
+  }
+  throw new Error('expected a TenderError');
+};
+
+describe('checkTenders', () => {
+  it('gives change when cash overpays', () => {
+    expect(checkTenders(23650, [{ code: 'UPI', amount: 10000 }, { code: 'CASH', amount: 20000 }])).toEqual({ paid: 30000, change: 6350 });
+  });
+
+  it('rejects an underpaid or unpaid bill', () => {
+    const e = fail(() => checkTenders(10000, [{ code: 'CASH', amount: 6000 }]));
+    expect(e).toBeInstanceOf(TenderError);
+    expect(e.code).toBe('UNDERPAID');
+    expect(e.details).toMatchObject({ due: 10000, paid: 6000, balance: 4000 });
+    expect(fail(() => checkTenders(10000, [])).code).toBe('UNDERPAID');
+  });
+
+  it('does not let card or UPI exceed the balance', () => {
+    const e = fail(() => checkTenders(10000, [{ code: 'CARD', amount: 6000 }, { code: 'UPI', amount: 5000 }]));
+    expect(e.code).toBe('EXCEEDS_BALANCE');
+    expect(e.details).toMatchObject({ tenderIndex: 1, balance: 4000 });
+  });
+
+  it('rejects zero, negative and fractional-paise amounts', () => {
+    expect(fail(() => checkTenders(1000, [{ code: 'CASH', amount: 0 }])).code).toBe('INVALID_AMOUNT');
+    expect(fail(() => checkTenders(1000, [{ code: 'CASH', amount: 10.5 }])).code).toBe('INVALID_AMOUNT');
+  });
+
+  it('accepts a free bill with no tenders', () => {
+    expect(checkTenders(0, [])).toEqual({ paid: 0, change: 0 });
+  });
+});
+
+describe('store credit', () => {
+  // one note with ₹100 left; updateMany stands in for the conditional decrement
+  const notes = () => {
+    const note = { id: 1, number: 'T1-CN2526/00001', balance: 10000 };
+    const db = {
+      creditNote: {
+        findUnique: async ({ where }: any) => (where.number === note.number ? { ...note } : null),
+        updateMany: async ({ where, data }: any) => {
+          if (where.id !== note.id || note.balance < where.balance.gte) return { count: 0 };
+          note.balance -= data.balance.decrement;
+          return { count: 1 };
+        },
+      },
+    } as any;
+    return { note, db };
+  };
+
+  it('spends an issued note down to its balance', async () => {
+    const { note, db } = notes();
+    await spendStoreCredit(db, [
+      { code: 'CASH', amount: 500 },
+      { code: 'STORE_CREDIT', amount: 6000, reference: ' T1-CN2526/00001 ' },
+    ]);
+    expect(note.balance).toBe(4000);
+    const err = await spendStoreCredit(db, [{ code: 'STORE_CREDIT', amount: 4001, reference: note.number }]).catch((e) => e);
+    expect(err).toBeInstanceOf(TenderError);
+    expect(err).toMatchObject({ code: 'INSUFFICIENT_CREDIT', details: { tenderIndex: 0, balance: 4000 } });
+    expect(note.balance).toBe(4000);
+  });
+
+  it('refuses credit without a note, or split to go past the balance', async () => {
+    const { db } = notes();
+    const code = (tenders: any[]) => spendStoreCredit(db, tenders).catch((e) => e.code);
+    expect(await code([{ code: 'STORE_CREDIT', amount: 100 }])).toBe('UNKNOWN_CREDIT_NOTE');
+    expect(await code([{ code: 'STORE_CREDIT', amount: 100, reference: 'T1-CN2526/00009' }])).toBe('UNKNOWN_CREDIT_NOTE');
+    const twice = { code: 'STORE_CREDIT', amount: 6000, reference: 'T1-CN2526/00001' };
+    expect(await code([twice, twice])).toBe('INSUFFICIENT_CREDIT');
+  });
+});
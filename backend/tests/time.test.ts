@@ -0,0 +1,30 @@
+import { describe, expect, it } from '@jest/globals';
+import { dayRange, localDate } from '../src/time';
+
+/**
+ * The store's clock: business days run midnight to midnight in the
+ * store's time zone.
+ */
+describe('business day', () => {
+  it('runs midnight to midnight IST, not UTC', () => {
+    expect(dayRange('2025-04-01', 'Asia/Kolkata')).toEqual({
+      from: new Date('2025-03-31T18:30:00Z'),
+      to: new Date('2025-04-01T18:30:00Z'),
+    });
+    // 01:00 IST on 2 April is still 1 April in UTC
+    expect(localDate(new Date('2025-04-01T19:30:00Z'), 'Asia/Kolkata')).toBe('2025-04-02');
+    expect(localDate(new Date('2025-04-01T19:30:00Z'), 'UTC')).toBe('2025-04-01');
+  });
+
+  it('follows daylight saving where the zone has it', () => {
+    // London goes to BST on 30 March 2025: a 23-hour day
+    const { from, to } = dayRange('2025-03-30', 'Europe/London');
+    expect(from).toEqual(new Date('2025-03-30T00:00:00Z'));
+    expect(to).toEqual(new Date('2025-03-30T23:00:00Z'));
+  });
+
+  it('refuses dates that do not exist', () => {
+    expect(() => dayRange('2025-02-30', 'Asia/Kolkata')).toThrow('not a date');
+    expect(() => dayRange('1/4/2025', 'Asia/Kolkata')).toThrow('YYYY-MM-DD');
+  });
+});
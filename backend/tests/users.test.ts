@@ -0,0 +1,136 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { allow } from '../src/auth';
+import { hashPassword, isLegacyPassword, parseUser, PIN_ATTEMPTS, rolePermissions, saveUser, supervisorByPin, verifyPassword } from '../src/users';
+
+/**
+ * Users and permissions: hashed passwords, role permissions and the
+ * `allow` middleware that guards API routes.
+ */
+describe('passwords', () => {
+  it('stores a salted hash that verifies only the right password', async () => {
+    const a = await hashPassword('s3cret-pass');
+    const b = await hashPassword('s3cret-pass');
+    expect(a).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{64}$/);
+    expect(a).not.toBe(b);
+    expect(await verifyPassword('s3cret-pass', a)).toBe(true);
+    expect(await verifyPassword('s3cret-Pass', a)).toBe(false);
+  });
+
+  it('still accepts a plain-text password from before hashing', async () => {
+    expect(isLegacyPassword('password')).toBe(true);
+    expect(await verifyPassword('password', 'password')).toBe(true);
+    expect(await verifyPassword('passwor', 'password')).toBe(false);
+  });
+});
+
+describe('permissions', () => {
+  it('reads a role’s JSON list, else the defaults for its name', () => {
+    expect(rolePermissions({ name: 'Cashier', permissions: '["sell","return","fly"]' })).toEqual(['sell', 'return']);
+    expect(rolePermissions({ name: 'Cashier', permissions: '{}' })).toEqual(['sell']);
+    expect(rolePermissions({ name: 'Supervisor', permissions: null })).toContain('override');
+    expect(rolePermissions({ name: 'Guest', permissions: null })).toEqual([]);
+  });
+
+  it('lets through a signed-in user with any of the permissions', () => {
+    const run = (user: unknown, ...perms: Parameters<typeof allow>) => {
+      const res: any = { locals: { user }, status: jest.fn(() => res), json: jest.fn(() => res) };
+      const next = jest.fn();
+      allow(...perms)({} as any, res, next);
+      return next.mock.calls.length ? 'next' : res.status.mock.calls[0][0];
+    };
+    const cashier = { role: 'Cashier', permissions: ['sell'] };
+    expect(run(null)).toBe(401);
+    expect(run(cashier)).toBe('next');
+    expect(run(cashier, 'sell')).toBe('next');
+    expect(run(cashier, 'settings')).toBe(403);
+    expect(run(cashier, 'return', 'sell')).toBe('next');
+  });
+});
+
+describe('user accounts', () => {
+  it('validates a new user and a partial update', () => {
+    expect(parseUser({ username: ' Ravi.K ', fullName: 'Ravi K', password: 'longenough', role: 'Cashier', pin: '4321' })).toEqual({
+      username: 'ravi.k',
+      fullName: 'Ravi K',
+      password: 'longenough',
+      role: 'Cashier',
+      pin: '4321',
+    });
+    expect(parseUser({ active: false, pin: '' }, true)).toEqual({ active: false, pin: null });
+    expect(() => parseUser({ username: 'ravi', fullName: 'Ravi', password: 'short', role: 'Cashier' })).toThrow('at least 8');
+    expect(() => parseUser({ pin: '12ab' }, true)).toThrow('4-8 digits');
+  });
+});
+
+describe('supervisor PINs', () => {
+  // users with PINs and the audit log, enough for the PIN lookup
+  const fakeDb = (users: { id: number; pin: string; active?: boolean; role?: string }[]) => {
+    const log: { action: string; terminal: string | null; userId: number | null; createdAt: Date }[] = [];
+    const rows = users.map((u) => ({
+      username: `u${u.id}`,
+      fullName: `User ${u.id}`,
+      active: true,
+      ...u,
+      role: { name: u.role ?? 'Supervisor', permissions: null },
+    }));
+    const db: any = {
+      user: {
+        findMany: async () => rows,
+        update: async ({ where, data }: any) => Object.assign(rows.find((r) => r.id === where.id)!, data),
+      },
+      auditLog: {
+        count: async ({ where }: any) =>
+          log.filter(
+            (e) =>
+              e.action === where.action &&
+              e.createdAt >= where.createdAt.gte &&
+              where.OR.some((w: any) => Object.entries(w).every(([k, v]) => e[k as 'terminal' | 'userId'] === v)),
+          ).length,
+        create: async ({ data }: any) => log.push({ ...data, createdAt: new Date() }),
+      },
+      setting: { findUnique: async () => ({ key: 'terminals', value: 'T1,T2,T3' }) },
+    };
+    return { db, rows, log };
+  };
+  const till = { id: 3, terminal: 'T1' };
+
+  it('finds a supervisor by their hashed PIN and rehashes one stored before hashing', async () => {
+    const { db, rows } = fakeDb([
+      { id: 1, pin: await hashPassword('1234') },
+      { id: 2, pin: '5678' },
+      { id: 3, pin: await hashPassword('4321'), role: 'Cashier' },
+    ]);
+    expect(await supervisorByPin(db, '1234', till)).toEqual({ id: 1, username: 'u1', fullName: 'User 1' });
+    expect(await supervisorByPin(db, '5678', till)).toMatchObject({ id: 2 });
+    expect(isLegacyPassword(rows[1].pin)).toBe(false);
+    // a cashier's PIN approves nothing
+    expect(await supervisorByPin(db, '4321', till)).toBeNull();
+  });
+
+  it('audits wrong PINs and locks the till out after too many', async () => {
+    const { db, log } = fakeDb([{ id: 1, pin: await hashPassword('1234') }]);
+    for (let i = 0; i < PIN_ATTEMPTS; i++) expect(await supervisorByPin(db, '0000', till)).toBeNull();
+    expect(log.map((e) => [e.action, e.terminal])).toEqual(Array(PIN_ATTEMPTS).fill(['PIN_FAILED', 'T1']));
+    await expect(supervisorByPin(db, '1234', till)).rejects.toThrow('Too many wrong PINs');
+    // the same user on another till, and anyone else on this one, is locked too
+    await expect(supervisorByPin(db, '1234', { id: 3, terminal: 'T2' })).rejects.toThrow('Too many wrong PINs');
+    await expect(supervisorByPin(db, '1234', { id: 4, terminal: 'T1' })).rejects.toThrow('Too many wrong PINs');
+    // another user on another till is not
+    expect(await supervisorByPin(db, '1234', { id: 4, terminal: 'T2' })).toMatchObject({ id: 1 });
+  });
+
+  it('only takes PINs from a till the store has set up', async () => {
+    const { db, log } = fakeDb([{ id: 1, pin: await hashPassword('1234') }]);
+    await expect(supervisorByPin(db, '0000', { id: 3, terminal: 'T7' })).rejects.toThrow('Unknown terminal T7');
+    expect(log).toEqual([]);
+  });
+
+  it('refuses a PIN another user has', async () => {
+    const { db } = fakeDb([{ id: 1, pin: await hashPassword('1234') }]);
+    db.role = { findUnique: async () => ({ id: 2 }) };
+    await expect(saveUser(db, { pin: '1234' }, 2)).rejects.toThrow('in use');
+    db.user.update = async ({ data }: any) => data;
+    const saved: any = await saveUser(db, { pin: '1234' }, 1);
+    expect(await verifyPassword('1234', saved.pin)).toBe(true);
+  });
+});
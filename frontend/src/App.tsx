@@ -1,15 +1,46 @@
+import { useEffect, useState } from 'react'
 import { BrowserRouter, Routes, Route, Navigate, Link } from 'react-router-dom'
 import Cashier from './pages/Cashier'
+import Returns from './pages/Returns'
+import Inventory from './pages/Inventory'
+import Settings from './pages/Settings'
+import Audit from './pages/Audit'
+import DailyZ from './pages/DailyZ'
+import Shift from './pages/Shift'
+import Login from './pages/Login'
+import { can, getSession, SESSION_EVENT } from './session'
 
 export default function App() {
+  const [session, setSession] = useState(getSession)
+
+  useEffect(() => {
+    const onChange = () => setSession(getSession())
+    window.addEventListener(SESSION_EVENT, onChange)
+    return () => window.removeEventListener(SESSION_EVENT, onChange)
+  }, [])
+
+  if (!session) return <Login />
+
   return (
     <BrowserRouter>
       <div className="app-container" style={{ fontFamily: 'Arial, sans-serif' }}>
         <nav className="navbar" style={{ display: 'flex', gap: 12, padding: 12, background: '#333' }}>
           <Link to="/cashier" style={{ color: '#fff' }}>Cashier</Link>
+          <Link to="/shift" style={{ color: '#fff' }}>Shift</Link>
+          {can('return') && <Link to="/returns" style={{ color: '#fff' }}>Returns</Link>}
+          {can('inventory') && <Link to="/inventory" style={{ color: '#fff' }}>Inventory</Link>}
+          {can('reports') && <Link to="/daily-z" style={{ color: '#fff' }}>Daily Z</Link>}
+          {can('reports') && <Link to="/audit" style={{ color: '#fff' }}>Audit</Link>}
+          {can('settings') && <Link to="/settings" style={{ color: '#fff' }}>Settings</Link>}
         </nav>
         <Routes>
           <Route path="/cashier" element={<Cashier />} />
+          <Route path="/shift" element={<Shift />} />
+          <Route path="/returns" element={<Returns />} />
+          <Route path="/inventory" element={<Inventory />} />
+          <Route path="/daily-z" element={<DailyZ />} />
+          <Route path="/audit" element={<Audit />} />
+          <Route path="/settings" element={<Settings />} />
           <Route path="*" element={<Navigate to="/cashier" replace />} />
         </Routes>
       </div>
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from "react";
+import { apiFetch } from "../session";
+
+const API = "http://localhost:3000";
+const PAGE = 100;
+
+type Entry = {
+  id: number; createdAt: string; action: string; terminal: string | null; reference: string | null;
+  description: string | null; before: unknown; after: unknown;
+  user: { id: number; username: string; fullName: string } | null;
+};
+type User = { id: number; username: string; fullName: string };
+type Filters = { from: string; to: string; action: string; userId: string; terminal: string; reference: string; q: string };
+
+const today = new Date().toISOString().slice(0, 10);
+const show = (v: unknown) => (v == null ? "" : JSON.stringify(v));
+
+export default function Audit() {
+  const [filters, setFilters] = useState<Filters>({ from: today, to: today, action: "", userId: "", terminal: "", reference: "", q: "" });
+  const [actions, setActions] = useState<string[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string>("");
+
+  useEffect(() => {
+    apiFetch(`${API}/api/audit/actions`).then(r => r.json()).then(setActions).catch(() => {});
+    // only users with the users permission can list them; the filter is hidden otherwise
+    apiFetch(`${API}/api/users`).then(r => (r.ok ? r.json() : [])).then(setUsers).catch(() => {});
+    load(0);
+  }, []);
+
+  async function load(at: number) {
+    setBusy(true); setMsg("");
+    try {
+      const params = new URLSearchParams({ ...filters, limit: String(PAGE), offset: String(at) });
+      for (const [k, v] of [...params]) if (!v) params.delete(k);
+      const r = await apiFetch(`${API}/api/audit?${params}`);
+      const j = await r.json();
+      if (!r.ok) throw new Error(j.error ?? r.statusText);
+      setEntries(j.entries);
+      setTotal(j.total);
+      setOffset(at);
+    } catch (e: any) {
+      setMsg("Load failed: " + (e?.message ?? e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const set = (k: keyof Filters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setFilters(f => ({ ...f, [k]: e.target.value }));
+
+  return (
+    <div style={S.page}>
+      <header style={S.header}>
+        <h2 style={{ margin: 0 }}>Audit log</h2>
+        <span style={{ color: "#666" }}>{total} entries</span>
+      </header>
+
+      <section style={S.card}>
+        <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10 }}>
+          <div><label>From</label><input type="date" value={filters.from} onChange={set("from")} style={S.input}/></div>
+          <div><label>To</label><input type="date" value={filters.to} onChange={set("to")} style={S.input}/></div>
+          <div><label>Action</label>
+            <select value={filters.action} onChange={set("action")} style={S.input}>
+              <option value="">All</option>
+              {actions.map(a => <option key={a} value={a}>{a.replace(/_/g, " ")}</option>)}
+            </select>
+          </div>
+          {users.length > 0 && (
+            <div><label>User</label>
+              <select value={filters.userId} onChange={set("userId")} style={S.input}>
+                <option value="">Anyone</option>
+                {users.map(u => <option key={u.id} value={u.id}>{u.fullName} ({u.username})</option>)}
+              </select>
+            </div>
+          )}
+          <div><label>Terminal</label><input value={filters.terminal} onChange={set("terminal")} style={S.input}/></div>
+          <div><label>Reference</label><input value={filters.reference} onChange={set("reference")} placeholder="Receipt no, cart, SKU…" style={S.input}/></div>
+          <div><label>Text</label><input value={filters.q} onChange={set("q")} style={S.input}/></div>
+          <div style={{ display: "flex", alignItems: "end" }}><button onClick={() => load(0)} disabled={busy} style={S.btnPrimary}>Search</button></div>
+        </div>
+        {msg && <div style={{ marginTop: 8 }}>{msg}</div>}
+      </section>
+
+      <section style={S.card}>
+        <div style={{ overflow: "auto" }}>
+          <table style={S.table}>
+            <thead>
+              <tr><th>When</th><th>Action</th><th>User</th><th>Terminal</th><th>Reference</th><th>Details</th><th>Before</th><th>After</th></tr>
+            </thead>
+            <tbody>
+              {entries.map(e => (
+                <tr key={e.id} style={{ borderTop: "1px solid #eee", verticalAlign: "top" }}>
+                  <td style={{ whiteSpace: "nowrap" }}>{new Date(e.createdAt).toLocaleString("en-IN")}</td>
+                  <td>{e.action.replace(/_/g, " ")}</td>
+                  <td>{e.user?.fullName ?? "—"}</td>
+                  <td>{e.terminal ?? ""}</td>
+                  <td style={S.mono}>{e.reference ?? ""}</td>
+                  <td>{e.description ?? ""}</td>
+                  <td style={S.mono}>{show(e.before)}</td>
+                  <td style={S.mono}>{show(e.after)}</td>
+                </tr>
+              ))}
+              {!entries.length && <tr><td colSpan={8} style={{ color: "#666", padding: 8 }}>Nothing logged for these filters.</td></tr>}
+            </tbody>
+          </table>
+        </div>
+        <div style={{ display: "flex", gap: 8, justifyContent: "flex-end", marginTop: 8 }}>
+          <button onClick={() => load(Math.max(0, offset - PAGE))} disabled={busy || offset === 0} style={S.btn}>Newer</button>
+          <button onClick={() => load(offset + PAGE)} disabled={busy || offset + PAGE >= total} style={S.btn}>Older</button>
+        </div>
+      </section>
+    </div>
+  );
+}
+
+const S: Record<string, React.CSSProperties> = {
+  page: { padding: 16, maxWidth: 1300, margin: "0 auto", fontFamily: "Inter, Arial, sans-serif" },
+  header: { display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 12 },
+  card: { background: "#fff", border: "1px solid #e5e5e5", borderRadius: 10, padding: 14, marginBottom: 12 },
+  input: { padding: "10px 12px", borderRadius: 8, border: "1px solid #ccc", width: "100%" },
+  btn: { padding: "10px 14px", border: "1px solid #cfd2d7", background: "#fff", borderRadius: 8, cursor: "pointer" },
+  btnPrimary: { padding: "10px 14px", border: "none", background: "#2563eb", color: "#fff", borderRadius: 8, cursor: "pointer" },
+  table: { width: "100%", borderCollapse: "collapse", fontSize: 13 },
+  mono: { fontFamily: "monospace", fontSize: 12, wordBreak: "break-all" },
+};
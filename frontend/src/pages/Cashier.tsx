@@ -1,55 +1,114 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import QRCode from "qrcode";
+import { Link } from "react-router-dom";
+import { apiFetch, can, getSession, logout, withToken } from "../session";
 
 /** Backend base */
 const API_BASE = "http://localhost:3000";
 
-/** Helpers */
+/** Helpers – the API works in integer paise; inputs and display are rupees */
 const inrFmt = new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR" });
-const INR = (n: unknown) => inrFmt.format(Number(n ?? 0));
+const INR = (paise: unknown) => inrFmt.format(Number(paise ?? 0) / 100);
 const toNum = (v: unknown) => (v == null ? 0 : typeof v === "number" ? v : Number(v));
-const clamp2 = (n: number) => Math.max(0, Math.round(n * 100) / 100);
+const toPaise = (rupees: unknown) => Math.max(0, Math.round(Number(rupees ?? 0) * 100));
+/** `error` from a failed API response */
+const errorText = async (r: Response) => (await r.json().catch(() => null))?.error ?? r.statusText;
 
 /** Types (lean) */
-type Item = { id: number; name: string; sku: string; mrp?: string | number };
+type Item = { id: number; name: string; sku: string; mrp?: string | number; unit?: string; isWeighable?: boolean };
 type CartLine = {
   itemId: number;
   quantity: number;
   unitPrice: number | string;
   discount?: number | string;
+  promoDiscount?: number;
   lineDiscount?: number | string;
   taxAmount?: number | string;
   lineTax?: number | string;
   lineTotal: number | string;
   taxRateId?: number | null;
   name?: string;
+  /** set on weighed lines (e.g. kg); their quantity is a weight */
+  unit?: string | null;
   item?: { name: string };
 };
-type Cart = { id: string; lines: CartLine[] };
+type TaxSummary = { placeOfSupply: string; interState: boolean; cgst: number; sgst: number; igst: number; cess: number };
+type Customer = { id: number; name: string | null; phone: string | null; loyaltyPoints: number };
+type AppliedPromotion = { promotionId: number; name: string; amount: number };
+/** An item the cart holds more of than is on hand (sold anyway when negative stock is allowed) */
+type Shortage = { itemId: number; name: string; unit: string; requested: number; onHand: number };
+type CartTotals = { totalBeforeDiscount: number; totalDiscount: number; totalTax: number; roundOff: number; totalAmount: number };
+type Cart = {
+  id: string;
+  status?: string;
+  holdRef?: string | null;
+  customerLabel?: string | null;
+  placeOfSupply?: string | null;
+  customerGstin?: string | null;
+  customerId?: number | null;
+  customer?: Customer | null;
+  /** set once the payment drawer has been opened */
+  paymentAt?: string | null;
+  taxes?: TaxSummary;
+  totals?: CartTotals;
+  promotions?: AppliedPromotion[];
+  stockWarnings?: Shortage[];
+  lines: CartLine[];
+};
+/** Structured tender error from /api/checkout/complete */
+type PayError = { error: string; code?: string; tenderIndex?: number; due?: number; paid?: number; balance?: number };
+type GstState = { code: string; abbr: string; name: string };
+type HeldCart = {
+  cartId: string;
+  holdRef: string;
+  customerLabel: string | null;
+  itemCount: number;
+  total: number;
+  heldAt: string;
+  ageMinutes: number;
+};
 
-/** Edit line modal */
+/** Edit line modal (prices in rupees while editing) */
 type EditState = null | {
   index: number;
   qty: number;
   unitPrice: number;
   discount: number;
   name: string;
+  weighed: boolean;
 };
 
 /** Density modes */
 type Density = "comfortable" | "dense";
 
 /** Tenders for the drawer */
-type Tender = { method: "CASH" | "UPI" | "CARD" | "WALLET"; amount: number; reference?: string };
+type Tender = { method: "CASH" | "UPI" | "CARD" | "WALLET" | "LOYALTY"; amount: number; reference?: string };
 
 export default function Cashier() {
   const [cart, setCart] = useState<Cart | null>(null);
   const [query, setQuery] = useState("");
   const [results, setResults] = useState<Item[]>([]);
+  /** kg typed against weighable search results, by item id */
+  const [weights, setWeights] = useState<Record<number, string>>({});
   const [busy, setBusy] = useState(false);
   const [msg, setMsg] = useState<string>("");
   const [lastReceiptNo, setLastReceiptNo] = useState<string | null>(null);
 
+  // held (parked) carts
+  const [holds, setHolds] = useState<HeldCart[]>([]);
+  const [holdLabel, setHoldLabel] = useState("");
+
+  // GST states for the place-of-supply picker
+  const [states, setStates] = useState<GstState[]>([]);
+  const [gstin, setGstin] = useState("");
+
+  // loyalty customer lookup; a point is worth `pointValue` paise
+  const [custPhone, setCustPhone] = useState("");
+  const [custName, setCustName] = useState("");
+  const [custResults, setCustResults] = useState<Customer[] | null>(null);
+  const [pointValue, setPointValue] = useState(100);
+  const [redeemPoints, setRedeemPoints] = useState<number>(0);
+
   // edit line
   const [edit, setEdit] = useState<EditState>(null);
 
@@ -62,22 +121,31 @@ export default function Cashier() {
   // PAYMENT DRAWER state
   const [drawerOpen, setDrawerOpen] = useState(false);
   const [tenders, setTenders] = useState<Tender[]>([]);
+  const [payError, setPayError] = useState<PayError | null>(null);
   const [upiAmount, setUpiAmount] = useState<number>(0);
   const [upiQR, setUpiQR] = useState<string>("");
+  // payee for the UPI QR, from /api/settings; no QR without a VPA
+  const [upi, setUpi] = useState({ vpa: "", payee: "" });
+  // the shift open on this till's drawer; sales are refused without one
+  const [shiftId, setShiftId] = useState<number | null | undefined>(undefined);
 
   const scanRef = useRef<HTMLInputElement>(null);
+  const user = getSession()?.user;
 
-  /** Start cart + restore last receipt */
+  /** Resume the open cart (survives page reloads and backend restarts) or start one + restore last receipt */
   useEffect(() => {
     (async () => {
       try {
-        const r = await fetch(`${API_BASE}/api/checkout/start`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({}),
-        });
-        const c: Cart = await r.json();
-        setCart(c);
+        const savedCart = localStorage.getItem("pos_cart_id");
+        if (savedCart) {
+          const r = await apiFetch(`${API_BASE}/api/checkout/cart/${encodeURIComponent(savedCart)}`);
+          const saved: Cart | null = r.ok ? await r.json() : null;
+          if (saved && saved.status !== "HELD") {
+            setCart(saved);
+            return;
+          }
+        }
+        setCart(await startCart());
       } catch (e: any) {
         setMsg("Failed to start cart: " + (e?.message ?? String(e)));
       }
@@ -85,6 +153,23 @@ export default function Cashier() {
 
     const savedReceipt = localStorage.getItem("pos_last_receipt");
     if (savedReceipt) setLastReceiptNo(savedReceipt);
+    refreshHolds();
+    apiFetch(`${API_BASE}/api/tax/states`)
+      .then((r) => r.json())
+      .then(setStates)
+      .catch(() => {});
+    apiFetch(`${API_BASE}/api/loyalty`)
+      .then((r) => r.json())
+      .then((c) => setPointValue(c.pointValue || 100))
+      .catch(() => {});
+    apiFetch(`${API_BASE}/api/settings`)
+      .then((r) => r.json())
+      .then((s) => setUpi({ vpa: s.upiVpa ?? "", payee: s.upiPayeeName || s.storeName || "" }))
+      .catch(() => {});
+    apiFetch(`${API_BASE}/api/shifts/current`)
+      .then((r) => r.json())
+      .then((s) => setShiftId(s?.id ?? null))
+      .catch(() => {});
 
     const onKey = (ev: KeyboardEvent) => {
       if ((ev.key === "P" || ev.key === "p") && ev.shiftKey) {
@@ -108,66 +193,94 @@ export default function Cashier() {
     [density]
   );
 
+  /** Remember the open cart so a reload picks it up again */
+  useEffect(() => {
+    if (cart?.id) localStorage.setItem("pos_cart_id", cart.id);
+  }, [cart?.id]);
+
+  useEffect(() => {
+    setGstin(cart?.customerGstin ?? "");
+  }, [cart?.id, cart?.customerGstin]);
+
+  /** F4 parks the current cart */
+  useEffect(() => {
+    const onKey = (ev: KeyboardEvent) => {
+      if (ev.key === "F4") {
+        ev.preventDefault();
+        holdCurrent();
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
   function setDensityPersist(next: Density) {
     setDensity(next);
     localStorage.setItem("pos_density", next);
   }
 
-  /** Totals */
-  const subtotal = useMemo(
-    () => (cart?.lines ?? []).reduce((s, l) => s + toNum(l.unitPrice) * toNum(l.quantity), 0),
-    [cart]
-  );
-  const discountTotal = useMemo(
-    () => (cart?.lines ?? []).reduce((s, l) => s + (toNum(l.discount) || toNum(l.lineDiscount)), 0),
-    [cart]
-  );
-  const taxTotal = useMemo(
-    () => (cart?.lines ?? []).reduce((s, l) => s + (toNum(l.taxAmount) || toNum(l.lineTax)), 0),
-    [cart]
-  );
-  const grandTotal = useMemo(
-    () => (cart?.lines ?? []).reduce((s, l) => s + toNum(l.lineTotal), 0),
-    [cart]
-  );
+  /** Totals (paise) – the backend's figures, including any round off */
+  const subtotal = toNum(cart?.totals?.totalBeforeDiscount);
+  const discountTotal = toNum(cart?.totals?.totalDiscount);
+  const roundOff = toNum(cart?.totals?.roundOff);
+  const grandTotal = toNum(cart?.totals?.totalAmount);
 
-  const cgst = useMemo(() => taxTotal / 2, [taxTotal]);
-  const sgst = useMemo(() => taxTotal / 2, [taxTotal]);
+  // GST heads come from the backend (CGST/SGST intra-state, IGST inter-state, cess)
+  const cgst = toNum(cart?.taxes?.cgst);
+  const sgst = toNum(cart?.taxes?.sgst);
+  const igst = toNum(cart?.taxes?.igst);
+  const cess = toNum(cart?.taxes?.cess);
 
   /** Running paid/due with tenders */
   const paidTotal = useMemo(
     () => tenders.reduce((s, t) => s + toNum(t.amount), 0),
     [tenders]
   );
-  const due = clamp2(Math.max(0, toNum(grandTotal) - paidTotal));
-  const change = clamp2(Math.max(0, paidTotal - toNum(grandTotal)));
+  const due = Math.max(0, grandTotal - paidTotal);
+  const pointsLeft =
+    (cart?.customer?.loyaltyPoints ?? 0) -
+    tenders.filter((t) => t.method === "LOYALTY").reduce((s, t) => s + t.amount / pointValue, 0);
+  const change = Math.max(0, paidTotal - grandTotal);
 
   /** Update UPI QR when amount or cart changes */
   useEffect(() => {
-    const amt = due || toNum(grandTotal); // default to due, fallback to total
-    setUpiAmount(amt);
+    const amt = due || grandTotal; // default to due, fallback to total
+    setUpiAmount(amt / 100);
   }, [grandTotal, due]);
 
+  // UPI intent — auto amount so the customer doesn't enter it
+  const upiUrl = upi.vpa
+    ? `upi://pay?pa=${encodeURIComponent(upi.vpa)}&pn=${encodeURIComponent(upi.payee)}` +
+      `&am=${Math.max(0, upiAmount || 0).toFixed(2)}&cu=INR&tn=${encodeURIComponent(`POS Sale ${cart?.id ?? ""}`)}`
+    : "";
+
   useEffect(() => {
-    const amt = clamp2(upiAmount || 0);
-    // Build UPI intent — auto amount so the customer doesn't enter it
-    const pa = "beeku7@ibl";                // your UPI ID
-    const pn = encodeURIComponent("Your Store"); // payer name (printable)
-    const tn = encodeURIComponent(`POS Sale ${cart?.id ?? ""}`);
-    const am = amt.toFixed(2);
-    const url = `upi://pay?pa=${pa}&pn=${pn}&am=${am}&cu=INR&tn=${tn}`;
-    QRCode.toDataURL(url, { width: 220, margin: 1 })
+    if (!upiUrl) return setUpiQR("");
+    QRCode.toDataURL(upiUrl, { width: 220, margin: 1 })
       .then(setUpiQR)
       .catch(() => setUpiQR(""));
-  }, [upiAmount, cart?.id]);
+  }, [upiUrl]);
+
+  /** Start a fresh cart on the backend */
+  async function startCart(): Promise<Cart> {
+    const r = await apiFetch(`${API_BASE}/api/checkout/start`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({}),
+    });
+    if (!r.ok) throw new Error(await r.text());
+    return r.json();
+  }
 
   /** Search */
   async function search() {
     setBusy(true);
     setMsg("");
     try {
-      const q = encodeURIComponent(query.trim());
-      const r = await fetch(`${API_BASE}/api/items?query=${q}`);
+      const code = query.trim();
+      if (/^2\d{12}$/.test(code) && (await scanLabel(code))) return;
+      const q = encodeURIComponent(code);
+      const r = await apiFetch(`${API_BASE}/api/items?query=${q}`);
       if (!r.ok) throw new Error(await r.text());
       const data: Item[] = await r.json();
       setResults(data);
@@ -179,21 +292,70 @@ export default function Cashier() {
     }
   }
 
-  /** Add item (qty +1) */
-  async function addItem(it: Item) {
+  /** Expired stock needs a supervisor: ask for their PIN (null when the cashier cancels) */
+  async function expiredPin(r: Response): Promise<string | null> {
+    const body = await r.clone().json().catch(() => null);
+    if (r.status !== 409 || body?.code !== "EXPIRED") return null;
+    return window.prompt(`${body.error}\n\nSupervisor PIN:`) || null;
+  }
+
+  /** Past an override threshold: a supervisor's PIN buys a one-time token (null when the cashier cancels) */
+  async function overrideToken(r: Response, cartId: string | null): Promise<string | null> {
+    const body = await r.clone().json().catch(() => null);
+    if (r.status !== 409 || body?.code !== "OVERRIDE_REQUIRED") return null;
+    const pin = window.prompt(`${body.error}\n\nSupervisor PIN:`);
+    if (!pin) return null;
+    const g = await apiFetch(`${API_BASE}/api/overrides`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ pin, actions: body.actions, cartId }),
+    });
+    if (!g.ok) throw new Error(await errorText(g));
+    return (await g.json()).token;
+  }
+
+  /** Weighing-scale label: the backend reads the PLU and weight or price off it (false when it is not one) */
+  async function scanLabel(code: string, supervisorPin?: string): Promise<boolean> {
+    if (!cart) return false;
+    const r = await apiFetch(`${API_BASE}/api/checkout/add`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ cartId: cart.id, barcode: code, supervisorPin }),
+    });
+    if (r.status === 404) return false;
+    if (!r.ok) {
+      const pin = await expiredPin(r);
+      if (pin) return scanLabel(code, pin);
+      throw new Error(await errorText(r));
+    }
+    setCart(await r.json());
+    setResults([]);
+    setQuery("");
+    scanRef.current?.focus();
+    return true;
+  }
+
+  /** Add item (qty +1, or the weight in kg for loose items) */
+  async function addItem(it: Item, qty = 1, supervisorPin?: string) {
     if (!cart) return;
+    if (!(qty > 0)) return setMsg(`Enter the weight of ${it.name} in ${it.unit ?? "kg"}.`);
     setBusy(true);
     setMsg("");
     try {
-      const r = await fetch(`${API_BASE}/api/checkout/add`, {
+      const r = await apiFetch(`${API_BASE}/api/checkout/add`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ cartId: cart.id, itemId: it.id, qty: 1 }),
+        body: JSON.stringify({ cartId: cart.id, itemId: it.id, qty, supervisorPin }),
       });
-      if (!r.ok) throw new Error(await r.text());
+      if (!r.ok) {
+        const pin = await expiredPin(r);
+        if (pin) return addItem(it, qty, pin);
+        throw new Error(await errorText(r));
+      }
       const updated: Cart = await r.json();
       setCart(updated);
       setResults([]);
+      setWeights({});
       setQuery("");
       scanRef.current?.focus();
     } catch (e: any) {
@@ -204,16 +366,22 @@ export default function Cashier() {
   }
 
   /** Line ops */
-  async function updateLineQty(index: number, newQty: number) {
+  async function updateLineQty(index: number, newQty: number, supervisorPin?: string, overrideTok?: string) {
     if (!cart) return;
     setBusy(true);
     try {
-      const r = await fetch(`${API_BASE}/api/checkout/updateLine`, {
+      const r = await apiFetch(`${API_BASE}/api/checkout/updateLine`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ cartId: cart.id, lineIndex: index, quantity: newQty }),
+        body: JSON.stringify({ cartId: cart.id, lineIndex: index, quantity: newQty, supervisorPin, overrideToken: overrideTok }),
       });
-      if (!r.ok) throw new Error(await r.text());
+      if (!r.ok) {
+        const pin = await expiredPin(r);
+        if (pin) return updateLineQty(index, newQty, pin);
+        const tok = await overrideToken(r, cart.id);
+        if (tok) return updateLineQty(index, newQty, supervisorPin, tok);
+        throw new Error(await errorText(r));
+      }
       setCart(await r.json());
     } catch (e: any) {
       setMsg("Update error: " + (e?.message ?? String(e)));
@@ -222,16 +390,20 @@ export default function Cashier() {
     }
   }
 
-  async function removeLine(index: number) {
+  async function removeLine(index: number, overrideTok?: string) {
     if (!cart) return;
     setBusy(true);
     try {
-      const r = await fetch(`${API_BASE}/api/checkout/removeLine`, {
+      const r = await apiFetch(`${API_BASE}/api/checkout/removeLine`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ cartId: cart.id, lineIndex: index }),
+        body: JSON.stringify({ cartId: cart.id, lineIndex: index, overrideToken: overrideTok }),
       });
-      if (!r.ok) throw new Error(await r.text());
+      if (!r.ok) {
+        const tok = await overrideToken(r, cart.id);
+        if (tok) return removeLine(index, tok);
+        throw new Error(await errorText(r));
+      }
       setCart(await r.json());
     } catch (e: any) {
       setMsg("Remove error: " + (e?.message ?? String(e)));
@@ -246,29 +418,36 @@ export default function Cashier() {
     setEdit({
       index,
       qty: toNum(l.quantity),
-      unitPrice: toNum(l.unitPrice),
-      discount: toNum(l.discount) || toNum(l.lineDiscount),
+      unitPrice: toNum(l.unitPrice) / 100,
+      // manual part only; promotions are re-applied by the backend
+      discount: ((toNum(l.discount) || toNum(l.lineDiscount)) - toNum(l.promoDiscount)) / 100,
       name: l.name ?? l.item?.name ?? `Item #${l.itemId}`,
+      weighed: !!l.unit,
     });
   }
 
-  async function saveEdit() {
+  async function saveEdit(overrideTok?: string) {
     if (!cart || !edit) return;
     const { index, qty, unitPrice, discount } = edit;
     setBusy(true);
     try {
-      const r = await fetch(`${API_BASE}/api/checkout/updateLine`, {
+      const r = await apiFetch(`${API_BASE}/api/checkout/updateLine`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           cartId: cart.id,
           lineIndex: index,
           quantity: qty,
-          unitPrice,
-          discount,
+          unitPrice: toPaise(unitPrice),
+          discount: toPaise(discount),
+          overrideToken: overrideTok,
         }),
       });
-      if (!r.ok) throw new Error(await r.text());
+      if (!r.ok) {
+        const tok = await overrideToken(r, cart.id);
+        if (tok) return saveEdit(tok);
+        throw new Error(await errorText(r));
+      }
       setCart(await r.json());
       setEdit(null);
     } catch (e: any) {
@@ -278,26 +457,235 @@ export default function Cashier() {
     }
   }
 
+  /** Place of supply (customer's state) */
+  async function changePlaceOfSupply(code: string) {
+    if (!cart) return;
+    setBusy(true);
+    try {
+      const r = await apiFetch(`${API_BASE}/api/checkout/placeOfSupply`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cartId: cart.id, placeOfSupply: code || null }),
+      });
+      if (!r.ok) throw new Error(await r.text());
+      setCart(await r.json());
+    } catch (e: any) {
+      setMsg("Place of supply error: " + (e?.message ?? String(e)));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /** Buyer GSTIN for a B2B tax invoice (also sets place of supply) */
+  async function changeCustomerGstin() {
+    if (!cart) return;
+    const value = gstin.trim().toUpperCase();
+    if (value === (cart.customerGstin ?? "")) return;
+    setBusy(true);
+    try {
+      const r = await apiFetch(`${API_BASE}/api/checkout/customerGstin`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cartId: cart.id, gstin: value || null }),
+      });
+      if (!r.ok) throw new Error((await r.json().catch(() => null))?.error ?? r.statusText);
+      setCart(await r.json());
+    } catch (e: any) {
+      setMsg("GSTIN error: " + (e?.message ?? String(e)));
+      setGstin(cart.customerGstin ?? "");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /** Loyalty customer: find by phone, create if new, attach to the cart */
+  async function findCustomer() {
+    const phone = custPhone.trim();
+    if (!phone) return;
+    try {
+      const r = await apiFetch(`${API_BASE}/api/customers?phone=${encodeURIComponent(phone)}`);
+      if (!r.ok) throw new Error(r.statusText);
+      setCustResults(await r.json());
+    } catch (e: any) {
+      setMsg("Customer search error: " + (e?.message ?? String(e)));
+    }
+  }
+
+  async function createCustomer() {
+    setBusy(true);
+    try {
+      const r = await apiFetch(`${API_BASE}/api/customers`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ phone: custPhone, name: custName.trim() || null }),
+      });
+      const body = await r.json().catch(() => null);
+      // 409: the number is already registered, attach that customer
+      if (!r.ok && r.status !== 409) throw new Error(body?.error ?? r.statusText);
+      await attachCustomer((body?.customer ?? body).id);
+    } catch (e: any) {
+      setMsg("Customer error: " + (e?.message ?? String(e)));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function attachCustomer(customerId: number | null) {
+    if (!cart) return;
+    try {
+      const r = await apiFetch(`${API_BASE}/api/checkout/customer`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cartId: cart.id, customerId }),
+      });
+      if (!r.ok) throw new Error((await r.json().catch(() => null))?.error ?? r.statusText);
+      setCart(await r.json());
+      setCustPhone("");
+      setCustName("");
+      setCustResults(null);
+    } catch (e: any) {
+      setMsg("Customer error: " + (e?.message ?? String(e)));
+    }
+  }
+
+  /** Holds */
+  async function refreshHolds() {
+    try {
+      const r = await apiFetch(`${API_BASE}/api/checkout/holds`);
+      if (r.ok) setHolds(await r.json());
+    } catch {}
+  }
+
+  async function holdCurrent() {
+    if (!cart || busy || (cart.lines?.length ?? 0) === 0) return;
+    setBusy(true);
+    setMsg("");
+    try {
+      const r = await apiFetch(`${API_BASE}/api/checkout/hold`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cartId: cart.id, customerLabel: holdLabel.trim() || null }),
+      });
+      if (!r.ok) throw new Error(await r.text());
+      const held: Cart = await r.json();
+      setMsg(`Cart held as ${held.holdRef}`);
+      setHoldLabel("");
+      setCart(await startCart());
+      await refreshHolds();
+      scanRef.current?.focus();
+    } catch (e: any) {
+      setMsg("Hold error: " + (e?.message ?? String(e)));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /** Void the whole cart (logged for loss prevention) and start a new one */
+  async function voidCurrent(reason?: string, overrideTok?: string) {
+    if (!cart || (cart.lines?.length ?? 0) === 0) return;
+    if (reason === undefined) {
+      const answer = window.prompt("Void this cart? Reason (optional):");
+      if (answer === null) return;
+      return voidCurrent(answer);
+    }
+    setBusy(true);
+    setMsg("");
+    try {
+      const r = await apiFetch(`${API_BASE}/api/checkout/void`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cartId: cart.id, reason: reason || null, overrideToken: overrideTok }),
+      });
+      if (!r.ok) {
+        const tok = await overrideToken(r, cart.id);
+        if (tok) return voidCurrent(reason, tok);
+        throw new Error(await errorText(r));
+      }
+      setMsg("Cart voided");
+      setDrawerOpen(false);
+      setCart(await startCart());
+      scanRef.current?.focus();
+    } catch (e: any) {
+      setMsg("Void error: " + (e?.message ?? String(e)));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function resumeHold(h: HeldCart) {
+    if (!cart) return;
+    setBusy(true);
+    setMsg("");
+    try {
+      // park whatever is on screen first so nothing is lost
+      if ((cart.lines?.length ?? 0) > 0) {
+        const r0 = await apiFetch(`${API_BASE}/api/checkout/hold`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ cartId: cart.id, customerLabel: null }),
+        });
+        if (!r0.ok) throw new Error(await r0.text());
+      }
+      const r = await apiFetch(`${API_BASE}/api/checkout/resume`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ holdRef: h.holdRef, currentCartId: cart.id }),
+      });
+      if (!r.ok) throw new Error(await r.text());
+      setCart(await r.json());
+      setMsg(`Resumed ${h.holdRef}${h.customerLabel ? ` (${h.customerLabel})` : ""}`);
+      await refreshHolds();
+      scanRef.current?.focus();
+    } catch (e: any) {
+      setMsg("Resume error: " + (e?.message ?? String(e)));
+    } finally {
+      setBusy(false);
+    }
+  }
+
   /** Payment drawer — open */
   function openDrawer() {
     setTenders([]);
+    setPayError(null);
     setDrawerOpen(true);
-    // upiAmount is set by effect (due/total)
+    // upiAmount is set by effect (due/total); voids from here on may need a supervisor
+    if (cart && !cart.paymentAt) {
+      apiFetch(`${API_BASE}/api/checkout/payment`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cartId: cart.id }),
+      })
+        .then((r) => (r.ok ? r.json() : null))
+        .then((c: Cart | null) => c && setCart((cur) => (cur?.id === c.id ? { ...cur, paymentAt: c.paymentAt } : cur)))
+        .catch(() => {});
+    }
   }
 
   /** Tender ops */
+  /** amounts in paise */
   function addCash(amount: number) {
     if (!amount || amount <= 0) return;
-    setTenders((t) => [...t, { method: "CASH", amount: clamp2(amount) }]);
+    setTenders((t) => [...t, { method: "CASH", amount: Math.round(amount) }]);
+    setPayError(null);
   }
   function addUpi(amount: number) {
     if (!amount || amount <= 0) return;
     // In real life, you'd read the PSP ref from webhook/SDK. We simulate a ref.
     const ref = `UPI${Date.now().toString().slice(-6)}`;
-    setTenders((t) => [...t, { method: "UPI", amount: clamp2(amount), reference: ref }]);
+    setTenders((t) => [...t, { method: "UPI", amount: Math.round(amount), reference: ref }]);
+    setPayError(null);
+  }
+  /** points -> a LOYALTY tender worth points × pointValue */
+  function addPoints(points: number) {
+    const n = Math.floor(points);
+    if (!n || n <= 0) return;
+    setTenders((t) => [...t, { method: "LOYALTY", amount: n * pointValue, reference: `${n} pts` }]);
+    setRedeemPoints(0);
+    setPayError(null);
   }
   function removeTender(i: number) {
     setTenders((t) => t.filter((_, idx) => idx !== i));
+    setPayError(null);
   }
 
   /** Complete with tenders */
@@ -310,12 +698,21 @@ export default function Cashier() {
     setBusy(true);
     setMsg("");
     try {
-      const r = await fetch(`${API_BASE}/api/checkout/complete`, {
+      // one key per cart: a double-click or retry gets the same receipt back
+      const r = await apiFetch(`${API_BASE}/api/checkout/complete`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "Idempotency-Key": `checkout-${cart.id}` },
         body: JSON.stringify({ cartId: cart.id, payments: tenders }),
       });
-      if (!r.ok) throw new Error(await r.text());
+      if (!r.ok) {
+        const body = await r.json().catch(() => null);
+        if (body?.code) {
+          // tender problems are shown inline in the drawer
+          setPayError(body);
+          return;
+        }
+        throw new Error(body?.error ?? r.statusText);
+      }
       const receipt = await r.json();
 
       const num: string = receipt?.receiptNumber ?? receipt?.number ?? receipt?.id ?? "";
@@ -328,12 +725,7 @@ export default function Cashier() {
       setTenders([]);
 
       // new cart
-      const r2 = await fetch(`${API_BASE}/api/checkout/start`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({}),
-      });
-      setCart(await r2.json());
+      setCart(await startCart());
       setResults([]);
       setQuery("");
       scanRef.current?.focus();
@@ -351,7 +743,42 @@ export default function Cashier() {
       return;
     }
     const url = `${API_BASE}/api/receipts/${encodeURIComponent(lastReceiptNo)}/print`;
-    window.open(url, "_blank", "noopener,noreferrer");
+    window.open(withToken(url), "_blank", "noopener,noreferrer");
+  }
+
+  /** Open the cash drawer without a sale (a supervisor approves when the settings say so) */
+  async function noSale(overrideTok?: string) {
+    try {
+      const r = await apiFetch(`${API_BASE}/api/drawer/no-sale`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ overrideToken: overrideTok }),
+      });
+      if (!r.ok) {
+        const tok = await overrideToken(r, null);
+        if (tok) return noSale(tok);
+        throw new Error(await errorText(r));
+      }
+      setMsg("Cash drawer opened (no sale).");
+    } catch (e: any) {
+      setMsg("No sale error: " + (e?.message ?? String(e)));
+    }
+  }
+
+  /** Send the last receipt to the receipt printer (ESC/POS) */
+  async function printLastToPrinter() {
+    if (!lastReceiptNo) return;
+    try {
+      const r = await apiFetch(`${API_BASE}/api/receipts/${encodeURIComponent(lastReceiptNo)}/escpos`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      if (!r.ok) throw new Error(await errorText(r));
+      setMsg(`Receipt ${lastReceiptNo} sent to the printer.`);
+    } catch (e: any) {
+      setMsg("Print error: " + (e?.message ?? String(e)));
+    }
   }
 
   const displayName = (l: CartLine) => l.name ?? l.item?.name ?? `(Item #${l.itemId})`;
@@ -363,6 +790,18 @@ export default function Cashier() {
         <div style={styles.headerInner}>
           <div style={styles.headerTitle}>Cashier</div>
 
+          {/* Signed-in user */}
+          <div style={{ marginLeft: "auto", display: "flex", alignItems: "center", gap: 8, fontSize: 13 }}>
+            <span>{user?.fullName} ({user?.role}{user?.terminal ? ` · ${user.terminal}` : ""})</span>
+            {shiftId === null ? (
+              <Link to="/shift" style={{ color: "#b91c1c", fontWeight: 600 }}>No shift open</Link>
+            ) : shiftId ? (
+              <Link to="/shift" style={{ color: "inherit" }}>Shift #{shiftId}</Link>
+            ) : null}
+            <button style={styles.toggleBtn} onClick={() => noSale()}>No sale</button>
+            <button style={styles.toggleBtn} onClick={() => logout(API_BASE)}>Log out</button>
+          </div>
+
           {/* Density toggle */}
           <div style={styles.toggleWrap} aria-label="Row density">
             <button
@@ -390,6 +829,13 @@ export default function Cashier() {
           <section style={styles.leftPane}>
             <div style={styles.card}>
               <h3 style={styles.sectionTitle}>Cart</h3>
+              {/* Soft warning: sold past stock on hand (blocked instead when negative stock is off) */}
+              {(cart?.stockWarnings ?? []).map((w) => (
+                <div key={`stock-${w.itemId}`} style={styles.warning}>
+                  {w.onHand > 0 ? `Only ${w.onHand} ${w.unit} of ${w.name} left` : `${w.name} is out of stock`}
+                  {` — cart has ${w.requested}`}
+                </div>
+              ))}
               {(cart?.lines?.length ?? 0) === 0 ? (
                 <div style={styles.empty}>No items yet.</div>
               ) : (
@@ -414,7 +860,7 @@ export default function Cashier() {
                       return (
                         <div key={idx} style={styles.tr}>
                           <div style={{ ...styles.td, flex: 3 }}>{displayName(l)}</div>
-                          <div style={{ ...styles.td, flex: 1, textAlign: "right" }}>{qty}</div>
+                          <div style={{ ...styles.td, flex: 1, textAlign: "right" }}>{l.unit ? `${qty.toFixed(3)} ${l.unit}` : qty}</div>
                           <div style={{ ...styles.td, flex: 1, textAlign: "right" }}>{INR(rate)}</div>
                           <div style={{ ...styles.td, flex: 1, textAlign: "right" }}>
                             {disc ? `- ${INR(disc)}` : INR(0)}
@@ -423,28 +869,78 @@ export default function Cashier() {
                           <div style={{ ...styles.td, flex: 1.2, textAlign: "right", fontWeight: 600 }}>{INR(amt)}</div>
 
                           <div style={{ ...styles.td, width: 160, display: "flex", gap: 6, justifyContent: "flex-end" }}>
-                            <button title="–1" style={styles.iconBtn} onClick={() => updateLineQty(idx, qty - 1)}>–</button>
-                            <button title="+1" style={styles.iconBtn} onClick={() => updateLineQty(idx, qty + 1)}>+</button>
+                            {!l.unit && (
+                              <>
+                                <button title="–1" style={styles.iconBtn} onClick={() => updateLineQty(idx, qty - 1)}>–</button>
+                                <button title="+1" style={styles.iconBtn} onClick={() => updateLineQty(idx, qty + 1)}>+</button>
+                              </>
+                            )}
                             <button title="Edit" style={styles.iconBtn} onClick={() => openEditFor(idx)}>Edit</button>
-                            <button
-                              title="Remove"
-                              style={{ ...styles.iconBtn, color: "#b91c1c", borderColor: "#e5baba" }}
-                              onClick={() => removeLine(idx)}
-                            >
-                              ✕
-                            </button>
+                            {can("void") && (
+                              <button
+                                title="Remove"
+                                style={{ ...styles.iconBtn, color: "#b91c1c", borderColor: "#e5baba" }}
+                                onClick={() => removeLine(idx)}
+                              >
+                                ✕
+                              </button>
+                            )}
                           </div>
                         </div>
                       );
                     })}
+
+                    {/* Promotions applied by the backend, as named lines */}
+                    {(cart?.promotions ?? []).map((p) => (
+                      <div key={`promo-${p.promotionId}`} style={{ ...styles.tr, color: "#166534" }}>
+                        <div style={{ ...styles.td, flex: 3 }}>Offer: {p.name}</div>
+                        <div style={{ ...styles.td, flex: 4, textAlign: "right" }} />
+                        <div style={{ ...styles.td, flex: 1.2, textAlign: "right", fontWeight: 600 }}>- {INR(p.amount)}</div>
+                        <div style={{ ...styles.td, width: 160 }} />
+                      </div>
+                    ))}
                   </div>
 
                   {/* Totals */}
                   <div style={styles.totalsBox}>
                     <div style={styles.totRow}><div>Subtotal</div><div>{INR(subtotal)}</div></div>
                     <div style={styles.totRow}><div>Discount</div><div>{discountTotal ? `- ${INR(discountTotal)}` : INR(0)}</div></div>
-                    <div style={styles.totRow}><div>CGST</div><div>{INR(cgst)}</div></div>
-                    <div style={styles.totRow}><div>SGST</div><div>{INR(sgst)}</div></div>
+                    {cart?.taxes?.interState ? (
+                      <div style={styles.totRow}><div>IGST</div><div>{INR(igst)}</div></div>
+                    ) : (
+                      <>
+                        <div style={styles.totRow}><div>CGST</div><div>{INR(cgst)}</div></div>
+                        <div style={styles.totRow}><div>SGST</div><div>{INR(sgst)}</div></div>
+                      </>
+                    )}
+                    {cess > 0 && <div style={styles.totRow}><div>Cess</div><div>{INR(cess)}</div></div>}
+                    {roundOff !== 0 && <div style={styles.totRow}><div>Round off</div><div>{INR(roundOff)}</div></div>}
+                    <div style={styles.totRow}>
+                      <div>Place of supply</div>
+                      <select
+                        value={cart?.placeOfSupply ?? ""}
+                        onChange={(e) => changePlaceOfSupply(e.target.value)}
+                        disabled={busy}
+                      >
+                        <option value="">Store state</option>
+                        {states.map((st) => (
+                          <option key={st.code} value={st.code}>{st.code} – {st.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div style={styles.totRow}>
+                      <div>Buyer GSTIN</div>
+                      <input
+                        value={gstin}
+                        placeholder="B2B only"
+                        maxLength={15}
+                        onChange={(e) => setGstin(e.target.value)}
+                        onBlur={changeCustomerGstin}
+                        onKeyDown={(e) => e.key === "Enter" && changeCustomerGstin()}
+                        disabled={busy}
+                        style={{ width: 150 }}
+                      />
+                    </div>
                     <div style={{ ...styles.totRow, fontWeight: 800, fontSize: "var(--font-md)" }}>
                       <div>Total</div><div>{INR(grandTotal)}</div>
                     </div>
@@ -472,6 +968,55 @@ export default function Cashier() {
               </button>
             </div>
 
+            {/* Loyalty customer */}
+            <div style={styles.card}>
+              <h3 style={styles.sectionTitle}>Customer</h3>
+              {cart?.customer ? (
+                <div style={styles.row}>
+                  <div style={{ flex: 1 }}>
+                    <div style={styles.itemName}>{cart.customer.name || cart.customer.phone}</div>
+                    <div style={styles.itemMeta}>
+                      {cart.customer.phone} · {cart.customer.loyaltyPoints} points ({INR(cart.customer.loyaltyPoints * pointValue)})
+                    </div>
+                  </div>
+                  <button style={styles.smallBtn} onClick={() => attachCustomer(null)} disabled={busy}>Remove</button>
+                </div>
+              ) : (
+                <>
+                  <div style={{ display: "flex", gap: 8 }}>
+                    <input
+                      value={custPhone}
+                      onChange={(e) => { setCustPhone(e.target.value); setCustResults(null); }}
+                      onKeyDown={(e) => e.key === "Enter" && findCustomer()}
+                      placeholder="Mobile number"
+                      inputMode="tel"
+                      style={styles.input}
+                    />
+                    <button style={styles.smallBtn} onClick={findCustomer} disabled={busy || !cart}>Find</button>
+                  </div>
+                  {custResults && custResults.length > 0 && (
+                    <div style={{ ...styles.list, marginTop: 10 }}>
+                      {custResults.map((c) => (
+                        <div key={c.id} style={styles.row}>
+                          <div style={{ flex: 1 }}>
+                            <div style={styles.itemName}>{c.name || c.phone}</div>
+                            <div style={styles.itemMeta}>{c.phone} · {c.loyaltyPoints} points</div>
+                          </div>
+                          <button style={styles.smallBtn} onClick={() => attachCustomer(c.id)} disabled={busy}>Attach</button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {custResults && custResults.length === 0 && (
+                    <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
+                      <input value={custName} onChange={(e) => setCustName(e.target.value)} placeholder="New customer's name" style={styles.input} />
+                      <button style={styles.smallBtn} onClick={createCustomer} disabled={busy}>Add</button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
             {results.length > 0 && (
               <div style={styles.card}>
                 <h3 style={styles.sectionTitle}>Results</h3>
@@ -484,19 +1029,88 @@ export default function Cashier() {
                           SKU: {it.sku} {typeof it.mrp !== "undefined" ? `· MRP ${INR(it.mrp)}` : ""}
                         </div>
                       </div>
-                      <button style={styles.smallBtn} onClick={() => addItem(it)} disabled={busy}>Add</button>
+                      {it.isWeighable && (
+                        <input
+                          type="number"
+                          step="0.001"
+                          min={0}
+                          placeholder={it.unit ?? "kg"}
+                          value={weights[it.id] ?? ""}
+                          onChange={(e) => setWeights({ ...weights, [it.id]: e.target.value })}
+                          onKeyDown={(e) => e.key === "Enter" && addItem(it, Number(weights[it.id]))}
+                          style={{ ...styles.input, width: 90, marginRight: 8 }}
+                        />
+                      )}
+                      <button
+                        style={styles.smallBtn}
+                        onClick={() => addItem(it, it.isWeighable ? Number(weights[it.id]) : 1)}
+                        disabled={busy}
+                      >
+                        Add
+                      </button>
                     </div>
                   ))}
                 </div>
               </div>
             )}
 
+            {/* Holds */}
+            <div style={styles.card}>
+              <h3 style={styles.sectionTitle}>Holds</h3>
+              <div style={{ display: "flex", gap: 8, marginBottom: holds.length ? 10 : 0 }}>
+                <input
+                  value={holdLabel}
+                  onChange={(e) => setHoldLabel(e.target.value)}
+                  placeholder="Customer label (optional)"
+                  style={styles.input}
+                />
+                <button
+                  style={styles.smallBtn}
+                  onClick={holdCurrent}
+                  disabled={busy || !cart || (cart.lines?.length ?? 0) === 0}
+                  title="F4"
+                >
+                  Hold
+                </button>
+                {can("void") && (
+                  <button
+                    style={{ ...styles.smallBtn, color: "#b91c1c" }}
+                    onClick={() => voidCurrent()}
+                    disabled={busy || !cart || (cart.lines?.length ?? 0) === 0}
+                  >
+                    Void
+                  </button>
+                )}
+              </div>
+              {holds.length > 0 && (
+                <div style={styles.list}>
+                  {holds.map((h) => (
+                    <div key={h.cartId} style={styles.row}>
+                      <div style={{ flex: 1 }}>
+                        <div style={styles.itemName}>{h.customerLabel || h.holdRef}</div>
+                        <div style={styles.itemMeta}>
+                          {h.holdRef} · {h.itemCount} item{h.itemCount === 1 ? "" : "s"} · {INR(h.total)} · {h.ageMinutes} min ago
+                        </div>
+                      </div>
+                      <button style={styles.smallBtn} onClick={() => resumeHold(h)} disabled={busy}>Resume</button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {msg && (
               <div style={styles.card}>
                 <div style={styles.status}>
                   {msg}{" "}
                   {lastReceiptNo && (
-                    <>— <a href={`${API_BASE}/api/receipts/${lastReceiptNo}/print`} target="_blank" rel="noreferrer">View / Print</a></>
+                    <>
+                      — <a href={withToken(`${API_BASE}/api/receipts/${encodeURIComponent(lastReceiptNo)}/print`)} target="_blank" rel="noreferrer">View / Print</a>
+                      {" · "}
+                      <a href={withToken(`${API_BASE}/api/receipts/${encodeURIComponent(lastReceiptNo)}/print?mode=invoice`)} target="_blank" rel="noreferrer">Tax Invoice</a>
+                      {" · "}
+                      <a href="#" onClick={(e) => { e.preventDefault(); printLastToPrinter(); }}>Receipt printer</a>
+                    </>
                   )}
                 </div>
               </div>
@@ -508,7 +1122,7 @@ export default function Cashier() {
       {/* Sticky footer */}
       <footer style={styles.footer}>
         <div style={{ fontSize: "var(--font-md)", fontWeight: 700 }}>
-          Items: {(cart?.lines?.length ?? 0)} &nbsp; | &nbsp; Total: {INR(Number(grandTotal.toFixed(2)))}
+          Items: {(cart?.lines?.length ?? 0)} &nbsp; | &nbsp; Total: {INR(grandTotal)}
         </div>
 
         <div style={{ display: "flex", gap: 8 }}>
@@ -539,21 +1153,21 @@ export default function Cashier() {
             <div style={{ color: "#555", marginBottom: 10 }}>{edit.name}</div>
 
             <div style={styles.formRow}>
-              <label>Quantity</label>
-              <input type="number" value={edit.qty} min={0} onChange={(e) => setEdit({ ...edit, qty: Number(e.target.value) })} />
+              <label>{edit.weighed ? "Weight (kg)" : "Quantity"}</label>
+              <input type="number" value={edit.qty} min={0} step={edit.weighed ? "0.001" : "1"} onChange={(e) => setEdit({ ...edit, qty: Number(e.target.value) })} />
             </div>
             <div style={styles.formRow}>
               <label>Unit Price</label>
               <input type="number" value={edit.unitPrice} step="0.01" onChange={(e) => setEdit({ ...edit, unitPrice: Number(e.target.value) })} />
             </div>
             <div style={styles.formRow}>
-              <label>Discount (₹)</label>
+              <label>Manual discount (₹)</label>
               <input type="number" value={edit.discount} step="0.01" min={0} onChange={(e) => setEdit({ ...edit, discount: Number(e.target.value) })} />
             </div>
 
             <div style={{ display: "flex", justifyContent: "flex-end", gap: 8, marginTop: 12 }}>
               <button style={styles.secondaryBtn} onClick={() => setEdit(null)}>Cancel</button>
-              <button style={styles.primaryBtn} onClick={saveEdit}>Save</button>
+              <button style={styles.primaryBtn} onClick={() => saveEdit()}>Save</button>
             </div>
           </div>
         </div>
@@ -574,8 +1188,8 @@ export default function Cashier() {
                 <div style={{ fontWeight: 600, marginBottom: 6 }}>Cash</div>
                 <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
                   <button className="btn" style={styles.quickBtn} onClick={() => addCash(due)}>Exact {INR(due)}</button>
-                  <button className="btn" style={styles.quickBtn} onClick={() => addCash(100)}>₹100</button>
-                  <button className="btn" style={styles.quickBtn} onClick={() => addCash(500)}>₹500</button>
+                  <button className="btn" style={styles.quickBtn} onClick={() => addCash(10000)}>₹100</button>
+                  <button className="btn" style={styles.quickBtn} onClick={() => addCash(50000)}>₹500</button>
                 </div>
                 <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
                   <input
@@ -585,7 +1199,7 @@ export default function Cashier() {
                     placeholder="Custom cash"
                     onKeyDown={(e) => {
                       if (e.key === "Enter") {
-                        const v = Number((e.target as HTMLInputElement).value);
+                        const v = toPaise((e.target as HTMLInputElement).value);
                         addCash(v);
                         (e.target as HTMLInputElement).value = "";
                       }
@@ -594,7 +1208,7 @@ export default function Cashier() {
                   />
                   <button style={styles.smallBtn} onClick={(e) => {
                     const wrap = (e.currentTarget.previousSibling as HTMLInputElement);
-                    const v = Number(wrap?.value);
+                    const v = toPaise(wrap?.value);
                     addCash(v);
                     if (wrap) wrap.value = "";
                   }}>Add</button>
@@ -603,13 +1217,15 @@ export default function Cashier() {
 
               {/* UPI */}
               <section style={styles.payCard}>
-                <div style={{ fontWeight: 600, marginBottom: 6 }}>UPI (beeku7@ibl)</div>
+                <div style={{ fontWeight: 600, marginBottom: 6 }}>UPI {upi.vpa ? `(${upi.vpa})` : ""}</div>
                 <div style={{ display: "flex", gap: 12 }}>
                   <div>
                     {upiQR ? (
                       <img src={upiQR} alt="UPI QR" style={{ width: 220, height: 220, border: "1px solid #eee", borderRadius: 8 }} />
                     ) : (
-                      <div style={{ width: 220, height: 220, border: "1px dashed #ccc", borderRadius: 8, display: "grid", placeItems: "center", color: "#666" }}>QR</div>
+                      <div style={{ width: 220, height: 220, border: "1px dashed #ccc", borderRadius: 8, display: "grid", placeItems: "center", color: "#666", textAlign: "center" }}>
+                        {upi.vpa ? "QR" : "Set the store's UPI VPA in Settings"}
+                      </div>
                     )}
                     <div style={{ fontSize: 12, color: "#555", marginTop: 6 }}>
                       Customer scans. Amount is pre-filled.
@@ -626,15 +1242,44 @@ export default function Cashier() {
                       onChange={(e) => setUpiAmount(Number(e.target.value))}
                       style={styles.input}
                     />
-                    <button style={styles.primaryBtn} onClick={() => addUpi(upiAmount)}>Mark UPI Paid</button>
+                    <button style={styles.primaryBtn} onClick={() => addUpi(toPaise(upiAmount))}>Mark UPI Paid</button>
                   </div>
                 </div>
-                <div style={{ marginTop: 8, fontSize: 12 }}>
-                  UPI intent link:&nbsp;
-                  <code>upi://pay?pa=beeku7@ibl&amp;pn=Your%20Store&amp;am={upiAmount.toFixed(2)}&amp;cu=INR</code>
-                </div>
+                {upiUrl && (
+                  <div style={{ marginTop: 8, fontSize: 12 }}>
+                    UPI intent link:&nbsp;
+                    <code>{upiUrl}</code>
+                  </div>
+                )}
               </section>
 
+              {/* Loyalty points */}
+              {cart?.customer && (
+                <section style={styles.payCard}>
+                  <div style={{ fontWeight: 600, marginBottom: 6 }}>
+                    Loyalty points ({cart.customer.loyaltyPoints} available · 1 point = {INR(pointValue)})
+                  </div>
+                  <div style={{ display: "flex", gap: 8 }}>
+                    <input
+                      type="number"
+                      step="1"
+                      min={0}
+                      value={redeemPoints || ""}
+                      placeholder="Points"
+                      onChange={(e) => setRedeemPoints(Number(e.target.value))}
+                      style={styles.input}
+                    />
+                    <button style={styles.smallBtn} onClick={() => addPoints(redeemPoints)}>Redeem</button>
+                    <button
+                      style={styles.smallBtn}
+                      onClick={() => addPoints(Math.min(pointsLeft, Math.floor(due / pointValue)))}
+                    >
+                      Max
+                    </button>
+                  </div>
+                </section>
+              )}
+
               {/* Added tenders */}
               <section style={styles.payCard}>
                 <div style={{ fontWeight: 600, marginBottom: 6 }}>Added Payments</div>
@@ -643,7 +1288,7 @@ export default function Cashier() {
                 ) : (
                   <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
                     {tenders.map((t, i) => (
-                      <div key={i} style={{ display: "flex", alignItems: "center", justifyContent: "space-between", border: "1px solid #eee", borderRadius: 8, padding: "8px 10px" }}>
+                      <div key={i} style={{ display: "flex", alignItems: "center", justifyContent: "space-between", border: `1px solid ${payError?.tenderIndex === i ? "#ef4444" : "#eee"}`, borderRadius: 8, padding: "8px 10px" }}>
                         <div>
                           <div style={{ fontWeight: 600 }}>{t.method}</div>
                           <div style={{ fontSize: 12, color: "#666" }}>{t.reference || "—"}</div>
@@ -667,6 +1312,13 @@ export default function Cashier() {
                   {change > 0 && (<><div>Change</div><div>{INR(change)}</div></>)}
                 </div>
 
+                {payError && (
+                  <div style={{ marginTop: 10, padding: "8px 10px", borderRadius: 8, background: "#fef2f2", color: "#b91c1c", fontSize: 13 }}>
+                    {payError.error}
+                    {payError.balance != null && payError.code === "UNDERPAID" && <> — add {INR(payError.balance)} more</>}
+                  </div>
+                )}
+
                 <div style={{ display: "flex", justifyContent: "flex-end", gap: 8, marginTop: 12 }}>
                   <button style={styles.secondaryBtn} onClick={() => setDrawerOpen(false)}>Close</button>
                   <button
@@ -705,6 +1357,7 @@ const styles: Record<string, React.CSSProperties> = {
 
   card: { background: "#fff", border: "1px solid #e5e5e5", borderRadius: 10, padding: 16, boxShadow: "0 1px 2px rgba(0,0,0,0.03)" },
   sectionTitle: { margin: "0 0 12px 0", fontSize: "var(--font-md)" },
+  warning: { marginBottom: 8, padding: "8px 10px", borderRadius: 8, background: "#fffbeb", color: "#92400e", fontSize: 13 },
   searchInput: { padding: "12px 14px", borderRadius: 8, border: "1px solid #ccc", outline: "none", marginBottom: 10 },
 
   primaryBtn: { padding: "10px 14px", fontSize: "var(--font-sm)", borderRadius: 8, border: "none", cursor: "pointer", background: "#2563eb", color: "#fff", fontWeight: 600 },
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from "react";
+import { apiFetch, withToken } from "../session";
+
+const API = "http://localhost:3000";
+
+const rupees = (p: number) => (p / 100).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+type Z = {
+  date: string; timeZone: string;
+  grossSales: number; discounts: number; netSales: number; netTaxable: number; netTax: number; roundOff: number;
+  sales: { count: number; total: number; tax: number };
+  returns: { count: number; total: number; tax: number };
+  receiptCount: number; averageBasket: number;
+  taxBySlab: { gstRate: number; taxableValue: number; cgst: number; sgst: number; igst: number; cess: number; tax: number }[];
+  tenders: { code: string; name: string; sales: number; refunds: number; net: number }[];
+  numbers: { terminal: string; series: "SALE" | "RETURN"; first: string; last: string; count: number }[];
+  voids: { carts: number; cartsTotal: number; lines: number; linesTotal: number };
+};
+
+export default function DailyZ() {
+  const [date, setDate] = useState("");
+  const [z, setZ] = useState<Z | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string>("");
+
+  // no date: the backend's today in the store's time zone
+  useEffect(() => { load(""); }, []);
+
+  async function load(day: string) {
+    setBusy(true); setMsg("");
+    try {
+      const r = await apiFetch(`${API}/api/reports/daily_z${day ? `?date=${day}` : ""}`);
+      const j = await r.json();
+      if (!r.ok) throw new Error(j.error ?? r.statusText);
+      setZ(j);
+      setDate(j.date);
+    } catch (e: any) {
+      setMsg("Load failed: " + (e?.message ?? e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function printZ() {
+    setBusy(true); setMsg("");
+    try {
+      const r = await apiFetch(`${API}/api/reports/daily_z/print`, {
+        method: "POST", headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date }),
+      });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j.error ?? r.statusText);
+      setMsg("Sent to the receipt printer 🖨");
+    } catch (e: any) {
+      setMsg("Print failed: " + (e?.message ?? e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const row = (label: string, value: React.ReactNode, bold = false) => (
+    <div style={{ display: "flex", justifyContent: "space-between", fontWeight: bold ? 700 : undefined }}>
+      <span>{label}</span><span>{value}</span>
+    </div>
+  );
+
+  return (
+    <div style={S.page}>
+      <header style={S.header} className="no-print">
+        <h2 style={{ margin: 0 }}>Daily Z report</h2>
+        <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <input type="date" value={date} onChange={e => setDate(e.target.value)} style={S.input}/>
+          <button onClick={() => load(date)} disabled={busy || !date} style={S.btnPrimary}>Show</button>
+          <button onClick={printZ} disabled={busy || !z} style={S.btn}>Print on receipt printer</button>
+          <button onClick={() => window.print()} disabled={!z} style={S.btn}>Print</button>
+          {z && <a href={withToken(`${API}/api/reports/daily_z/escpos?date=${z.date}`)} style={{ fontSize: 13 }}>ESC/POS</a>}
+        </div>
+      </header>
+      {msg && <div style={S.card} className="no-print">{msg}</div>}
+
+      {z && (
+        <section style={S.slip}>
+          <div style={{ textAlign: "center", fontWeight: 700 }}>DAILY Z REPORT</div>
+          <div style={{ textAlign: "center" }}>{z.date} ({z.timeZone})</div>
+          <hr/>
+          {row("Gross sales", rupees(z.grossSales))}
+          {row("Discounts", `-${rupees(z.discounts)}`)}
+          {row(`Sales (${z.sales.count})`, rupees(z.sales.total))}
+          {row(`Returns (${z.returns.count})`, rupees(z.returns.total))}
+          {!!z.roundOff && row("Round off", rupees(z.roundOff))}
+          {row("Net sales", `₹${rupees(z.netSales)}`, true)}
+          {row("Receipts", z.receiptCount)}
+          {row("Average basket", rupees(z.averageBasket))}
+          <hr/>
+          <table style={S.table}>
+            <thead><tr><th style={{ textAlign: "left" }}>GST</th><th style={S.num}>Taxable</th><th style={S.num}>CGST+SGST</th><th style={S.num}>IGST</th><th style={S.num}>Cess</th></tr></thead>
+            <tbody>
+              {z.taxBySlab.map(s => (
+                <tr key={s.gstRate}>
+                  <td>{s.gstRate}%</td>
+                  <td style={S.num}>{rupees(s.taxableValue)}</td>
+                  <td style={S.num}>{rupees(s.cgst + s.sgst)}</td>
+                  <td style={S.num}>{rupees(s.igst)}</td>
+                  <td style={S.num}>{rupees(s.cess)}</td>
+                </tr>
+              ))}
+              <tr style={{ fontWeight: 700 }}>
+                <td>Total</td><td style={S.num}>{rupees(z.netTaxable)}</td><td colSpan={3} style={S.num}>{rupees(z.netTax)}</td>
+              </tr>
+            </tbody>
+          </table>
+          <hr/>
+          {z.tenders.map(t => <React.Fragment key={t.code}>{row(t.name, rupees(t.net))}</React.Fragment>)}
+          <hr/>
+          {z.numbers.map(n => (
+            <div key={`${n.terminal}-${n.series}`}>
+              {n.terminal} {n.series === "SALE" ? "sales" : "credit notes"} ({n.count}): {n.first}{n.first !== n.last ? ` – ${n.last}` : ""}
+            </div>
+          ))}
+          {!z.numbers.length && <div>No receipts</div>}
+          <hr/>
+          {row(`Voided carts (${z.voids.carts})`, rupees(z.voids.cartsTotal))}
+          {row(`Removed lines (${z.voids.lines})`, rupees(z.voids.linesTotal))}
+        </section>
+      )}
+      <style>{"@media print { .no-print, nav { display: none !important; } @page { size: 80mm auto; margin: 4mm; } }"}</style>
+    </div>
+  );
+}
+
+const S: Record<string, React.CSSProperties> = {
+  page: { padding: 16, maxWidth: 1100, margin: "0 auto", fontFamily: "Inter, Arial, sans-serif" },
+  header: { display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 12 },
+  card: { background: "#fff", border: "1px solid #e5e5e5", borderRadius: 10, padding: 14, marginBottom: 12 },
+  // laid out at the width of 80mm paper so the browser print matches the receipt printer's
+  slip: { background: "#fff", border: "1px solid #e5e5e5", padding: 12, width: "72mm", margin: "0 auto", fontSize: 12, fontFamily: "monospace" },
+  input: { padding: "8px 10px", borderRadius: 8, border: "1px solid #ccc" },
+  btn: { padding: "8px 12px", border: "1px solid #cfd2d7", background: "#fff", borderRadius: 8, cursor: "pointer" },
+  btnPrimary: { padding: "8px 12px", border: "none", background: "#2563eb", color: "#fff", borderRadius: 8, cursor: "pointer" },
+  table: { width: "100%", borderCollapse: "collapse", fontSize: 11 },
+  num: { textAlign: "right" },
+};
@@ -1,11 +1,21 @@
 import React, { useEffect, useMemo, useState } from "react";
+import { apiFetch } from "../session";
 
 const API = "http://localhost:3000";
 const fmt = new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR" });
-const INR = (n: number) => fmt.format(Number(n || 0));
+const INR = (paise: number) => fmt.format(Number(paise || 0) / 100);
+const toPaise = (rupees: number) => Math.max(0, Math.round(Number(rupees || 0) * 100));
 
 type Item = { id: number; name: string; sku: string };
 type StockRow = { id: number; sku: string; name: string; onHand: number; avgCost: number; stockValue: number };
+type ReorderRow = {
+  itemId: number; sku: string; name: string; unit: string; onHand: number; reorderLevel: number;
+  perDay: number; daysOfCover: number | null; onOrder: number; suggestedQty: number; vendor: { id: number; name: string } | null; lastCost: number;
+};
+type ExpiryRow = {
+  batchId: number; batchNo: string | null; sku: string; name: string; unit: string;
+  quantity: number; expiryDate: string; daysLeft: number; expired: boolean; value: number;
+};
 
 export default function Inventory() {
   const [search, setSearch] = useState("");
@@ -15,9 +25,13 @@ export default function Inventory() {
   const [qty, setQty] = useState<number>(0);
   const [cost, setCost] = useState<number>(0);
   const [reference, setReference] = useState<string>("");
+  const [batchNo, setBatchNo] = useState<string>("");
+  const [expiryDate, setExpiryDate] = useState<string>("");
 
   const [adjDelta, setAdjDelta] = useState<number>(0);
+  const [reasons, setReasons] = useState<string[]>([]);
   const [adjReason, setAdjReason] = useState<string>("");
+  const [adjNote, setAdjNote] = useState<string>("");
 
   const [rows, setRows] = useState<StockRow[]>([]);
   const [busy, setBusy] = useState(false);
@@ -25,14 +39,24 @@ export default function Inventory() {
 
   const [allowNegative, setAllowNegative] = useState<boolean>(true);
 
+  const [reorder, setReorder] = useState<ReorderRow[]>([]);
+  const [expiring, setExpiring] = useState<ExpiryRow[]>([]);
+  const [expiryDays, setExpiryDays] = useState<number>(30);
+
   useEffect(() => {
     refreshStock();
     getSetting();
+    refreshReorder();
+    refreshExpiring();
+    apiFetch(`${API}/api/inventory/reasons`)
+      .then(r => r.json())
+      .then((list: string[]) => { setReasons(list); setAdjReason(list[0] ?? ""); })
+      .catch(() => {});
   }, []);
 
   async function getSetting() {
     try {
-      const r = await fetch(`${API}/api/settings/stock`);
+      const r = await apiFetch(`${API}/api/settings/stock`);
       const j = await r.json();
       setAllowNegative(!!j.allowNegativeStock);
     } catch {}
@@ -40,7 +64,7 @@ export default function Inventory() {
   async function saveSetting(v: boolean) {
     setAllowNegative(v);
     try {
-      await fetch(`${API}/api/settings/stock`, {
+      await apiFetch(`${API}/api/settings/stock`, {
         method: "POST", headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ allowNegativeStock: v }),
       });
@@ -49,17 +73,53 @@ export default function Inventory() {
 
   async function refreshStock() {
     try {
-      const r = await fetch(`${API}/api/inventory/stock_on_hand`);
+      const r = await apiFetch(`${API}/api/inventory/stock_on_hand`);
       setRows(await r.json());
     } catch (e: any) {
       setMsg("Load stock failed: " + (e?.message ?? e));
     }
   }
 
+  async function refreshReorder() {
+    try {
+      const r = await apiFetch(`${API}/api/reports/reorder`);
+      setReorder(await r.json());
+    } catch (e: any) {
+      setMsg("Load reorder list failed: " + (e?.message ?? e));
+    }
+  }
+
+  async function refreshExpiring(days = expiryDays) {
+    try {
+      const r = await apiFetch(`${API}/api/reports/near-expiry?days=${days}`);
+      setExpiring(await r.json());
+    } catch (e: any) {
+      setMsg("Load expiring batches failed: " + (e?.message ?? e));
+    }
+  }
+
+  async function draftOrders() {
+    setBusy(true); setMsg("");
+    try {
+      const r = await apiFetch(`${API}/api/purchase-orders/suggest`, {
+        method: "POST", headers: { "Content-Type": "application/json" }, body: "{}",
+      });
+      const j = await r.json();
+      if (!r.ok) throw new Error(j.error ?? r.statusText);
+      const numbers = j.orders.map((o: { orderNumber: string }) => o.orderNumber).join(", ");
+      const skipped = j.unassigned.length ? ` (${j.unassigned.length} item(s) have no previous vendor)` : "";
+      setMsg(j.orders.length ? `Draft POs ${numbers} created${skipped}` : `Nothing to order${skipped}`);
+    } catch (e: any) {
+      setMsg("Draft POs failed: " + (e?.message ?? e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
   async function doSearch() {
     setMsg("");
     try {
-      const r = await fetch(`${API}/api/items?query=${encodeURIComponent(search.trim())}`);
+      const r = await apiFetch(`${API}/api/items?query=${encodeURIComponent(search.trim())}`);
       setItems(await r.json());
     } catch (e: any) {
       setMsg("Search failed: " + (e?.message ?? e));
@@ -71,13 +131,14 @@ export default function Inventory() {
     if (qty <= 0) return setMsg("Quantity must be > 0.");
     setBusy(true); setMsg("");
     try {
-      const r = await fetch(`${API}/api/inventory/receive`, {
+      const r = await apiFetch(`${API}/api/inventory/receive`, {
         method: "POST", headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ itemId: sel.id, quantity: qty, unitCost: cost, reference }),
+        body: JSON.stringify({ itemId: sel.id, quantity: qty, unitCost: toPaise(cost), reference, batchNo, expiryDate: expiryDate || null }),
       });
       if (!r.ok) throw new Error(await r.text());
-      setQty(0); setCost(0); setReference("");
+      setQty(0); setCost(0); setReference(""); setBatchNo(""); setExpiryDate("");
       await refreshStock();
+      await refreshReorder();
       setMsg("Stock received ✅");
     } catch (e: any) {
       setMsg("Receive failed: " + (e?.message ?? e));
@@ -91,13 +152,14 @@ export default function Inventory() {
     if (!adjDelta) return setMsg("Enter delta (±).");
     setBusy(true); setMsg("");
     try {
-      const r = await fetch(`${API}/api/inventory/adjust`, {
+      const r = await apiFetch(`${API}/api/inventory/adjust`, {
         method: "POST", headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ itemId: sel.id, delta: adjDelta, reason: adjReason }),
+        body: JSON.stringify({ itemId: sel.id, delta: adjDelta, reason: adjReason, note: adjNote }),
       });
-      if (!r.ok) throw new Error(await r.text());
-      setAdjDelta(0); setAdjReason("");
+      if (!r.ok) throw new Error((await r.json().catch(() => ({}))).error ?? r.statusText);
+      setAdjDelta(0); setAdjNote("");
       await refreshStock();
+      await refreshReorder();
       setMsg("Adjustment saved ✅");
     } catch (e: any) {
       setMsg("Adjust failed: " + (e?.message ?? e));
@@ -130,10 +192,12 @@ export default function Inventory() {
         </div>
 
         {sel && (
-          <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10, marginTop: 10 }}>
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(6, 1fr)", gap: 10, marginTop: 10 }}>
             <div><label>Quantity</label><input type="number" value={qty} onChange={e=>setQty(Number(e.target.value))} style={S.input}/></div>
             <div><label>Unit Cost (₹)</label><input type="number" step="0.01" value={cost} onChange={e=>setCost(Number(e.target.value))} style={S.input}/></div>
             <div><label>Reference</label><input value={reference} onChange={e=>setReference(e.target.value)} style={S.input}/></div>
+            <div><label>Batch no</label><input value={batchNo} onChange={e=>setBatchNo(e.target.value)} style={S.input}/></div>
+            <div><label>Expiry</label><input type="date" value={expiryDate} onChange={e=>setExpiryDate(e.target.value)} style={S.input}/></div>
             <div style={{ display:'flex', alignItems:'end' }}><button onClick={receive} disabled={busy} style={S.btnPrimary}>Receive</button></div>
           </div>
         )}
@@ -142,9 +206,14 @@ export default function Inventory() {
       <section style={S.card}>
         <h3>Adjust stock</h3>
         {!sel ? <div style={{ color:"#666" }}>Select an item above to adjust.</div> : (
-          <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 10 }}>
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10 }}>
             <div><label>Delta (±)</label><input type="number" value={adjDelta} onChange={e=>setAdjDelta(Number(e.target.value))} style={S.input}/></div>
-            <div><label>Reason</label><input value={adjReason} onChange={e=>setAdjReason(e.target.value)} style={S.input}/></div>
+            <div><label>Reason</label>
+              <select value={adjReason} onChange={e=>setAdjReason(e.target.value)} style={S.input}>
+                {reasons.map(r => <option key={r} value={r}>{r.replace(/_/g, " ")}</option>)}
+              </select>
+            </div>
+            <div><label>Note</label><input value={adjNote} onChange={e=>setAdjNote(e.target.value)} placeholder={adjReason === "OTHER" ? "Required" : "Optional"} style={S.input}/></div>
             <div style={{ display:'flex', alignItems:'end' }}><button onClick={adjust} disabled={busy} style={S.btn}>Save Adjustment</button></div>
           </div>
         )}
@@ -175,6 +244,65 @@ export default function Inventory() {
         </div>
       </section>
 
+      <section style={S.card}>
+        <div style={S.header}>
+          <h3 style={{ margin: 0 }}>Reorder</h3>
+          <button onClick={draftOrders} disabled={busy || !reorder.length} style={S.btnPrimary}>Create draft POs</button>
+        </div>
+        {!reorder.length ? <div style={{ color: "#666" }}>Nothing is below its reorder level.</div> : (
+          <table style={S.table}>
+            <thead>
+              <tr><th>SKU</th><th>Name</th><th style={{textAlign:'right'}}>On Hand</th><th style={{textAlign:'right'}}>Reorder Level</th><th style={{textAlign:'right'}}>Sold / Day</th><th style={{textAlign:'right'}}>On Order</th><th style={{textAlign:'right'}}>Order</th><th>Last Vendor</th><th style={{textAlign:'right'}}>Last Cost</th></tr>
+            </thead>
+            <tbody>
+              {reorder.map(r => (
+                <tr key={r.itemId}>
+                  <td>{r.sku}</td>
+                  <td>{r.name}</td>
+                  <td style={{textAlign:'right'}}>{r.onHand}</td>
+                  <td style={{textAlign:'right'}}>{r.reorderLevel}</td>
+                  <td style={{textAlign:'right'}}>{r.perDay}</td>
+                  <td style={{textAlign:'right'}}>{r.onOrder}</td>
+                  <td style={{textAlign:'right', fontWeight: 600}}>{r.suggestedQty} {r.unit}</td>
+                  <td>{r.vendor?.name ?? <span style={{ color: "#b45309" }}>none</span>}</td>
+                  <td style={{textAlign:'right'}}>{INR(r.lastCost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section style={S.card}>
+        <div style={S.header}>
+          <h3 style={{ margin: 0 }}>Near expiry</h3>
+          <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+            Within
+            <input type="number" min={0} value={expiryDays} onChange={e => setExpiryDays(Number(e.target.value))} onBlur={() => refreshExpiring()} style={{ ...S.input, width: 80 }}/>
+            days
+          </label>
+        </div>
+        {!expiring.length ? <div style={{ color: "#666" }}>No batches expire in this window.</div> : (
+          <table style={S.table}>
+            <thead>
+              <tr><th>SKU</th><th>Name</th><th>Batch</th><th>Expiry</th><th style={{textAlign:'right'}}>Qty</th><th style={{textAlign:'right'}}>Value</th></tr>
+            </thead>
+            <tbody>
+              {expiring.map(b => (
+                <tr key={b.batchId} style={{ color: b.expired ? "#b91c1c" : undefined }}>
+                  <td>{b.sku}</td>
+                  <td>{b.name}</td>
+                  <td>{b.batchNo ?? "—"}</td>
+                  <td>{b.expiryDate.slice(0, 10)} ({b.expired ? "expired" : `${b.daysLeft} days`})</td>
+                  <td style={{textAlign:'right'}}>{b.quantity} {b.unit}</td>
+                  <td style={{textAlign:'right'}}>{INR(b.value)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
       {msg && <div style={{ marginTop: 8, color: "#444" }}>{msg}</div>}
     </div>
   );
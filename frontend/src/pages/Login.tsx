@@ -0,0 +1,59 @@
+import React, { useState } from "react";
+import { setSession } from "../session";
+
+const API = "http://localhost:3000";
+/** this till's terminal id, remembered by the browser it runs in */
+const TERMINAL_KEY = "pos_terminal";
+
+/** Sign in to the till; the session is kept until logout or expiry */
+export default function Login() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [terminal, setTerminal] = useState(() => localStorage.getItem(TERMINAL_KEY) ?? "");
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string>("");
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true); setMsg("");
+    localStorage.setItem(TERMINAL_KEY, terminal.trim());
+    try {
+      const r = await fetch(`${API}/api/auth/login`, {
+        method: "POST", headers: { "Content-Type": "application/json" },
+        // no terminal: the backend's TERMINAL_ID
+        body: JSON.stringify({ username, password, terminal: terminal.trim() || undefined }),
+      });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j.error ?? r.statusText);
+      setSession(j);
+    } catch (e: any) {
+      setMsg(e?.message ?? String(e));
+      setPassword("");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div style={S.page}>
+      <form onSubmit={submit} style={S.card}>
+        <h2 style={{ marginTop: 0 }}>Sign in</h2>
+        <label>Username</label>
+        <input value={username} onChange={e => setUsername(e.target.value)} autoFocus autoComplete="username" style={S.input}/>
+        <label>Password</label>
+        <input type="password" value={password} onChange={e => setPassword(e.target.value)} autoComplete="current-password" style={S.input}/>
+        <label>Terminal</label>
+        <input value={terminal} onChange={e => setTerminal(e.target.value)} placeholder="e.g. T1" style={S.input}/>
+        {msg && <div style={{ color: "#b91c1c" }}>{msg}</div>}
+        <button type="submit" disabled={busy || !username || !password} style={S.btnPrimary}>Sign in</button>
+      </form>
+    </div>
+  );
+}
+
+const S: Record<string, React.CSSProperties> = {
+  page: { padding: 16, display: "grid", placeItems: "center", minHeight: "70vh", fontFamily: "Inter, Arial, sans-serif" },
+  card: { display: "grid", gap: 8, width: 320, background: "#fff", border: "1px solid #e5e5e5", borderRadius: 10, padding: 20 },
+  input: { padding: "10px 12px", borderRadius: 8, border: "1px solid #ccc" },
+  btnPrimary: { marginTop: 8, padding: "10px 14px", border: "none", background: "#2563eb", color: "#fff", borderRadius: 8, cursor: "pointer" },
+};
@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { apiFetch, withToken } from "../session";
+
+const API = "http://localhost:3000";
+const fmt = new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR" });
+const INR = (paise: number) => fmt.format(Number(paise || 0) / 100);
+const toPaise = (rupees: number) => Math.max(0, Math.round(Number(rupees || 0) * 100));
+
+type ReturnableLine = {
+  lineId: number;
+  name: string;
+  quantity: number;
+  returnedQuantity: number;
+  returnableQuantity: number;
+  unitPrice: number;
+  lineTotal: number;
+};
+type Lookup = {
+  receiptNumber: string;
+  date: string;
+  totalAmount: number;
+  lines: ReturnableLine[];
+  payments: { id: number; method: string; amount: number; reference?: string | null }[];
+};
+type Result = {
+  returnReceipt: {
+    receiptNumber: string; totalAmount: number; payments: { amount: number; paymentMethod?: { name: string } }[];
+    creditNote?: { number: string; amount: number; balance: number } | null;
+  };
+  saleReceipt?: { receiptNumber: string; totalAmount: number };
+};
+
+export default function Returns() {
+  const [number, setNumber] = useState("");
+  const [sale, setSale] = useState<Lookup | null>(null);
+  const [qty, setQty] = useState<Record<number, number>>({});
+  const [reasons, setReasons] = useState<string[]>([]);
+  const [reason, setReason] = useState("");
+  const [refundMode, setRefundMode] = useState<"ORIGINAL" | "STORE_CREDIT">("ORIGINAL");
+  const [exchange, setExchange] = useState(false);
+  const [balanceCash, setBalanceCash] = useState<number>(0);
+  const [result, setResult] = useState<Result | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState("");
+
+  useEffect(() => {
+    apiFetch(`${API}/api/returns/reasons`)
+      .then(r => r.json())
+      .then((list: string[]) => { setReasons(list); setReason(list[0] ?? ""); })
+      .catch(() => {});
+  }, []);
+
+  async function lookup() {
+    setMsg(""); setResult(null); setSale(null); setQty({});
+    try {
+      const r = await apiFetch(`${API}/api/returns/lookup/${encodeURIComponent(number.trim())}`);
+      if (!r.ok) throw new Error(await r.text());
+      setSale(await r.json());
+    } catch (e: any) {
+      setMsg("Lookup failed: " + (e?.message ?? e));
+    }
+  }
+
+  const refundValue = useMemo(
+    () => (sale?.lines ?? []).reduce((s, l) => s + (l.lineTotal * (qty[l.lineId] || 0)) / l.quantity, 0),
+    [sale, qty]
+  );
+
+  async function submit() {
+    if (!sale) return;
+    const lines = Object.entries(qty).filter(([, q]) => q > 0).map(([lineId, quantity]) => ({ lineId: Number(lineId), quantity }));
+    if (!lines.length) return setMsg("Select quantities to return.");
+    const exchangeCartId = exchange ? localStorage.getItem("pos_cart_id") : null;
+    if (exchange && !exchangeCartId) return setMsg("No open Cashier cart to exchange against.");
+    setBusy(true); setMsg("");
+    try {
+      const r = await apiFetch(`${API}/api/returns`, {
+        method: "POST", headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          receiptNumber: sale.receiptNumber, lines, reason, refundMode,
+          ...(exchange ? { exchangeCartId, payments: balanceCash > 0 ? [{ method: "CASH", amount: toPaise(balanceCash) }] : [] } : {}),
+        }),
+      });
+      if (!r.ok) throw new Error(await r.text());
+      const res: Result = await r.json();
+      setResult(res);
+      setSale(null); setQty({}); setBalanceCash(0);
+      setMsg(`Return recorded ✅ ${res.returnReceipt.receiptNumber}`);
+    } catch (e: any) {
+      setMsg("Return failed: " + (e?.message ?? e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div style={S.page}>
+      <header style={S.header}>
+        <h2 style={{ margin: 0 }}>Returns &amp; Exchanges</h2>
+      </header>
+
+      <section style={S.card}>
+        <h3>Original receipt</h3>
+        <div style={{ display: "flex", gap: 8 }}>
+          <input placeholder="Scan or enter receipt number…" value={number} onChange={e=>setNumber(e.target.value)} onKeyDown={e=>e.key==='Enter'&&lookup()} style={S.input} autoFocus/>
+          <button onClick={lookup} style={S.btn}>Find</button>
+        </div>
+      </section>
+
+      {sale && (
+        <section style={S.card}>
+          <h3>Receipt {sale.receiptNumber} · {new Date(sale.date).toLocaleString()} · {INR(sale.totalAmount)}</h3>
+          <table style={S.table}>
+            <thead>
+              <tr><th style={{textAlign:'left'}}>Item</th><th style={{textAlign:'right'}}>Sold</th><th style={{textAlign:'right'}}>Returned</th><th style={{textAlign:'right'}}>Amount</th><th style={{textAlign:'right'}}>Return qty</th></tr>
+            </thead>
+            <tbody>
+              {sale.lines.map(l => (
+                <tr key={l.lineId}>
+                  <td>{l.name}</td>
+                  <td style={{textAlign:'right'}}>{l.quantity}</td>
+                  <td style={{textAlign:'right'}}>{l.returnedQuantity}</td>
+                  <td style={{textAlign:'right'}}>{INR(l.lineTotal)}</td>
+                  <td style={{textAlign:'right', width: 120}}>
+                    <input type="number" min={0} max={l.returnableQuantity} value={qty[l.lineId] ?? 0} disabled={l.returnableQuantity <= 0}
+                      onChange={e => setQty({ ...qty, [l.lineId]: Math.min(l.returnableQuantity, Math.max(0, Number(e.target.value))) })} style={S.input}/>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 10, marginTop: 12 }}>
+            <div><label>Reason</label>
+              <select value={reason} onChange={e=>setReason(e.target.value)} style={S.input}>
+                {reasons.map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+            </div>
+            <div><label>Refund to</label>
+              <select value={refundMode} onChange={e=>setRefundMode(e.target.value as any)} style={S.input}>
+                <option value="ORIGINAL">Original tender(s)</option>
+                <option value="STORE_CREDIT">Store credit</option>
+              </select>
+            </div>
+            <div>
+              <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                <input type="checkbox" checked={exchange} onChange={e=>setExchange(e.target.checked)}/>
+                Exchange against open Cashier cart
+              </label>
+              {exchange && (<><label>Balance paid in cash (₹)</label><input type="number" step="0.01" min={0} value={balanceCash} onChange={e=>setBalanceCash(Number(e.target.value))} style={S.input}/></>)}
+            </div>
+          </div>
+
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginTop: 12 }}>
+            <div style={{ fontWeight: 700 }}>Refund value: {INR(refundValue)}</div>
+            <button onClick={submit} disabled={busy || refundValue <= 0} style={S.btnPrimary}>{exchange ? "Complete Exchange" : "Complete Return"}</button>
+          </div>
+        </section>
+      )}
+
+      {result && (
+        <section style={S.card}>
+          <h3>Return {result.returnReceipt.receiptNumber}</h3>
+          {result.returnReceipt.payments.map((p, i) => (
+            <div key={i}>{p.paymentMethod?.name ?? "Refund"}: {INR(Math.abs(p.amount))}</div>
+          ))}
+          {result.returnReceipt.creditNote && result.returnReceipt.creditNote.balance > 0 && (
+            <div style={{ marginTop: 6, fontWeight: 600 }}>
+              Credit note {result.returnReceipt.creditNote.number}: {INR(result.returnReceipt.creditNote.balance)} left
+            </div>
+          )}
+          {result.saleReceipt && <div style={{ marginTop: 6 }}>Exchange sale {result.saleReceipt.receiptNumber}: {INR(result.saleReceipt.totalAmount)}</div>}
+          <div style={{ marginTop: 8 }}>
+            <a href={withToken(`${API}/api/receipts/${encodeURIComponent(result.returnReceipt.receiptNumber)}/print`)} target="_blank" rel="noreferrer">Print return receipt</a>
+          </div>
+        </section>
+      )}
+
+      {msg && <div style={{ marginTop: 8, color: "#444" }}>{msg}</div>}
+    </div>
+  );
+}
+
+const S: Record<string, React.CSSProperties> = {
+  page: { padding: 16, maxWidth: 1100, margin: "0 auto", fontFamily: "Inter, Arial, sans-serif" },
+  header: { display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 12 },
+  card: { background: "#fff", border: "1px solid #e5e5e5", borderRadius: 10, padding: 14, marginBottom: 12 },
+  input: { padding: "10px 12px", borderRadius: 8, border: "1px solid #ccc", width: "100%" },
+  btn: { padding: "10px 14px", border: "1px solid #cfd2d7", background: "#fff", borderRadius: 8, cursor: "pointer" },
+  btnPrimary: { padding: "10px 14px", border: "none", background: "#2563eb", color: "#fff", borderRadius: 8, cursor: "pointer" },
+  table: { width: "100%", borderCollapse: "collapse" },
+};
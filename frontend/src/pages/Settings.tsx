@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from "react";
+import { apiFetch } from "../session";
+
+const API = "http://localhost:3000";
+
+type Settings = {
+  storeName: string; storeAddress: string; storePhone: string; gstin: string; placeOfSupply: string; timezone: string;
+  upiVpa: string; upiPayeeName: string; receiptPrefix: string; creditNotePrefix: string; purchaseOrderPrefix: string;
+  goodsReceiptPrefix: string; terminals: string[]; loyaltyPointsPerRupee: number; loyaltyPointValue: number; receiptFooter: string; roundOff: "NONE" | "RUPEE";
+  pricesIncludeTax: boolean; allowNegativeStock: boolean; printer: string; printerPaper: "58mm" | "80mm";
+  overridePriceBelowCost: boolean; overrideDiscountPercent: number; overrideVoidAfterPayment: boolean; overrideNoSale: boolean;
+};
+type State = { code: string; abbr: string; name: string };
+
+export default function SettingsPage() {
+  const [form, setForm] = useState<Settings | null>(null);
+  const [states, setStates] = useState<State[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string>("");
+
+  useEffect(() => {
+    apiFetch(`${API}/api/settings`)
+      .then(r => r.json())
+      .then(setForm)
+      .catch((e: any) => setMsg("Load settings failed: " + (e?.message ?? e)));
+    apiFetch(`${API}/api/tax/states`)
+      .then(r => r.json())
+      .then(setStates)
+      .catch(() => {});
+  }, []);
+
+  const set = <K extends keyof Settings>(key: K, value: Settings[K]) =>
+    setForm(f => (f ? { ...f, [key]: value } : f));
+
+  async function save() {
+    if (!form) return;
+    setBusy(true); setMsg("");
+    try {
+      const r = await apiFetch(`${API}/api/settings`, {
+        method: "PUT", headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j.error ?? r.statusText);
+      setForm(j);
+      setMsg("Settings saved ✅");
+    } catch (e: any) {
+      setMsg("Save failed: " + (e?.message ?? e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!form) return <div style={S.page}>{msg || "Loading…"}</div>;
+
+  const field = (label: string, key: keyof Settings, placeholder = "") => (
+    <div><label>{label}</label>
+      <input value={String(form[key])} placeholder={placeholder} onChange={e => set(key, e.target.value as never)} style={S.input}/>
+    </div>
+  );
+
+  return (
+    <div style={S.page}>
+      <header style={S.header}>
+        <h2 style={{ margin: 0 }}>Settings</h2>
+        <button onClick={save} disabled={busy} style={S.btnPrimary}>Save</button>
+      </header>
+      {msg && <div style={{ marginBottom: 12 }}>{msg}</div>}
+
+      <section style={S.card}>
+        <h3>Store</h3>
+        <div style={S.grid}>
+          {field("Name", "storeName")}
+          {field("Phone", "storePhone")}
+          <div style={{ gridColumn: "1 / -1" }}><label>Address</label>
+            <textarea value={form.storeAddress} onChange={e => set("storeAddress", e.target.value)} rows={2} style={S.input}/>
+          </div>
+          {field("GSTIN", "gstin", "Leave blank if not registered")}
+          <div><label>GST state</label>
+            <select value={form.placeOfSupply} onChange={e => set("placeOfSupply", e.target.value)} style={S.input}>
+              {states.map(st => <option key={st.code} value={st.code}>{st.code} – {st.name}</option>)}
+            </select>
+          </div>
+          {field("Time zone (business day)", "timezone", "Asia/Kolkata")}
+        </div>
+      </section>
+
+      <section style={S.card}>
+        <h3>UPI</h3>
+        <div style={S.grid}>
+          {field("VPA", "upiVpa", "store@bank")}
+          {field("Payee name", "upiPayeeName", form.storeName)}
+        </div>
+        <div style={{ color: "#666", marginTop: 6 }}>Without a VPA the Cashier and receipts show no scan-to-pay QR code.</div>
+      </section>
+
+      <section style={S.card}>
+        <h3>Billing</h3>
+        <div style={S.grid}>
+          <div><label>Round off</label>
+            <select value={form.roundOff} onChange={e => set("roundOff", e.target.value as Settings["roundOff"])} style={S.input}>
+              <option value="NONE">None</option>
+              <option value="RUPEE">Nearest rupee</option>
+            </select>
+          </div>
+          <label style={S.check}>
+            <input type="checkbox" checked={form.pricesIncludeTax} onChange={e => set("pricesIncludeTax", e.target.checked)} />
+            Prices include GST
+          </label>
+          <label style={S.check}>
+            <input type="checkbox" checked={form.allowNegativeStock} onChange={e => set("allowNegativeStock", e.target.checked)} />
+            Allow negative inventory
+          </label>
+          {field("Terminals (comma-separated)", "terminals", "T1,T2")}
+        </div>
+      </section>
+
+      <section style={S.card}>
+        <h3>Numbering</h3>
+        <div style={S.grid}>
+          {field("Sale prefix", "receiptPrefix", "{terminal}-")}
+          {field("Credit note prefix", "creditNotePrefix", "{terminal}-CN")}
+          {field("Purchase order prefix", "purchaseOrderPrefix", "{terminal}-PO")}
+          {field("Goods receipt prefix", "goodsReceiptPrefix", "{terminal}-GRN")}
+        </div>
+        <div style={{ color: "#666", marginTop: 6 }}>{"{terminal}"} is replaced by the till id; a number may be at most 16 characters.</div>
+      </section>
+
+      <section style={S.card}>
+        <h3>Loyalty</h3>
+        <div style={S.grid}>
+          {field("Points per rupee spent", "loyaltyPointsPerRupee", "0.01")}
+          {field("Point value (paise)", "loyaltyPointValue", "100")}
+        </div>
+      </section>
+
+      <section style={S.card}>
+        <h3>Supervisor approval</h3>
+        <div style={S.grid}>
+          <div><label>Manual discount above (%)</label>
+            <input type="number" min={0} max={100} value={form.overrideDiscountPercent} onChange={e => set("overrideDiscountPercent", Number(e.target.value))} style={S.input}/>
+          </div>
+          <label style={S.check}>
+            <input type="checkbox" checked={form.overridePriceBelowCost} onChange={e => set("overridePriceBelowCost", e.target.checked)} />
+            Price edited below cost
+          </label>
+          <label style={S.check}>
+            <input type="checkbox" checked={form.overrideVoidAfterPayment} onChange={e => set("overrideVoidAfterPayment", e.target.checked)} />
+            Removing items once payment has started
+          </label>
+          <label style={S.check}>
+            <input type="checkbox" checked={form.overrideNoSale} onChange={e => set("overrideNoSale", e.target.checked)} />
+            No sale (opening the drawer)
+          </label>
+        </div>
+        <div style={{ color: "#666", marginTop: 6 }}>These need a supervisor's PIN at the till.</div>
+      </section>
+
+      <section style={S.card}>
+        <h3>Receipts</h3>
+        <div style={S.grid}>
+          {field("Printer", "printer", "tcp://192.168.1.50:9100 or /dev/usb/lp0")}
+          <div><label>Paper</label>
+            <select value={form.printerPaper} onChange={e => set("printerPaper", e.target.value as Settings["printerPaper"])} style={S.input}>
+              <option value="80mm">80mm</option>
+              <option value="58mm">58mm</option>
+            </select>
+          </div>
+          <div style={{ gridColumn: "1 / -1" }}><label>Footer</label>
+            <textarea value={form.receiptFooter} onChange={e => set("receiptFooter", e.target.value)} rows={2} style={S.input}/>
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+}
+
+const S: Record<string, React.CSSProperties> = {
+  page: { padding: 16, maxWidth: 1100, margin: "0 auto", fontFamily: "Inter, Arial, sans-serif" },
+  header: { display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 12 },
+  card: { background: "#fff", border: "1px solid #e5e5e5", borderRadius: 10, padding: 14, marginBottom: 12 },
+  grid: { display: "grid", gridTemplateColumns: "repeat(2, 1fr)", gap: 10 },
+  input: { padding: "10px 12px", borderRadius: 8, border: "1px solid #ccc", width: "100%" },
+  check: { display: "flex", alignItems: "center", gap: 8 },
+  btnPrimary: { padding: "10px 14px", border: "none", background: "#2563eb", color: "#fff", borderRadius: 8, cursor: "pointer" },
+};
@@ -0,0 +1,316 @@
+import React, { useEffect, useState } from "react";
+import { apiFetch, can } from "../session";
+
+const API = "http://localhost:3000";
+
+const toPaise = (rupees: number) => Math.max(0, Math.round(Number(rupees || 0) * 100));
+const rupees = (p: number) => (p / 100).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const signed = (p: number) => (p > 0 ? "+" : "") + rupees(p);
+
+type Person = { id?: number; username: string; fullName: string };
+type Movement = { id: number; type: string; amount: number; reason: string | null; createdAt: string };
+type Shift = {
+  id: number; terminal: string; status: "OPEN" | "CLOSED"; openedAt: string; openingFloat: number;
+  closedAt: string | null; variance: number | null; opener: Person; closer: Person | null; movements?: Movement[];
+};
+type Method = { id: number; code: string; name: string };
+type Report = {
+  kind: "X" | "Z";
+  shift: Shift & { notes: string | null };
+  sales: { count: number; total: number };
+  returns: { count: number; total: number };
+  tenders: { code: string; name: string; sales: number; refunds: number; net: number }[];
+  cash: { openingFloat: number; drops: number; payouts: number; payins: number };
+  expected: Record<string, number>;
+  reconciliation: null | { rows: { code: string; expected: number; counted: number; variance: number }[]; variance: number };
+};
+
+export default function ShiftPage() {
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [denominations, setDenominations] = useState<number[]>([]);
+  const [countable, setCountable] = useState<Method[]>([]);
+  const [float, setFloat] = useState<number>(0);
+  const [move, setMove] = useState({ type: "DROP", amount: 0, reason: "" });
+  const [notes, setNotes] = useState<Record<string, number>>({});
+  const [tenders, setTenders] = useState<Record<string, number>>({});
+  const [remarks, setRemarks] = useState("");
+  const [closing, setClosing] = useState(false);
+  const [report, setReport] = useState<Report | null>(null);
+  const [history, setHistory] = useState<Shift[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string>("");
+  const supervisor = can("reports");
+
+  useEffect(() => {
+    loadCurrent();
+    Promise.all([
+      apiFetch(`${API}/api/shifts/denominations`).then(r => r.json()),
+      apiFetch(`${API}/api/payment-methods`).then(r => r.json()),
+    ]).then(([d, methods]: [{ denominations: number[]; uncounted: string[] }, Method[]]) => {
+      setDenominations(d.denominations);
+      setCountable(methods.filter(m => m.code !== "CASH" && !d.uncounted.includes(m.code)));
+    }).catch(() => {});
+    if (supervisor) loadHistory();
+  }, []);
+
+  async function loadCurrent() {
+    const r = await apiFetch(`${API}/api/shifts/current`);
+    setShift(r.ok ? await r.json() : null);
+    setLoaded(true);
+  }
+
+  async function loadHistory() {
+    const r = await apiFetch(`${API}/api/shifts?limit=20`);
+    if (r.ok) setHistory(await r.json());
+  }
+
+  async function post(path: string, body: unknown) {
+    const r = await apiFetch(`${API}${path}`, {
+      method: "POST", headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const j = await r.json().catch(() => ({}));
+    if (!r.ok) throw new Error(j.error ?? r.statusText);
+    return j;
+  }
+
+  async function run(fn: () => Promise<void>) {
+    setBusy(true); setMsg("");
+    try {
+      await fn();
+    } catch (e: any) {
+      setMsg(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const open = () => run(async () => {
+    setShift(await post("/api/shifts/open", { openingFloat: toPaise(float) }));
+    setReport(null);
+    setMsg("Shift opened ✅");
+  });
+
+  const record = () => run(async () => {
+    await post("/api/shifts/current/movements", { ...move, amount: toPaise(move.amount) });
+    setMove({ type: move.type, amount: 0, reason: "" });
+    await loadCurrent();
+    setMsg(`${label(move.type)} recorded ✅`);
+  });
+
+  const close = () => run(async () => {
+    if (!window.confirm("Close the shift with this count? It cannot be changed afterwards.")) return;
+    const z: Report = await post("/api/shifts/current/close", {
+      cash: notes,
+      tenders: Object.fromEntries(countable.map(m => [m.code, toPaise(tenders[m.code] ?? 0)])),
+      notes: remarks.trim() || undefined,
+    });
+    setReport(z);
+    setShift(null);
+    setClosing(false);
+    setNotes({}); setTenders({}); setRemarks("");
+    if (supervisor) loadHistory();
+  });
+
+  const showReport = (id: number) => run(async () => {
+    const r = await apiFetch(`${API}/api/shifts/${id}/report`);
+    const j = await r.json();
+    if (!r.ok) throw new Error(j.error ?? r.statusText);
+    setReport(j);
+  });
+
+  const print = (id: number) => run(async () => {
+    await post(`/api/shifts/${id}/print`, {});
+    setMsg("Sent to the receipt printer 🖨");
+  });
+
+  const cashCounted = denominations.reduce((s, d) => s + d * 100 * (notes[d] ?? 0), 0);
+
+  if (!loaded) return <div style={S.page}>Loading…</div>;
+
+  return (
+    <div style={S.page}>
+      <header style={S.header}>
+        <h2 style={{ margin: 0 }}>Shift</h2>
+        {shift && <span style={{ color: "#666" }}>#{shift.id} on {shift.terminal} · opened {new Date(shift.openedAt).toLocaleString("en-IN")} by {shift.opener.fullName}</span>}
+      </header>
+      {msg && <div style={S.card}>{msg}</div>}
+
+      {!shift && (
+        <section style={S.card}>
+          <h3 style={S.h3}>Open a shift</h3>
+          <div style={{ display: "flex", gap: 10, alignItems: "end" }}>
+            <div><label>Opening float (₹)</label>
+              <input type="number" min={0} step="0.01" value={float} onChange={e => setFloat(Number(e.target.value))} style={S.input}/>
+            </div>
+            <button onClick={open} disabled={busy} style={S.btnPrimary}>Open shift</button>
+          </div>
+        </section>
+      )}
+
+      {shift && !closing && (
+        <>
+          <section style={S.card}>
+            <h3 style={S.h3}>Cash in and out</h3>
+            <div style={{ display: "grid", gridTemplateColumns: "160px 160px 1fr auto", gap: 10, alignItems: "end" }}>
+              <div><label>Type</label>
+                <select value={move.type} onChange={e => setMove({ ...move, type: e.target.value })} style={S.input}>
+                  <option value="DROP">Cash drop</option>
+                  <option value="PAYOUT">Pay-out</option>
+                  <option value="PAYIN">Pay-in</option>
+                </select>
+              </div>
+              <div><label>Amount (₹)</label>
+                <input type="number" min={0} step="0.01" value={move.amount} onChange={e => setMove({ ...move, amount: Number(e.target.value) })} style={S.input}/>
+              </div>
+              <div><label>Reason</label>
+                <input value={move.reason} onChange={e => setMove({ ...move, reason: e.target.value })} placeholder={move.type === "DROP" ? "Optional" : "Required"} style={S.input}/>
+              </div>
+              <button onClick={record} disabled={busy || move.amount <= 0} style={S.btn}>Record</button>
+            </div>
+            {!!shift.movements?.length && (
+              <table style={{ ...S.table, marginTop: 10 }}>
+                <thead><tr><th>When</th><th>Type</th><th style={S.num}>Amount</th><th>Reason</th></tr></thead>
+                <tbody>
+                  {shift.movements.map(m => (
+                    <tr key={m.id} style={S.row}>
+                      <td>{new Date(m.createdAt).toLocaleTimeString("en-IN")}</td>
+                      <td>{label(m.type)}</td>
+                      <td style={S.num}>{rupees(m.amount)}</td>
+                      <td>{m.reason ?? ""}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+          <div style={{ display: "flex", gap: 8, marginBottom: 12 }}>
+            <button onClick={() => setClosing(true)} style={S.btnPrimary}>Close shift…</button>
+            {supervisor && <button onClick={() => showReport(shift.id)} disabled={busy} style={S.btn}>X report</button>}
+            {supervisor && <button onClick={() => print(shift.id)} disabled={busy} style={S.btn}>Print X</button>}
+          </div>
+        </>
+      )}
+
+      {shift && closing && (
+        <section style={S.card}>
+          <h3 style={S.h3}>Count the drawer</h3>
+          <p style={{ color: "#666", marginTop: 0 }}>Count every note and coin, then enter the totals of card and UPI slips.</p>
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(5, 1fr)", gap: 10 }}>
+            {denominations.map(d => (
+              <div key={d}><label>₹{d} ×</label>
+                <input type="number" min={0} step={1} value={notes[d] ?? ""} onChange={e => setNotes({ ...notes, [d]: Math.max(0, Math.floor(Number(e.target.value))) })} style={S.input}/>
+              </div>
+            ))}
+          </div>
+          <div style={{ margin: "10px 0", fontWeight: 600 }}>Cash counted: ₹{rupees(cashCounted)}</div>
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10 }}>
+            {countable.map(m => (
+              <div key={m.code}><label>{m.name} (₹)</label>
+                <input type="number" min={0} step="0.01" value={tenders[m.code] ?? ""} onChange={e => setTenders({ ...tenders, [m.code]: Number(e.target.value) })} style={S.input}/>
+              </div>
+            ))}
+          </div>
+          <div style={{ marginTop: 10 }}><label>Notes</label>
+            <input value={remarks} onChange={e => setRemarks(e.target.value)} style={S.input}/>
+          </div>
+          <div style={{ display: "flex", gap: 8, justifyContent: "flex-end", marginTop: 10 }}>
+            <button onClick={() => setClosing(false)} disabled={busy} style={S.btn}>Back</button>
+            <button onClick={close} disabled={busy} style={S.btnPrimary}>Close shift</button>
+          </div>
+        </section>
+      )}
+
+      {report && (
+        <section style={S.card}>
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+            <h3 style={S.h3}>{report.kind} report · shift #{report.shift.id}</h3>
+            <button onClick={() => print(report.shift.id)} disabled={busy} style={S.btn}>Print {report.kind}</button>
+          </div>
+          <div style={{ color: "#666", marginBottom: 8 }}>
+            {report.shift.terminal} · opened {new Date(report.shift.openedAt).toLocaleString("en-IN")} by {report.shift.opener.fullName}
+            {report.shift.closedAt && <> · closed {new Date(report.shift.closedAt).toLocaleString("en-IN")} by {report.shift.closer?.fullName}</>}
+          </div>
+          <div style={{ display: "flex", gap: 24, marginBottom: 8 }}>
+            <span>Sales: {report.sales.count} · ₹{rupees(report.sales.total)}</span>
+            <span>Returns: {report.returns.count} · ₹{rupees(report.returns.total)}</span>
+            <b>Net: ₹{rupees(report.sales.total + report.returns.total)}</b>
+          </div>
+          <table style={S.table}>
+            <thead><tr><th>Tender</th><th style={S.num}>Sales</th><th style={S.num}>Refunds</th><th style={S.num}>Net</th></tr></thead>
+            <tbody>
+              {report.tenders.map(t => (
+                <tr key={t.code} style={S.row}>
+                  <td>{t.name}</td><td style={S.num}>{rupees(t.sales)}</td><td style={S.num}>{rupees(t.refunds)}</td><td style={S.num}>{rupees(t.net)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div style={{ margin: "8px 0" }}>
+            Float ₹{rupees(report.cash.openingFloat)} · drops ₹{rupees(report.cash.drops)} · pay-outs ₹{rupees(report.cash.payouts)} · pay-ins ₹{rupees(report.cash.payins)}
+          </div>
+          {report.reconciliation ? (
+            <table style={S.table}>
+              <thead><tr><th>Tender</th><th style={S.num}>Expected</th><th style={S.num}>Counted</th><th style={S.num}>Variance</th></tr></thead>
+              <tbody>
+                {report.reconciliation.rows.map(r => (
+                  <tr key={r.code} style={S.row}>
+                    <td>{report.tenders.find(t => t.code === r.code)?.name ?? r.code}</td>
+                    <td style={S.num}>{rupees(r.expected)}</td>
+                    <td style={S.num}>{rupees(r.counted)}</td>
+                    <td style={{ ...S.num, color: r.variance ? "#b91c1c" : undefined }}>{signed(r.variance)}</td>
+                  </tr>
+                ))}
+                <tr style={{ ...S.row, fontWeight: 700 }}>
+                  <td>Total</td><td/><td/>
+                  <td style={{ ...S.num, color: report.reconciliation.variance ? "#b91c1c" : undefined }}>{signed(report.reconciliation.variance)}</td>
+                </tr>
+              </tbody>
+            </table>
+          ) : (
+            <div>Expected in drawer: {Object.entries(report.expected).map(([code, p]) => `${code} ₹${rupees(p)}`).join(" · ")}</div>
+          )}
+        </section>
+      )}
+
+      {supervisor && history.length > 0 && (
+        <section style={S.card}>
+          <h3 style={S.h3}>Recent shifts</h3>
+          <table style={S.table}>
+            <thead><tr><th>#</th><th>Terminal</th><th>Opened</th><th>Closed</th><th style={S.num}>Variance</th><th/></tr></thead>
+            <tbody>
+              {history.map(h => (
+                <tr key={h.id} style={S.row}>
+                  <td>{h.id}</td>
+                  <td>{h.terminal}</td>
+                  <td>{new Date(h.openedAt).toLocaleString("en-IN")} · {h.opener.fullName}</td>
+                  <td>{h.closedAt ? `${new Date(h.closedAt).toLocaleString("en-IN")} · ${h.closer?.fullName ?? ""}` : "open"}</td>
+                  <td style={{ ...S.num, color: h.variance ? "#b91c1c" : undefined }}>{h.variance == null ? "" : signed(h.variance)}</td>
+                  <td><button onClick={() => showReport(h.id)} disabled={busy} style={S.btn}>{h.status === "OPEN" ? "X" : "Z"} report</button></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  );
+}
+
+function label(type: string) {
+  return type === "DROP" ? "Cash drop" : type === "PAYOUT" ? "Pay-out" : "Pay-in";
+}
+
+const S: Record<string, React.CSSProperties> = {
+  page: { padding: 16, maxWidth: 1100, margin: "0 auto", fontFamily: "Inter, Arial, sans-serif" },
+  header: { display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 12 },
+  card: { background: "#fff", border: "1px solid #e5e5e5", borderRadius: 10, padding: 14, marginBottom: 12 },
+  h3: { margin: "0 0 10px" },
+  input: { padding: "10px 12px", borderRadius: 8, border: "1px solid #ccc", width: "100%" },
+  btn: { padding: "10px 14px", border: "1px solid #cfd2d7", background: "#fff", borderRadius: 8, cursor: "pointer" },
+  btnPrimary: { padding: "10px 14px", border: "none", background: "#2563eb", color: "#fff", borderRadius: 8, cursor: "pointer" },
+  table: { width: "100%", borderCollapse: "collapse", fontSize: 14 },
+  row: { borderTop: "1px solid #eee" },
+  num: { textAlign: "right" },
+};
@@ -0,0 +1,47 @@
+/** The signed-in user's session, kept in localStorage so a reload stays signed in */
+
+export type SessionUser = { id: number; username: string; fullName: string; role: string; permissions: string[]; terminal: string | null };
+export type Session = { token: string; expiresAt: string; user: SessionUser };
+
+const KEY = "pos_session";
+/** fired on window when the session starts or ends */
+export const SESSION_EVENT = "pos-session";
+
+export function getSession(): Session | null {
+  try {
+    const s: Session | null = JSON.parse(localStorage.getItem(KEY) ?? "null");
+    return s && new Date(s.expiresAt) > new Date() ? s : null;
+  } catch {
+    return null;
+  }
+}
+
+export function setSession(s: Session | null) {
+  if (s) localStorage.setItem(KEY, JSON.stringify(s));
+  else localStorage.removeItem(KEY);
+  window.dispatchEvent(new Event(SESSION_EVENT));
+}
+
+export const can = (permission: string) => !!getSession()?.user.permissions.includes(permission);
+
+/** fetch with the session's bearer token; a 401 ends the session so the login screen shows */
+export async function apiFetch(input: string, init: RequestInit = {}) {
+  const token = getSession()?.token;
+  const headers = new Headers(init.headers);
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+  const r = await fetch(input, { ...init, headers });
+  if (r.status === 401 && token) setSession(null);
+  return r;
+}
+
+/** A link to an API page opened in a new window (which cannot send headers) */
+export const withToken = (url: string) => {
+  const token = getSession()?.token;
+  return token ? `${url}${url.includes("?") ? "&" : "?"}token=${encodeURIComponent(token)}` : url;
+};
+
+/** End the session on the backend and here */
+export async function logout(api: string) {
+  await apiFetch(`${api}/api/auth/logout`, { method: "POST" }).catch(() => {});
+  setSession(null);
+}